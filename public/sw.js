@@ -0,0 +1,93 @@
+// Offline support: app shell, built assets and OpenStreetMap tiles.
+// Supabase data is cached in IndexedDB by the app itself (src/lib/offline).
+
+const SHELL_CACHE = "wanderer-shell-v1";
+const ASSET_CACHE = "wanderer-assets-v1";
+// Tiles seen while browsing, trimmed so it cannot grow without bound. Only
+// viewed tiles are kept: the OpenStreetMap tile policy forbids bulk downloads.
+// Caches not listed below, like the old pre-download cache, are deleted.
+const BROWSED_TILE_CACHE = "wanderer-browsed-tiles-v1";
+const MAX_BROWSED_TILES = 1500;
+
+const KNOWN_CACHES = [SHELL_CACHE, ASSET_CACHE, BROWSED_TILE_CACHE];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(["/", "/index.html", "/favicon.ico"]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !KNOWN_CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// a.tile.openstreetmap.org/1/2/3.png and tile.openstreetmap.org/1/2/3.png are the same tile
+const canonicalTileUrl = (url) => `https://tile.openstreetmap.org${url.pathname}`;
+
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+const handleTile = async (url) => {
+  const key = canonicalTileUrl(url);
+  const cached = await caches.match(key, { cacheName: BROWSED_TILE_CACHE });
+  if (cached) return cached;
+
+  const response = await fetch(key);
+  if (response.ok) {
+    const cache = await caches.open(BROWSED_TILE_CACHE);
+    await cache.put(key, response.clone());
+    trimCache(BROWSED_TILE_CACHE, MAX_BROWSED_TILES);
+  }
+  return response;
+};
+
+// Navigations try the network first so deploys show up, then fall back to the shell
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put("/index.html", response.clone());
+    return response;
+  } catch {
+    return (await caches.match("/index.html", { cacheName: SHELL_CACHE })) || Response.error();
+  }
+};
+
+// Built assets have hashed names, so a cached copy is always correct
+const handleAsset = async (request) => {
+  const cached = await caches.match(request, { cacheName: ASSET_CACHE });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (url.hostname.endsWith("tile.openstreetmap.org")) {
+    event.respondWith(handleTile(url));
+  } else if (request.mode === "navigate" && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(handleAsset(request));
+  }
+});
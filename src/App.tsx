@@ -5,16 +5,22 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/components/ThemeProvider";
+import OfflineStatus from "@/components/OfflineStatus";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Signup from "./pages/Signup";
 import Explore from "./pages/Explore";
 import MyItinerary from "./pages/MyItinerary";
+import JoinItinerary from "./pages/JoinItinerary";
+import SharedTrip from "./pages/SharedTrip";
 import RoutePage from "./pages/RoutePage";
 import Dashboard from "./pages/Dashboard";
 import AdminDashboard from "./pages/AdminDashboard";
 import MapPage from "./pages/MapPage";
 import SpotDetail from "./pages/SpotDetail";
+import PlaceDetail from "./pages/PlaceDetail";
+import Passport from "./pages/Passport";
+import Events from "./pages/Events";
 import NotFound from "./pages/NotFound";
 import EmergencyHotlines from "./pages/EmergencyHotlinePage";
 import ForgotPassword from "./pages/ForgotPassword";
@@ -30,6 +36,7 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <OfflineStatus />
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
@@ -42,10 +49,16 @@ const App = () => (
             <Route path="/forgot-password" element={<ForgotPassword />} />
             <Route path="/reset-password" element={<ResetPassword />} />
             <Route path="/explore" element={<Explore />} />
+            <Route path="/events" element={<Events />} />
             <Route path="/spot/:id" element={<SpotDetail />} />
+            <Route path="/accommodation/:id" element={<PlaceDetail kind="accommodation" />} />
+            <Route path="/restaurant/:id" element={<PlaceDetail kind="restaurant" />} />
             <Route path="/my-itinerary" element={<MyItinerary />} />
+            <Route path="/invite/:token" element={<JoinItinerary />} />
+            <Route path="/trip/:shareId" element={<SharedTrip />} />
             <Route path="/route" element={<RoutePage />} />
             <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/passport" element={<Passport />} />
             <Route path="/admin" element={<AdminDashboard />} />
             <Route path="/map" element={<MapPage />} />
             <Route path="/emergency-hotlines" element={<EmergencyHotlines />} />
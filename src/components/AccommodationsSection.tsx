@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,6 +7,7 @@ import { Building2, MapPin, Star, Phone, Mail, Wifi, Plus } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { AddToItineraryDialog } from "@/components/AddToItineraryDialog";
 import { Session } from "@supabase/supabase-js";
+import { ReviewStats, fetchReviewStats } from "@/lib/reviews";
 
 interface Accommodation {
   id: string;
@@ -32,7 +34,9 @@ interface AccommodationsSectionProps {
 }
 
 const AccommodationsSection = ({ userId, filters }: AccommodationsSectionProps) => {
+  const navigate = useNavigate();
   const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
+  const [reviewStats, setReviewStats] = useState<Map<string, ReviewStats>>(new Map());
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>("All");
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -86,6 +90,9 @@ const AccommodationsSection = ({ userId, filters }: AccommodationsSectionProps)
         }
 
         setAccommodations(filtered);
+        fetchReviewStats("accommodation", filtered.map((acc) => acc.id))
+          .then(setReviewStats)
+          .catch((statsError) => console.error("Error fetching review stats:", statsError));
       }
     } catch (error) {
       console.error("Error fetching accommodations:", error);
@@ -147,12 +154,7 @@ const AccommodationsSection = ({ userId, filters }: AccommodationsSectionProps)
             <Card
               key={accommodation.id}
               className="group cursor-pointer hover:shadow-xl transition-all overflow-hidden"
-              onClick={() => {
-                if (userId) {
-                  setSelectedAccommodation({ id: accommodation.id, name: accommodation.name });
-                  setDialogOpen(true);
-                }
-              }}
+              onClick={() => navigate(`/accommodation/${accommodation.id}`)}
             >
               <div className="relative h-48 overflow-hidden bg-muted">
                 {accommodation.image_url ? (
@@ -203,6 +205,11 @@ const AccommodationsSection = ({ userId, filters }: AccommodationsSectionProps)
                   <div className="flex items-center gap-1 mb-3">
                     <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
                     <span className="text-sm font-medium">{accommodation.rating.toFixed(1)}</span>
+                    {reviewStats.get(accommodation.id)?.review_count > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        ({reviewStats.get(accommodation.id).review_count} reviews)
+                      </span>
+                    )}
                   </div>
                 )}
 
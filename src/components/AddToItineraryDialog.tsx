@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import {
   Dialog,
@@ -11,22 +11,49 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Plus, List } from "lucide-react";
+import { Plus, List, AlertTriangle } from "lucide-react";
+import {
+  ItineraryStop,
+  ItineraryStopType,
+  STOP_TABLES,
+  countStops,
+  parseDays,
+  toItineraryColumns,
+} from "@/lib/itinerary";
+import { DEFAULT_MEAL_MINUTES } from "@/lib/restaurants";
+import { toLatLng, zonesAt } from "@/lib/hazards";
+import { useHazardZones } from "@/hooks/useHazardZones";
+import { fetchMemberships, isOutdatedError, saveItineraryPlan } from "@/lib/collaboration";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Itinerary {
   id: string;
   name: string;
-  spots: any;
+  days: Json | null;
+  spots: Json | null;
 }
 
+// Stored alongside the stop so maps and hazard checks work without a lookup
+type ItemDetails = Pick<
+  ItineraryStop,
+  "description" | "location" | "municipality" | "category" | "image_url" | "latitude" | "longitude"
+>;
+
+// Retries when other members keep saving while the stop is being added
+const MAX_SAVE_ATTEMPTS = 3;
+
 interface AddToItineraryDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   itemId: string;
   itemName: string;
-  itemType: "spot" | "accommodation";
+  itemType: ItineraryStopType;
   userId: string;
+  // "YYYY-MM-DD"; preselects the day with that date, e.g. an event's day
+  suggestedDate?: string | null;
+  timing?: Pick<ItineraryStop, "start_time" | "duration_minutes">;
 }
 
 export const AddToItineraryDialog = ({
@@ -36,12 +63,18 @@ export const AddToItineraryDialog = ({
   itemName,
   itemType,
   userId,
+  suggestedDate,
+  timing,
 }: AddToItineraryDialogProps) => {
   const [itineraries, setItineraries] = useState<Itinerary[]>([]);
   const [selectedItinerary, setSelectedItinerary] = useState<string>("");
+  const [selectedDay, setSelectedDay] = useState<string>("0");
   const [newItineraryName, setNewItineraryName] = useState("");
   const [mode, setMode] = useState<"select" | "create">("select");
   const [loading, setLoading] = useState(false);
+  const [itemDetails, setItemDetails] = useState<ItemDetails | null>(null);
+  const { zones } = useHazardZones(open);
+  const hazards = itemDetails ? zonesAt(toLatLng(itemDetails), zones) : [];
 
   useEffect(() => {
     if (open) {
@@ -49,21 +82,103 @@ export const AddToItineraryDialog = ({
     }
   }, [open, userId]);
 
-  const fetchItineraries = async () => {
+  useEffect(() => {
+    if (open) {
+      fetchItemDetails();
+    }
+  }, [open, itemId, itemType]);
+
+  const selectedDays = useMemo(() => {
+    const itinerary = itineraries.find((item) => item.id === selectedItinerary);
+    return itinerary ? parseDays(itinerary.days, itinerary.spots) : [];
+  }, [itineraries, selectedItinerary]);
+
+  // Default to the day matching the suggested date, otherwise the last day
+  useEffect(() => {
+    const matching = selectedDays.findIndex((day) => suggestedDate && day.date === suggestedDate);
+    setSelectedDay(String(matching >= 0 ? matching : Math.max(selectedDays.length - 1, 0)));
+  }, [selectedDays, suggestedDate]);
+
+  const fetchItemDetails = async () => {
+    setItemDetails(null);
+
+    // Event type tags stand in for a category
+    if (itemType === "event") {
+      const { data, error } = await supabase
+        .from("events")
+        .select("description, location, municipality, event_types, image_url, latitude, longitude")
+        .eq("id", itemId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching item details:", error);
+        return;
+      }
+
+      if (data) {
+        const { event_types, ...details } = data;
+        setItemDetails({ ...details, category: event_types });
+      }
+      return;
+    }
+
+    // Restaurants have no category; their cuisine stands in for it
+    if (itemType === "restaurant") {
+      const { data, error } = await supabase
+        .from("restaurants")
+        .select("description, location, municipality, cuisine_tags, image_url, latitude, longitude")
+        .eq("id", itemId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching item details:", error);
+        return;
+      }
+
+      if (data) {
+        const { cuisine_tags, ...details } = data;
+        setItemDetails({ ...details, category: cuisine_tags });
+      }
+      return;
+    }
+
     const { data, error } = await supabase
-      .from("itineraries")
-      .select("*")
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false });
+      .from(STOP_TABLES[itemType])
+      .select("description, location, municipality, category, image_url, latitude, longitude")
+      .eq("id", itemId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching item details:", error);
+      return;
+    }
+
+    setItemDetails(data);
+  };
+
+  const fetchItineraries = async () => {
+    const [{ data, error }, memberships] = await Promise.all([
+      supabase.from("itineraries").select("*").order("created_at", { ascending: false }),
+      fetchMemberships().catch(() => []),
+    ]);
 
     if (error) {
       console.error("Error fetching itineraries:", error);
       return;
     }
 
-    setItineraries(data || []);
-    if (data && data.length > 0) {
-      setSelectedItinerary(data[0].id);
+    // Own itineraries plus shared ones the user may edit
+    const editable = (data || []).filter(
+      (itinerary) =>
+        itinerary.user_id === userId ||
+        memberships.some(
+          (member) => member.itinerary_id === itinerary.id && member.user_id === userId && member.role === "editor"
+        )
+    );
+
+    setItineraries(editable);
+    if (editable.length > 0) {
+      setSelectedItinerary(editable[0].id);
       setMode("select");
     } else {
       setMode("create");
@@ -88,7 +203,7 @@ export const AddToItineraryDialog = ({
           .insert({
             user_id: userId,
             name: newItineraryName,
-            spots: [],
+            ...toItineraryColumns([{ day: 1, date: suggestedDate || null, stops: [] }]),
           })
           .select()
           .single();
@@ -97,42 +212,53 @@ export const AddToItineraryDialog = ({
         itineraryId = newItinerary.id;
       }
 
-      // Fetch current itinerary
-      const { data: currentItinerary, error: fetchError } = await supabase
-        .from("itineraries")
-        .select("spots")
-        .eq("id", itineraryId)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      // Add item to spots array
-      const currentSpots = Array.isArray(currentItinerary.spots) ? currentItinerary.spots : [];
-      const itemData = {
+      // New items go to the end of the chosen day
+      const itemData: ItineraryStop = {
+        ...itemDetails,
         id: itemId,
         name: itemName,
         type: itemType,
+        ...(itemType === "restaurant" && { duration_minutes: DEFAULT_MEAL_MINUTES }),
+        ...timing,
         added_at: new Date().toISOString(),
       };
 
-      // Check if item already exists
-      const exists = currentSpots.some((spot: any) => spot.id === itemId);
-      if (exists) {
-        toast.info(`${itemName} is already in this itinerary`);
-        onOpenChange(false);
-        setLoading(false);
-        return;
-      }
+      // Read, append and save; if another member saved in between, start
+      // again from their version rather than overwriting it
+      for (let attempt = 1; ; attempt++) {
+        const { data: currentItinerary, error: fetchError } = await supabase
+          .from("itineraries")
+          .select("days, spots, version")
+          .eq("id", itineraryId)
+          .single();
+
+        if (fetchError) throw fetchError;
 
-      const updatedSpots = [...currentSpots, itemData];
+        const days = parseDays(currentItinerary.days, currentItinerary.spots);
 
-      // Update itinerary
-      const { error: updateError } = await supabase
-        .from("itineraries")
-        .update({ spots: updatedSpots })
-        .eq("id", itineraryId);
+        const targetDay = mode === "create" ? 0 : Math.min(Number(selectedDay), days.length - 1);
 
-      if (updateError) throw updateError;
+        // Check if item already exists; a weekly market may be on several days
+        const exists = (itemType === "event" ? [days[targetDay]] : days).some((day) =>
+          day.stops.some((stop) => stop.id === itemId)
+        );
+        if (exists) {
+          toast.info(`${itemName} is already in this itinerary`);
+          onOpenChange(false);
+          return;
+        }
+
+        const updatedDays = days.map((day, index) =>
+          index === targetDay ? { ...day, stops: [...day.stops, itemData] } : day
+        );
+
+        try {
+          await saveItineraryPlan(itineraryId, currentItinerary.version, toItineraryColumns(updatedDays));
+          break;
+        } catch (error) {
+          if (!isOutdatedError(error) || attempt === MAX_SAVE_ATTEMPTS) throw error;
+        }
+      }
 
       toast.success(`Added ${itemName} to itinerary!`);
       onOpenChange(false);
@@ -156,6 +282,16 @@ export const AddToItineraryDialog = ({
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {hazards.length > 0 && (
+            <div role="alert" className="flex items-start gap-2 rounded-lg border border-destructive bg-destructive/10 p-3 text-sm">
+              <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive shrink-0" />
+              <p>
+                {itemName} is inside {hazards.map((zone) => zone.name).join(", ")}. Access may be restricted
+                while the hazard is active.
+              </p>
+            </div>
+          )}
+
           {itineraries.length > 0 && (
             <div className="space-y-3">
               <div className="flex gap-2">
@@ -197,13 +333,32 @@ export const AddToItineraryDialog = ({
                       >
                         <div className="font-medium">{itinerary.name}</div>
                         <div className="text-sm text-muted-foreground">
-                          {itinerary.spots?.length || 0} items
+                          {countStops(parseDays(itinerary.days, itinerary.spots))} items
                         </div>
                       </Label>
                     </div>
                   ))}
                 </RadioGroup>
               )}
+
+              {mode === "select" && selectedDays.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Day</Label>
+                  <Select value={selectedDay} onValueChange={setSelectedDay}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectedDays.map((day, index) => (
+                        <SelectItem key={day.day} value={String(index)}>
+                          Day {day.day}
+                          {day.date && ` · ${new Date(`${day.date}T00:00:00`).toLocaleDateString()}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
           )}
 
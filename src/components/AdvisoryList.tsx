@@ -0,0 +1,55 @@
+import { AlertTriangle, CloudLightning, Mountain, Waves } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Advisory, SEVERITY_STYLES } from "@/lib/advisories";
+
+const HAZARD_ICONS = {
+  volcano: Mountain,
+  typhoon: CloudLightning,
+  flood: Waves,
+};
+
+interface AdvisoryListProps {
+  advisories: Advisory[];
+  compact?: boolean;
+}
+
+const AdvisoryList = ({ advisories, compact = false }: AdvisoryListProps) => {
+  if (advisories.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {advisories.map((advisory) => {
+        const Icon = HAZARD_ICONS[advisory.hazard_type] || AlertTriangle;
+
+        return (
+          <div
+            key={advisory.id}
+            role="alert"
+            className={`rounded-lg border p-4 ${SEVERITY_STYLES[advisory.severity] || SEVERITY_STYLES.advisory}`}
+          >
+            <div className="flex items-start gap-3">
+              <Icon className="w-5 h-5 mt-0.5 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <strong className="font-semibold">{advisory.title}</strong>
+                  <Badge variant="outline" className="capitalize">
+                    {advisory.severity}
+                  </Badge>
+                </div>
+                {!compact && <p className="text-sm mt-1">{advisory.message}</p>}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {advisory.source && <>{advisory.source} · </>}
+                  {advisory.expires_at
+                    ? `Until ${new Date(advisory.expires_at).toLocaleString()}`
+                    : "Until further notice"}
+                </p>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AdvisoryList;
@@ -0,0 +1,71 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Award } from "lucide-react";
+import type { BadgesState } from "@/hooks/useBadges";
+import { BADGE_RULE_TYPES, badgeIcon } from "@/lib/badges";
+
+interface BadgesSectionProps {
+  badges: BadgesState;
+}
+
+const BadgesSection = ({ badges }: BadgesSectionProps) => {
+  if (badges.loading || badges.badges.length === 0) return null;
+
+  return (
+    <div className="mb-12">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Award className="w-6 h-6 text-primary" />
+          <h2 className="text-2xl font-bold">Badges</h2>
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {badges.earnedBadges.length} of {badges.badges.length} earned
+        </span>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {badges.badges.map((badge) => {
+          const Icon = badgeIcon(badge.icon);
+          const awardedAt = badges.earned.get(badge.id);
+          const current = Math.min(badges.progress.get(badge.id) || 0, badge.threshold);
+          const unit = BADGE_RULE_TYPES.find((rule) => rule.value === badge.rule_type)?.unit;
+
+          return (
+            <Card key={badge.id} className={awardedAt ? "border-primary" : ""}>
+              <CardContent className="p-4 flex gap-3">
+                <div
+                  className={`w-12 h-12 rounded-full flex items-center justify-center shrink-0 ${
+                    awardedAt ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+                  }`}
+                >
+                  <Icon className="w-6 h-6" />
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <h3 className="font-semibold line-clamp-1">{badge.name}</h3>
+                    <span className="text-xs text-muted-foreground shrink-0">{badge.points} pts</span>
+                  </div>
+                  {badge.description && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">{badge.description}</p>
+                  )}
+                  {awardedAt ? (
+                    <p className="text-xs text-primary">Earned {new Date(awardedAt).toLocaleDateString()}</p>
+                  ) : (
+                    <div className="space-y-1">
+                      <Progress value={(current / badge.threshold) * 100} className="h-1.5" />
+                      <p className="text-xs text-muted-foreground">
+                        {current} / {badge.threshold} {unit}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BadgesSection;
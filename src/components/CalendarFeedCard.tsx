@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CalendarSync, Copy, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  calendarFeedUrl,
+  calendarSubscribeUrl,
+  createCalendarFeed,
+  fetchCalendarFeedToken,
+  googleCalendarUrl,
+  resetCalendarFeed,
+} from "@/lib/rsvps";
+
+interface CalendarFeedCardProps {
+  userId: string;
+}
+
+// Subscription link for RSVP'd events and dated itinerary days
+const CalendarFeedCard = ({ userId }: CalendarFeedCardProps) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    fetchCalendarFeedToken(userId)
+      .then((value) => {
+        if (!cancelled) setToken(value);
+      })
+      .catch((error) => console.error("Error fetching calendar feed:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      setToken(await createCalendarFeed(userId));
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      toast.error("Failed to create calendar link");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm("Reset the link? Calendars subscribed to the old one stop updating.")) return;
+
+    setSaving(true);
+    try {
+      setToken(await resetCalendarFeed(userId));
+      toast.success("Calendar link reset");
+    } catch (error) {
+      console.error("Error resetting calendar feed:", error);
+      toast.error("Failed to reset calendar link");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Couldn't copy the link. Select it and copy it manually.");
+    }
+  };
+
+  return (
+    <Card className="mb-12">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarSync className="w-5 h-5 text-primary" />
+          Calendar Sync
+        </CardTitle>
+        <CardDescription>
+          Events you're interested in or going to, plus your dated itinerary days, in Google Calendar, Outlook or
+          Apple Calendar. Keep the link private: anyone with it can see your plans.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : token ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input readOnly value={calendarFeedUrl(token)} className="text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" title="Copy link" onClick={() => copyLink(calendarFeedUrl(token))}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={googleCalendarUrl(token)} target="_blank" rel="noopener noreferrer">
+                  Add to Google Calendar
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={calendarSubscribeUrl(token)}>Subscribe in Outlook or Apple Calendar</a>
+              </Button>
+              <Button variant="ghost" size="sm" disabled={saving} onClick={handleReset}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Reset link
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleCreate} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create calendar link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedCard;
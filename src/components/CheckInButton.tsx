@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BadgeCheck, Loader2, MapPinCheck } from "lucide-react";
+import { toast } from "sonner";
+import { getCurrentPosition } from "@/lib/nearby";
+import { CheckIn, checkInAtSpot } from "@/lib/passport";
+
+interface CheckInButtonProps {
+  spotId: string;
+  spotName: string;
+  userId: string;
+  // The user's earlier check-ins at this spot, newest first
+  checkIns: CheckIn[];
+  onCheckedIn: () => void;
+}
+
+const CheckInButton = ({ spotId, spotName, userId, checkIns, onCheckedIn }: CheckInButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [checkingIn, setCheckingIn] = useState(false);
+
+  const lastCheckIn = checkIns[0];
+
+  const photoPreview = useMemo(() => (photo ? URL.createObjectURL(photo) : null), [photo]);
+
+  useEffect(() => {
+    return () => {
+      if (photoPreview) URL.revokeObjectURL(photoPreview);
+    };
+  }, [photoPreview]);
+
+  const handleCheckIn = async () => {
+    setCheckingIn(true);
+    try {
+      let position;
+      try {
+        position = await getCurrentPosition();
+      } catch (error) {
+        console.error("Error getting location:", error);
+        toast.error("Couldn't get your location. Please enable location services to check in.");
+        return;
+      }
+
+      await checkInAtSpot(userId, spotId, position, photo);
+      toast.success(`Checked in at ${spotName}. Stamp added to your passport!`);
+      setPhoto(null);
+      setOpen(false);
+      onCheckedIn();
+    } catch (error) {
+      console.error("Error checking in:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to check in");
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setPhoto(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          {lastCheckIn ? <BadgeCheck className="w-4 h-4 text-green-600" /> : <MapPinCheck className="w-4 h-4" />}
+          {lastCheckIn ? "Visited" : "Check In"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Check in at {spotName}</DialogTitle>
+          <DialogDescription>
+            We'll use your current location to confirm you're here. Check-ins only count on site.
+          </DialogDescription>
+        </DialogHeader>
+
+        {lastCheckIn && (
+          <p className="text-sm text-muted-foreground">
+            You've checked in here {checkIns.length === 1 ? "once" : `${checkIns.length} times`}, last on{" "}
+            {new Date(lastCheckIn.checked_in_at).toLocaleDateString()}.{" "}
+            <Link to="/passport" className="text-primary hover:underline">
+              View passport
+            </Link>
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="check-in-photo">Photo (optional)</Label>
+          <Input
+            id="check-in-photo"
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+          />
+          {photoPreview && (
+            <img src={photoPreview} alt="Check-in preview" className="h-32 w-full object-cover rounded" />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleCheckIn} disabled={checkingIn} className="gap-2">
+            {checkingIn ? <Loader2 className="w-4 h-4 animate-spin" /> : <MapPinCheck className="w-4 h-4" />}
+            {checkingIn ? "Checking location..." : "Check in here"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckInButton;
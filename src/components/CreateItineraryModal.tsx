@@ -16,7 +16,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, MapPin, Sparkles, CheckCircle2 } from "lucide-react";
+import { Loader2, MapPin, Sparkles, CheckCircle2, AlertTriangle } from "lucide-react";
+import { splitIntoDays, toItineraryColumns } from "@/lib/itinerary";
+import { toLatLng, zonesAt } from "@/lib/hazards";
+import { useHazardZones } from "@/hooks/useHazardZones";
 
 interface TouristSpot {
   id: string;
@@ -44,11 +47,13 @@ interface CreateItineraryModalProps {
 
 export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }: CreateItineraryModalProps) => {
   const [itineraryName, setItineraryName] = useState("");
+  const [dayCount, setDayCount] = useState(1);
   const [loading, setLoading] = useState(false);
   const [spots, setSpots] = useState<TouristSpot[]>([]);
   const [selectedSpots, setSelectedSpots] = useState<Set<string>>(new Set());
   const [fetchingSpots, setFetchingSpots] = useState(false);
   const [userPreferences, setUserPreferences] = useState<any>(null);
+  const { zones } = useHazardZones(open);
 
   useEffect(() => {
     if (open) {
@@ -117,7 +122,7 @@ export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }:
       score += 2;
     }
 
-    // Rating boost
+    // Rating boost; rating is the review-weighted score kept by review_stats
     if (spot.rating) {
       score += spot.rating / 2;
     }
@@ -125,8 +130,24 @@ export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }:
     return score;
   };
 
+  const getSpotHazards = (spot: TouristSpot) => zonesAt(toLatLng(spot), zones);
+
+  const renderHazardBadge = (spot: TouristSpot) => {
+    const hazards = getSpotHazards(spot);
+    if (hazards.length === 0) return null;
+
+    return (
+      <Badge variant="destructive" className="text-xs gap-1" title={hazards.map((zone) => zone.name).join(", ")}>
+        <AlertTriangle className="w-3 h-3" />
+        Hazard zone
+      </Badge>
+    );
+  };
+
   const handleAutoSelect = () => {
+    // Never recommend spots inside an active hazard zone
     const scoredSpots = spots
+      .filter((spot) => getSpotHazards(spot).length === 0)
       .map((spot) => ({ spot, score: scoreSpot(spot) }))
       .sort((a, b) => b.score - a.score)
       .slice(0, 8)
@@ -160,11 +181,15 @@ export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }:
     setLoading(true);
 
     const selectedSpotData = spots.filter((spot) => selectedSpots.has(spot.id));
+    const days = splitIntoDays(
+      selectedSpotData.map((spot) => ({ ...spot, type: "spot" as const })),
+      dayCount
+    );
 
     const { error } = await supabase.from("itineraries").insert([{
       user_id: userId,
       name: itineraryName,
-      spots: selectedSpotData as any,
+      ...toItineraryColumns(days),
       selected_categories: [...new Set(selectedSpotData.flatMap((s) => s.category))],
     }]);
 
@@ -175,12 +200,17 @@ export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }:
     } else {
       toast.success("Itinerary created successfully!");
       setItineraryName("");
+      setDayCount(1);
       setSelectedSpots(new Set());
       onOpenChange(false);
       onSuccess();
     }
   };
 
+  const selectedHazardCount = spots.filter(
+    (spot) => selectedSpots.has(spot.id) && getSpotHazards(spot).length > 0
+  ).length;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
@@ -192,15 +222,29 @@ export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }:
         </DialogHeader>
 
         <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
-          <div>
-            <Label htmlFor="name">Itinerary Name</Label>
-            <Input
-              id="name"
-              placeholder="e.g., Weekend Adventure in Albay"
-              value={itineraryName}
-              onChange={(e) => setItineraryName(e.target.value)}
-              className="mt-1.5"
-            />
+          <div className="grid grid-cols-[1fr_auto] gap-4">
+            <div>
+              <Label htmlFor="name">Itinerary Name</Label>
+              <Input
+                id="name"
+                placeholder="e.g., Weekend Adventure in Albay"
+                value={itineraryName}
+                onChange={(e) => setItineraryName(e.target.value)}
+                className="mt-1.5"
+              />
+            </div>
+            <div>
+              <Label htmlFor="days">Days</Label>
+              <Input
+                id="days"
+                type="number"
+                min={1}
+                max={14}
+                value={dayCount}
+                onChange={(e) => setDayCount(Math.min(14, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                className="mt-1.5 w-20"
+              />
+            </div>
           </div>
 
           <Tabs defaultValue="auto" className="flex-1 overflow-hidden flex flex-col">
@@ -264,6 +308,7 @@ export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }:
                                         {cat}
                                       </Badge>
                                     ))}
+                                    {renderHazardBadge(spot)}
                                   </div>
                                 </div>
                                 <Button
@@ -324,6 +369,7 @@ export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }:
                                   {cat}
                                 </Badge>
                               ))}
+                              {renderHazardBadge(spot)}
                             </div>
                           </div>
                         </CardContent>
@@ -336,9 +382,17 @@ export const CreateItineraryModal = ({ open, onOpenChange, onSuccess, userId }:
           </Tabs>
 
           <div className="flex justify-between items-center pt-4 border-t">
-            <p className="text-sm text-muted-foreground">
-              {selectedSpots.size} {selectedSpots.size === 1 ? "spot" : "spots"} selected
-            </p>
+            <div>
+              <p className="text-sm text-muted-foreground">
+                {selectedSpots.size} {selectedSpots.size === 1 ? "spot" : "spots"} selected
+              </p>
+              {selectedHazardCount > 0 && (
+                <p className="text-sm text-destructive flex items-center gap-1">
+                  <AlertTriangle className="w-4 h-4" />
+                  {selectedHazardCount} selected {selectedHazardCount === 1 ? "spot is" : "spots are"} inside an active hazard zone
+                </p>
+              )}
+            </div>
             <div className="flex gap-2">
               <Button variant="outline" onClick={() => onOpenChange(false)}>
                 Cancel
@@ -0,0 +1,115 @@
+import { useEffect, useRef } from "react";
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerUpLeft,
+  CornerUpRight,
+  Flag,
+  MapPin,
+  Navigation,
+  RotateCw,
+  Undo2,
+  GitMerge,
+} from "lucide-react";
+import { formatKm } from "@/lib/geo";
+import type { RouteStep } from "@/lib/routing";
+
+const getManeuverIcon = (step: RouteStep) => {
+  switch (step.maneuver) {
+    case "depart":
+      return Navigation;
+    case "arrive":
+      return Flag;
+    case "waypoint":
+      return MapPin;
+    case "roundabout":
+      return RotateCw;
+    case "merge":
+      return GitMerge;
+  }
+
+  switch (step.modifier) {
+    case "left":
+    case "sharp left":
+      return CornerUpLeft;
+    case "right":
+    case "sharp right":
+      return CornerUpRight;
+    case "slight left":
+      return ArrowUpLeft;
+    case "slight right":
+      return ArrowUpRight;
+    case "uturn":
+      return Undo2;
+    default:
+      return ArrowUp;
+  }
+};
+
+interface DirectionsPanelProps {
+  steps: RouteStep[];
+  activeStep: number;
+  // Distance from the live position to the next maneuver, when tracking
+  distanceToNextKm?: number | null;
+}
+
+const DirectionsPanel = ({ steps, activeStep, distanceToNextKm = null }: DirectionsPanelProps) => {
+  const activeRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeStep]);
+
+  if (steps.length === 0) return null;
+
+  const nextStep = steps[activeStep + 1];
+  const NextIcon = nextStep ? getManeuverIcon(nextStep) : null;
+
+  return (
+    <div className="space-y-3">
+      {nextStep && NextIcon && distanceToNextKm !== null && (
+        <div className="p-4 rounded-lg bg-primary text-primary-foreground flex items-center gap-3">
+          <NextIcon className="w-8 h-8 shrink-0" />
+          <div>
+            <p className="text-sm opacity-90">In {formatKm(distanceToNextKm)}</p>
+            <p className="font-semibold">{nextStep.instruction}</p>
+          </div>
+        </div>
+      )}
+
+      <ol className="space-y-1 max-h-80 overflow-y-auto pr-1">
+        {steps.map((step, index) => {
+          const Icon = getManeuverIcon(step);
+          const isActive = index === activeStep;
+          const isDone = index < activeStep;
+
+          return (
+            <li
+              key={index}
+              ref={isActive ? activeRef : undefined}
+              className={`flex items-start gap-3 p-2 rounded-md text-sm transition-colors ${
+                isActive ? "bg-primary/10 border border-primary/30" : ""
+              } ${isDone ? "opacity-50" : ""}`}
+            >
+              <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${isActive ? "text-primary" : "text-muted-foreground"}`} />
+              <div className="flex-1 min-w-0">
+                <p className={isActive ? "font-semibold" : ""}>{step.instruction}</p>
+                {step.name && step.instruction.indexOf(step.name) === -1 && (
+                  <p className="text-xs text-muted-foreground">{step.name}</p>
+                )}
+              </div>
+              {step.distanceKm > 0 && (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatKm(step.distanceKm)}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default DirectionsPanel;
@@ -3,26 +3,17 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Calendar, MapPin, X, Bell } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
 import { toast } from "sonner";
-
-interface Event {
-  id: string;
-  name: string;
-  description: string;
-  event_date: string;
-  municipality: string;
-  location: string;
-  event_type: string;
-  image_url: string;
-}
+import { EventOccurrence, eventDistrict, fetchEventOccurrences, formatOccurrence } from "@/lib/events";
+import { placeNow, shiftDate } from "@/lib/openingHours";
 
 interface EventNotificationsProps {
   userDistricts: string[];
 }
 
 const EventNotifications = ({ userDistricts }: EventNotificationsProps) => {
-  const [events, setEvents] = useState<Event[]>([]);
+  const [events, setEvents] = useState<EventOccurrence[]>([]);
   const [dismissed, setDismissed] = useState<Set<string>>(new Set());
 
   useEffect(() => {
@@ -31,23 +22,15 @@ const EventNotifications = ({ userDistricts }: EventNotificationsProps) => {
 
   const fetchUpcomingEvents = async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
-      const thirtyDaysLater = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-      const { data, error } = await supabase
-        .from("events")
-        .select("*")
-        .gte("event_date", today)
-        .lte("event_date", thirtyDaysLater)
-        .order("event_date", { ascending: true });
-
-      if (error) throw error;
+      const today = placeNow().date;
+      const data = await fetchEventOccurrences(today, shiftDate(today, 31));
 
       if (data) {
-        // Filter events by user's districts
-        const districtMunicipalities = getDistrictMunicipalities(userDistricts);
-        const filteredEvents = data.filter(event => 
-          districtMunicipalities.some(m => event.municipality?.includes(m))
+        // Filter events by user's districts, keeping the next run of each
+        const filteredEvents = data.filter(
+          (occurrence, index) =>
+            userDistricts.includes(eventDistrict(occurrence.event) || "") &&
+            data.findIndex((other) => other.event.id === occurrence.event.id) === index
         );
 
         setEvents(filteredEvents);
@@ -62,27 +45,11 @@ const EventNotifications = ({ userDistricts }: EventNotificationsProps) => {
     }
   };
 
-  const getDistrictMunicipalities = (districts: string[]): string[] => {
-    const municipalities: string[] = [];
-    
-    districts.forEach(district => {
-      if (district === "District 1") {
-        municipalities.push("Bacacay", "Malilipot", "Malinao", "Santo Domingo", "Tiwi", "Tabaco");
-      } else if (district === "District 2") {
-        municipalities.push("Camalig", "Guinobatan", "Ligao", "Jovellar");
-      } else if (district === "District 3") {
-        municipalities.push("Legazpi", "Daraga", "Manito", "Rapu-Rapu");
-      }
-    });
-    
-    return municipalities;
-  };
-
   const dismissEvent = (eventId: string) => {
     setDismissed(new Set(dismissed).add(eventId));
   };
 
-  const visibleEvents = events.filter(event => !dismissed.has(event.id));
+  const visibleEvents = events.filter(({ event }) => !dismissed.has(event.id));
 
   if (visibleEvents.length === 0) return null;
 
@@ -91,10 +58,13 @@ const EventNotifications = ({ userDistricts }: EventNotificationsProps) => {
       <div className="flex items-center gap-2 mb-4">
         <Bell className="w-6 h-6 text-primary" />
         <h2 className="text-2xl font-bold">Upcoming Events in Your Area 🎊</h2>
+        <Link to="/events" className="ml-auto text-sm font-medium text-primary hover:underline">
+          View calendar
+        </Link>
       </div>
       
       <div className="grid md:grid-cols-2 gap-4">
-        {visibleEvents.map((event) => (
+        {visibleEvents.map(({ event, ...occurrence }) => (
           <Card key={event.id} className="relative overflow-hidden hover:shadow-lg transition-shadow">
             <Button
               variant="ghost"
@@ -115,16 +85,12 @@ const EventNotifications = ({ userDistricts }: EventNotificationsProps) => {
               )}
               <CardContent className="p-0 flex-1">
                 <Badge variant="secondary" className="mb-2">
-                  {event.event_type || "Event"}
+                  {event.event_types.join(", ") || "Event"}
                 </Badge>
                 <h3 className="font-semibold text-lg mb-2">{event.name}</h3>
                 <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
                   <Calendar className="w-4 h-4" />
-                  <span>{new Date(event.event_date).toLocaleDateString('en-US', { 
-                    month: 'long', 
-                    day: 'numeric', 
-                    year: 'numeric' 
-                  })}</span>
+                  <span>{formatOccurrence({ event, ...occurrence })}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <MapPin className="w-4 h-4" />
@@ -0,0 +1,110 @@
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  ExploreFilters,
+  FacetCounts,
+  LIST_FACETS,
+  TOGGLE_FACETS,
+  countActiveFilters,
+  emptyFilters,
+  facetValueLabel,
+} from "@/lib/explore";
+
+interface ExploreFacetsProps {
+  filters: ExploreFilters;
+  facets: FacetCounts;
+  onChange: (filters: ExploreFilters) => void;
+  // Shown before category names, e.g. emoji from the categories table
+  categoryIcons?: Map<string, string | null>;
+}
+
+const ExploreFacets = ({ filters, facets, onChange, categoryIcons }: ExploreFacetsProps) => {
+  const activeCount = countActiveFilters(filters);
+
+  const toggleValue = (key: (typeof LIST_FACETS)[number]["key"], value: string) => {
+    const selected = filters[key];
+    onChange({
+      ...filters,
+      [key]: selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Filters</h2>
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => onChange({ ...emptyFilters(), q: filters.q })}>
+            Clear ({activeCount})
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {TOGGLE_FACETS.map((facet) => {
+          const count = facets[facet.key][0]?.count ?? 0;
+
+          return (
+            <div key={facet.key} className="flex items-center justify-between gap-2">
+              <Label htmlFor={`facet-${facet.key}`} className="text-sm font-normal">
+                {facet.label} <span className="text-muted-foreground">({count})</span>
+              </Label>
+              <Switch
+                id={`facet-${facet.key}`}
+                checked={filters[facet.key]}
+                onCheckedChange={(checked) => onChange({ ...filters, [facet.key]: checked })}
+                disabled={count === 0 && !filters[facet.key]}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <Accordion type="multiple" defaultValue={["categories", "municipalities"]}>
+        {LIST_FACETS.map((facet) => {
+          // Selected values stay listed even when nothing else matches them
+          const values = [
+            ...facets[facet.key],
+            ...filters[facet.key]
+              .filter((value) => !facets[facet.key].some((item) => item.value === value))
+              .map((value) => ({ value, count: 0 })),
+          ];
+          if (values.length === 0) return null;
+
+          return (
+            <AccordionItem key={facet.key} value={facet.key}>
+              <AccordionTrigger className="text-sm">
+                {facet.label}
+                {filters[facet.key].length > 0 && ` (${filters[facet.key].length})`}
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+                  {values.map((item) => {
+                    const id = `facet-${facet.key}-${item.value}`;
+                    const checked = filters[facet.key].includes(item.value);
+
+                    return (
+                      <div key={item.value} className="flex items-center gap-2">
+                        <Checkbox id={id} checked={checked} onCheckedChange={() => toggleValue(facet.key, item.value)} />
+                        <Label htmlFor={id} className="flex-1 text-sm font-normal cursor-pointer">
+                          {facet.key === "categories" && categoryIcons?.get(item.value)}{" "}
+                          {facetValueLabel(facet.key, item.value)}
+                        </Label>
+                        <span className="text-xs text-muted-foreground">{item.count}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+};
+
+export default ExploreFacets;
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { CalendarDays, FileDown, Loader2, Printer, Route } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ItineraryDay, flattenDays, hasCoordinates } from "@/lib/itinerary";
+import { downloadFile, itineraryToGpx, itineraryToIcs, printHandout, toFilename } from "@/lib/export";
+
+interface ExportItineraryMenuProps {
+  // Keeps calendar event ids stable between exports of the same itinerary
+  exportId: string;
+  name: string;
+  days: ItineraryDay[];
+  shareUrl?: string | null;
+}
+
+const ExportItineraryMenu = ({ exportId, name, days, shareUrl }: ExportItineraryMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+
+  const exportGpx = async () => {
+    if (!flattenDays(days).some(hasCoordinates)) {
+      toast.error("None of the stops have a location to export");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      downloadFile(toFilename(name, "gpx"), await itineraryToGpx(name, days), "application/gpx+xml");
+    } catch (error) {
+      console.error("Error exporting GPX:", error);
+      toast.error("Failed to export GPX");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportIcs = () => {
+    const { ics, count, skipped } = itineraryToIcs(name, days, exportId, shareUrl);
+    if (count === 0) {
+      toast.error(
+        skipped > 0
+          ? "Set dates for your days to export timed stops to a calendar"
+          : "Add start times to stops to export them to a calendar"
+      );
+      return;
+    }
+
+    downloadFile(toFilename(name, "ics"), ics, "text/calendar");
+    if (skipped > 0) {
+      toast.info(`${skipped} timed ${skipped === 1 ? "stop was" : "stops were"} skipped because their day has no date`);
+    }
+  };
+
+  const exportHandout = () => {
+    if (!printHandout(name, days, shareUrl)) {
+      toast.info("Pop-ups are blocked, so the handout was downloaded instead");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={exporting}>
+          {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={exportGpx}>
+          <Route className="w-4 h-4 mr-2" />
+          GPX (GPS apps)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={exportIcs}>
+          <CalendarDays className="w-4 h-4 mr-2" />
+          Calendar (.ics)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={exportHandout}>
+          <Printer className="w-4 h-4 mr-2" />
+          Printable handout / PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportItineraryMenu;
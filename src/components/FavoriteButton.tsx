@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { Heart, Plus } from "lucide-react";
+import type { FavoritesState } from "@/hooks/useFavorites";
+import { FavoriteItemType } from "@/lib/favorites";
+
+interface FavoriteButtonProps {
+  itemId: string;
+  itemType: FavoriteItemType;
+  // From useFavorites, shared by every button on the page
+  favorites: FavoritesState;
+  size?: "icon" | "default";
+  className?: string;
+}
+
+// Saving is one click; once saved the popover holds the note and collections
+const FavoriteButton = ({ itemId, itemType, favorites, size = "default", className }: FavoriteButtonProps) => {
+  const favorite = favorites.getFavorite(itemId, itemType);
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [newCollection, setNewCollection] = useState("");
+
+  useEffect(() => {
+    if (open) setNote(favorite?.note || "");
+  }, [open, favorite?.note]);
+
+  const heart = <Heart className={`w-4 h-4 ${favorite ? "fill-red-500 text-red-500" : ""}`} />;
+
+  if (!favorite) {
+    return (
+      <Button
+        variant="outline"
+        size={size}
+        className={className}
+        title="Save to favorites"
+        onClick={(e) => {
+          e.stopPropagation();
+          favorites.toggleFavorite(itemId, itemType);
+        }}
+      >
+        {heart}
+        {size === "default" && <span className="ml-2">Save</span>}
+      </Button>
+    );
+  }
+
+  const handleCreateCollection = async () => {
+    const collection = await favorites.createCollection(newCollection);
+    if (collection) {
+      setNewCollection("");
+      favorites.toggleInCollection(favorite.id, collection.id);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size={size}
+          className={className}
+          title="Saved. Edit note and collections"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {heart}
+          {size === "default" && <span className="ml-2">Saved</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="space-y-2">
+          <Label htmlFor={`favorite-note-${favorite.id}`}>Note</Label>
+          <Textarea
+            id={`favorite-note-${favorite.id}`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Go early for the sunrise"
+            rows={2}
+            maxLength={500}
+          />
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={note.trim() === (favorite.note || "")}
+            onClick={() => favorites.updateNote(favorite.id, note)}
+          >
+            Save note
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Collections</Label>
+          {favorites.collections.length > 0 ? (
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              {favorites.collections.map((collection) => {
+                const id = `collection-${favorite.id}-${collection.id}`;
+                return (
+                  <div key={collection.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={favorite.collection_ids.includes(collection.id)}
+                      onCheckedChange={() => favorites.toggleInCollection(favorite.id, collection.id)}
+                    />
+                    <Label htmlFor={id} className="font-normal cursor-pointer">
+                      {collection.name}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">No collections yet</p>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={newCollection}
+              onChange={(e) => setNewCollection(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleCreateCollection();
+                }
+              }}
+              placeholder="New collection, e.g. Beaches for December"
+              maxLength={60}
+            />
+            <Button size="icon" variant="outline" disabled={!newCollection.trim()} onClick={handleCreateCollection}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full text-destructive hover:text-destructive"
+          onClick={() => {
+            setOpen(false);
+            favorites.toggleFavorite(itemId, itemType);
+          }}
+        >
+          Remove from favorites
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FavoriteButton;
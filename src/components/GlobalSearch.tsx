@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Building2, CalendarDays, Loader2, MapPin, Search, UtensilsCrossed } from "lucide-react";
+import { usePlaceSearch } from "@/hooks/usePlaceSearch";
+import { PlaceKind, placeUrl } from "@/lib/nearby";
+import { MIN_QUERY_LENGTH, SearchResult, groupResults, splitHighlight } from "@/lib/search";
+
+const KIND_ICONS: Record<PlaceKind, typeof MapPin> = {
+  spot: MapPin,
+  accommodation: Building2,
+  restaurant: UtensilsCrossed,
+  event: CalendarDays,
+};
+
+const Highlighted = ({ value }: { value: string }) => (
+  <>
+    {splitHighlight(value).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm">
+          {part.text}
+        </mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </>
+);
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Opens with the button, Ctrl/⌘+K, or "/" when not typing elsewhere.
+// Arrow keys move through results and Enter opens one.
+const GlobalSearch = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const { results, loading } = usePlaceSearch(open ? query : "");
+  const groups = groupResults(results);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.key === "k" && (e.metaKey || e.ctrlKey)) || (e.key === "/" && !isTyping(e.target))) {
+        e.preventDefault();
+        setOpen((value) => !value);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    setQuery("");
+    navigate(placeUrl(result));
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2 text-muted-foreground md:w-48 md:justify-start"
+        onClick={() => setOpen(true)}
+        aria-label="Search"
+      >
+        <Search className="w-4 h-4" />
+        <span className="hidden md:inline flex-1 text-left">Search...</span>
+        <kbd className="hidden md:inline rounded border bg-muted px-1.5 text-[10px] font-mono">Ctrl K</kbd>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search spots, stays, food and events..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          {loading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          )}
+          {!loading && query.trim().length >= MIN_QUERY_LENGTH && (
+            <CommandEmpty>No results for "{query.trim()}"</CommandEmpty>
+          )}
+          {!loading &&
+            groups.map((group) => {
+              const Icon = KIND_ICONS[group.kind];
+
+              return (
+                <CommandGroup key={group.kind} heading={group.label}>
+                  {group.results.map((result) => (
+                    <CommandItem
+                      key={`${result.kind}-${result.id}`}
+                      value={`${result.kind}-${result.id}`}
+                      onSelect={() => handleSelect(result)}
+                      className="items-start gap-3"
+                    >
+                      <Icon className="mt-0.5 text-muted-foreground shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium line-clamp-1">
+                          <Highlighted value={result.name_highlight} />
+                        </p>
+                        {result.municipality && (
+                          <p className="text-xs text-muted-foreground">{result.municipality}</p>
+                        )}
+                        {result.snippet && (
+                          <p className="text-xs text-muted-foreground line-clamp-2">
+                            <Highlighted value={result.snippet} />
+                          </p>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default GlobalSearch;
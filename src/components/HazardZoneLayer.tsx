@@ -0,0 +1,47 @@
+import { Circle, Polygon, Popup } from "react-leaflet";
+import { HAZARD_COLORS, HazardZone } from "@/lib/hazards";
+
+interface HazardZoneLayerProps {
+  zones: HazardZone[];
+}
+
+// Shaded hazard areas for any react-leaflet map
+const HazardZoneLayer = ({ zones }: HazardZoneLayerProps) => (
+  <>
+    {zones.map((zone) => {
+      const color = HAZARD_COLORS[zone.hazard_type] || HAZARD_COLORS.volcano;
+      const pathOptions = { color, fillColor: color, fillOpacity: zone.is_active ? 0.2 : 0.05, weight: 2 };
+      const popup = (
+        <Popup>
+          <div className="p-1">
+            <h3 className="font-semibold">{zone.name}</h3>
+            {zone.description && <p className="text-sm text-muted-foreground">{zone.description}</p>}
+          </div>
+        </Popup>
+      );
+
+      if (zone.shape === "polygon" && zone.polygon) {
+        return (
+          <Polygon key={zone.id} positions={zone.polygon} pathOptions={pathOptions}>
+            {popup}
+          </Polygon>
+        );
+      }
+
+      if (zone.center_lat === null || zone.center_lng === null || zone.radius_km === null) return null;
+
+      return (
+        <Circle
+          key={zone.id}
+          center={[Number(zone.center_lat), Number(zone.center_lng)]}
+          radius={Number(zone.radius_km) * 1000}
+          pathOptions={pathOptions}
+        >
+          {popup}
+        </Circle>
+      );
+    })}
+  </>
+);
+
+export default HazardZoneLayer;
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History, Minus, Plus, UserMinus, UserPlus, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { ActivityAction, ItineraryActivity, describeActivity, fetchActivity, fetchProfileNames } from "@/lib/collaboration";
+
+interface ItineraryActivityLogProps {
+  itineraryId: string;
+  userId: string;
+}
+
+const ACTION_ICONS: Record<ActivityAction, typeof Plus> = {
+  added_stop: Plus,
+  removed_stop: Minus,
+  renamed: Pencil,
+  joined: UserPlus,
+  left: UserMinus,
+};
+
+const COLLAPSED_ENTRIES = 3;
+
+const ItineraryActivityLog = ({ itineraryId, userId }: ItineraryActivityLogProps) => {
+  const [entries, setEntries] = useState<ItineraryActivity[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [expanded, setExpanded] = useState(false);
+
+  const addNames = async (userIds: string[]) => {
+    try {
+      const fetched = await fetchProfileNames(userIds);
+      setNames((current) => new Map([...current, ...fetched]));
+    } catch (error) {
+      console.error("Error fetching profile names:", error);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchActivity(itineraryId)
+      .then((data) => {
+        if (cancelled) return;
+        setEntries(data);
+        addNames(data.map((entry) => entry.user_id).filter(Boolean));
+      })
+      .catch((error) => console.error("Error fetching itinerary activity:", error));
+
+    const channel = supabase
+      .channel(`itinerary-activity-${itineraryId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "itinerary_activity",
+          filter: `itinerary_id=eq.${itineraryId}`,
+        },
+        (payload) => {
+          const entry = payload.new as ItineraryActivity;
+          setEntries((current) => [entry, ...current]);
+          if (entry.user_id) addNames([entry.user_id]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [itineraryId]);
+
+  if (entries.length === 0) return null;
+
+  const visible = expanded ? entries : entries.slice(0, COLLAPSED_ENTRIES);
+
+  return (
+    <div className="mb-6 rounded-lg border p-4">
+      <h4 className="font-semibold text-sm flex items-center gap-2 mb-3">
+        <History className="w-4 h-4 text-primary" />
+        Recent Activity
+      </h4>
+      <ul className="space-y-2">
+        {visible.map((entry) => {
+          const Icon = ACTION_ICONS[entry.action] || History;
+          const who = entry.user_id === userId ? "You" : names.get(entry.user_id || "") || "Someone";
+          return (
+            <li key={entry.id} className="flex items-start gap-2 text-sm">
+              <Icon className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+              <span className="flex-1">
+                <span className="font-medium">{who}</span> {describeActivity(entry)}
+              </span>
+              <span className="text-xs text-muted-foreground shrink-0">
+                {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {entries.length > COLLAPSED_ENTRIES && (
+        <Button variant="link" size="sm" className="px-0 h-auto mt-2" onClick={() => setExpanded(!expanded)}>
+          {expanded ? "Show less" : `Show all ${entries.length}`}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ItineraryActivityLog;
@@ -0,0 +1,227 @@
+import { useEffect, useId, useMemo, useState } from "react";
+import { AlertTriangle, Bike, Car, ChevronDown, ChevronUp, PersonStanding, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ItineraryDay } from "@/lib/itinerary";
+import { formatKm } from "@/lib/geo";
+import { TravelMode } from "@/lib/routing";
+import {
+  BUDGET_TIERS,
+  BudgetTier,
+  CostDetails,
+  CostRate,
+  emptyCostDetails,
+  estimateItineraryCost,
+  fetchCostDetails,
+  formatPeso,
+} from "@/lib/budget";
+
+const TRAVEL_MODE_OPTIONS = [
+  { mode: "driving" as TravelMode, icon: Car, label: "Van, jeepney or tricycle" },
+  { mode: "walking" as TravelMode, icon: PersonStanding, label: "Walking" },
+  { mode: "cycling" as TravelMode, icon: Bike, label: "Cycling" },
+];
+
+interface BudgetSettings {
+  travelers: number;
+  budget_limit: number | null;
+}
+
+interface ItineraryBudgetProps {
+  days: ItineraryDay[];
+  rates: CostRate[];
+  // From the user's onboarding budget preference
+  tier: BudgetTier;
+  travelers: number;
+  budgetLimit: number | null;
+  // Omit for read-only itineraries
+  onSaveSettings?: (settings: BudgetSettings) => Promise<void>;
+}
+
+const ItineraryBudget = ({ days, rates, tier, travelers, budgetLimit, onSaveSettings }: ItineraryBudgetProps) => {
+  const [details, setDetails] = useState<CostDetails>(emptyCostDetails);
+  const [mode, setMode] = useState<TravelMode>("driving");
+  const [expanded, setExpanded] = useState(false);
+  const [travelersInput, setTravelersInput] = useState(String(travelers));
+  const [limitInput, setLimitInput] = useState(budgetLimit ? String(budgetLimit) : "");
+  const inputId = useId();
+
+  const stopKey = days.flatMap((day) => day.stops.map((stop) => stop.id)).join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchCostDetails(days)
+      .then((data) => {
+        if (!cancelled) setDetails(data);
+      })
+      .catch((error) => console.error("Error fetching cost details:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stopKey]);
+
+  useEffect(() => {
+    setTravelersInput(String(travelers));
+    setLimitInput(budgetLimit ? String(budgetLimit) : "");
+  }, [travelers, budgetLimit]);
+
+  const estimate = useMemo(
+    () => estimateItineraryCost(days, details, rates, { travelers, tier, mode, limit: budgetLimit }),
+    [days, details, rates, travelers, tier, mode, budgetLimit]
+  );
+
+  const saveSettings = async () => {
+    if (!onSaveSettings) return;
+
+    const nextTravelers = Math.max(1, parseInt(travelersInput, 10) || 1);
+    const nextLimit = parseFloat(limitInput) > 0 ? parseFloat(limitInput) : null;
+    if (nextTravelers === travelers && nextLimit === budgetLimit) return;
+
+    try {
+      await onSaveSettings({ travelers: nextTravelers, budget_limit: nextLimit });
+    } catch {
+      // onSaveSettings reports its own errors
+      setTravelersInput(String(travelers));
+      setLimitInput(budgetLimit ? String(budgetLimit) : "");
+    }
+  };
+
+  const tierLabel = BUDGET_TIERS.find((item) => item.value === tier)?.label;
+
+  return (
+    <div className="mb-6 rounded-lg border p-4 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h4 className="font-semibold flex items-center gap-2">
+            <Wallet className="w-4 h-4 text-primary" />
+            Estimated Budget
+          </h4>
+          <p className="text-2xl font-bold mt-1">{formatPeso(estimate.total)}</p>
+          <p className="text-sm text-muted-foreground">
+            {formatPeso(estimate.perPerson)} per person · {travelers} {travelers === 1 ? "traveler" : "travelers"}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={`${inputId}-travelers`} className="text-xs">
+              Travelers
+            </Label>
+            <Input
+              id={`${inputId}-travelers`}
+              type="number"
+              min={1}
+              value={travelersInput}
+              onChange={(e) => setTravelersInput(e.target.value)}
+              onBlur={saveSettings}
+              disabled={!onSaveSettings}
+              className="h-8 w-20"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${inputId}-limit`} className="text-xs">
+              Total budget (₱)
+            </Label>
+            <Input
+              id={`${inputId}-limit`}
+              type="number"
+              min={0}
+              step={500}
+              placeholder={String(Math.round(estimate.limit))}
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+              onBlur={saveSettings}
+              disabled={!onSaveSettings}
+              className="h-8 w-28"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Getting around</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as TravelMode)}>
+              <SelectTrigger className="h-8 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRAVEL_MODE_OPTIONS.map(({ mode: option, icon: Icon, label }) => (
+                  <SelectItem key={option} value={option}>
+                    <span className="flex items-center gap-2">
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {estimate.overBy > 0 && (
+        <div role="alert" className="flex items-start gap-2 rounded-md border border-destructive bg-destructive/10 p-3 text-sm">
+          <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive shrink-0" />
+          <span>
+            This plan is about {formatPeso(estimate.overBy)} over{" "}
+            {budgetLimit ? "your budget" : `a ${tierLabel?.toLowerCase()} budget`} of {formatPeso(estimate.limit)}.
+            Try fewer premium stops, a cheaper place to stay or sharing rides.
+          </span>
+        </div>
+      )}
+
+      <Button variant="link" size="sm" className="px-0 h-auto gap-1" onClick={() => setExpanded(!expanded)}>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        {expanded ? "Hide breakdown" : "Show per-day breakdown"}
+      </Button>
+
+      {expanded && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead className="text-right">Entrance fees</TableHead>
+                <TableHead className="text-right">Lodging</TableHead>
+                <TableHead className="text-right">Meals</TableHead>
+                <TableHead className="text-right">Transport</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {estimate.days.map((day) => (
+                <TableRow key={day.day}>
+                  <TableCell>Day {day.day}</TableCell>
+                  <TableCell className="text-right">{formatPeso(day.entrance)}</TableCell>
+                  <TableCell className="text-right">{formatPeso(day.lodging)}</TableCell>
+                  <TableCell className="text-right">{formatPeso(day.meals)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatPeso(day.transport)}
+                    {day.distanceKm > 0 && (
+                      <span className="block text-xs text-muted-foreground">{formatKm(day.distanceKm)}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{formatPeso(day.total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5}>Total</TableCell>
+                <TableCell className="text-right">{formatPeso(estimate.total)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            Estimates use {tierLabel?.toLowerCase()} meal prices unless a restaurant is planned, each spot's entrance
+            fee level and accommodation price ranges. Nights are counted between days; transport is estimated from distances between stops.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ItineraryBudget;
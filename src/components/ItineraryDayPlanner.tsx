@@ -0,0 +1,364 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { GripVertical, Navigation, Plus, Trash2, X, Clock, Loader2, Save, RefreshCw, AlertTriangle, UtensilsCrossed, PartyPopper, ChevronUp, ChevronDown } from "lucide-react";
+import {
+  ItineraryDay,
+  ItineraryStop,
+  StopPosition,
+  addDay,
+  formatDuration,
+  getDayColor,
+  hasCoordinates,
+  moveStop,
+  removeDay,
+  removeStop,
+  stepStop,
+  stopType,
+  updateStop,
+} from "@/lib/itinerary";
+import { OpeningHours, checkVisit, fetchOpeningHours } from "@/lib/openingHours";
+
+interface ItineraryDayPlannerProps {
+  days: ItineraryDay[];
+  onSave: (days: ItineraryDay[]) => Promise<void>;
+  onNavigate: (stop: ItineraryStop) => void;
+  readOnly?: boolean;
+}
+
+const ItineraryDayPlanner = ({ days, onSave, onNavigate, readOnly = false }: ItineraryDayPlannerProps) => {
+  const [draft, setDraft] = useState<ItineraryDay[]>(days);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dragging, setDragging] = useState<StopPosition | null>(null);
+  const [dropTarget, setDropTarget] = useState<StopPosition | null>(null);
+  // Set when someone else saves while this user has unsaved changes
+  const [outdated, setOutdated] = useState(false);
+  const [openingHours, setOpeningHours] = useState<Map<string, OpeningHours | null>>(new Map());
+  const latest = useRef({ draft, dirty });
+  latest.current = { draft, dirty };
+
+  const stopKey = draft.flatMap((day) => day.stops.map((stop) => stop.id)).join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchOpeningHours(latest.current.draft)
+      .then((hours) => {
+        if (!cancelled) setOpeningHours(hours);
+      })
+      .catch((error) => console.error("Error fetching opening hours:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stopKey]);
+
+  useEffect(() => {
+    const { draft: current, dirty: isDirty } = latest.current;
+    if (isDirty && JSON.stringify(current) !== JSON.stringify(days)) {
+      setOutdated(true);
+      return;
+    }
+    setDraft(days);
+    setDirty(false);
+    setOutdated(false);
+  }, [days]);
+
+  const applyChange = (next: ItineraryDay[]) => {
+    setDraft(next);
+    setDirty(true);
+  };
+
+  const handleDrop = (target: StopPosition) => {
+    if (dragging) {
+      applyChange(moveStop(draft, dragging, target));
+    }
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+      setDirty(false);
+      setOutdated(false);
+    } catch {
+      // Keep the draft so the user can retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    setDraft(days);
+    setDirty(false);
+    setOutdated(false);
+  };
+
+  const isDropTarget = (position: StopPosition) =>
+    dropTarget?.dayIndex === position.dayIndex && dropTarget?.stopIndex === position.stopIndex;
+
+  return (
+    <div className="space-y-4">
+      {outdated && (
+        <div className="flex items-center justify-between gap-2 rounded-md border border-primary/50 bg-primary/5 p-3 text-sm">
+          <span>Someone else changed this itinerary. Load their changes, then redo your edits to save them.</span>
+          <Button variant="outline" size="sm" onClick={handleDiscard} className="gap-1 shrink-0">
+            <RefreshCw className="w-4 h-4" />
+            Load Their Changes
+          </Button>
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            Drag stops or use the arrows to reorder them or move them to another day
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => applyChange(addDay(draft))} className="gap-1">
+              <Plus className="w-4 h-4" />
+              Add Day
+            </Button>
+            {dirty && (
+              <>
+                <Button variant="ghost" size="sm" onClick={handleDiscard} disabled={saving}>
+                  Discard
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={saving} className="gap-1">
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save Changes
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {draft.map((day, dayIndex) => {
+          const color = getDayColor(dayIndex);
+          const endPosition = { dayIndex, stopIndex: day.stops.length };
+
+          return (
+            <div
+              key={day.day}
+              className="border rounded-lg overflow-hidden flex flex-col"
+              style={{ borderTopColor: color, borderTopWidth: 4 }}
+            >
+              <div className="flex items-center justify-between px-3 py-2 bg-muted/50">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">Day {day.day}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    {day.stops.length} {day.stops.length === 1 ? "stop" : "stops"}
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="date"
+                    value={day.date || ""}
+                    onChange={(e) =>
+                      applyChange(
+                        draft.map((d, i) => (i === dayIndex ? { ...d, date: e.target.value || null } : d))
+                      )
+                    }
+                    disabled={readOnly}
+                    className="h-8 w-36 text-xs"
+                  />
+                  {!readOnly && draft.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Remove day (stops move to the previous day)"
+                      onClick={() => applyChange(removeDay(draft, dayIndex))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="p-2 space-y-2 flex-1">
+                {day.stops.map((stop, stopIndex) => {
+                  const position = { dayIndex, stopIndex };
+                  const hoursWarning = checkVisit(
+                    openingHours.get(stop.id),
+                    day.date,
+                    stop.start_time,
+                    stop.duration_minutes
+                  );
+                  return (
+                    <div
+                      key={`${stop.id}-${stopIndex}`}
+                      draggable={!readOnly}
+                      onDragStart={(e) => {
+                        // Firefox won't start a drag without data
+                        e.dataTransfer.setData("text/plain", stop.id);
+                        e.dataTransfer.effectAllowed = "move";
+                        setDragging(position);
+                      }}
+                      onDragEnd={() => {
+                        setDragging(null);
+                        setDropTarget(null);
+                      }}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDropTarget(position);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleDrop(position);
+                      }}
+                      className={`flex items-start gap-2 p-2 rounded-md border bg-background transition-all ${
+                        isDropTarget(position) ? "border-t-4 border-t-primary" : ""
+                      } ${dragging?.dayIndex === dayIndex && dragging?.stopIndex === stopIndex ? "opacity-50" : ""}`}
+                    >
+                      {!readOnly && (
+                        <GripVertical className="w-4 h-4 mt-1 text-muted-foreground cursor-grab shrink-0" />
+                      )}
+                      <span
+                        className="w-6 h-6 rounded-full text-white text-xs font-bold flex items-center justify-center shrink-0"
+                        style={{ backgroundColor: color }}
+                      >
+                        {stopIndex + 1}
+                      </span>
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex items-start justify-between gap-1">
+                          <p className="font-medium text-sm line-clamp-1">
+                            {stopType(stop) === "restaurant" && (
+                              <UtensilsCrossed className="inline w-3 h-3 mr-1 text-accent" aria-label="Meal stop" />
+                            )}
+                            {stopType(stop) === "event" && (
+                              <PartyPopper className="inline w-3 h-3 mr-1 text-accent" aria-label="Event" />
+                            )}
+                            {stop.name}
+                          </p>
+                          <div className="flex shrink-0">
+                            {hasCoordinates(stop) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                title="Get directions"
+                                onClick={() => onNavigate(stop)}
+                              >
+                                <Navigation className="w-3 h-3" />
+                              </Button>
+                            )}
+                            {!readOnly && (
+                              <>
+                                {/* Touch screens have no HTML drag and drop */}
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  title="Move up"
+                                  disabled={dayIndex === 0 && stopIndex === 0}
+                                  onClick={() => applyChange(stepStop(draft, position, -1))}
+                                >
+                                  <ChevronUp className="w-3 h-3" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  title="Move down"
+                                  disabled={dayIndex === draft.length - 1 && stopIndex === day.stops.length - 1}
+                                  onClick={() => applyChange(stepStop(draft, position, 1))}
+                                >
+                                  <ChevronDown className="w-3 h-3" />
+                                </Button>
+                              </>
+                            )}
+                            {!readOnly && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                title="Remove stop"
+                                onClick={() => applyChange(removeStop(draft, position))}
+                              >
+                                <X className="w-3 h-3" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                        {stop.municipality && (
+                          <p className="text-xs text-muted-foreground line-clamp-1">{stop.municipality}</p>
+                        )}
+                        <div className="flex items-center gap-2">
+                          <Clock className="w-3 h-3 text-muted-foreground shrink-0" />
+                          <Input
+                            type="time"
+                            value={stop.start_time || ""}
+                            onChange={(e) =>
+                              applyChange(updateStop(draft, position, { start_time: e.target.value || null }))
+                            }
+                            disabled={readOnly}
+                            className="h-7 w-24 text-xs px-2"
+                          />
+                          <Input
+                            type="number"
+                            min={0}
+                            step={15}
+                            placeholder="min"
+                            value={stop.duration_minutes ?? ""}
+                            onChange={(e) =>
+                              applyChange(
+                                updateStop(draft, position, {
+                                  duration_minutes: e.target.value ? parseInt(e.target.value, 10) : null,
+                                })
+                              )
+                            }
+                            disabled={readOnly}
+                            className="h-7 w-16 text-xs px-2"
+                          />
+                          {stop.duration_minutes ? (
+                            <span className="text-xs text-muted-foreground">
+                              {formatDuration(stop.duration_minutes)}
+                            </span>
+                          ) : null}
+                        </div>
+                        {hoursWarning && (
+                          <p className="flex items-center gap-1 text-xs text-destructive">
+                            <AlertTriangle className="w-3 h-3 shrink-0" />
+                            {hoursWarning}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {!readOnly && (
+                  <div
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropTarget(endPosition);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(endPosition);
+                    }}
+                    className={`min-h-[48px] rounded-md border-2 border-dashed flex items-center justify-center text-xs text-muted-foreground transition-colors ${
+                      isDropTarget(endPosition) ? "border-primary bg-primary/5" : "border-transparent"
+                    } ${day.stops.length === 0 ? "border-muted" : ""}`}
+                  >
+                    {day.stops.length === 0 ? "Drop stops here" : dragging ? "Move to end of day" : ""}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ItineraryDayPlanner;
@@ -0,0 +1,89 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Loader2, Replace } from "lucide-react";
+import { formatKm } from "@/lib/geo";
+import { ItineraryDay, updateStop } from "@/lib/itinerary";
+import { CatalogueSpot, HazardZone, StopHazard, findItineraryHazards, replaceStop } from "@/lib/hazards";
+
+interface ItineraryHazardWarningsProps {
+  days: ItineraryDay[];
+  zones: HazardZone[];
+  catalogue: CatalogueSpot[];
+  // Omit for read-only itineraries to hide the swap buttons
+  onSave?: (days: ItineraryDay[]) => Promise<void>;
+}
+
+const ItineraryHazardWarnings = ({ days, zones, catalogue, onSave }: ItineraryHazardWarningsProps) => {
+  const [replacing, setReplacing] = useState<string | null>(null);
+  const hazards = useMemo(() => findItineraryHazards(days, catalogue, zones), [days, catalogue, zones]);
+
+  if (hazards.length === 0) return null;
+
+  const handleReplace = async (hazard: StopHazard) => {
+    if (!hazard.alternative || !onSave) return;
+
+    const key = `${hazard.dayIndex}-${hazard.stopIndex}`;
+    setReplacing(key);
+    try {
+      await onSave(
+        updateStop(
+          days,
+          { dayIndex: hazard.dayIndex, stopIndex: hazard.stopIndex },
+          replaceStop(hazard.stop, hazard.alternative.spot)
+        )
+      );
+    } catch {
+      // onSave reports its own errors
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  return (
+    <div role="alert" className="mb-6 rounded-lg border border-destructive bg-destructive/10 p-4 space-y-3">
+      <div className="flex items-center gap-2 font-semibold text-destructive">
+        <AlertTriangle className="w-5 h-5" />
+        {hazards.length === 1 ? "1 stop is" : `${hazards.length} stops are`} inside an active hazard zone
+      </div>
+
+      <ul className="space-y-3">
+        {hazards.map((hazard) => {
+          const key = `${hazard.dayIndex}-${hazard.stopIndex}`;
+
+          return (
+            <li key={key} className="flex flex-wrap items-start justify-between gap-3 text-sm">
+              <div>
+                <p>
+                  <span className="font-medium">{hazard.stop.name}</span>
+                  <span className="text-muted-foreground"> (Day {days[hazard.dayIndex].day})</span> is within{" "}
+                  {hazard.zones.map((zone) => zone.name).join(", ")}.
+                </p>
+                {hazard.alternative ? (
+                  <p className="text-muted-foreground">
+                    Nearby alternative: {hazard.alternative.spot.name} ({formatKm(hazard.alternative.distanceKm)} away)
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground">No similar spot nearby outside the hazard zone.</p>
+                )}
+              </div>
+              {hazard.alternative && onSave && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={replacing !== null}
+                  onClick={() => handleReplace(hazard)}
+                >
+                  {replacing === key ? <Loader2 className="w-4 h-4 animate-spin" /> : <Replace className="w-4 h-4" />}
+                  Swap for {hazard.alternative.spot.name}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ItineraryHazardWarnings;
@@ -1,50 +1,59 @@
-import { useEffect, useState } from "react";
-import { MapContainer, TileLayer, Marker, Popup } from "react-leaflet";
+import { useEffect, useMemo } from "react";
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import { ItineraryDay, ItineraryStop, getDayColor, hasCoordinates } from "@/lib/itinerary";
+import { numberedIcon } from "@/lib/mapIcons";
+import { HazardZone } from "@/lib/hazards";
+import HazardZoneLayer from "@/components/HazardZoneLayer";
 
-const markerIcon = new L.Icon({
-  iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-});
-
-interface Spot {
-  id: string;
-  name: string;
-  location: string;
-  latitude: number | null;
-  longitude: number | null;
-  description: string | null;
-  municipality: string | null;
-}
+const ALBAY_CENTER: [number, number] = [13.1391, 123.7437];
 
 interface ItineraryMapProps {
-  spots: Spot[];
+  days: ItineraryDay[];
+  zones?: HazardZone[];
 }
 
-const ItineraryMap = ({ spots }: ItineraryMapProps) => {
-  const [center, setCenter] = useState<[number, number]>([13.1391, 123.7437]); // Albay center
-  const [validSpots, setValidSpots] = useState<Spot[]>([]);
+const FitToStops = ({ points }: { points: [number, number][] }) => {
+  const map = useMap();
 
   useEffect(() => {
-    // Filter spots with valid coordinates
-    const spotsWithCoords = spots.filter(
-      (spot) => spot.latitude !== null && spot.longitude !== null
-    );
-    setValidSpots(spotsWithCoords);
-
-    // If we have spots, center on the first one
-    if (spotsWithCoords.length > 0 && spotsWithCoords[0].latitude && spotsWithCoords[0].longitude) {
-      setCenter([spotsWithCoords[0].latitude, spotsWithCoords[0].longitude]);
+    if (points.length === 1) {
+      map.setView(points[0], 13);
+    } else if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40] });
     }
-  }, [spots]);
+  }, [points, map]);
+
+  return null;
+};
+
+const ItineraryMap = ({ days, zones = [] }: ItineraryMapProps) => {
+  // Stops without coordinates are skipped, so numbering follows the planner order
+  const dayPaths = useMemo(
+    () =>
+      days.map((day, dayIndex) => ({
+        day: day.day,
+        color: getDayColor(dayIndex),
+        stops: day.stops
+          .map((stop, stopIndex) => ({ stop, number: stopIndex + 1 }))
+          .filter(({ stop }) => hasCoordinates(stop)) as { stop: ItineraryStop; number: number }[],
+      })),
+    [days]
+  );
+
+  const allPoints = useMemo(
+    () =>
+      dayPaths.flatMap((path) =>
+        path.stops.map(({ stop }) => [Number(stop.latitude), Number(stop.longitude)] as [number, number])
+      ),
+    [dayPaths]
+  );
 
   return (
-    <div className="w-full h-[500px] rounded-lg overflow-hidden border border-border shadow-md">
+    <div className="w-full h-[500px] rounded-lg overflow-hidden border border-border shadow-md relative">
       <MapContainer
-        center={center}
+        center={allPoints[0] || ALBAY_CENTER}
         zoom={11}
         style={{ height: "100%", width: "100%" }}
         scrollWheelZoom={true}
@@ -53,36 +62,68 @@ const ItineraryMap = ({ spots }: ItineraryMapProps) => {
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
-        
-        {validSpots.map((spot) => (
-          spot.latitude && spot.longitude && (
+
+        <FitToStops points={allPoints} />
+
+        <HazardZoneLayer zones={zones} />
+
+        {dayPaths.map((path) => (
+          <Polyline
+            key={`path-${path.day}`}
+            positions={path.stops.map(({ stop }) => [Number(stop.latitude), Number(stop.longitude)])}
+            color={path.color}
+            weight={4}
+            opacity={0.8}
+            dashArray="8 6"
+          />
+        ))}
+
+        {dayPaths.map((path) =>
+          path.stops.map(({ stop, number }) => (
             <Marker
-              key={spot.id}
-              position={[spot.latitude, spot.longitude]}
-              icon={markerIcon}
+              key={`${path.day}-${stop.id}-${number}`}
+              position={[Number(stop.latitude), Number(stop.longitude)]}
+              icon={numberedIcon(number, path.color)}
             >
               <Popup>
                 <div className="p-2">
-                  <h3 className="font-semibold text-base mb-1">{spot.name}</h3>
-                  {spot.description && (
+                  <p className="text-xs font-semibold mb-1" style={{ color: path.color }}>
+                    Day {path.day} · Stop {number}
+                    {stop.start_time ? ` · ${stop.start_time}` : ""}
+                  </p>
+                  <h3 className="font-semibold text-base mb-1">{stop.name}</h3>
+                  {stop.description && (
                     <p className="text-sm text-muted-foreground mb-2 line-clamp-3">
-                      {spot.description}
+                      {stop.description}
                     </p>
                   )}
-                  <p className="text-xs text-muted-foreground">
-                    📍 {spot.location}
-                  </p>
-                  {spot.municipality && (
+                  {stop.location && (
                     <p className="text-xs text-muted-foreground">
-                      {spot.municipality}
+                      📍 {stop.location}
+                    </p>
+                  )}
+                  {stop.municipality && (
+                    <p className="text-xs text-muted-foreground">
+                      {stop.municipality}
                     </p>
                   )}
                 </div>
               </Popup>
             </Marker>
-          )
-        ))}
+          ))
+        )}
       </MapContainer>
+
+      {days.length > 1 && (
+        <div className="absolute bottom-3 left-3 z-[1000] bg-background/90 rounded-md shadow px-3 py-2 space-y-1">
+          {dayPaths.map((path) => (
+            <div key={`legend-${path.day}`} className="flex items-center gap-2 text-xs">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: path.color }} />
+              Day {path.day}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
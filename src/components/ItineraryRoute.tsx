@@ -0,0 +1,497 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from "react-leaflet";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Car, PersonStanding, Bike, Loader2, Clock, Gauge, Route } from "lucide-react";
+import {
+  ItineraryDay,
+  ItineraryStop,
+  formatTime,
+  getDayColor,
+  hasCoordinates,
+  parseDays,
+  parseTime,
+} from "@/lib/itinerary";
+import { LatLng, formatKm } from "@/lib/geo";
+import { RouteResult, TRAVEL_MODES, TravelMode, getRoute } from "@/lib/routing";
+import { numberedIcon } from "@/lib/mapIcons";
+
+const travelModeOptions = [
+  { mode: "driving" as TravelMode, icon: Car, label: "Driving" },
+  { mode: "walking" as TravelMode, icon: PersonStanding, label: "Walking" },
+  { mode: "cycling" as TravelMode, icon: Bike, label: "Cycling" },
+];
+
+const ALL_DAYS = "all";
+
+interface RouteStop {
+  stop: ItineraryStop;
+  dayIndex: number;
+  // Each day starts again from the start time, with no leg from the day before
+  firstOfDay: boolean;
+}
+
+// A day's stops as one route; `from` is the index of its first stop
+interface DaySegment {
+  dayIndex: number;
+  from: number;
+  waypoints: LatLng[];
+}
+
+interface ScheduledStop extends RouteStop {
+  arrival: number;
+  departure: number;
+}
+
+function FitRoute({ points }: { points: LatLng[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40] });
+    } else if (points.length === 1) {
+      map.setView(points[0], 13);
+    }
+  }, [points, map]);
+
+  return null;
+}
+
+// Stops added from spot cards only carry id and name, so look up their coordinates
+const hydrateCoordinates = async (days: ItineraryDay[]): Promise<ItineraryDay[]> => {
+  const missing = days.flatMap((day) => day.stops).filter((stop) => !hasCoordinates(stop));
+  if (missing.length === 0) return days;
+
+  const ids = missing.map((stop) => stop.id);
+  const results = await Promise.all(
+    (["tourist_spots", "accommodations", "restaurants", "events"] as const).map((table) =>
+      supabase.from(table).select("id, latitude, longitude, municipality, location").in("id", ids)
+    )
+  );
+
+  const found = new Map(results.flatMap((result) => result.data || []).map((row) => [row.id, row]));
+
+  return days.map((day) => ({
+    ...day,
+    stops: day.stops.map((stop) => {
+      const row = found.get(stop.id);
+      return row && !hasCoordinates(stop)
+        ? {
+            ...stop,
+            latitude: row.latitude,
+            longitude: row.longitude,
+            municipality: stop.municipality ?? row.municipality,
+            location: stop.location ?? row.location,
+          }
+        : stop;
+    }),
+  }));
+};
+
+// Every travel mode is fetched up front so switching modes is instant; a mode that
+// fails is left out rather than failing the others
+const fetchRoutes = async (segments: DaySegment[]) => {
+  const results = await Promise.allSettled(
+    TRAVEL_MODES.map((mode) => Promise.all(segments.map((segment) => getRoute(segment.waypoints, mode))))
+  );
+  const routes: Partial<Record<TravelMode, RouteResult[]>> = {};
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      routes[TRAVEL_MODES[index]] = result.value;
+    } else {
+      console.error(`Error fetching ${TRAVEL_MODES[index]} route:`, result.reason);
+    }
+  });
+  return routes;
+};
+
+interface ItineraryRouteProps {
+  itineraryId: string;
+}
+
+const ItineraryRoute = ({ itineraryId }: ItineraryRouteProps) => {
+  const navigate = useNavigate();
+  const [name, setName] = useState("");
+  const [days, setDays] = useState<ItineraryDay[]>([]);
+  const [selectedDay, setSelectedDay] = useState(ALL_DAYS);
+  const [travelMode, setTravelMode] = useState<TravelMode>("driving");
+  const [startTime, setStartTime] = useState("08:00");
+  // Per mode, one route per segment
+  const [routes, setRoutes] = useState<Partial<Record<TravelMode, RouteResult[]>>>({});
+  const [isLoadingItinerary, setIsLoadingItinerary] = useState(true);
+  const [isLoadingRoute, setIsLoadingRoute] = useState(false);
+
+  useEffect(() => {
+    fetchItinerary();
+  }, [itineraryId]);
+
+  const stops = useMemo(
+    (): RouteStop[] =>
+      days.flatMap((day, dayIndex) =>
+        selectedDay === ALL_DAYS || String(dayIndex) === selectedDay
+          ? day.stops.filter(hasCoordinates).map((stop, index) => ({ stop, dayIndex, firstOfDay: index === 0 }))
+          : []
+      ),
+    [days, selectedDay]
+  );
+
+  const waypoints = useMemo(
+    () => stops.map(({ stop }) => [Number(stop.latitude), Number(stop.longitude)] as LatLng),
+    [stops]
+  );
+
+  // Days are routed separately; a day with a single stop has nothing to route
+  const segments = useMemo(
+    (): DaySegment[] =>
+      stops
+        .map((routeStop, index) => ({ ...routeStop, index }))
+        .filter(({ firstOfDay }) => firstOfDay)
+        .map(({ dayIndex, index }) => ({
+          dayIndex,
+          from: index,
+          waypoints: waypoints.filter((_, stopIndex) => stops[stopIndex].dayIndex === dayIndex),
+        }))
+        .filter((segment) => segment.waypoints.length > 1),
+    [stops, waypoints]
+  );
+
+  useEffect(() => {
+    // Routes for the previous segments would be matched against the wrong stops
+    setRoutes({});
+    if (segments.length === 0) {
+      setIsLoadingRoute(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingRoute(true);
+    fetchRoutes(segments).then((next) => {
+      if (cancelled) return;
+      setRoutes(next);
+      setIsLoadingRoute(false);
+      if (Object.keys(next).length === 0) {
+        toast.error("Failed to fetch route");
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [segments]);
+
+  useEffect(() => {
+    // Default the start time to the first stop's planned time, if any
+    if (stops[0]?.stop.start_time) {
+      setStartTime(stops[0].stop.start_time);
+    }
+  }, [stops]);
+
+  const fetchItinerary = async () => {
+    setIsLoadingItinerary(true);
+    const { data, error } = await supabase
+      .from("itineraries")
+      .select("name, days, spots")
+      .eq("id", itineraryId)
+      .single();
+
+    if (error || !data) {
+      toast.error("Failed to load itinerary");
+      setIsLoadingItinerary(false);
+      return;
+    }
+
+    setName(data.name);
+    setDays(await hydrateCoordinates(parseDays(data.days, data.spots)));
+    setIsLoadingItinerary(false);
+  };
+
+  // The leg arriving at stop `index`; none for the first stop of a day
+  const legTo = useCallback(
+    (mode: TravelMode, index: number) => {
+      const segmentIndex = segments.findIndex(
+        (segment) => index > segment.from && index < segment.from + segment.waypoints.length
+      );
+      return segmentIndex === -1
+        ? undefined
+        : routes[mode]?.[segmentIndex]?.legs[index - segments[segmentIndex].from - 1];
+    },
+    [routes, segments]
+  );
+
+  // Arrival at each stop for the chosen mode, starting again each day. A
+  // timed stop is never reached before its start time, and the planned
+  // duration is spent there.
+  const schedule = useMemo((): ScheduledStop[] => {
+    const start = parseTime(startTime) ?? 8 * 60;
+    let clock = start;
+
+    return stops.map((routeStop, index) => {
+      const { stop, firstOfDay } = routeStop;
+      clock = firstOfDay ? start : clock + (legTo(travelMode, index)?.durationMin ?? 0);
+      const planned = parseTime(stop.start_time);
+      const arrival = clock;
+      clock = Math.max(clock, planned ?? clock) + (stop.duration_minutes ?? 0);
+      return { ...routeStop, arrival, departure: clock };
+    });
+  }, [legTo, travelMode, stops, startTime]);
+
+  // Totals over every routed day
+  const activeRoutes = routes[travelMode];
+  const activeRoute = activeRoutes && {
+    distanceKm: activeRoutes.reduce((sum, route) => sum + route.distanceKm, 0),
+    durationMin: activeRoutes.reduce((sum, route) => sum + route.durationMin, 0),
+    approximate: activeRoutes.some((route) => route.approximate),
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      {/* Header */}
+      <div className="bg-background border-b p-4 shadow-sm">
+        <div className="container mx-auto flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <h1 className="text-lg font-semibold line-clamp-1">{name || "Itinerary Route"}</h1>
+          <div className="w-20" />
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+        {/* Sidebar */}
+        <div className="md:w-[32rem] bg-background border-r overflow-y-auto">
+          <div className="p-6 space-y-6">
+            {isLoadingItinerary ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Stops</Label>
+                    <Select value={selectedDay} onValueChange={setSelectedDay}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_DAYS}>All days</SelectItem>
+                        {days.map((day, index) => (
+                          <SelectItem key={day.day} value={String(index)}>
+                            Day {day.day}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="start-time">
+                      {selectedDay === ALL_DAYS ? "Leave first stop each day at" : "Leave first stop at"}
+                    </Label>
+                    <Input
+                      id="start-time"
+                      type="time"
+                      value={startTime}
+                      onChange={(e) => setStartTime(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  {travelModeOptions.map(({ mode, icon: Icon, label }) => (
+                    <Button
+                      key={mode}
+                      variant={travelMode === mode ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setTravelMode(mode)}
+                      className="flex flex-col items-center gap-1 h-auto py-3"
+                    >
+                      <Icon className="w-5 h-5" />
+                      <span className="text-xs">{label}</span>
+                    </Button>
+                  ))}
+                </div>
+
+                {segments.length === 0 ? (
+                  <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                      At least two stops with GPS coordinates on the same day are needed to plan a route.
+                    </CardContent>
+                  </Card>
+                ) : isLoadingRoute ? (
+                  <Card>
+                    <CardContent className="p-6 flex items-center justify-center">
+                      <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                      <span className="ml-2">Calculating route...</span>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <>
+                    {activeRoute && (
+                      <Card className="bg-primary/5 border-primary/20">
+                        <CardContent className="p-4 flex items-center justify-around">
+                          <div className="flex items-center gap-2">
+                            <Gauge className="w-5 h-5 text-primary" />
+                            <Badge variant="secondary" className="text-base">
+                              {formatKm(activeRoute.distanceKm)}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Clock className="w-5 h-5 text-primary" />
+                            <Badge variant="secondary" className="text-base">
+                              {Math.round(activeRoute.durationMin)} min
+                            </Badge>
+                          </div>
+                          {activeRoute.approximate && (
+                            <Badge variant="outline">Straight-line estimate</Badge>
+                          )}
+                        </CardContent>
+                      </Card>
+                    )}
+
+                    <div>
+                      <h3 className="font-semibold mb-3 flex items-center gap-2">
+                        <Route className="w-5 h-5 text-primary" />
+                        Legs
+                      </h3>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Leg</TableHead>
+                            {travelModeOptions.map(({ mode, label }) => (
+                              <TableHead key={mode} className={mode === travelMode ? "text-primary" : ""}>
+                                {label}
+                              </TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {stops.map(({ stop, firstOfDay }, index) =>
+                            firstOfDay ? null : (
+                              <TableRow key={`${stop.id}-${index}`}>
+                                <TableCell className="text-xs">
+                                  <span className="font-medium">{index} → {index + 1}</span>
+                                  <p className="text-muted-foreground line-clamp-1">{stop.name}</p>
+                                </TableCell>
+                                {TRAVEL_MODES.map((mode) => {
+                                  const leg = legTo(mode, index);
+                                  return (
+                                    <TableCell key={mode} className="text-xs whitespace-nowrap">
+                                      {leg ? (
+                                        <>
+                                          {formatKm(leg.distanceKm)}
+                                          <p className="text-muted-foreground">{Math.round(leg.durationMin)} min</p>
+                                        </>
+                                      ) : (
+                                        "—"
+                                      )}
+                                    </TableCell>
+                                  );
+                                })}
+                              </TableRow>
+                            )
+                          )}
+                        </TableBody>
+                      </Table>
+                    </div>
+
+                    <div>
+                      <h3 className="font-semibold mb-3 flex items-center gap-2">
+                        <Clock className="w-5 h-5 text-primary" />
+                        Arrival Times
+                      </h3>
+                      <div className="space-y-2">
+                        {schedule.map(({ stop, dayIndex, firstOfDay, arrival, departure }, index) => (
+                          <div key={`${stop.id}-${index}`} className="space-y-2">
+                            {firstOfDay && selectedDay === ALL_DAYS && (
+                              <p className="text-xs font-semibold text-muted-foreground pt-2">Day {days[dayIndex].day}</p>
+                            )}
+                            <div className="flex items-center gap-3 p-3 rounded-lg border">
+                              <span
+                                className="w-6 h-6 rounded-full text-white text-xs font-bold flex items-center justify-center shrink-0"
+                                style={{ backgroundColor: getDayColor(dayIndex) }}
+                              >
+                                {index + 1}
+                              </span>
+                              <div className="flex-1 min-w-0">
+                                <p className="font-medium text-sm line-clamp-1">{stop.name}</p>
+                                {stop.start_time && (
+                                  <p className="text-xs text-muted-foreground">Planned {stop.start_time}</p>
+                                )}
+                              </div>
+                              <div className="text-right text-xs">
+                                <p className="font-semibold">{firstOfDay ? "Start" : `Arrive ${formatTime(arrival)}`}</p>
+                                {departure !== arrival && (
+                                  <p className="text-muted-foreground">Leave {formatTime(departure)}</p>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Map */}
+        <div className="flex-1 relative">
+          <MapContainer
+            center={waypoints[0] || [13.1391, 123.7437]}
+            zoom={11}
+            style={{ height: "100%", width: "100%" }}
+            scrollWheelZoom={true}
+          >
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+
+            <FitRoute points={waypoints} />
+
+            {stops.map(({ stop, dayIndex, firstOfDay }, index) => (
+              <Marker
+                key={`${stop.id}-${index}`}
+                position={waypoints[index]}
+                icon={numberedIcon(index + 1, getDayColor(dayIndex))}
+              >
+                <Popup>
+                  <strong>{stop.name}</strong>
+                  {schedule[index] && !firstOfDay && (
+                    <p className="text-xs">Arrive {formatTime(schedule[index].arrival)}</p>
+                  )}
+                </Popup>
+              </Marker>
+            ))}
+
+            {activeRoutes?.map((route, index) => (
+              <Polyline
+                key={segments[index]?.dayIndex ?? index}
+                positions={route.coordinates}
+                color={getDayColor(segments[index]?.dayIndex ?? 0)}
+                weight={5}
+                opacity={0.7}
+                dashArray={route.approximate ? "8 8" : undefined}
+              />
+            ))}
+          </MapContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItineraryRoute;
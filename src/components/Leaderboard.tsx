@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Trophy } from "lucide-react";
+import { toast } from "sonner";
+import { LeaderboardEntry, fetchLeaderboard, setLeaderboardOptIn } from "@/lib/badges";
+
+interface LeaderboardProps {
+  userId: string;
+  optedIn: boolean;
+  onOptInChange: (optedIn: boolean) => void;
+}
+
+// The current month and the five before it, as "YYYY-MM-01"
+const recentMonths = () => {
+  const now = new Date();
+  return Array.from({ length: 6 }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - index, 1);
+    return {
+      value: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-01`,
+      label: date.toLocaleDateString(undefined, { month: "long", year: "numeric" }),
+    };
+  });
+};
+
+const RANK_STYLES: Record<number, string> = {
+  1: "text-yellow-500",
+  2: "text-slate-400",
+  3: "text-amber-700",
+};
+
+const Leaderboard = ({ userId, optedIn, onOptInChange }: LeaderboardProps) => {
+  const [months] = useState(recentMonths);
+  const [month, setMonth] = useState(months[0].value);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    fetchLeaderboard(month)
+      .then((data) => {
+        if (!cancelled) setEntries(data);
+      })
+      .catch((error) => console.error("Error fetching leaderboard:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [month, optedIn]);
+
+  const handleOptIn = async (value: boolean) => {
+    setSaving(true);
+    try {
+      await setLeaderboardOptIn(userId, value);
+      onOptInChange(value);
+      toast.success(value ? "You're on the leaderboard" : "You've left the leaderboard");
+    } catch (error) {
+      console.error("Error updating leaderboard setting:", error);
+      toast.error("Failed to update leaderboard setting");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-12">
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-yellow-500" />
+              Monthly Leaderboard
+            </CardTitle>
+            <CardDescription>Badge points plus one point per spot checked into, reset every month</CardDescription>
+          </div>
+          <Select value={month} onValueChange={setMonth}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {months.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pt-2">
+          <Switch id="leaderboard-opt-in" checked={optedIn} disabled={saving} onCheckedChange={handleOptIn} />
+          <Label htmlFor="leaderboard-opt-in" className="font-normal">
+            Show my name and photo on the leaderboard
+          </Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : entries.length > 0 ? (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div
+                key={entry.user_id}
+                className={`flex items-center gap-3 rounded-md p-2 ${entry.user_id === userId ? "bg-primary/10" : ""}`}
+              >
+                <span className={`w-8 text-center font-bold ${RANK_STYLES[entry.rank] || "text-muted-foreground"}`}>
+                  {entry.rank}
+                </span>
+                <Avatar className="w-9 h-9">
+                  <AvatarImage src={entry.avatar_url || ""} alt={entry.full_name || "Traveler"} />
+                  <AvatarFallback>{(entry.full_name || "T").charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium line-clamp-1">{entry.full_name || "Traveler"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.badge_count} badges · {entry.spot_count} spots
+                  </p>
+                </div>
+                <span className="font-semibold">{entry.points} pts</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-6">
+            No one has scored yet this month. Check in somewhere to get on the board!
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Leaderboard;
@@ -6,10 +6,15 @@ import {
   Marker,
   Popup,
   Polyline,
+  Circle,
   useMap,
 } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import { getRoute } from "@/lib/routing";
+import { LatLng, formatKm } from "@/lib/geo";
+import { dotIcon } from "@/lib/mapIcons";
+import { DETAIL_PAGE_KINDS, NearbyPlace, PLACE_KINDS, placeUrl } from "@/lib/nearby";
 
 // ---------------------- ICON ----------------------
 const markerIcon = new L.Icon({
@@ -183,9 +188,12 @@ interface MapProps {
     name?: string;
   } | null;
   hideSearchBar?: boolean;
+  // "Near me" results and the circle they were searched in
+  places?: NearbyPlace[];
+  searchArea?: { center: LatLng; radiusKm: number } | null;
 }
 
-const Map = ({ autoDestination = null, hideSearchBar = false }: MapProps) => {
+const Map = ({ autoDestination = null, hideSearchBar = false, places = [], searchArea = null }: MapProps) => {
   const [position, setPosition] = useState<[number, number] | null>(null);
   const [destination, setDestination] = useState<[number, number] | null>(null);
   const [destinationName, setDestinationName] = useState<string>("");
@@ -213,37 +221,29 @@ const Map = ({ autoDestination = null, hideSearchBar = false }: MapProps) => {
   }, [autoDestination]);
 
   useEffect(() => {
-    const getRoute = async () => {
+    const fetchRoute = async () => {
       if (!position || !destination) return;
 
       setIsLoadingRoute(true);
       try {
-        const url = `https://router.project-osrm.org/route/v1/driving/${position[1]},${position[0]};${destination[1]},${destination[0]}?overview=full&geometries=geojson`;
-        const res = await fetch(url);
-        const data = await res.json();
+        const result = await getRoute([position, destination], "driving");
+        setRoute(result.coordinates);
+        setDistance(result.distanceKm);
+        setDuration(result.durationMin);
 
-        if (data.routes && data.routes.length > 0) {
-          const routeCoords = data.routes[0].geometry.coordinates.map(
-            (c: number[]) => [c[1], c[0]]
+        const km = result.distanceKm;
+        if (km < 10)
+          setRecommendation(
+            "🚌 Take a tricycle, jeepney, or walk if nearby. Quick and easy!"
+          );
+        else if (km < 80)
+          setRecommendation(
+            "🚐 Try taking a bus or van — affordable and frequent rides available."
+          );
+        else
+          setRecommendation(
+            "🚗 Best to drive your own vehicle or rent one for comfort and time efficiency."
           );
-          setRoute(routeCoords);
-          setDistance(data.routes[0].distance / 1000);
-          setDuration(data.routes[0].duration / 60);
-
-          const km = data.routes[0].distance / 1000;
-          if (km < 10)
-            setRecommendation(
-              "🚌 Take a tricycle, jeepney, or walk if nearby. Quick and easy!"
-            );
-          else if (km < 80)
-            setRecommendation(
-              "🚐 Try taking a bus or van — affordable and frequent rides available."
-            );
-          else
-            setRecommendation(
-              "🚗 Best to drive your own vehicle or rent one for comfort and time efficiency."
-            );
-        }
       } catch (err) {
         console.error("Failed to fetch route", err);
       } finally {
@@ -251,7 +251,7 @@ const Map = ({ autoDestination = null, hideSearchBar = false }: MapProps) => {
       }
     };
 
-    getRoute();
+    fetchRoute();
   }, [position, destination]);
 
   return (
@@ -388,6 +388,44 @@ const Map = ({ autoDestination = null, hideSearchBar = false }: MapProps) => {
               </Popup>
             </Marker>
           )}
+          {searchArea && (
+            <Circle
+              center={searchArea.center}
+              radius={searchArea.radiusKm * 1000}
+              pathOptions={{ color: "#38bdf8", weight: 1, fillOpacity: 0.05 }}
+            />
+          )}
+          {places.map((place) => {
+            const kind = PLACE_KINDS.find((item) => item.value === place.kind);
+            return (
+              <Marker
+                key={`${place.kind}-${place.id}`}
+                position={[place.latitude, place.longitude]}
+                icon={dotIcon(kind?.color || "#64748b")}
+              >
+                <Popup>
+                  <div style={{ maxWidth: "200px", color: "#000" }}>
+                    <strong style={{ display: "block" }}>{place.name}</strong>
+                    <span style={{ fontSize: "12px" }}>
+                      {kind?.label} · {formatKm(place.distance_km)} away
+                    </span>
+                    <div style={{ display: "flex", gap: "8px", marginTop: "6px" }}>
+                      <button
+                        onClick={() => {
+                          setDestination([place.latitude, place.longitude]);
+                          setDestinationName(place.name);
+                        }}
+                        style={{ color: "#2563eb", cursor: "pointer" }}
+                      >
+                        Directions
+                      </button>
+                      {DETAIL_PAGE_KINDS.includes(place.kind) && <a href={placeUrl(place)}>Details</a>}
+                    </div>
+                  </div>
+                </Popup>
+              </Marker>
+            );
+          })}
           {route.length > 0 && <Polyline positions={route} color="#38bdf8" weight={5} />}
           {destination && <FlyToLocation coords={destination} />}
         </MapContainer>
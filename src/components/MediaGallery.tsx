@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { Media, MediaEntityType, fetchMedia } from "@/lib/media";
+
+interface MediaGalleryProps {
+  entityType: MediaEntityType;
+  entityId: string;
+  name: string;
+  // Shown until the gallery loads, and when it has no photos
+  fallbackImageUrl?: string | null;
+}
+
+const MediaGallery = ({ entityType, entityId, name, fallbackImageUrl }: MediaGalleryProps) => {
+  const [media, setMedia] = useState<Media[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchMedia(entityType, entityId)
+      .then((rows) => {
+        if (!cancelled) setMedia(rows);
+      })
+      .catch((error) => console.error("Error fetching media:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, entityId]);
+
+  if (media.length === 0) {
+    if (!fallbackImageUrl) return null;
+    return (
+      <div className="rounded-lg overflow-hidden shadow-lg">
+        <img src={fallbackImageUrl} alt={name} className="w-full h-96 object-cover" />
+      </div>
+    );
+  }
+
+  // The cover leads; the rest keep the order set in the admin
+  const photos = [...media.filter((item) => item.is_cover), ...media.filter((item) => !item.is_cover)];
+
+  return (
+    <Carousel opts={{ loop: photos.length > 1 }} className="rounded-lg overflow-hidden shadow-lg">
+      <CarouselContent className="ml-0">
+        {photos.map((item, index) => (
+          <CarouselItem key={item.id} className="pl-0">
+            <figure className="relative">
+              <img
+                src={item.url}
+                alt={item.caption || `${name} photo ${index + 1}`}
+                className="w-full h-96 object-cover"
+                loading={index === 0 ? "eager" : "lazy"}
+              />
+              {(item.caption || item.credit) && (
+                <figcaption className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent px-4 pb-3 pt-8 text-white">
+                  {item.caption && <p className="text-sm">{item.caption}</p>}
+                  {item.credit && <p className="text-xs opacity-80">{item.credit}</p>}
+                </figcaption>
+              )}
+              {photos.length > 1 && (
+                <span className="absolute top-3 right-3 rounded-full bg-black/60 px-2 py-0.5 text-xs text-white">
+                  {index + 1} / {photos.length}
+                </span>
+              )}
+            </figure>
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      {photos.length > 1 && (
+        <>
+          <CarouselPrevious className="left-3" />
+          <CarouselNext className="right-3" />
+        </>
+      )}
+    </Carousel>
+  );
+};
+
+export default MediaGallery;
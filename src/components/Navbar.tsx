@@ -11,12 +11,15 @@ import {
   Shield,
   Cloud,
   PhoneCall,
+  BookOpen,
+  CalendarDays,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
 import { toast } from "sonner";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { NotificationBell } from "@/components/NotificationBell";
+import GlobalSearch from "@/components/GlobalSearch";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -127,6 +130,14 @@ const Navbar = () => {
               Explore
             </Link>
 
+            <Link
+              to="/events"
+              className="text-sm font-medium hover:text-primary transition-colors flex items-center gap-1"
+            >
+              <CalendarDays className="w-4 h-4" />
+              Events
+            </Link>
+
             {/* ✅ WEATHER BUTTON HERE */}
             <WeatherDialog />
 
@@ -151,6 +162,9 @@ const Navbar = () => {
             </Link>
           </div>
 
+          {/* === GLOBAL SEARCH === */}
+          <GlobalSearch />
+
           {/* ✅ EMERGENCY HOTLINE BUTTON */}
           <Link
             to="/emergency-hotlines"
@@ -180,6 +194,10 @@ const Navbar = () => {
                     <DropdownMenuItem onClick={() => navigate("/dashboard")}>
                       Dashboard
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate("/passport")}>
+                      <BookOpen className="w-4 h-4 mr-2" />
+                      My Passport
+                    </DropdownMenuItem>
                     {isAdmin && (
                       <DropdownMenuItem onClick={() => navigate("/admin")}>
                         <Shield className="w-4 h-4 mr-2" />
@@ -224,6 +242,15 @@ const Navbar = () => {
               Explore
             </Link>
 
+            <Link
+              to="/events"
+              className="block px-4 py-2 text-sm font-medium hover:bg-muted rounded-lg"
+              onClick={() => setIsMenuOpen(false)}
+            >
+              <CalendarDays className="w-4 h-4 inline mr-2" />
+              Events
+            </Link>
+
             {/* ✅ WEATHER button inside mobile menu too */}
             <WeatherDialog />
 
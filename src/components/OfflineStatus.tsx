@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CloudUpload, WifiOff } from "lucide-react";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { flushOutbox, getCatalogueSyncedAt, getPendingChanges, onOutboxChange, syncCatalogue } from "@/lib/offline";
+
+// The catalogue changes rarely, so refresh it at most hourly
+const CATALOGUE_MAX_AGE_MS = 60 * 60 * 1000;
+
+// Syncs queued edits and the offline catalogue whenever the app comes online,
+// and shows a small status pill while offline or while edits are waiting
+const OfflineStatus = () => {
+  const isOnline = useOnlineStatus();
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    getPendingChanges()
+      .then((changes) => setPending(changes.length))
+      .catch((error) => console.error("Error reading offline changes:", error));
+    return onOutboxChange(setPending);
+  }, []);
+
+  useEffect(() => {
+    if (!isOnline) return;
+
+    const sync = async () => {
+      try {
+        const { synced, conflicts } = await flushOutbox();
+        if (synced > 0) {
+          toast.success(`Synced ${synced} offline ${synced === 1 ? "change" : "changes"}`);
+        }
+        if (conflicts > 0) {
+          toast.error(
+            `${conflicts} offline ${conflicts === 1 ? "edit wasn't" : "edits weren't"} synced because another member changed the itinerary first. Reload to see the latest plan.`
+          );
+        }
+        const syncedAt = await getCatalogueSyncedAt();
+        if (!syncedAt || Date.now() - Date.parse(syncedAt) > CATALOGUE_MAX_AGE_MS) {
+          await syncCatalogue();
+        }
+      } catch (error) {
+        console.error("Error syncing offline data:", error);
+      }
+    };
+
+    sync();
+  }, [isOnline]);
+
+  if (isOnline && pending === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[1100] flex items-center gap-2 rounded-full bg-foreground text-background px-4 py-2 text-sm shadow-lg">
+      {isOnline ? <CloudUpload className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+      {isOnline
+        ? `${pending} offline ${pending === 1 ? "change" : "changes"} waiting to sync`
+        : pending > 0
+          ? `Offline · ${pending} ${pending === 1 ? "change" : "changes"} waiting to sync`
+          : "Offline · showing saved data"}
+    </div>
+  );
+};
+
+export default OfflineStatus;
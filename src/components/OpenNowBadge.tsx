@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { OpeningHours, getOpenStatus } from "@/lib/openingHours";
+
+interface OpenNowBadgeProps {
+  hours: OpeningHours | null;
+}
+
+const OpenNowBadge = ({ hours }: OpenNowBadgeProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the badge current while the page stays open
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  if (!hours) return null;
+
+  const status = getOpenStatus(hours, now);
+
+  return (
+    <Badge
+      variant="outline"
+      className={
+        status.open
+          ? "border-green-600 text-green-700 dark:text-green-400"
+          : "border-destructive text-destructive"
+      }
+    >
+      {status.label}
+      {status.detail && <span className="font-normal ml-1">· {status.detail}</span>}
+    </Badge>
+  );
+};
+
+export default OpenNowBadge;
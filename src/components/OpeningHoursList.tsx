@@ -0,0 +1,50 @@
+import { Clock } from "lucide-react";
+import {
+  OpeningHours,
+  EXCEPTION_KINDS,
+  WEEKDAYS,
+  formatRanges,
+  formatShortDate,
+  placeNow,
+  weekdayOf,
+} from "@/lib/openingHours";
+
+interface OpeningHoursListProps {
+  hours: OpeningHours | null;
+}
+
+const OpeningHoursList = ({ hours }: OpeningHoursListProps) => {
+  if (!hours) return null;
+
+  const today = placeNow().date;
+  const todayWeekday = weekdayOf(today);
+  // Past exceptions aren't useful to travelers
+  const upcoming = hours.exceptions.filter((item) => !item.end_date || item.end_date >= today);
+
+  return (
+    <div className="flex items-start gap-2">
+      <Clock className="w-5 h-5 text-primary shrink-0" />
+      <div className="flex-1 text-sm space-y-2">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-0.5">
+          {WEEKDAYS.map((day) => (
+            <div key={day.value} className={`contents ${day.value === todayWeekday ? "font-semibold" : ""}`}>
+              <dt>{day.label}</dt>
+              <dd>{formatRanges(hours.weekly[String(day.value)] || [])}</dd>
+            </div>
+          ))}
+        </dl>
+        {upcoming.map((item, index) => (
+          <p key={index} className="text-muted-foreground">
+            {formatShortDate(item.start_date)}
+            {item.end_date !== item.start_date &&
+              (item.end_date ? ` – ${formatShortDate(item.end_date)}` : " until further notice")}
+            : {item.closed ? "Closed" : formatRanges(item.hours || [])}
+            {" "}({item.reason || EXCEPTION_KINDS.find((kind) => kind.value === item.kind)?.label})
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OpeningHoursList;
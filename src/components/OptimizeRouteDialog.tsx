@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, Loader2, Route, WifiOff } from "lucide-react";
+import { ItineraryDay } from "@/lib/itinerary";
+import { formatKm } from "@/lib/geo";
+import { OptimizedStops, StartPoint, optimizeStops } from "@/lib/routeOptimizer";
+
+interface AccommodationOption {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface OptimizeRouteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  days: ItineraryDay[];
+  onApply: (days: ItineraryDay[]) => Promise<void>;
+}
+
+const getCurrentPosition = () =>
+  new Promise<GeolocationPosition>((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Geolocation is not supported by your browser"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, reject);
+  });
+
+export const OptimizeRouteDialog = ({ open, onOpenChange, days, onApply }: OptimizeRouteDialogProps) => {
+  const [dayIndex, setDayIndex] = useState("0");
+  const [startMode, setStartMode] = useState("none");
+  const [accommodations, setAccommodations] = useState<AccommodationOption[]>([]);
+  const [result, setResult] = useState<OptimizedStops | null>(null);
+  const [calculating, setCalculating] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setResult(null);
+      fetchAccommodations();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setResult(null);
+  }, [dayIndex, startMode]);
+
+  const fetchAccommodations = async () => {
+    const { data, error } = await supabase
+      .from("accommodations")
+      .select("id, name, latitude, longitude")
+      .not("latitude", "is", null)
+      .not("longitude", "is", null)
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching accommodations:", error);
+      return;
+    }
+
+    setAccommodations((data || []) as AccommodationOption[]);
+  };
+
+  const resolveStart = async (): Promise<StartPoint | null> => {
+    if (startMode === "location") {
+      const position = await getCurrentPosition();
+      return { name: "Your location", coords: [position.coords.latitude, position.coords.longitude] };
+    }
+
+    if (startMode.startsWith("acc:")) {
+      const accommodation = accommodations.find((a) => a.id === startMode.slice(4));
+      if (accommodation) {
+        return {
+          name: accommodation.name,
+          coords: [Number(accommodation.latitude), Number(accommodation.longitude)],
+        };
+      }
+    }
+
+    return null;
+  };
+
+  const handleCalculate = async () => {
+    const stops = days[parseInt(dayIndex, 10)]?.stops || [];
+    if (stops.length < 2) {
+      toast.info("Add at least two stops to this day to optimize its order");
+      return;
+    }
+
+    setCalculating(true);
+    try {
+      const start = await resolveStart();
+      setResult(await optimizeStops(stops, start));
+    } catch (error) {
+      console.error("Error optimizing route:", error);
+      toast.error("Unable to get your location. Please enable location services.");
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!result) return;
+
+    const index = parseInt(dayIndex, 10);
+    setApplying(true);
+    try {
+      await onApply(days.map((day, i) => (i === index ? { ...day, stops: result.stops } : day)));
+      onOpenChange(false);
+    } catch {
+      // onApply reports its own errors
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const savedKm = result ? result.before.distanceKm - result.after.distanceKm : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Route className="w-5 h-5 text-primary" />
+            Optimize Stop Order
+          </DialogTitle>
+          <DialogDescription>
+            Reorder a day's stops to cut down travel between them
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {days.length > 1 && (
+            <div className="space-y-2">
+              <Label>Day</Label>
+              <Select value={dayIndex} onValueChange={setDayIndex}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {days.map((day, index) => (
+                    <SelectItem key={day.day} value={String(index)}>
+                      Day {day.day} ({day.stops.length} stops)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Start from</Label>
+            <Select value={startMode} onValueChange={setStartMode}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Any stop (no fixed start)</SelectItem>
+                <SelectItem value="location">My current location</SelectItem>
+                {accommodations.map((accommodation) => (
+                  <SelectItem key={accommodation.id} value={`acc:${accommodation.id}`}>
+                    {accommodation.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button onClick={handleCalculate} disabled={calculating} variant="outline" className="w-full gap-2">
+            {calculating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Route className="w-4 h-4" />}
+            {calculating ? "Calculating..." : "Calculate Best Order"}
+          </Button>
+
+          {result && (
+            <div className="space-y-3 border rounded-lg p-4 bg-muted/30">
+              <div className="flex items-center justify-between text-sm">
+                <div>
+                  <p className="text-muted-foreground">Current order</p>
+                  <p className="font-semibold">{formatKm(result.before.distanceKm)}</p>
+                  {result.before.durationMin !== null && (
+                    <p className="text-xs text-muted-foreground">{Math.round(result.before.durationMin)} min</p>
+                  )}
+                </div>
+                <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                <div className="text-right">
+                  <p className="text-muted-foreground">Optimized order</p>
+                  <p className="font-semibold text-primary">{formatKm(result.after.distanceKm)}</p>
+                  {result.after.durationMin !== null && (
+                    <p className="text-xs text-muted-foreground">{Math.round(result.after.durationMin)} min</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {savedKm > 0.05 ? (
+                  <Badge>Saves {formatKm(savedKm)}</Badge>
+                ) : (
+                  <Badge variant="secondary">Current order is already efficient</Badge>
+                )}
+                {result.approximate && (
+                  <Badge variant="outline" className="gap-1">
+                    <WifiOff className="w-3 h-3" />
+                    Straight-line estimate
+                  </Badge>
+                )}
+                {result.unplaced > 0 && (
+                  <Badge variant="outline">
+                    {result.unplaced} without GPS kept at the end
+                  </Badge>
+                )}
+              </div>
+
+              <ol className="text-sm space-y-1 list-decimal list-inside">
+                {result.stops.map((stop, index) => (
+                  <li key={`${stop.id}-${index}`} className="line-clamp-1">
+                    {stop.name}
+                  </li>
+                ))}
+              </ol>
+
+              <Button onClick={handleApply} disabled={applying} className="w-full">
+                {applying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                Apply New Order
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
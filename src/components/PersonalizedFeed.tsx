@@ -5,8 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useNavigate } from "react-router-dom";
-import { Heart, MapPin, Star } from "lucide-react";
+import { MapPin, Star } from "lucide-react";
 import { useFavorites } from "@/hooks/useFavorites";
+import FavoriteButton from "@/components/FavoriteButton";
 import { toast } from "sonner";
 
 interface TouristSpot {
@@ -34,7 +35,7 @@ const PersonalizedFeed = ({ userId }: PersonalizedFeedProps) => {
   const [spots, setSpots] = useState<TouristSpot[]>([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
-  const { favorites, toggleFavorite } = useFavorites(userId);
+  const favorites = useFavorites(userId);
 
   useEffect(() => {
     fetchPersonalizedSpots();
@@ -204,8 +205,6 @@ const PersonalizedFeed = ({ userId }: PersonalizedFeedProps) => {
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {spots.map((spot) => {
-          const isFavorited = favorites.includes(spot.id);
-
           return (
             <Card
               key={spot.id}
@@ -223,6 +222,13 @@ const PersonalizedFeed = ({ userId }: PersonalizedFeedProps) => {
                     Hidden Gem
                   </Badge>
                 )}
+                <FavoriteButton
+                  itemId={spot.id}
+                  itemType="spot"
+                  favorites={favorites}
+                  size="icon"
+                  className="absolute top-3 right-3 h-8 w-8 bg-background/80"
+                />
               </div>
 
               <CardHeader className="pb-3">
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { Slider } from "@/components/ui/slider";
+import { MAX_RADIUS_KM } from "@/lib/nearby";
+
+interface RadiusSliderProps {
+  value: number;
+  // Called once the thumb is released, so dragging doesn't fire a search per step
+  onChange: (radiusKm: number) => void;
+  className?: string;
+}
+
+const RadiusSlider = ({ value, onChange, className }: RadiusSliderProps) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <div className={`flex items-center gap-3 ${className || ""}`}>
+      <span className="text-sm text-muted-foreground whitespace-nowrap w-24">Within {draft} km</span>
+      <Slider
+        min={1}
+        max={MAX_RADIUS_KM}
+        step={1}
+        value={[draft]}
+        onValueChange={([km]) => setDraft(km)}
+        onValueCommit={([km]) => onChange(km)}
+        aria-label="Search radius in kilometres"
+      />
+    </div>
+  );
+};
+
+export default RadiusSlider;
@@ -111,7 +111,7 @@ const RecommendedSpots = ({ preferences, userId }: RecommendedSpotsProps) => {
           if (preferences.placePreference === "Hidden Gems" && spot.is_hidden_gem) score += 3;
           if (preferences.placePreference === "Popular Tourist Spots" && !spot.is_hidden_gem) score += 2;
 
-          // Boost highly rated spots
+          // Boost highly rated spots; rating is the review-weighted score kept by review_stats
           if (spot.rating) score += (spot.rating / 5) * 2;
 
           return { ...spot, score };
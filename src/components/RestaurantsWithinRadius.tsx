@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AddToItineraryDialog } from "@/components/AddToItineraryDialog";
+import OpenNowBadge from "@/components/OpenNowBadge";
+import RadiusSlider from "@/components/RadiusSlider";
+import { Loader2, Navigation, Phone, Plus, UtensilsCrossed } from "lucide-react";
+import { BudgetTier } from "@/lib/budget";
+import { LatLng, formatKm } from "@/lib/geo";
+import { mapUrl } from "@/lib/nearby";
+import { parseOpeningHours } from "@/lib/openingHours";
+import {
+  PRICE_LEVEL_SYMBOLS,
+  RESTAURANT_RADIUS_KM,
+  RestaurantWithDistance,
+  fetchRestaurantsNear,
+} from "@/lib/restaurants";
+
+interface RestaurantsWithinRadiusProps {
+  point: LatLng;
+  // Signed-in users can add a restaurant to an itinerary as a meal stop
+  userId?: string | null;
+}
+
+const RestaurantsWithinRadius = ({ point, userId }: RestaurantsWithinRadiusProps) => {
+  const [radiusKm, setRadiusKm] = useState(RESTAURANT_RADIUS_KM);
+  const [restaurants, setRestaurants] = useState<RestaurantWithDistance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState<RestaurantWithDistance | null>(null);
+  const [lat, lng] = point;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    fetchRestaurantsNear([lat, lng], radiusKm)
+      .then((data) => {
+        if (!cancelled) setRestaurants(data);
+      })
+      .catch((error) => console.error("Error fetching nearby restaurants:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lat, lng, radiusKm]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UtensilsCrossed className="w-5 h-5 text-primary" />
+          Restaurants Nearby
+        </CardTitle>
+        <RadiusSlider value={radiusKm} onChange={setRadiusKm} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : restaurants.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No restaurants within {radiusKm} km</p>
+        ) : (
+          restaurants.map((restaurant) => (
+            <div key={restaurant.id} className="space-y-1 border-b pb-3 last:border-0 last:pb-0">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <Link to={`/restaurant/${restaurant.id}`} className="font-medium line-clamp-1 hover:underline">
+                    {restaurant.name}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    {formatKm(restaurant.distance_km)} away
+                    {restaurant.price_level && ` · ${PRICE_LEVEL_SYMBOLS[restaurant.price_level as BudgetTier]}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Get directions" asChild>
+                    <Link to={mapUrl({ ...restaurant, kind: "restaurant" })}>
+                      <Navigation className="w-4 h-4" />
+                    </Link>
+                  </Button>
+                  {userId && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Add to itinerary as a meal stop"
+                      onClick={() => setAdding(restaurant)}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                <OpenNowBadge hours={parseOpeningHours(restaurant.opening_hours)} />
+                {restaurant.cuisine_tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="text-xs">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+              {restaurant.contact_number && (
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Phone className="w-3 h-3" />
+                  {restaurant.contact_number}
+                </p>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {adding && userId && (
+        <AddToItineraryDialog
+          open={!!adding}
+          onOpenChange={(open) => !open && setAdding(null)}
+          itemId={adding.id}
+          itemName={adding.name}
+          itemType="restaurant"
+          userId={userId}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default RestaurantsWithinRadius;
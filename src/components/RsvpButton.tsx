@@ -0,0 +1,89 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Bell, CheckCircle2, Star } from "lucide-react";
+import type { RsvpsState } from "@/hooks/useRsvps";
+import { EVENT_REMINDERS, EventReminder } from "@/lib/rsvps";
+
+interface RsvpButtonProps {
+  eventId: string;
+  // From useRsvps, shared by every button on the page
+  rsvps: RsvpsState;
+  size?: "sm" | "default";
+}
+
+// Interested and Going toggle; once RSVP'd the bell holds the reminder settings
+const RsvpButton = ({ eventId, rsvps, size = "default" }: RsvpButtonProps) => {
+  const rsvp = rsvps.getRsvp(eventId);
+
+  const toggleReminder = (reminder: EventReminder) => {
+    if (!rsvp) return;
+    const reminders = rsvp.reminders.includes(reminder)
+      ? rsvp.reminders.filter((item) => item !== reminder)
+      : [...rsvp.reminders, reminder];
+    rsvps.updateReminders(eventId, { reminders });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant={rsvp?.status === "interested" ? "default" : "outline"}
+        size={size}
+        onClick={() => rsvps.toggleStatus(eventId, "interested")}
+      >
+        <Star className={`w-4 h-4 mr-1 ${rsvp?.status === "interested" ? "fill-current" : ""}`} />
+        Interested
+      </Button>
+      <Button
+        variant={rsvp?.status === "going" ? "default" : "outline"}
+        size={size}
+        onClick={() => rsvps.toggleStatus(eventId, "going")}
+      >
+        <CheckCircle2 className="w-4 h-4 mr-1" />
+        Going
+      </Button>
+
+      {rsvp && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="icon" title="Reminders">
+              <Bell className={`w-4 h-4 ${rsvp.reminders.length > 0 ? "fill-current" : ""}`} />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-3">
+            <Label>Remind me</Label>
+            {EVENT_REMINDERS.map((option) => {
+              const id = `reminder-${eventId}-${option.value}`;
+              return (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={id}
+                    checked={rsvp.reminders.includes(option.value)}
+                    onCheckedChange={() => toggleReminder(option.value)}
+                  />
+                  <Label htmlFor={id} className="font-normal cursor-pointer">
+                    {option.label}
+                  </Label>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-2 pt-2 border-t">
+              <Switch
+                id={`reminder-email-${eventId}`}
+                checked={rsvp.email_reminders}
+                onCheckedChange={(email_reminders) => rsvps.updateReminders(eventId, { email_reminders })}
+              />
+              <Label htmlFor={`reminder-email-${eventId}`} className="font-normal">
+                Also send by email
+              </Label>
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default RsvpButton;
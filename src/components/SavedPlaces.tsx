@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import FavoriteButton from "@/components/FavoriteButton";
+import { Heart, Loader2, MapPin, X } from "lucide-react";
+import type { FavoritesState } from "@/hooks/useFavorites";
+import { FavoriteItemDetails, FavoriteItemType, fetchFavoriteItemDetails } from "@/lib/favorites";
+import { PLACE_KINDS, placeUrl } from "@/lib/nearby";
+
+interface SavedPlacesProps {
+  favorites: FavoritesState;
+}
+
+const SavedPlaces = ({ favorites }: SavedPlacesProps) => {
+  const [details, setDetails] = useState<Map<string, FavoriteItemDetails>>(new Map());
+  const [loadingDetails, setLoadingDetails] = useState(false);
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+
+  // Only refetch when the set of saved items changes, not on note edits
+  const itemsKey = favorites.favorites.map((favorite) => `${favorite.item_type}:${favorite.item_id}`).join(",");
+
+  useEffect(() => {
+    if (!itemsKey) return;
+
+    let cancelled = false;
+
+    setLoadingDetails(true);
+    fetchFavoriteItemDetails(favorites.favorites)
+      .then((data) => {
+        if (!cancelled) setDetails(data);
+      })
+      .catch((error) => console.error("Error fetching saved places:", error))
+      .finally(() => {
+        if (!cancelled) setLoadingDetails(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemsKey]);
+
+  const visible = favorites.favorites.filter(
+    (favorite) => !collectionId || favorite.collection_ids.includes(collectionId)
+  );
+
+  if (favorites.loading) return null;
+
+  return (
+    <div className="mb-12">
+      <div className="flex items-center gap-2 mb-4">
+        <Heart className="w-6 h-6 text-red-500" />
+        <h2 className="text-2xl font-bold">Saved Places</h2>
+      </div>
+
+      {favorites.collections.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Badge
+            variant={collectionId === null ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => setCollectionId(null)}
+          >
+            All ({favorites.favorites.length})
+          </Badge>
+          {favorites.collections.map((collection) => (
+            <Badge
+              key={collection.id}
+              variant={collectionId === collection.id ? "default" : "outline"}
+              className="cursor-pointer gap-1"
+              onClick={() => setCollectionId(collection.id)}
+            >
+              {collection.name} ({favorites.favorites.filter((f) => f.collection_ids.includes(collection.id)).length})
+              <button
+                type="button"
+                aria-label={`Delete ${collection.name}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!confirm(`Delete the collection "${collection.name}"? Saved places stay in your favorites.`)) return;
+                  if (collectionId === collection.id) setCollectionId(null);
+                  favorites.deleteCollection(collection.id);
+                }}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {loadingDetails && details.size === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : visible.length > 0 ? (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {visible.map((favorite) => {
+            const item = details.get(`${favorite.item_type}:${favorite.item_id}`);
+            if (!item) return null;
+            const kind = favorite.item_type as FavoriteItemType;
+
+            return (
+              <Card key={favorite.id} className="overflow-hidden">
+                <div className="flex gap-3 p-3">
+                  <Link to={placeUrl({ ...item, kind })} className="shrink-0">
+                    <img
+                      src={item.image_url || "/placeholder.svg"}
+                      alt={item.name}
+                      className="w-20 h-20 object-cover rounded"
+                    />
+                  </Link>
+                  <CardContent className="p-0 flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <Link to={placeUrl({ ...item, kind })} className="font-semibold line-clamp-1 hover:underline">
+                        {item.name}
+                      </Link>
+                      <FavoriteButton itemId={favorite.item_id} itemType={kind} favorites={favorites} size="icon" className="h-8 w-8 shrink-0" />
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="secondary" className="text-[10px]">
+                        {PLACE_KINDS.find((option) => option.value === kind)?.label}
+                      </Badge>
+                      {item.municipality && (
+                        <span className="flex items-center gap-1 truncate">
+                          <MapPin className="w-3 h-3" />
+                          {item.municipality}
+                        </span>
+                      )}
+                    </div>
+                    {favorite.note && <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{favorite.note}</p>}
+                  </CardContent>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {collectionId ? "Nothing in this collection yet." : "Tap Save on a spot, stay or restaurant to keep it here."}
+          </CardContent>
+        </Card>
+      )}
+
+      {collectionId === null && favorites.favorites.length > 0 && favorites.collections.length === 0 && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Tip: open a saved place's heart to add a note or group it into a collection.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SavedPlaces;
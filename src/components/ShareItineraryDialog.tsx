@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Globe, Link2, Loader2, Trash2, Users } from "lucide-react";
+import {
+  ItineraryInvite,
+  ItineraryMember,
+  MEMBER_ROLES,
+  MemberRole,
+  createInvite,
+  fetchInvites,
+  fetchMembers,
+  inviteUrl,
+  publishItinerary,
+  removeMember,
+  revokeInvite,
+  shareUrl,
+  unpublishItinerary,
+  updateMemberRole,
+} from "@/lib/collaboration";
+
+interface ShareItineraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itineraryId: string;
+  itineraryName: string;
+  userId: string;
+  // Set when the itinerary has a public read-only page
+  shareId: string | null;
+  onShareIdChange: (shareId: string | null) => void;
+}
+
+const ShareItineraryDialog = ({
+  open,
+  onOpenChange,
+  itineraryId,
+  itineraryName,
+  userId,
+  shareId,
+  onShareIdChange,
+}: ShareItineraryDialogProps) => {
+  const [members, setMembers] = useState<ItineraryMember[]>([]);
+  const [invites, setInvites] = useState<ItineraryInvite[]>([]);
+  const [inviteRole, setInviteRole] = useState<MemberRole>("editor");
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchSharing();
+    }
+  }, [open, itineraryId]);
+
+  const fetchSharing = async () => {
+    setLoading(true);
+    try {
+      const [memberRows, inviteRows] = await Promise.all([fetchMembers(itineraryId), fetchInvites(itineraryId)]);
+      setMembers(memberRows);
+      setInvites(inviteRows);
+    } catch (error) {
+      console.error("Error fetching itinerary sharing:", error);
+      toast.error("Failed to load members");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Couldn't copy the link. Select it and copy it manually.");
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    setCreating(true);
+    try {
+      const invite = await createInvite(itineraryId, inviteRole, userId);
+      setInvites((current) => [invite, ...current]);
+      await copyLink(inviteUrl(invite.token));
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      toast.error("Failed to create invite link");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: ItineraryInvite) => {
+    try {
+      await revokeInvite(invite.id);
+      setInvites((current) => current.filter((item) => item.id !== invite.id));
+      toast.success("Invite link revoked");
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      toast.error("Failed to revoke invite link");
+    }
+  };
+
+  const handlePublishChange = async (publish: boolean) => {
+    setPublishing(true);
+    try {
+      if (publish) {
+        const newShareId = await publishItinerary(itineraryId);
+        onShareIdChange(newShareId);
+        await copyLink(shareUrl(newShareId));
+      } else {
+        await unpublishItinerary(itineraryId);
+        onShareIdChange(null);
+        toast.success("Public link turned off");
+      }
+    } catch (error) {
+      console.error("Error updating public link:", error);
+      toast.error("Failed to update public link");
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleRoleChange = async (member: ItineraryMember, role: MemberRole) => {
+    try {
+      await updateMemberRole(member.id, role);
+      setMembers((current) => current.map((item) => (item.id === member.id ? { ...item, role } : item)));
+    } catch (error) {
+      console.error("Error updating member role:", error);
+      toast.error("Failed to update role");
+    }
+  };
+
+  const handleRemove = async (member: ItineraryMember) => {
+    if (!confirm(`Remove ${member.full_name || "this traveler"} from ${itineraryName}?`)) return;
+
+    try {
+      await removeMember(member.id);
+      setMembers((current) => current.filter((item) => item.id !== member.id));
+      toast.success("Member removed");
+    } catch (error) {
+      console.error("Error removing member:", error);
+      toast.error("Failed to remove member");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-primary" />
+            Share {itineraryName}
+          </DialogTitle>
+          <DialogDescription>Invite family and friends to plan this trip with you</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="public-link" className="flex items-center gap-2">
+                <Globe className="w-4 h-4" />
+                Public read-only page
+              </Label>
+              <Switch
+                id="public-link"
+                checked={!!shareId}
+                disabled={publishing}
+                onCheckedChange={handlePublishChange}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with the link can view the map and stops without an account
+            </p>
+            {shareId && (
+              <div className="flex items-center gap-2">
+                <Input readOnly value={shareUrl(shareId)} className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Copy link" onClick={() => copyLink(shareUrl(shareId))}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Invite link</Label>
+            <div className="flex gap-2">
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as MemberRole)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEMBER_ROLES.map((role) => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleCreateInvite} disabled={creating} className="flex-1 gap-2">
+                {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+                Create & Copy Link
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {MEMBER_ROLES.find((role) => role.value === inviteRole)?.description}. Links expire after 7 days.
+            </p>
+
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex items-center gap-2">
+                <Input readOnly value={inviteUrl(invite.token)} className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+                <Badge variant="secondary" className="capitalize">
+                  {invite.role}
+                </Badge>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Copy link" onClick={() => copyLink(inviteUrl(invite.token))}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Revoke link" onClick={() => handleRevoke(invite)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 animate-spin text-primary" />
+              </div>
+            ) : members.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No one else has joined yet</p>
+            ) : (
+              members.map((member) => (
+                <div key={member.id} className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.avatar_url || undefined} />
+                    <AvatarFallback>{(member.full_name || "?").charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <span className="flex-1 text-sm font-medium truncate">{member.full_name || "A traveler"}</span>
+                  <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as MemberRole)}>
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MEMBER_ROLES.map((role) => (
+                        <SelectItem key={role.value} value={role.value}>
+                          {role.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Remove member" onClick={() => handleRemove(member)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareItineraryDialog;
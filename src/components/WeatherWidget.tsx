@@ -1,79 +1,182 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Cloud, CloudRain, Sun, Wind, AlertTriangle } from "lucide-react";
-import { Alert } from "@/components/ui/alert";
-
-const WeatherWidget = () => {
-  const [weather, setWeather] = useState({
-    condition: "partly-cloudy",
-    temperature: 28,
-    humidity: 75,
-    windSpeed: 12,
-    alert: "Volcanic ash advisory in effect for Mayon Volcano area"
-  });
-
-  // Simulated weather data - in production, integrate with weather API
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Cloud,
+  CloudDrizzle,
+  CloudFog,
+  CloudLightning,
+  CloudRain,
+  CloudRainWind,
+  CloudSun,
+  Droplets,
+  Loader2,
+  Sun,
+  Wind,
+} from "lucide-react";
+import AdvisoryList from "@/components/AdvisoryList";
+import { useAdvisories } from "@/hooks/useAdvisories";
+import { ALBAY_MUNICIPALITIES, DEFAULT_MUNICIPALITY, findMunicipality } from "@/lib/albay";
+import { WeatherCondition, WeatherReport, describeCondition, getMunicipalityWeather } from "@/lib/weather";
+
+const REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+const getWeatherIcon = (condition: WeatherCondition, className: string) => {
+  switch (condition) {
+    case "clear":
+      return <Sun className={`${className} text-yellow-500`} />;
+    case "partly-cloudy":
+      return <CloudSun className={`${className} text-yellow-500`} />;
+    case "fog":
+      return <CloudFog className={`${className} text-gray-400`} />;
+    case "drizzle":
+      return <CloudDrizzle className={`${className} text-blue-400`} />;
+    case "rain":
+      return <CloudRain className={`${className} text-blue-500`} />;
+    case "heavy-rain":
+      return <CloudRainWind className={`${className} text-blue-600`} />;
+    case "thunderstorm":
+      return <CloudLightning className={`${className} text-purple-500`} />;
+    default:
+      return <Cloud className={`${className} text-gray-400`} />;
+  }
+};
+
+const formatDay = (date: string, index: number) =>
+  index === 0 ? "Today" : new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short" });
+
+interface WeatherWidgetProps {
+  municipality?: string | null;
+  // Compact mode is just the forecast card, for pages that show advisories themselves
+  compact?: boolean;
+}
+
+const WeatherWidget = ({ municipality, compact = false }: WeatherWidgetProps) => {
+  const [selected, setSelected] = useState(
+    findMunicipality(municipality)?.name || DEFAULT_MUNICIPALITY
+  );
+  const [report, setReport] = useState<WeatherReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const { advisories } = useAdvisories(selected, !compact);
+
   useEffect(() => {
-    // Mock weather update
-    const interval = setInterval(() => {
-      setWeather(prev => ({
-        ...prev,
-        temperature: 26 + Math.floor(Math.random() * 6)
-      }));
-    }, 60000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const getWeatherIcon = () => {
-    switch (weather.condition) {
-      case "sunny":
-        return <Sun className="w-8 h-8 text-yellow-500" />;
-      case "rainy":
-        return <CloudRain className="w-8 h-8 text-blue-500" />;
-      default:
-        return <Cloud className="w-8 h-8 text-gray-400" />;
-    }
-  };
+    setSelected(findMunicipality(municipality)?.name || DEFAULT_MUNICIPALITY);
+  }, [municipality]);
 
-  return (
-    <div className="mb-12 animate-fade-in">
-      <h2 className="text-2xl font-bold mb-4">Current Conditions 🌤️</h2>
-      
-      <div className="grid md:grid-cols-2 gap-4">
-        <Card>
-          <CardContent className="p-6">
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchWeather = async () => {
+      try {
+        const { report } = await getMunicipalityWeather(selected);
+        if (!cancelled) {
+          setReport(report);
+          setError(false);
+        }
+      } catch (error) {
+        console.error("Error fetching weather:", error);
+        if (!cancelled) setError(true);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    // Never show the previous municipality's report under the new name
+    setReport(null);
+    setError(false);
+    setIsLoading(true);
+    fetchWeather();
+    const interval = setInterval(fetchWeather, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [selected]);
+
+  const weatherCard = (
+    <Card>
+      <CardContent className="p-6">
+        {isLoading && !report ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : error && !report ? (
+          <p className="text-sm text-muted-foreground">Weather is unavailable right now. Please try again later.</p>
+        ) : report ? (
+          <>
             <div className="flex items-center justify-between mb-4">
               <div>
-                <h3 className="text-3xl font-bold">{weather.temperature}°C</h3>
-                <p className="text-muted-foreground">Legazpi City, Albay</p>
+                <h3 className="text-3xl font-bold">{Math.round(report.current.temperatureC)}°C</h3>
+                <p className="text-muted-foreground">
+                  {describeCondition(report.current.condition)} · {selected}, Albay
+                </p>
               </div>
-              {getWeatherIcon()}
+              {getWeatherIcon(report.current.condition, "w-10 h-10")}
             </div>
-            
-            <div className="grid grid-cols-2 gap-4 text-sm">
+
+            <div className="grid grid-cols-2 gap-4 text-sm mb-4">
               <div className="flex items-center gap-2">
-                <Cloud className="w-4 h-4 text-muted-foreground" />
-                <span>Humidity: {weather.humidity}%</span>
+                <Droplets className="w-4 h-4 text-muted-foreground" />
+                <span>Humidity: {Math.round(report.current.humidity)}%</span>
               </div>
               <div className="flex items-center gap-2">
                 <Wind className="w-4 h-4 text-muted-foreground" />
-                <span>Wind: {weather.windSpeed} km/h</span>
+                <span>Wind: {Math.round(report.current.windSpeedKmh)} km/h</span>
               </div>
             </div>
-          </CardContent>
-        </Card>
 
-        {weather.alert && (
-          <Alert className="border-yellow-500 bg-yellow-500/10">
-            <div className="flex items-start gap-2">
-              <AlertTriangle className="w-5 h-5 text-yellow-500 mt-0.5" />
-              <div>
-                <strong className="font-semibold">Safety Alert:</strong>
-                <p className="text-sm mt-1">{weather.alert}</p>
-              </div>
+            <div className="grid grid-cols-3 gap-2 border-t pt-4">
+              {report.daily.map((day, index) => (
+                <div key={day.date} className="flex flex-col items-center gap-1 text-sm">
+                  <span className="font-medium">{formatDay(day.date, index)}</span>
+                  {getWeatherIcon(day.condition, "w-6 h-6")}
+                  <span>
+                    {Math.round(day.maxC)}° / <span className="text-muted-foreground">{Math.round(day.minC)}°</span>
+                  </span>
+                  {day.precipitationChance !== null && (
+                    <span className="text-xs text-muted-foreground">{day.precipitationChance}% rain</span>
+                  )}
+                </div>
+              ))}
             </div>
-          </Alert>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+
+  if (compact) return weatherCard;
+
+  return (
+    <div className="mb-12 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold">Current Conditions 🌤️</h2>
+        <Select value={selected} onValueChange={setSelected}>
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALBAY_MUNICIPALITIES.map((option) => (
+              <SelectItem key={option.name} value={option.name}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {weatherCard}
+        {advisories.length > 0 ? (
+          <AdvisoryList advisories={advisories} />
+        ) : (
+          <Card>
+            <CardContent className="p-6 text-sm text-muted-foreground">
+              No active volcano, typhoon or flood advisories for {selected}.
+            </CardContent>
+          </Card>
         )}
       </div>
     </div>
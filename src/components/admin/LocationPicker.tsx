@@ -0,0 +1,79 @@
+import { MapContainer, TileLayer, Marker, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LatLng } from "@/lib/geo";
+import { dotIcon } from "@/lib/mapIcons";
+
+const ALBAY_CENTER: LatLng = [13.2, 123.65];
+
+interface LocationPickerProps {
+  value: LatLng | null;
+  onChange: (value: LatLng | null) => void;
+}
+
+const MapClickHandler = ({ onClick }: { onClick: (point: LatLng) => void }) => {
+  useMapEvents({
+    click: (event) => onClick([event.latlng.lat, event.latlng.lng]),
+  });
+  return null;
+};
+
+// Rounded to ~1 m, which is all the numeric(10,8) columns need
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const LocationPicker = ({ value, onChange }: LocationPickerProps) => {
+  const setCoordinate = (index: 0 | 1, text: string) => {
+    const parsed = parseFloat(text);
+    if (isNaN(parsed)) {
+      onChange(null);
+      return;
+    }
+    const next: LatLng = value ? [...value] : [...ALBAY_CENTER];
+    next[index] = parsed;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Map Location</Label>
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+            Clear
+          </Button>
+        )}
+      </div>
+      <div className="h-56 rounded-lg overflow-hidden border">
+        <MapContainer center={value || ALBAY_CENTER} zoom={value ? 14 : 10} style={{ height: "100%", width: "100%" }}>
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <MapClickHandler onClick={([lat, lng]) => onChange([round(lat), round(lng)])} />
+          {value && <Marker position={value} icon={dotIcon("#ef4444")} />}
+        </MapContainer>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          step="any"
+          placeholder="Latitude"
+          value={value ? value[0] : ""}
+          onChange={(e) => setCoordinate(0, e.target.value)}
+        />
+        <Input
+          type="number"
+          step="any"
+          placeholder="Longitude"
+          value={value ? value[1] : ""}
+          onChange={(e) => setCoordinate(1, e.target.value)}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">Click the map to place the pin. Used for "near me" search.</p>
+    </div>
+  );
+};
+
+export default LocationPicker;
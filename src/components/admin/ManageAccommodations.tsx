@@ -9,6 +9,11 @@ import { toast } from "sonner";
 import { Plus, Pencil, Trash2, Building2, Loader2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+import type { Json } from "@/integrations/supabase/types";
+import OpeningHoursEditor from "@/components/admin/OpeningHoursEditor";
+import MediaManager from "@/components/admin/MediaManager";
+import { OpeningHours, parseOpeningHours, toOpeningHoursJson } from "@/lib/openingHours";
+import { MediaDraft, coverOf, fetchMedia, saveMedia, toMediaDrafts, uploadMediaFiles } from "@/lib/media";
 
 interface Accommodation {
   id: string;
@@ -24,6 +29,8 @@ interface Accommodation {
   price_range: string | null;
   amenities: string[] | null;
   rating: number;
+  editorial_rating: number | null;
+  opening_hours: Json | null;
 }
 
 interface Municipality {
@@ -71,15 +78,14 @@ const ManageAccommodations = () => {
     municipality: "",
     category: [] as string[],
     subcategories: [] as string[],
-    image_url: "",
     contact_number: "",
     email: "",
     price_range: "",
     amenities: [] as string[],
-    rating: 0,
+    editorial_rating: 0,
+    opening_hours: null as OpeningHours | null,
   });
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [media, setMedia] = useState<MediaDraft[]>([]);
   const [uploadingImage, setUploadingImage] = useState(false);
 
   useEffect(() => {
@@ -158,46 +164,10 @@ const ManageAccommodations = () => {
     if (code) fetchBarangays(code);
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (!file.type.startsWith('image/')) {
-        toast.error('Please select an image file');
-        return;
-      }
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error('Image size should be less than 5MB');
-        return;
-      }
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const uploadImage = async (): Promise<string | null> => {
-    if (!imageFile) return formData.image_url || null;
-
+  const uploadImages = async (): Promise<MediaDraft[] | null> => {
     setUploadingImage(true);
     try {
-      const fileExt = imageFile.name.split('.').pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-      const filePath = `accommodations/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('spot-images')
-        .upload(filePath, imageFile);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('spot-images')
-        .getPublicUrl(filePath);
-
-      return publicUrl;
+      return await uploadMediaFiles("accommodation", media);
     } catch (error: any) {
       console.error('Image upload error:', error);
       toast.error('Failed to upload image: ' + error.message);
@@ -215,50 +185,53 @@ const ManageAccommodations = () => {
       municipality: "",
       category: [],
       subcategories: [],
-      image_url: "",
       contact_number: "",
       email: "",
       price_range: "",
       amenities: [],
-      rating: 0,
+      editorial_rating: 0,
+      opening_hours: null,
     });
     setBarangays([]);
     setEditingId(null);
-    setImageFile(null);
-    setImagePreview(null);
+    setMedia([]);
     setIsOpen(false);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    // Upload image if a new file is selected
-    const imageUrl = await uploadImage();
+    // Upload any newly added photos first
+    const uploaded = await uploadImages();
 
-    if (imageFile && !imageUrl) {
+    if (!uploaded) {
       toast.error('Failed to upload image. Please try again.');
       return;
     }
 
     const accommodationData = {
       ...formData,
-      image_url: imageUrl,
+      image_url: coverOf(uploaded)?.url ?? null,
       category: formData.category.length ? formData.category : null,
       subcategories: formData.subcategories.length ? formData.subcategories : null,
       amenities: formData.amenities.length ? formData.amenities : null,
+      editorial_rating: formData.editorial_rating || null,
+      opening_hours: toOpeningHoursJson(formData.opening_hours),
     };
 
     if (editingId) {
       const { error } = await supabase.from("accommodations").update(accommodationData).eq("id", editingId);
-      if (error) toast.error("Failed to update accommodation");
+      const mediaError = error ? null : await saveMedia("accommodation", editingId, uploaded).catch((e) => e);
+      if (error || mediaError) toast.error("Failed to update accommodation");
       else {
         toast.success("Accommodation updated successfully");
         resetForm();
         fetchAccommodations();
       }
     } else {
-      const { error } = await supabase.from("accommodations").insert([accommodationData]);
-      if (error) toast.error("Failed to add accommodation");
+      const { data, error } = await supabase.from("accommodations").insert([accommodationData]).select("id").single();
+      const mediaError = error ? null : await saveMedia("accommodation", data.id, uploaded).catch((e) => e);
+      if (error || mediaError) toast.error("Failed to add accommodation");
       else {
         toast.success("Accommodation added successfully");
         resetForm();
@@ -275,15 +248,17 @@ const ManageAccommodations = () => {
       municipality: accommodation.municipality || "",
       category: accommodation.category || [],
       subcategories: accommodation.subcategories || [],
-      image_url: accommodation.image_url || "",
       contact_number: accommodation.contact_number || "",
       email: accommodation.email || "",
       price_range: accommodation.price_range || "",
       amenities: accommodation.amenities || [],
-      rating: accommodation.rating || 0,
+      editorial_rating: accommodation.editorial_rating || 0,
+      opening_hours: parseOpeningHours(accommodation.opening_hours),
     });
-    setImagePreview(accommodation.image_url);
-    setImageFile(null);
+    setMedia(toMediaDrafts([], accommodation.image_url));
+    fetchMedia("accommodation", accommodation.id)
+      .then((rows) => setMedia(toMediaDrafts(rows, accommodation.image_url)))
+      .catch((error) => console.error("Error fetching media:", error));
     setEditingId(accommodation.id);
     setIsOpen(true);
     if (accommodation.municipality) {
@@ -490,20 +465,20 @@ const ManageAccommodations = () => {
                   
                 </div>
                 <div>
-                  <Label htmlFor="rating">Rating (0-5)</Label>
+                  <Label htmlFor="editorial_rating">Editorial Score (0-5)</Label>
                   <Input
-  id="rating"
+  id="editorial_rating"
   type="number"
   min={0}
   max={5}
   step={0.1}
-  value={formData.rating === 0 ? "" : formData.rating}
+  value={formData.editorial_rating === 0 ? "" : formData.editorial_rating}
   onChange={(e) => {
     const raw = e.target.value;
 
     // Allow clearing input
     if (raw === "") {
-      setFormData({ ...formData, rating: 0 });
+      setFormData({ ...formData, editorial_rating: 0 });
       return;
     }
 
@@ -519,50 +494,18 @@ const ManageAccommodations = () => {
       return;
     }
 
-    setFormData({ ...formData, rating: value });
+    setFormData({ ...formData, editorial_rating: value });
   }}
-   placeholder="0"
+   placeholder="Optional"
 />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Blended with guest reviews into the displayed rating.
+                  </p>
                 </div>
               </div>
 
-              {/* Image Upload */}
-              <div>
-                <Label htmlFor="image-upload">Accommodation Image</Label>
-                <Input
-                  id="image-upload"
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageChange}
-                  className="cursor-pointer"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Upload an image (max 5MB, JPG/PNG/WEBP)
-                </p>
-                
-                {imagePreview && (
-                  <div className="mt-3 relative">
-                    <img 
-                      src={imagePreview} 
-                      alt="Preview" 
-                      className="w-full h-48 object-cover rounded-lg border"
-                    />
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="sm"
-                      className="absolute top-2 right-2"
-                      onClick={() => {
-                        setImageFile(null);
-                        setImagePreview(null);
-                        setFormData({ ...formData, image_url: "" });
-                      }}
-                    >
-                      Remove
-                    </Button>
-                  </div>
-                )}
-              </div>
+              {/* Photos */}
+              <MediaManager value={media} onChange={setMedia} />
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="contact_number">Contact Number</Label>
@@ -599,6 +542,11 @@ const ManageAccommodations = () => {
                 </div>
               </div>
 
+              <OpeningHoursEditor
+                value={formData.opening_hours}
+                onChange={(opening_hours) => setFormData({ ...formData, opening_hours })}
+              />
+
               {/* Form Actions */}
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={resetForm} disabled={uploadingImage}>
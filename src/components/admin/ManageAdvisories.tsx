@@ -0,0 +1,456 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Clock, Loader2 } from "lucide-react";
+import { ALBAY_MUNICIPALITIES } from "@/lib/albay";
+import {
+  ADVISORY_SEVERITIES,
+  Advisory,
+  AdvisorySeverity,
+  HAZARD_TYPES,
+  HazardType,
+  isAdvisoryActive,
+} from "@/lib/advisories";
+
+const SOURCES = ["PHIVOLCS", "PAGASA", "APSEMO", "NDRRMC", "LGU"];
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+const emptyForm = () => ({
+  title: "",
+  message: "",
+  hazard_type: "volcano" as HazardType,
+  severity: "advisory" as AdvisorySeverity,
+  source: "",
+  municipalities: [] as string[],
+  starts_at: toLocalInput(new Date().toISOString()),
+  expires_at: "",
+});
+
+const ManageAdvisories = () => {
+  const [advisories, setAdvisories] = useState<Advisory[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAdvisory, setEditingAdvisory] = useState<Advisory | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    fetchAdvisories();
+  }, []);
+
+  const fetchAdvisories = async () => {
+    const { data, error } = await supabase
+      .from("advisories")
+      .select("*")
+      .order("starts_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching advisories:", error);
+      toast.error("Failed to load advisories");
+      return;
+    }
+
+    setAdvisories((data || []) as Advisory[]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const startsAt = new Date(formData.starts_at || Date.now());
+    const expiresAt = formData.expires_at ? new Date(formData.expires_at) : null;
+    if (expiresAt && expiresAt <= startsAt) {
+      toast.error("Expiry must be after the start time");
+      return;
+    }
+
+    setIsLoading(true);
+
+    const advisoryData = {
+      title: formData.title,
+      message: formData.message,
+      hazard_type: formData.hazard_type,
+      severity: formData.severity,
+      source: formData.source || null,
+      municipalities: formData.municipalities,
+      starts_at: startsAt.toISOString(),
+      expires_at: expiresAt ? expiresAt.toISOString() : null,
+    };
+
+    if (editingAdvisory) {
+      const { error } = await supabase
+        .from("advisories")
+        .update(advisoryData)
+        .eq("id", editingAdvisory.id);
+
+      if (error) {
+        toast.error("Failed to update advisory");
+      } else {
+        toast.success("Advisory updated successfully");
+        resetForm();
+        fetchAdvisories();
+      }
+    } else {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("advisories")
+        .insert([{ ...advisoryData, created_by: user?.id ?? null }]);
+
+      if (error) {
+        toast.error("Failed to post advisory");
+      } else {
+        toast.success("Advisory posted successfully");
+        resetForm();
+        fetchAdvisories();
+      }
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this advisory?")) return;
+
+    const { error } = await supabase.from("advisories").delete().eq("id", id);
+
+    if (error) {
+      toast.error("Failed to delete advisory");
+    } else {
+      toast.success("Advisory deleted successfully");
+      fetchAdvisories();
+    }
+  };
+
+  // Lifting an advisory keeps it on record instead of deleting it
+  const handleExpireNow = async (id: string) => {
+    const { error } = await supabase
+      .from("advisories")
+      .update({ expires_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      toast.error("Failed to lift advisory");
+    } else {
+      toast.success("Advisory lifted");
+      fetchAdvisories();
+    }
+  };
+
+  const handleEdit = (advisory: Advisory) => {
+    setEditingAdvisory(advisory);
+    setFormData({
+      title: advisory.title,
+      message: advisory.message,
+      hazard_type: advisory.hazard_type,
+      severity: advisory.severity,
+      source: advisory.source || "",
+      municipalities: advisory.municipalities || [],
+      starts_at: toLocalInput(advisory.starts_at),
+      expires_at: toLocalInput(advisory.expires_at),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingAdvisory(null);
+    setIsDialogOpen(false);
+  };
+
+  const toggleMunicipality = (name: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      municipalities: prev.municipalities.includes(name)
+        ? prev.municipalities.filter((m) => m !== name)
+        : [...prev.municipalities, name],
+    }));
+  };
+
+  const activeCount = advisories.filter((advisory) => isAdvisoryActive(advisory)).length;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">
+          Advisories ({activeCount} active)
+        </h2>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => resetForm()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Post Advisory
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingAdvisory ? "Edit" : "Post"} Advisory
+              </DialogTitle>
+              <DialogDescription>
+                Volcano, typhoon and flood bulletins shown to travellers in the affected area
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="title">Title *</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) =>
+                    setFormData({ ...formData, title: e.target.value })
+                  }
+                  placeholder="Mayon Volcano Alert Level 3"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Hazard *</Label>
+                  <Select
+                    value={formData.hazard_type}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, hazard_type: value as HazardType })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HAZARD_TYPES.map((hazard) => (
+                        <SelectItem key={hazard.value} value={hazard.value}>
+                          {hazard.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label>Severity *</Label>
+                  <Select
+                    value={formData.severity}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, severity: value as AdvisorySeverity })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ADVISORY_SEVERITIES.map((severity) => (
+                        <SelectItem key={severity} value={severity} className="capitalize">
+                          {severity}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label>Source</Label>
+                <Select
+                  value={formData.source}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, source: value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Issuing agency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SOURCES.map((source) => (
+                      <SelectItem key={source} value={source}>
+                        {source}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Multi-select municipalities, same pattern as event types */}
+              <div>
+                <Label>Affected Municipalities</Label>
+                <Select onValueChange={toggleMunicipality} value="">
+                  <SelectTrigger>
+                    <SelectValue
+                      placeholder={
+                        formData.municipalities.length > 0
+                          ? formData.municipalities.join(", ")
+                          : "Whole province"
+                      }
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALBAY_MUNICIPALITIES.map((municipality) => (
+                      <SelectItem key={municipality.name} value={municipality.name}>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={formData.municipalities.includes(municipality.name)}
+                            readOnly
+                          />
+                          <span>{municipality.name}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Leave empty for a province-wide advisory
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="starts_at">Starts *</Label>
+                  <Input
+                    id="starts_at"
+                    type="datetime-local"
+                    value={formData.starts_at}
+                    onChange={(e) =>
+                      setFormData({ ...formData, starts_at: e.target.value })
+                    }
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="expires_at">Expires</Label>
+                  <Input
+                    id="expires_at"
+                    type="datetime-local"
+                    value={formData.expires_at}
+                    onChange={(e) =>
+                      setFormData({ ...formData, expires_at: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="message">Bulletin *</Label>
+                <Textarea
+                  id="message"
+                  value={formData.message}
+                  onChange={(e) =>
+                    setFormData({ ...formData, message: e.target.value })
+                  }
+                  rows={4}
+                  required
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>{editingAdvisory ? "Update" : "Post"} Advisory</>
+                  )}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4">
+        {advisories.map((advisory) => {
+          const active = isAdvisoryActive(advisory);
+
+          return (
+            <Card key={advisory.id} className={active ? "" : "opacity-60"}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <CardTitle className="mb-2">{advisory.title}</CardTitle>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      <Badge variant={active ? "default" : "secondary"}>
+                        {active ? "Active" : new Date(advisory.starts_at) > new Date() ? "Scheduled" : "Expired"}
+                      </Badge>
+                      <Badge variant="outline" className="capitalize">{advisory.hazard_type}</Badge>
+                      <Badge variant="outline" className="capitalize">{advisory.severity}</Badge>
+                      {advisory.source && <Badge variant="outline">{advisory.source}</Badge>}
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                      <Clock className="w-4 h-4" />
+                      {new Date(advisory.starts_at).toLocaleString()} –{" "}
+                      {advisory.expires_at
+                        ? new Date(advisory.expires_at).toLocaleString()
+                        : "until lifted"}
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      {advisory.municipalities.length > 0
+                        ? advisory.municipalities.join(", ")
+                        : "Whole province"}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{advisory.message}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {active && (
+                      <Button variant="outline" size="sm" onClick={() => handleExpireNow(advisory.id)}>
+                        Lift
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleEdit(advisory)}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(advisory.id)}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ManageAdvisories;
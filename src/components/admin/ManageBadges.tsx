@@ -0,0 +1,501 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { ALBAY_MUNICIPALITIES, AlbayDistrict, getDistrictMunicipalities } from "@/lib/albay";
+import {
+  BADGE_ICONS,
+  BADGE_RULE_TYPES,
+  BadgeDefinition,
+  BadgeRuleParams,
+  BadgeRuleType,
+  badgeIcon,
+} from "@/lib/badges";
+
+type BadgeRow = BadgeDefinition & { user_badges: { count: number }[] };
+
+const DISTRICTS: AlbayDistrict[] = ["District 1", "District 2", "District 3"];
+
+const emptyForm = () => ({
+  name: "",
+  description: "",
+  icon: "award",
+  rule_type: "check_ins" as BadgeRuleType,
+  towns: [] as string[],
+  spot_ids: [] as string[],
+  category: "",
+  threshold: 1,
+  points: 10,
+  is_active: true,
+});
+
+// Only the params the chosen rule reads are saved
+const toRuleParams = (form: ReturnType<typeof emptyForm>): BadgeRuleParams => {
+  switch (form.rule_type) {
+    case "towns":
+      return form.towns.length > 0 ? { towns: form.towns } : {};
+    case "spots":
+      return { spot_ids: form.spot_ids };
+    case "category":
+      return { category: form.category };
+    default:
+      return {};
+  }
+};
+
+const ManageBadges = () => {
+  const [badges, setBadges] = useState<BadgeRow[]>([]);
+  const [spots, setSpots] = useState<{ id: string; name: string }[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBadge, setEditingBadge] = useState<BadgeRow | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    fetchAllBadges();
+
+    supabase
+      .from("tourist_spots")
+      .select("id, name")
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) console.error("Error fetching spots:", error);
+        setSpots(data || []);
+      });
+
+    supabase
+      .from("categories")
+      .select("name")
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) console.error("Error fetching categories:", error);
+        setCategories((data || []).map((category) => category.name));
+      });
+  }, []);
+
+  const fetchAllBadges = async () => {
+    const { data, error } = await supabase
+      .from("badges")
+      .select("*, user_badges(count)")
+      .order("points")
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching badges:", error);
+      toast.error("Failed to load badges");
+      return;
+    }
+
+    setBadges((data || []) as unknown as BadgeRow[]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.rule_type === "spots" && formData.spot_ids.length === 0) {
+      toast.error("Pick at least one spot");
+      return;
+    }
+    if (formData.rule_type === "category" && !formData.category) {
+      toast.error("Pick a category");
+      return;
+    }
+
+    setIsLoading(true);
+
+    const badgeData = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      icon: formData.icon,
+      rule_type: formData.rule_type,
+      rule_params: toRuleParams(formData) as Record<string, string | string[]>,
+      threshold: Math.max(formData.threshold, 1),
+      points: Math.max(formData.points, 0),
+      is_active: formData.is_active,
+    };
+
+    const { error } = editingBadge
+      ? await supabase.from("badges").update(badgeData).eq("id", editingBadge.id)
+      : await supabase.from("badges").insert([badgeData]);
+
+    if (error) {
+      console.error("Error saving badge:", error);
+      toast.error(error.code === "23505" ? "A badge with that name already exists" : "Failed to save badge");
+    } else {
+      toast.success(editingBadge ? "Badge updated" : "Badge created; travellers who already qualify have been awarded it");
+      resetForm();
+      fetchAllBadges();
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleDelete = async (badge: BadgeRow) => {
+    const earnedCount = badge.user_badges[0]?.count || 0;
+    const warning = earnedCount > 0 ? ` ${earnedCount} travellers will lose it; deactivate it instead to let them keep it.` : "";
+    if (!confirm(`Delete "${badge.name}"?${warning}`)) return;
+
+    const { error } = await supabase.from("badges").delete().eq("id", badge.id);
+
+    if (error) {
+      toast.error("Failed to delete badge");
+    } else {
+      toast.success("Badge deleted");
+      fetchAllBadges();
+    }
+  };
+
+  const handleToggleActive = async (badge: BadgeRow, isActive: boolean) => {
+    const { error } = await supabase.from("badges").update({ is_active: isActive }).eq("id", badge.id);
+
+    if (error) {
+      toast.error("Failed to update badge");
+    } else {
+      fetchAllBadges();
+    }
+  };
+
+  const handleEdit = (badge: BadgeRow) => {
+    setEditingBadge(badge);
+    setFormData({
+      name: badge.name,
+      description: badge.description || "",
+      icon: badge.icon,
+      rule_type: badge.rule_type,
+      towns: badge.rule_params.towns || [],
+      spot_ids: badge.rule_params.spot_ids || [],
+      category: badge.rule_params.category || "",
+      threshold: badge.threshold,
+      points: badge.points,
+      is_active: badge.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingBadge(null);
+    setIsDialogOpen(false);
+  };
+
+  const toggleValue = (key: "towns" | "spot_ids", value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter((item) => item !== value) : [...prev[key], value],
+    }));
+  };
+
+  const describeRule = (badge: BadgeDefinition) => {
+    const rule = BADGE_RULE_TYPES.find((option) => option.value === badge.rule_type);
+    const scope =
+      badge.rule_type === "towns" && badge.rule_params.towns?.length
+        ? ` in ${badge.rule_params.towns.join(", ")}`
+        : badge.rule_type === "spots"
+          ? ` among ${spots
+              .filter((spot) => badge.rule_params.spot_ids?.includes(spot.id))
+              .map((spot) => spot.name)
+              .join(", ") || "removed spots"}`
+          : badge.rule_type === "category"
+            ? ` (${badge.rule_params.category})`
+            : "";
+    return `${badge.threshold} ${rule?.unit || ""}${scope}`;
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">
+          Badges ({badges.filter((badge) => badge.is_active).length} active)
+        </h2>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => resetForm()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Badge
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingBadge ? "Edit" : "Add"} Badge</DialogTitle>
+              <DialogDescription>
+                Awarded automatically when a traveller's activity reaches the goal
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-[1fr_auto] gap-4">
+                <div>
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Skyline Climber"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label>Icon</Label>
+                  <Select value={formData.icon} onValueChange={(value) => setFormData({ ...formData, icon: value })}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(BADGE_ICONS).map(([name, Icon]) => (
+                        <SelectItem key={name} value={name}>
+                          <div className="flex items-center gap-2">
+                            <Icon className="w-4 h-4" />
+                            <span className="capitalize">{name.replace("-", " ")}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Check in at the Mayon Skyline view deck"
+                  rows={2}
+                />
+              </div>
+
+              <div>
+                <Label>Goal *</Label>
+                <Select
+                  value={formData.rule_type}
+                  onValueChange={(value) => setFormData({ ...formData, rule_type: value as BadgeRuleType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BADGE_RULE_TYPES.map((rule) => (
+                      <SelectItem key={rule.value} value={rule.value}>
+                        {rule.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.rule_type === "towns" && (
+                <div>
+                  <Label>Towns</Label>
+                  <Select onValueChange={(value) => toggleValue("towns", value)} value="">
+                    <SelectTrigger>
+                      <SelectValue
+                        placeholder={formData.towns.length > 0 ? formData.towns.join(", ") : "Any town in Albay"}
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALBAY_MUNICIPALITIES.map((municipality) => (
+                        <SelectItem key={municipality.name} value={municipality.name}>
+                          <div className="flex items-center gap-2">
+                            <input type="checkbox" checked={formData.towns.includes(municipality.name)} readOnly />
+                            <span>{municipality.name}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {DISTRICTS.map((district) => (
+                      <Button
+                        key={district}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          const towns = getDistrictMunicipalities(district).map((municipality) => municipality.name);
+                          setFormData({ ...formData, towns, threshold: towns.length });
+                        }}
+                      >
+                        All of {district}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Leave empty to count every town in the province
+                  </p>
+                </div>
+              )}
+
+              {formData.rule_type === "spots" && (
+                <div>
+                  <Label>Spots *</Label>
+                  <Select onValueChange={(value) => toggleValue("spot_ids", value)} value="">
+                    <SelectTrigger>
+                      <SelectValue
+                        placeholder={
+                          formData.spot_ids.length > 0
+                            ? spots
+                                .filter((spot) => formData.spot_ids.includes(spot.id))
+                                .map((spot) => spot.name)
+                                .join(", ")
+                            : "Pick spots"
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {spots.map((spot) => (
+                        <SelectItem key={spot.id} value={spot.id}>
+                          <div className="flex items-center gap-2">
+                            <input type="checkbox" checked={formData.spot_ids.includes(spot.id)} readOnly />
+                            <span>{spot.name}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {formData.rule_type === "category" && (
+                <div>
+                  <Label>Category *</Label>
+                  <Select value={formData.category} onValueChange={(value) => setFormData({ ...formData, category: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pick a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="threshold">Needed *</Label>
+                  <Input
+                    id="threshold"
+                    type="number"
+                    min={1}
+                    value={formData.threshold}
+                    onChange={(e) => setFormData({ ...formData, threshold: Number(e.target.value) || 1 })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="points">Leaderboard Points</Label>
+                  <Input
+                    id="points"
+                    type="number"
+                    min={0}
+                    value={formData.points}
+                    onChange={(e) => setFormData({ ...formData, points: Number(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="is_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                />
+                <Label htmlFor="is_active">Active</Label>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>{editingBadge ? "Update" : "Create"} Badge</>
+                  )}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4">
+        {badges.map((badge) => {
+          const Icon = badgeIcon(badge.icon);
+
+          return (
+            <Card key={badge.id} className={badge.is_active ? "" : "opacity-60"}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex gap-4 flex-1">
+                    <div className="w-12 h-12 rounded-full bg-primary/10 text-primary flex items-center justify-center shrink-0">
+                      <Icon className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <CardTitle className="mb-2">{badge.name}</CardTitle>
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        <Badge variant={badge.is_active ? "default" : "secondary"}>
+                          {badge.is_active ? "Active" : "Inactive"}
+                        </Badge>
+                        <Badge variant="outline">{badge.points} pts</Badge>
+                        <Badge variant="outline">{badge.user_badges[0]?.count || 0} earned</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground mb-1">{describeRule(badge)}</p>
+                      {badge.description && <p className="text-sm text-muted-foreground">{badge.description}</p>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={badge.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(badge, checked)}
+                      aria-label={badge.is_active ? "Deactivate badge" : "Activate badge"}
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(badge)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(badge)}>
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ManageBadges;
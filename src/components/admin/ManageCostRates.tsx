@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Pencil, Loader2 } from "lucide-react";
+import { COST_CATEGORIES, CostRate, formatPeso } from "@/lib/budget";
+
+const emptyForm = () => ({
+  amount: "",
+  base_amount: "",
+  description: "",
+});
+
+// The category/tier rows are fixed by the migration, so admins only edit amounts
+const ManageCostRates = () => {
+  const [rates, setRates] = useState<CostRate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<CostRate | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  const fetchRates = async () => {
+    const { data, error } = await supabase
+      .from("cost_rates")
+      .select("*")
+      .order("category")
+      .order("amount");
+
+    if (error) {
+      console.error("Error fetching cost rates:", error);
+      toast.error("Failed to load cost rates");
+      return;
+    }
+
+    setRates((data || []) as CostRate[]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingRate) return;
+
+    const amount = parseFloat(formData.amount);
+    const baseAmount = parseFloat(formData.base_amount || "0");
+    if (isNaN(amount) || amount < 0 || isNaN(baseAmount) || baseAmount < 0) {
+      toast.error("Amounts must be zero or more");
+      return;
+    }
+
+    setIsLoading(true);
+
+    const { error } = await supabase
+      .from("cost_rates")
+      .update({
+        amount,
+        base_amount: baseAmount,
+        description: formData.description || null,
+      })
+      .eq("id", editingRate.id);
+
+    if (error) {
+      toast.error("Failed to update rate");
+    } else {
+      toast.success("Rate updated successfully");
+      resetForm();
+      fetchRates();
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleEdit = (rate: CostRate) => {
+    setEditingRate(rate);
+    setFormData({
+      amount: String(rate.amount),
+      base_amount: String(rate.base_amount),
+      description: rate.description || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingRate(null);
+    setIsDialogOpen(false);
+  };
+
+  const editingCategory = COST_CATEGORIES.find((category) => category.value === editingRate?.category);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">Budget Rates</h2>
+        <p className="text-sm text-muted-foreground">
+          Prices in pesos used to estimate itinerary costs
+        </p>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : resetForm())}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="capitalize">
+              Edit {editingCategory?.label} · {editingRate?.tier}
+            </DialogTitle>
+            <DialogDescription>{editingCategory?.unit}</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="amount">Amount (₱) *</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, amount: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              {editingRate?.category === "transport" && (
+                <div>
+                  <Label htmlFor="base_amount">Daily base fare (₱)</Label>
+                  <Input
+                    id="base_amount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={formData.base_amount}
+                    onChange={(e) =>
+                      setFormData({ ...formData, base_amount: e.target.value })
+                    }
+                  />
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) =>
+                  setFormData({ ...formData, description: e.target.value })
+                }
+                rows={2}
+              />
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Update Rate"
+                )}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {COST_CATEGORIES.map((category) => (
+          <Card key={category.value}>
+            <CardHeader>
+              <CardTitle>{category.label}</CardTitle>
+              <CardDescription>{category.unit}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rates
+                .filter((rate) => rate.category === category.value)
+                .map((rate) => (
+                  <div key={rate.id} className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium capitalize">
+                        {rate.tier}: {formatPeso(rate.amount)}
+                        {rate.base_amount > 0 && ` + ${formatPeso(rate.base_amount)} base`}
+                      </p>
+                      {rate.description && (
+                        <p className="text-sm text-muted-foreground">{rate.description}</p>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleEdit(rate)}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ManageCostRates;
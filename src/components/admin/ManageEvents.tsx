@@ -5,6 +5,7 @@ import { Card, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -27,7 +28,7 @@ import {
   CommandItem,
 } from "@/components/ui/command";
 import { toast } from "sonner";
-import { Plus, Pencil, Trash2, Calendar, Loader2 } from "lucide-react";
+import { Plus, Pencil, Trash2, Calendar, Loader2, Repeat } from "lucide-react";
 import {
   Select,
   SelectTrigger,
@@ -35,17 +36,22 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
-
-interface Event {
-  id: string;
-  name: string;
-  event_type: string | null;
-  location: string;
-  municipality: string | null;
-  description: string | null;
-  event_date: string | null;
-  image_url: string | null;
-}
+import LocationPicker from "@/components/admin/LocationPicker";
+import { LatLng } from "@/lib/geo";
+import {
+  EVENT_RECURRENCES,
+  EVENT_TYPES,
+  EventRecord,
+  EventRecurrence,
+  describeRecurrence,
+  firstDay,
+  formatOccurrence,
+  fromPlaceInput,
+  lastDay,
+  startOfPlaceDay,
+  toPlaceInput,
+} from "@/lib/events";
+import { shiftDate } from "@/lib/openingHours";
 
 interface Municipality {
   code: string;
@@ -58,22 +64,29 @@ interface Barangay {
 }
 
 const ManageEvents = () => {
-  const [events, setEvents] = useState<Event[]>([]);
+  const [events, setEvents] = useState<EventRecord[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [editingEvent, setEditingEvent] = useState<EventRecord | null>(null);
 
   const [municipalities, setMunicipalities] = useState<Municipality[]>([]);
   const [barangays, setBarangays] = useState<Barangay[]>([]);
 
+  // start/end are "YYYY-MM-DD" for all-day events (end inclusive) and
+  // "YYYY-MM-DDTHH:mm" otherwise, both in Albay time
   const [formData, setFormData] = useState({
     name: "",
-    event_type: [] as string[],
+    event_types: [] as string[],
     location: "",
     municipality: "",
     description: "",
-    event_date: "",
+    all_day: true,
+    start: "",
+    end: "",
+    recurrence: "none" as EventRecurrence,
+    recurrence_until: "",
     image_url: "",
+    coordinates: null as LatLng | null,
   });
 
   useEffect(() => {
@@ -85,10 +98,10 @@ const ManageEvents = () => {
     const { data, error } = await supabase
       .from("events")
       .select("*")
-      .order("event_date", { ascending: true });
+      .order("starts_at", { ascending: true, nullsFirst: false });
 
     if (!error && data) {
-      setEvents(data);
+      setEvents(data as EventRecord[]);
     }
   };
 
@@ -157,20 +170,61 @@ const ManageEvents = () => {
     if (code) fetchBarangays(code);
   };
 
+  // Keeps the chosen days when switching between all-day and timed
+  const handleAllDayChange = (allDay: boolean) => {
+    const convert = (value: string, time: string) =>
+      !value ? "" : allDay ? value.slice(0, 10) : `${value.slice(0, 10)}T${time}`;
+    setFormData((prev) => ({
+      ...prev,
+      all_day: allDay,
+      start: convert(prev.start, "09:00"),
+      end: convert(prev.end, "17:00"),
+    }));
+  };
+
+  const toSchedule = () => {
+    if (!formData.start) return { starts_at: null, ends_at: null };
+    if (formData.all_day) {
+      return {
+        starts_at: startOfPlaceDay(formData.start).toISOString(),
+        ends_at: startOfPlaceDay(shiftDate(formData.end || formData.start, 1)).toISOString(),
+      };
+    }
+    return { starts_at: fromPlaceInput(formData.start), ends_at: formData.end ? fromPlaceInput(formData.end) : null };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const schedule = toSchedule();
+    if (schedule.starts_at && !schedule.ends_at) {
+      toast.error("Please set when the event ends");
+      return;
+    }
+    if (schedule.starts_at && schedule.ends_at <= schedule.starts_at) {
+      toast.error("The event must end after it starts");
+      return;
+    }
+    if (!schedule.starts_at && formData.recurrence !== "none") {
+      toast.error("Repeating events need a start date");
+      return;
+    }
+
     setIsLoading(true);
 
     const eventData = {
       name: formData.name,
-      event_type: formData.event_type.length
-        ? formData.event_type.join(", ")
-        : null,
+      event_types: formData.event_types,
       location: formData.location,
       municipality: formData.municipality || null,
       description: formData.description || null,
-      event_date: formData.event_date || null,
+      all_day: formData.all_day,
+      ...schedule,
+      recurrence: formData.recurrence,
+      recurrence_until: formData.recurrence !== "none" && formData.recurrence_until ? formData.recurrence_until : null,
       image_url: formData.image_url || null,
+      latitude: formData.coordinates?.[0] ?? null,
+      longitude: formData.coordinates?.[1] ?? null,
     };
 
     if (editingEvent) {
@@ -214,18 +268,26 @@ const ManageEvents = () => {
     }
   };
 
-  const handleEdit = (event: Event) => {
+  const handleEdit = (event: EventRecord) => {
+    const dated = event.starts_at && event.ends_at ? { starts_at: event.starts_at, ends_at: event.ends_at } : null;
+
     setEditingEvent(event);
     setFormData({
       name: event.name,
-      event_type: event.event_type
-        ? event.event_type.split(", ").map((t) => t.trim())
-        : [],
+      event_types: event.event_types || [],
       location: event.location,
       municipality: event.municipality || "",
       description: event.description || "",
-      event_date: event.event_date || "",
+      all_day: event.all_day,
+      start: !dated ? "" : event.all_day ? firstDay(dated) : toPlaceInput(dated.starts_at),
+      end: !dated ? "" : event.all_day ? lastDay(dated) : toPlaceInput(dated.ends_at),
+      recurrence: event.recurrence,
+      recurrence_until: event.recurrence_until || "",
       image_url: event.image_url || "",
+      coordinates:
+        event.latitude !== null && event.longitude !== null
+          ? [Number(event.latitude), Number(event.longitude)]
+          : null,
     });
 
     const muni = municipalities.find((m) => m.name === event.municipality);
@@ -244,12 +306,17 @@ const ManageEvents = () => {
   const resetForm = () => {
     setFormData({
       name: "",
-      event_type: [],
+      event_types: [],
       location: "",
       municipality: "",
       description: "",
-      event_date: "",
+      all_day: true,
+      start: "",
+      end: "",
+      recurrence: "none",
+      recurrence_until: "",
       image_url: "",
+      coordinates: null,
     });
     setEditingEvent(null);
     setBarangays([]);
@@ -296,11 +363,11 @@ const ManageEvents = () => {
   <Select
     onValueChange={(value) => {
       setFormData((prev) => {
-        const alreadySelected = prev.event_type.includes(value);
+        const alreadySelected = prev.event_types.includes(value);
         const updated = alreadySelected
-          ? prev.event_type.filter((t) => t !== value)
-          : [...prev.event_type, value];
-        return { ...prev, event_type: updated };
+          ? prev.event_types.filter((t) => t !== value)
+          : [...prev.event_types, value];
+        return { ...prev, event_types: updated };
       });
     }}
     value=""
@@ -308,27 +375,19 @@ const ManageEvents = () => {
     <SelectTrigger>
       <SelectValue
         placeholder={
-          formData.event_type.length > 0
-            ? formData.event_type.join(", ")
+          formData.event_types.length > 0
+            ? formData.event_types.join(", ")
             : "Select event types"
         }
       />
     </SelectTrigger>
     <SelectContent>
-      {[
-        "Festival",
-        "Exhibition",
-        "Parade",
-        "Local Event",
-        "Regional Event",
-        "Public",
-        "Private",
-      ].map((type) => (
+      {EVENT_TYPES.map((type) => (
         <SelectItem key={type} value={type}>
           <div className="flex items-center gap-2">
             <input
               type="checkbox"
-              checked={formData.event_type.includes(type)}
+              checked={formData.event_types.includes(type)}
               readOnly
             />
             <span>{type}</span>
@@ -401,16 +460,82 @@ const ManageEvents = () => {
                 </Select>
               </div>
 
-              <div>
-                <Label htmlFor="event_date">Event Date</Label>
-                <Input
-                  id="event_date"
-                  type="date"
-                  value={formData.event_date}
-                  onChange={(e) =>
-                    setFormData({ ...formData, event_date: e.target.value })
-                  }
-                />
+              <LocationPicker
+                value={formData.coordinates}
+                onChange={(coordinates) => setFormData({ ...formData, coordinates })}
+              />
+
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="all_day"
+                    checked={formData.all_day}
+                    onCheckedChange={handleAllDayChange}
+                  />
+                  <Label htmlFor="all_day">All-day event</Label>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="start">{formData.all_day ? "First Day" : "Starts"}</Label>
+                    <Input
+                      id="start"
+                      type={formData.all_day ? "date" : "datetime-local"}
+                      value={formData.start}
+                      onChange={(e) =>
+                        setFormData({ ...formData, start: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="end">{formData.all_day ? "Last Day" : "Ends"}</Label>
+                    <Input
+                      id="end"
+                      type={formData.all_day ? "date" : "datetime-local"}
+                      value={formData.end}
+                      min={formData.start}
+                      onChange={(e) =>
+                        setFormData({ ...formData, end: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Philippine time. Leave both empty for events without a date yet.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Repeats</Label>
+                    <Select
+                      value={formData.recurrence}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, recurrence: value as EventRecurrence })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EVENT_RECURRENCES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="recurrence_until">Repeat Until</Label>
+                    <Input
+                      id="recurrence_until"
+                      type="date"
+                      value={formData.recurrence_until}
+                      disabled={formData.recurrence === "none"}
+                      onChange={(e) =>
+                        setFormData({ ...formData, recurrence_until: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
               </div>
 
               <div>
@@ -464,15 +589,21 @@ const ManageEvents = () => {
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <CardTitle className="mb-2">{event.name}</CardTitle>
-                  {event.event_type && (
+                  {event.event_types.length > 0 && (
                     <p className="text-sm font-medium text-primary mb-2">
-                      {event.event_type}
+                      {event.event_types.join(", ")}
                     </p>
                   )}
-                  {event.event_date && (
+                  {event.starts_at && event.ends_at && (
                     <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
                       <Calendar className="w-4 h-4" />
-                      {new Date(event.event_date).toLocaleDateString()}
+                      {formatOccurrence({ event, starts_at: event.starts_at, ends_at: event.ends_at })}
+                    </div>
+                  )}
+                  {describeRecurrence(event) && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                      <Repeat className="w-4 h-4" />
+                      {describeRecurrence(event)}
                     </div>
                   )}
                   <p className="text-sm text-muted-foreground mb-2">
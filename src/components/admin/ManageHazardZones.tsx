@@ -0,0 +1,458 @@
+import { useState, useEffect } from "react";
+import { MapContainer, TileLayer, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Loader2, Undo2 } from "lucide-react";
+import HazardZoneLayer from "@/components/HazardZoneLayer";
+import { LatLng } from "@/lib/geo";
+import { HAZARD_TYPES, HazardType } from "@/lib/advisories";
+import { HazardShape, HazardZone, fetchHazardZones } from "@/lib/hazards";
+
+const ALBAY_CENTER: LatLng = [13.2, 123.65];
+
+const emptyForm = () => ({
+  name: "",
+  description: "",
+  hazard_type: "volcano" as HazardType,
+  shape: "circle" as HazardShape,
+  center_lat: "",
+  center_lng: "",
+  radius_km: "",
+  polygon: [] as LatLng[],
+  is_active: true,
+});
+
+// Clicking sets the circle centre or adds a polygon vertex
+const MapClickHandler = ({ onClick }: { onClick: (point: LatLng) => void }) => {
+  useMapEvents({
+    click: (event) => onClick([event.latlng.lat, event.latlng.lng]),
+  });
+  return null;
+};
+
+const ManageHazardZones = () => {
+  const [zones, setZones] = useState<HazardZone[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<HazardZone | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  const fetchZones = async () => {
+    try {
+      setZones(await fetchHazardZones(false));
+    } catch (error) {
+      console.error("Error fetching hazard zones:", error);
+      toast.error("Failed to load hazard zones");
+    }
+  };
+
+  const handleMapClick = (point: LatLng) => {
+    const [lat, lng] = point.map((n) => Number(n.toFixed(5)));
+    setFormData((prev) =>
+      prev.shape === "circle"
+        ? { ...prev, center_lat: String(lat), center_lng: String(lng) }
+        : { ...prev, polygon: [...prev.polygon, [lat, lng]] }
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.shape === "polygon" && formData.polygon.length < 3) {
+      toast.error("Click at least three points on the map to outline the zone");
+      return;
+    }
+    if (
+      formData.shape === "circle" &&
+      (!formData.center_lat || !formData.center_lng || !(parseFloat(formData.radius_km) > 0))
+    ) {
+      toast.error("Set a centre and a radius greater than zero");
+      return;
+    }
+
+    setIsLoading(true);
+
+    const isCircle = formData.shape === "circle";
+    const zoneData = {
+      name: formData.name,
+      description: formData.description || null,
+      hazard_type: formData.hazard_type,
+      shape: formData.shape,
+      center_lat: isCircle ? parseFloat(formData.center_lat) : null,
+      center_lng: isCircle ? parseFloat(formData.center_lng) : null,
+      radius_km: isCircle ? parseFloat(formData.radius_km) : null,
+      polygon: isCircle ? null : formData.polygon,
+      is_active: formData.is_active,
+    };
+
+    if (editingZone) {
+      const { error } = await supabase
+        .from("hazard_zones")
+        .update(zoneData)
+        .eq("id", editingZone.id);
+
+      if (error) {
+        toast.error("Failed to update hazard zone");
+      } else {
+        toast.success("Hazard zone updated successfully");
+        resetForm();
+        fetchZones();
+      }
+    } else {
+      const { error } = await supabase.from("hazard_zones").insert([zoneData]);
+
+      if (error) {
+        toast.error("Failed to add hazard zone");
+      } else {
+        toast.success("Hazard zone added successfully");
+        resetForm();
+        fetchZones();
+      }
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleToggleActive = async (zone: HazardZone, isActive: boolean) => {
+    const { error } = await supabase
+      .from("hazard_zones")
+      .update({ is_active: isActive })
+      .eq("id", zone.id);
+
+    if (error) {
+      toast.error("Failed to update hazard zone");
+    } else {
+      toast.success(isActive ? `${zone.name} activated` : `${zone.name} deactivated`);
+      fetchZones();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this hazard zone?")) return;
+
+    const { error } = await supabase.from("hazard_zones").delete().eq("id", id);
+
+    if (error) {
+      toast.error("Failed to delete hazard zone");
+    } else {
+      toast.success("Hazard zone deleted successfully");
+      fetchZones();
+    }
+  };
+
+  const handleEdit = (zone: HazardZone) => {
+    setEditingZone(zone);
+    setFormData({
+      name: zone.name,
+      description: zone.description || "",
+      hazard_type: zone.hazard_type,
+      shape: zone.shape,
+      center_lat: zone.center_lat !== null ? String(zone.center_lat) : "",
+      center_lng: zone.center_lng !== null ? String(zone.center_lng) : "",
+      radius_km: zone.radius_km !== null ? String(zone.radius_km) : "",
+      polygon: zone.polygon || [],
+      is_active: zone.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingZone(null);
+    setIsDialogOpen(false);
+  };
+
+  // Live preview of the zone being edited
+  const draftZone: HazardZone = {
+    id: "draft",
+    name: formData.name || "New zone",
+    description: null,
+    hazard_type: formData.hazard_type,
+    shape: formData.shape,
+    center_lat: formData.center_lat ? parseFloat(formData.center_lat) : null,
+    center_lng: formData.center_lng ? parseFloat(formData.center_lng) : null,
+    radius_km: parseFloat(formData.radius_km) > 0 ? parseFloat(formData.radius_km) : null,
+    polygon: formData.polygon.length >= 3 ? formData.polygon : null,
+    is_active: true,
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">
+          Hazard Zones ({zones.filter((zone) => zone.is_active).length} active)
+        </h2>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => resetForm()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Hazard Zone
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingZone ? "Edit" : "Add"} Hazard Zone
+              </DialogTitle>
+              <DialogDescription>
+                Spots inside an active zone are flagged and itineraries visiting them get a warning
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                  placeholder="Mayon Volcano Permanent Danger Zone"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Hazard *</Label>
+                  <Select
+                    value={formData.hazard_type}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, hazard_type: value as HazardType })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HAZARD_TYPES.map((hazard) => (
+                        <SelectItem key={hazard.value} value={hazard.value}>
+                          {hazard.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label>Shape *</Label>
+                  <Select
+                    value={formData.shape}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, shape: value as HazardShape })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="circle">Radius around a point</SelectItem>
+                      <SelectItem value="polygon">Polygon</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {formData.shape === "circle" ? (
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="center_lat">Latitude *</Label>
+                    <Input
+                      id="center_lat"
+                      type="number"
+                      step="any"
+                      value={formData.center_lat}
+                      onChange={(e) =>
+                        setFormData({ ...formData, center_lat: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="center_lng">Longitude *</Label>
+                    <Input
+                      id="center_lng"
+                      type="number"
+                      step="any"
+                      value={formData.center_lng}
+                      onChange={(e) =>
+                        setFormData({ ...formData, center_lng: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="radius_km">Radius (km) *</Label>
+                    <Input
+                      id="radius_km"
+                      type="number"
+                      step="0.1"
+                      min="0.1"
+                      value={formData.radius_km}
+                      onChange={(e) =>
+                        setFormData({ ...formData, radius_km: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {formData.polygon.length} points · click the map to add more
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={formData.polygon.length === 0}
+                    onClick={() =>
+                      setFormData({ ...formData, polygon: formData.polygon.slice(0, -1) })
+                    }
+                  >
+                    <Undo2 className="w-4 h-4 mr-2" />
+                    Undo point
+                  </Button>
+                </div>
+              )}
+
+              <div className="h-64 rounded-lg overflow-hidden border">
+                <MapContainer
+                  center={
+                    draftZone.center_lat !== null && draftZone.center_lng !== null
+                      ? [draftZone.center_lat, draftZone.center_lng]
+                      : formData.polygon[0] || ALBAY_CENTER
+                  }
+                  zoom={10}
+                  style={{ height: "100%", width: "100%" }}
+                >
+                  <TileLayer
+                    attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                    url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                  />
+                  <MapClickHandler onClick={handleMapClick} />
+                  <HazardZoneLayer zones={[draftZone]} />
+                </MapContainer>
+              </div>
+
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) =>
+                    setFormData({ ...formData, description: e.target.value })
+                  }
+                  rows={3}
+                />
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="is_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, is_active: checked })
+                  }
+                />
+                <Label htmlFor="is_active">Active</Label>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>{editingZone ? "Update" : "Add"} Zone</>
+                  )}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4">
+        {zones.map((zone) => (
+          <Card key={zone.id} className={zone.is_active ? "" : "opacity-60"}>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <CardTitle className="mb-2">{zone.name}</CardTitle>
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    <Badge variant={zone.is_active ? "destructive" : "secondary"}>
+                      {zone.is_active ? "Active" : "Inactive"}
+                    </Badge>
+                    <Badge variant="outline" className="capitalize">{zone.hazard_type}</Badge>
+                    <Badge variant="outline">
+                      {zone.shape === "circle"
+                        ? `${zone.radius_km} km radius`
+                        : `${zone.polygon?.length || 0}-point polygon`}
+                    </Badge>
+                  </div>
+                  {zone.description && (
+                    <p className="text-sm text-muted-foreground">{zone.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={zone.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(zone, checked)}
+                    aria-label={zone.is_active ? "Deactivate zone" : "Activate zone"}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEdit(zone)}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(zone.id)}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ManageHazardZones;
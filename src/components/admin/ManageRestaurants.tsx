@@ -14,7 +14,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { Plus, Pencil, Trash2, UtensilsCrossed, Loader2 } from "lucide-react";
+import { Plus, Pencil, Trash2, UtensilsCrossed, Loader2, X } from "lucide-react";
 import {
   Select,
   SelectTrigger,
@@ -22,6 +22,16 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
+import type { Json } from "@/integrations/supabase/types";
+import OpeningHoursEditor from "@/components/admin/OpeningHoursEditor";
+import LocationPicker from "@/components/admin/LocationPicker";
+import MediaManager from "@/components/admin/MediaManager";
+import { Badge } from "@/components/ui/badge";
+import { OpeningHours, parseOpeningHours, toOpeningHoursJson } from "@/lib/openingHours";
+import { BUDGET_TIERS, BudgetTier } from "@/lib/budget";
+import { LatLng } from "@/lib/geo";
+import { CUISINE_TAGS, PRICE_LEVEL_SYMBOLS } from "@/lib/restaurants";
+import { MediaDraft, coverOf, fetchMedia, saveMedia, toMediaDrafts, uploadMediaFiles } from "@/lib/media";
 
 interface Restaurant {
   id: string;
@@ -31,6 +41,14 @@ interface Restaurant {
   municipality: string | null;
   description: string | null;
   image_url: string | null;
+  opening_hours: Json | null;
+  latitude: number | null;
+  longitude: number | null;
+  price_level: string | null;
+  cuisine_tags: string[];
+  contact_number: string | null;
+  email: string | null;
+  website: string | null;
 }
 
 interface Municipality {
@@ -58,10 +76,15 @@ const ManageRestaurants = () => {
     location: "",
     municipality: "",
     description: "",
-    image_url: "",
+    opening_hours: null as OpeningHours | null,
+    coordinates: null as LatLng | null,
+    price_level: "",
+    cuisine_tags: [] as string[],
+    contact_number: "",
+    email: "",
+    website: "",
   });
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [media, setMedia] = useState<MediaDraft[]>([]);
   const [uploadingImage, setUploadingImage] = useState(false);
 
   useEffect(() => {
@@ -129,46 +152,10 @@ const ManageRestaurants = () => {
     }
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (!file.type.startsWith('image/')) {
-        toast.error('Please select an image file');
-        return;
-      }
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error('Image size should be less than 5MB');
-        return;
-      }
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const uploadImage = async (): Promise<string | null> => {
-    if (!imageFile) return formData.image_url || null;
-
+  const uploadImages = async (): Promise<MediaDraft[] | null> => {
     setUploadingImage(true);
     try {
-      const fileExt = imageFile.name.split('.').pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-      const filePath = `restaurants/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('spot-images')
-        .upload(filePath, imageFile);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('spot-images')
-        .getPublicUrl(filePath);
-
-      return publicUrl;
+      return await uploadMediaFiles("restaurant", media);
     } catch (error: any) {
       console.error('Image upload error:', error);
       toast.error('Failed to upload image: ' + error.message);
@@ -193,10 +180,10 @@ const ManageRestaurants = () => {
     e.preventDefault();
     setIsLoading(true);
 
-    // Upload image if a new file is selected
-    const imageUrl = await uploadImage();
+    // Upload any newly added photos first
+    const uploaded = await uploadImages();
 
-    if (imageFile && !imageUrl) {
+    if (!uploaded) {
       toast.error('Failed to upload image. Please try again.');
       setIsLoading(false);
       return;
@@ -208,7 +195,15 @@ const ManageRestaurants = () => {
       location: formData.location,
       municipality: formData.municipality || null,
       description: formData.description || null,
-      image_url: imageUrl,
+      image_url: coverOf(uploaded)?.url ?? null,
+      opening_hours: toOpeningHoursJson(formData.opening_hours),
+      latitude: formData.coordinates?.[0] ?? null,
+      longitude: formData.coordinates?.[1] ?? null,
+      price_level: formData.price_level || null,
+      cuisine_tags: formData.cuisine_tags,
+      contact_number: formData.contact_number || null,
+      email: formData.email || null,
+      website: formData.website || null,
     };
 
     if (editingRestaurant) {
@@ -216,8 +211,9 @@ const ManageRestaurants = () => {
         .from("restaurants")
         .update(restaurantData)
         .eq("id", editingRestaurant.id);
+      const mediaError = error ? null : await saveMedia("restaurant", editingRestaurant.id, uploaded).catch((e) => e);
 
-      if (error) {
+      if (error || mediaError) {
         toast.error("Failed to update restaurant");
       } else {
         toast.success("Restaurant updated successfully");
@@ -225,9 +221,10 @@ const ManageRestaurants = () => {
         fetchRestaurants();
       }
     } else {
-      const { error } = await supabase.from("restaurants").insert([restaurantData]);
+      const { data, error } = await supabase.from("restaurants").insert([restaurantData]).select("id").single();
+      const mediaError = error ? null : await saveMedia("restaurant", data.id, uploaded).catch((e) => e);
 
-      if (error) {
+      if (error || mediaError) {
         toast.error("Failed to add restaurant");
       } else {
         toast.success("Restaurant added successfully");
@@ -260,10 +257,21 @@ const ManageRestaurants = () => {
       location: restaurant.location,
       municipality: restaurant.municipality || "",
       description: restaurant.description || "",
-      image_url: restaurant.image_url || "",
+      opening_hours: parseOpeningHours(restaurant.opening_hours),
+      coordinates:
+        restaurant.latitude !== null && restaurant.longitude !== null
+          ? [Number(restaurant.latitude), Number(restaurant.longitude)]
+          : null,
+      price_level: restaurant.price_level || "",
+      cuisine_tags: restaurant.cuisine_tags || [],
+      contact_number: restaurant.contact_number || "",
+      email: restaurant.email || "",
+      website: restaurant.website || "",
     });
-    setImagePreview(restaurant.image_url);
-    setImageFile(null);
+    setMedia(toMediaDrafts([], restaurant.image_url));
+    fetchMedia("restaurant", restaurant.id)
+      .then((rows) => setMedia(toMediaDrafts(rows, restaurant.image_url)))
+      .catch((error) => console.error("Error fetching media:", error));
 
     const muni = municipalities.find((m) => m.name === restaurant.municipality);
     if (muni?.code) {
@@ -285,12 +293,17 @@ const ManageRestaurants = () => {
       location: "",
       municipality: "",
       description: "",
-      image_url: "",
+      opening_hours: null,
+      coordinates: null,
+      price_level: "",
+      cuisine_tags: [],
+      contact_number: "",
+      email: "",
+      website: "",
     });
     setEditingRestaurant(null);
     setBarangays([]);
-    setImageFile(null);
-    setImagePreview(null);
+    setMedia([]);
     setIsDialogOpen(false);
   };
 
@@ -374,6 +387,55 @@ const ManageRestaurants = () => {
                 </Select>
               </div>
 
+              {/* Price Level */}
+              <div>
+                <Label>Price Level</Label>
+                <Select
+                  onValueChange={(value) => setFormData({ ...formData, price_level: value === "none" ? "" : value })}
+                  value={formData.price_level || "none"}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not set</SelectItem>
+                    {BUDGET_TIERS.map((tier) => (
+                      <SelectItem key={tier.value} value={tier.value}>
+                        {PRICE_LEVEL_SYMBOLS[tier.value]} {tier.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Cuisine Tags */}
+              <div>
+                <Label>Cuisine</Label>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {CUISINE_TAGS.map((tag) => {
+                    const selected = formData.cuisine_tags.includes(tag);
+                    return (
+                      <Badge
+                        key={tag}
+                        variant={selected ? "default" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            cuisine_tags: selected
+                              ? prev.cuisine_tags.filter((t) => t !== tag)
+                              : [...prev.cuisine_tags, tag],
+                          }))
+                        }
+                      >
+                        {tag}
+                        {selected && <X className="w-3 h-3 ml-1" />}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              </div>
+
               {/* Municipality/City Dropdown */}
               <div>
                 <Label>Municipality or City</Label>
@@ -420,6 +482,44 @@ const ManageRestaurants = () => {
                 </Select>
               </div>
 
+              <LocationPicker
+                value={formData.coordinates}
+                onChange={(coordinates) => setFormData({ ...formData, coordinates })}
+              />
+
+              {/* Contact Details */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="contact_number">Contact Number</Label>
+                  <Input
+                    id="contact_number"
+                    type="tel"
+                    value={formData.contact_number}
+                    onChange={(e) => setFormData({ ...formData, contact_number: e.target.value })}
+                    placeholder="+63 912 345 6789"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="website">Website</Label>
+                <Input
+                  id="website"
+                  type="url"
+                  value={formData.website}
+                  onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+                  placeholder="https://"
+                />
+              </div>
+
               {/* Description */}
               <div>
                 <Label htmlFor="description">Description</Label>
@@ -431,43 +531,13 @@ const ManageRestaurants = () => {
                 />
               </div>
 
-              {/* Image Upload */}
-              <div>
-                <Label htmlFor="image-upload">Restaurant Image</Label>
-                <Input
-                  id="image-upload"
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageChange}
-                  className="cursor-pointer"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Upload an image (max 5MB, JPG/PNG/WEBP)
-                </p>
-                
-                {imagePreview && (
-                  <div className="mt-3 relative">
-                    <img 
-                      src={imagePreview} 
-                      alt="Preview" 
-                      className="w-full h-48 object-cover rounded-lg border"
-                    />
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="sm"
-                      className="absolute top-2 right-2"
-                      onClick={() => {
-                        setImageFile(null);
-                        setImagePreview(null);
-                        setFormData({ ...formData, image_url: "" });
-                      }}
-                    >
-                      Remove
-                    </Button>
-                  </div>
-                )}
-              </div>
+              {/* Photos */}
+              <MediaManager value={media} onChange={setMedia} />
+
+              <OpeningHoursEditor
+                value={formData.opening_hours}
+                onChange={(opening_hours) => setFormData({ ...formData, opening_hours })}
+              />
 
               {/* Form Actions */}
               <div className="flex gap-3 pt-4">
@@ -502,9 +572,24 @@ const ManageRestaurants = () => {
                     <CardTitle>{restaurant.name}</CardTitle>
                   </div>
                   {restaurant.food_type && (
-                    <p className="text-sm font-medium text-primary mb-1">{restaurant.food_type}</p>
+                    <p className="text-sm font-medium text-primary mb-1">
+                      {restaurant.food_type}
+                      {restaurant.price_level && ` · ${PRICE_LEVEL_SYMBOLS[restaurant.price_level as BudgetTier]}`}
+                    </p>
+                  )}
+                  {restaurant.cuisine_tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {restaurant.cuisine_tags.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-xs">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
                   )}
-                  <p className="text-sm text-muted-foreground mb-2">{restaurant.location}</p>
+                  <p className="text-sm text-muted-foreground mb-2">
+                    {restaurant.location}
+                    {restaurant.latitude === null && " · No map location"}
+                  </p>
                   {restaurant.description && (
                     <p className="text-sm text-muted-foreground">{restaurant.description}</p>
                   )}
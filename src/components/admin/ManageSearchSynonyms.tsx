@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { SearchSynonym, parseSynonymTerms } from "@/lib/search";
+
+const emptyForm = () => ({
+  terms: "",
+  note: "",
+});
+
+const ManageSearchSynonyms = () => {
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSynonym, setEditingSynonym] = useState<SearchSynonym | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    fetchSynonyms();
+  }, []);
+
+  const fetchSynonyms = async () => {
+    const { data, error } = await supabase
+      .from("search_synonyms")
+      .select("*")
+      .order("created_at");
+
+    if (error) {
+      console.error("Error fetching search synonyms:", error);
+      toast.error("Failed to load search synonyms");
+      return;
+    }
+
+    setSynonyms(data || []);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const terms = parseSynonymTerms(formData.terms);
+    if (terms.length < 2) {
+      toast.error("Enter at least two terms");
+      return;
+    }
+
+    setIsLoading(true);
+
+    const synonymData = {
+      terms,
+      note: formData.note || null,
+    };
+
+    if (editingSynonym) {
+      const { error } = await supabase
+        .from("search_synonyms")
+        .update(synonymData)
+        .eq("id", editingSynonym.id);
+
+      if (error) {
+        toast.error("Failed to update synonyms");
+      } else {
+        toast.success("Synonyms updated successfully");
+        resetForm();
+        fetchSynonyms();
+      }
+    } else {
+      const { error } = await supabase.from("search_synonyms").insert([synonymData]);
+
+      if (error) {
+        toast.error("Failed to add synonyms");
+      } else {
+        toast.success("Synonyms added successfully");
+        resetForm();
+        fetchSynonyms();
+      }
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Are you sure you want to delete these synonyms?")) return;
+
+    const { error } = await supabase.from("search_synonyms").delete().eq("id", id);
+
+    if (error) {
+      toast.error("Failed to delete synonyms");
+    } else {
+      toast.success("Synonyms deleted successfully");
+      fetchSynonyms();
+    }
+  };
+
+  const handleEdit = (synonym: SearchSynonym) => {
+    setEditingSynonym(synonym);
+    setFormData({
+      terms: synonym.terms.join(", "),
+      note: synonym.note || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingSynonym(null);
+    setIsDialogOpen(false);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">Search Synonyms ({synonyms.length})</h2>
+          <p className="text-sm text-muted-foreground">
+            Searching for any term in a group also finds the others
+          </p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => resetForm()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Synonyms
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingSynonym ? "Edit" : "Add"} Synonyms</DialogTitle>
+              <DialogDescription>
+                English, Filipino and Bikol words travelers use for the same thing
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="terms">Terms *</Label>
+                <Input
+                  id="terms"
+                  value={formData.terms}
+                  onChange={(e) => setFormData({ ...formData, terms: e.target.value })}
+                  placeholder="bulkan, volcano, mayon"
+                  required
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Separate terms with commas. A term with several words matches them as a phrase.
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="note">Note</Label>
+                <Input
+                  id="note"
+                  value={formData.note}
+                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                  placeholder="Bikol/Filipino for volcano"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>{editingSynonym ? "Update" : "Add"} Synonyms</>
+                  )}
+                </Button>
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4">
+        {synonyms.map((synonym) => (
+          <Card key={synonym.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div className="flex-1 space-y-2">
+                  <div className="flex flex-wrap gap-2">
+                    {synonym.terms.map((term) => (
+                      <Badge key={term} variant="secondary">
+                        {term}
+                      </Badge>
+                    ))}
+                  </div>
+                  {synonym.note && <p className="text-sm text-muted-foreground">{synonym.note}</p>}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(synonym)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(synonym.id)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ManageSearchSynonyms;
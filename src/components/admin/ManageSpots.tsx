@@ -24,9 +24,17 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
+import type { Json } from "@/integrations/supabase/types";
+import OpeningHoursEditor from "@/components/admin/OpeningHoursEditor";
+import MediaManager from "@/components/admin/MediaManager";
+import { OpeningHours, parseOpeningHours, toOpeningHoursJson } from "@/lib/openingHours";
+import { MediaDraft, coverOf, fetchMedia, saveMedia, toMediaDrafts, uploadMediaFiles } from "@/lib/media";
+import { DEFAULT_CHECK_IN_RADIUS_M } from "@/lib/passport";
 
 interface TouristSpot {
   rating: number;
+  editorial_rating: number | null;
+  check_in_radius_m: number;
   id: string;
   name: string;
   description: string | null;
@@ -38,6 +46,7 @@ interface TouristSpot {
   contact_number: string | null;
   image_url: string | null;
   is_hidden_gem?: boolean;
+  opening_hours: Json | null;
 }
 
 interface Municipality {
@@ -74,12 +83,12 @@ const ManageSpots = () => {
     subcategories: [] as string[],  // Added subcategories
     spot_type: [] as string[],
     contact_number: "",
-    image_url: "",
     is_hidden_gem: false,
-    rating: 0,
+    editorial_rating: 0,
+    check_in_radius_m: DEFAULT_CHECK_IN_RADIUS_M,
+    opening_hours: null as OpeningHours | null,
   });
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [media, setMedia] = useState<MediaDraft[]>([]);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [categories, setCategories] = useState<any[]>([]);
 
@@ -205,55 +214,10 @@ const ManageSpots = () => {
     }));
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      // Validate file type
-      if (!file.type.startsWith('image/')) {
-        toast.error('Please select an image file');
-        return;
-      }
-      
-      // Validate file size (max 5MB)
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error('Image size should be less than 5MB');
-        return;
-      }
-      
-      setImageFile(file);
-      
-      // Create preview
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const uploadImage = async (): Promise<string | null> => {
-    if (!imageFile) return formData.image_url || null;
-
+  const uploadImages = async (): Promise<MediaDraft[] | null> => {
     setUploadingImage(true);
     try {
-      // Create unique filename
-      const fileExt = imageFile.name.split('.').pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-      const filePath = `spots/${fileName}`;
-
-      // Upload to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from('spot-images')
-        .upload(filePath, imageFile);
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('spot-images')
-        .getPublicUrl(filePath);
-
-      return publicUrl;
+      return await uploadMediaFiles("spot", media);
     } catch (error: any) {
       console.error('Image upload error:', error);
       toast.error('Failed to upload image: ' + error.message);
@@ -268,10 +232,10 @@ const ManageSpots = () => {
     setIsLoading(true);
 
     try {
-      // Upload image if a new file is selected
-      const imageUrl = await uploadImage();
+      // Upload any newly added photos first
+      const uploaded = await uploadImages();
 
-      if (imageFile && !imageUrl) {
+      if (!uploaded) {
         toast.error('Failed to upload image. Please try again.');
         setIsLoading(false);
         return;
@@ -286,16 +250,20 @@ const ManageSpots = () => {
         subcategories: formData.subcategories.length ? formData.subcategories : null,
         spot_type: formData.spot_type.length ? formData.spot_type : null,
         contact_number: formData.contact_number || null,
-        image_url: imageUrl,
-        rating: formData.rating || 0,
+        image_url: coverOf(uploaded)?.url ?? null,
+        editorial_rating: formData.editorial_rating || null,
+        check_in_radius_m: formData.check_in_radius_m,
         is_hidden_gem: formData.is_hidden_gem || false,
+        opening_hours: toOpeningHoursJson(formData.opening_hours),
       };
 
-      const { error } = editingSpot
-        ? await supabase.from("tourist_spots").update(spotData).eq("id", editingSpot.id)
-        : await supabase.from("tourist_spots").insert([spotData]);
+      const { data, error } = editingSpot
+        ? await supabase.from("tourist_spots").update(spotData).eq("id", editingSpot.id).select("id").single()
+        : await supabase.from("tourist_spots").insert([spotData]).select("id").single();
 
       if (error) throw error;
+
+      await saveMedia("spot", data.id, uploaded);
       
       toast.success(`Spot ${editingSpot ? "updated" : "added"} successfully`);
       resetForm();
@@ -319,12 +287,15 @@ const ManageSpots = () => {
       subcategories: spot.subcategories || [],
       spot_type: spot.spot_type || [],
       contact_number: spot.contact_number || "",
-      image_url: spot.image_url || "",
       is_hidden_gem: spot.is_hidden_gem || false,
-      rating: spot.rating || 0,
+      editorial_rating: spot.editorial_rating || 0,
+      check_in_radius_m: spot.check_in_radius_m ?? DEFAULT_CHECK_IN_RADIUS_M,
+      opening_hours: parseOpeningHours(spot.opening_hours),
     });
-    setImagePreview(spot.image_url);
-    setImageFile(null);
+    setMedia(toMediaDrafts([], spot.image_url));
+    fetchMedia("spot", spot.id)
+      .then((rows) => setMedia(toMediaDrafts(rows, spot.image_url)))
+      .catch((error) => console.error("Error fetching media:", error));
     setIsDialogOpen(true);
   };
 
@@ -338,14 +309,14 @@ const ManageSpots = () => {
       subcategories: [],
       spot_type: [],
       contact_number: "",
-      image_url: "",
       is_hidden_gem: false,
-      rating: 0,
+      editorial_rating: 0,
+      check_in_radius_m: DEFAULT_CHECK_IN_RADIUS_M,
+      opening_hours: null,
     });
     setEditingSpot(null);
     setBarangays([]);
-    setImageFile(null);
-    setImagePreview(null);
+    setMedia([]);
     setIsDialogOpen(false);
   };
 
@@ -454,44 +425,50 @@ const ManageSpots = () => {
                 />
               </div>
 
-              {/* Image Upload */}
               <div>
-                <Label htmlFor="image-upload">Spot Image</Label>
+                <Label htmlFor="editorial_rating">Editorial Score (0-5)</Label>
                 <Input
-                  id="image-upload"
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageChange}
-                  className="cursor-pointer"
+                  id="editorial_rating"
+                  type="number"
+                  min={0}
+                  max={5}
+                  step={0.1}
+                  value={formData.editorial_rating === 0 ? "" : formData.editorial_rating}
+                  onChange={(e) =>
+                    setFormData({ ...formData, editorial_rating: Math.min(Math.max(Number(e.target.value) || 0, 0), 5) })
+                  }
+                  placeholder="Optional"
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  Upload an image (max 5MB, JPG/PNG/WEBP)
+                  Blended with traveller reviews; the displayed rating is computed automatically.
                 </p>
-                
-                {imagePreview && (
-                  <div className="mt-3 relative">
-                    <img 
-                      src={imagePreview} 
-                      alt="Preview" 
-                      className="w-full h-48 object-cover rounded-lg border"
-                    />
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="sm"
-                      className="absolute top-2 right-2"
-                      onClick={() => {
-                        setImageFile(null);
-                        setImagePreview(null);
-                        setFormData({ ...formData, image_url: "" });
-                      }}
-                    >
-                      Remove
-                    </Button>
-                  </div>
-                )}
               </div>
 
+              <div>
+                <Label htmlFor="check_in_radius_m">Check-in Radius (m)</Label>
+                <Input
+                  id="check_in_radius_m"
+                  type="number"
+                  min={25}
+                  max={5000}
+                  step={25}
+                  value={formData.check_in_radius_m}
+                  onChange={(e) => setFormData({ ...formData, check_in_radius_m: Number(e.target.value) || 0 })}
+                  onBlur={() =>
+                    setFormData({
+                      ...formData,
+                      check_in_radius_m: Math.min(Math.max(formData.check_in_radius_m || DEFAULT_CHECK_IN_RADIUS_M, 25), 5000),
+                    })
+                  }
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  How close a traveller's device must be to the spot's pin to check in. Widen it for large sites.
+                </p>
+              </div>
+
+              {/* Photos */}
+              <MediaManager value={media} onChange={setMedia} />
+
               {/* Categories */}
               <div>
                 <Label className="mb-3 block">Categories *</Label>
@@ -569,6 +546,11 @@ const ManageSpots = () => {
                 </Select>
               </div>
 
+              <OpeningHoursEditor
+                value={formData.opening_hours}
+                onChange={(opening_hours) => setFormData({ ...formData, opening_hours })}
+              />
+
               {/* Hidden Gem */}
               <div className="flex items-center space-x-2 p-4 border-2 border-primary/50 rounded-lg bg-primary/5">
                 <Checkbox
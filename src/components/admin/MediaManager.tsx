@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronUp, GripVertical, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { MediaDraft, coverOf, fileToMediaDraft, validateMediaFile } from "@/lib/media";
+
+interface MediaManagerProps {
+  value: MediaDraft[];
+  onChange: (value: MediaDraft[]) => void;
+  label?: string;
+}
+
+// Multi-photo upload with drag-to-reorder, plus arrow buttons since touch
+// screens have no HTML drag and drop. The first photo is the cover
+// unless another one is starred.
+const MediaManager = ({ value, onChange, label = "Photos" }: MediaManagerProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const cover = coverOf(value);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    const accepted = files.filter((file) => {
+      const problem = validateMediaFile(file);
+      if (problem) toast.error(problem);
+      return !problem;
+    });
+    if (accepted.length > 0) onChange([...value, ...accepted.map(fileToMediaDraft)]);
+    e.target.value = "";
+  };
+
+  const update = (index: number, changes: Partial<MediaDraft>) =>
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const remove = (index: number) => {
+    const item = value[index];
+    if (item.file) URL.revokeObjectURL(item.url);
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const setCover = (index: number) =>
+    onChange(value.map((item, i) => ({ ...item, is_cover: i === index })));
+
+  const move = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= value.length) return;
+    const next = [...value];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) move(dragIndex, index);
+  };
+
+  return (
+    <div>
+      <Label htmlFor="media-upload">{label}</Label>
+      <Input
+        id="media-upload"
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFiles}
+        className="cursor-pointer"
+      />
+      <p className="text-xs text-muted-foreground mt-1">
+        Upload one or more images (max 5MB each, JPG/PNG/WEBP). Drag or use the arrows to reorder.
+      </p>
+
+      {value.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {value.map((item, index) => (
+            <div
+              key={item.key}
+              draggable
+              onDragStart={(e) => {
+                // Firefox won't start a drag without data
+                e.dataTransfer.setData("text/plain", item.key);
+                e.dataTransfer.effectAllowed = "move";
+                setDragIndex(index);
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              className={`flex items-start gap-3 p-2 rounded-lg border bg-background ${
+                dropIndex === index && dragIndex !== index ? "border-primary" : ""
+              } ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <GripVertical className="w-4 h-4 mt-8 text-muted-foreground cursor-grab shrink-0" />
+              <div className="relative shrink-0">
+                <img src={item.url} alt={item.caption || `Photo ${index + 1}`} className="w-28 h-20 object-cover rounded" />
+                {item === cover && (
+                  <span className="absolute top-1 left-1 rounded bg-primary px-1.5 text-[10px] font-medium text-primary-foreground">
+                    Cover
+                  </span>
+                )}
+              </div>
+              <div className="flex-1 space-y-2">
+                <Input
+                  placeholder="Caption"
+                  value={item.caption}
+                  onChange={(e) => update(index, { caption: e.target.value })}
+                />
+                <Input
+                  placeholder="Credit, e.g. Photo by Juan dela Cruz / CC BY 4.0"
+                  value={item.credit}
+                  onChange={(e) => update(index, { credit: e.target.value })}
+                />
+              </div>
+              <div className="flex flex-col">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Move up"
+                  disabled={index === 0}
+                  onClick={() => move(index, index - 1)}
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Move down"
+                  disabled={index === value.length - 1}
+                  onClick={() => move(index, index + 1)}
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Use as cover"
+                  onClick={() => setCover(index)}
+                >
+                  <Star className={`w-4 h-4 ${item === cover ? "fill-yellow-400 text-yellow-500" : ""}`} />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" title="Remove photo" onClick={() => remove(index)}>
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaManager;
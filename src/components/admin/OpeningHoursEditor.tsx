@@ -0,0 +1,276 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { Plus, Trash2, X } from "lucide-react";
+import {
+  EXCEPTION_KINDS,
+  HoursException,
+  HoursExceptionKind,
+  OpeningHours,
+  TimeRange,
+  WEEKDAYS,
+  emptyOpeningHours,
+} from "@/lib/openingHours";
+
+interface OpeningHoursEditorProps {
+  // null while the place's hours are unknown
+  value: OpeningHours | null;
+  onChange: (value: OpeningHours | null) => void;
+}
+
+const DEFAULT_RANGE: TimeRange = { open: "08:00", close: "17:00" };
+
+const OpeningHoursEditor = ({ value, onChange }: OpeningHoursEditorProps) => {
+  if (!value) {
+    return (
+      <div>
+        <Label className="mb-2 block">Opening Hours</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({
+              ...emptyOpeningHours(),
+              weekly: Object.fromEntries(WEEKDAYS.map((day) => [String(day.value), [DEFAULT_RANGE]])),
+            })
+          }
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Opening Hours
+        </Button>
+        <p className="text-xs text-muted-foreground mt-1">
+          Leave unset if the hours aren't known. Travelers won't see open/closed warnings.
+        </p>
+      </div>
+    );
+  }
+
+  const setDay = (day: number, ranges: TimeRange[]) =>
+    onChange({ ...value, weekly: { ...value.weekly, [String(day)]: ranges } });
+
+  const setException = (index: number, changes: Partial<HoursException>) =>
+    onChange({
+      ...value,
+      exceptions: value.exceptions.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+
+  const copyToAllDays = (day: number) => {
+    const ranges = value.weekly[String(day)] || [];
+    onChange({ ...value, weekly: Object.fromEntries(WEEKDAYS.map((item) => [String(item.value), ranges])) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label>Opening Hours</Label>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+          Clear
+        </Button>
+      </div>
+
+      <div className="space-y-2 border rounded-lg p-3">
+        <p className="text-xs text-muted-foreground">
+          Philippine time. A closing time before the opening time runs past midnight; 00:00–00:00 is open 24 hours.
+        </p>
+        {WEEKDAYS.map((day) => {
+          const ranges = value.weekly[String(day.value)] || [];
+
+          return (
+            <div key={day.value} className="flex items-start gap-3">
+              <div className="flex items-center gap-2 w-28 pt-2">
+                <Checkbox
+                  checked={ranges.length > 0}
+                  onCheckedChange={(checked) => setDay(day.value, checked ? [DEFAULT_RANGE] : [])}
+                />
+                <span className="text-sm">{day.short}</span>
+              </div>
+              <div className="flex-1 space-y-2">
+                {ranges.length === 0 && <p className="text-sm text-muted-foreground pt-2">Closed</p>}
+                {ranges.map((range, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={range.open}
+                      onChange={(e) =>
+                        setDay(day.value, ranges.map((r, i) => (i === index ? { ...r, open: e.target.value } : r)))
+                      }
+                      className="w-28"
+                      required
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="time"
+                      value={range.close}
+                      onChange={(e) =>
+                        setDay(day.value, ranges.map((r, i) => (i === index ? { ...r, close: e.target.value } : r)))
+                      }
+                      className="w-28"
+                      required
+                    />
+                    {ranges.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setDay(day.value, ranges.filter((_, i) => i !== index))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {ranges.length > 0 && (
+                <div className="flex pt-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Add a break or second session"
+                    onClick={() => setDay(day.value, [...ranges, { open: ranges[ranges.length - 1].close, close: "21:00" }])}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 text-xs"
+                    onClick={() => copyToAllDays(day.value)}
+                  >
+                    Copy to all
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Holidays & Seasonal Closures</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...value,
+                exceptions: [
+                  ...value.exceptions,
+                  { kind: "holiday", start_date: "", end_date: null, closed: true, hours: [], reason: "" },
+                ],
+              })
+            }
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Exception
+          </Button>
+        </div>
+
+        {value.exceptions.map((exception, index) => (
+          <div key={index} className="border rounded-lg p-3 space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <Select
+                value={exception.kind}
+                onValueChange={(kind) => setException(index, { kind: kind as HoursExceptionKind })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXCEPTION_KINDS.map((kind) => (
+                    <SelectItem key={kind.value} value={kind.value}>
+                      {kind.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                value={exception.start_date}
+                onChange={(e) => setException(index, { start_date: e.target.value })}
+                required
+              />
+              <Input
+                type="date"
+                value={exception.end_date || ""}
+                min={exception.start_date}
+                onChange={(e) => setException(index, { end_date: e.target.value || null })}
+                title="Leave empty to keep closed until further notice"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Reason, e.g. Ashfall from Mayon"
+                value={exception.reason || ""}
+                onChange={(e) => setException(index, { reason: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...value, exceptions: value.exceptions.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Checkbox
+                checked={exception.closed}
+                onCheckedChange={(checked) =>
+                  setException(index, { closed: !!checked, hours: checked ? [] : [DEFAULT_RANGE] })
+                }
+              />
+              <span className="text-sm">Closed all day</span>
+              {!exception.closed &&
+                (exception.hours || []).map((range, rangeIndex) => (
+                  <div key={rangeIndex} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={range.open}
+                      onChange={(e) =>
+                        setException(index, {
+                          hours: (exception.hours || []).map((r, i) =>
+                            i === rangeIndex ? { ...r, open: e.target.value } : r
+                          ),
+                        })
+                      }
+                      className="w-28"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="time"
+                      value={range.close}
+                      onChange={(e) =>
+                        setException(index, {
+                          hours: (exception.hours || []).map((r, i) =>
+                            i === rangeIndex ? { ...r, close: e.target.value } : r
+                          ),
+                        })
+                      }
+                      className="w-28"
+                    />
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OpeningHoursEditor;
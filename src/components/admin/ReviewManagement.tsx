@@ -3,8 +3,14 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trash2, Star } from "lucide-react";
+import { Loader2, Trash2, Star, Check, X } from "lucide-react";
+import { ReviewPhotoGrid } from "@/components/reviews/ReviewPhotoGrid";
+import { ReviewPhoto, moderateReviewPhoto, removeReviewPhotoFiles, signReviewPhotos } from "@/lib/reviewPhotos";
+import { REVIEW_ENTITY_TABLES, REVIEW_ENTITY_TYPES, ReviewEntityType } from "@/lib/reviews";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,18 +28,23 @@ interface Review {
   rating: number;
   comment: string | null;
   created_at: string;
-  spot_id: string;
+  entity_type: string;
+  entity_id: string;
   user_id: string;
 }
 
 interface ReviewWithDetails extends Review {
-  spot_name: string;
+  entity_name: string;
   user_name: string;
+  photos: ReviewPhoto[];
 }
 
 const ReviewManagement = () => {
   const [reviews, setReviews] = useState<ReviewWithDetails[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [entityFilter, setEntityFilter] = useState<ReviewEntityType | "all">("all");
+  const [rejectionReasons, setRejectionReasons] = useState<Record<string, string>>({});
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -58,16 +69,36 @@ const ReviewManagement = () => {
       return;
     }
 
-    // Fetch spot names and user names
+    const { data: photosData, error: photosError } = await supabase
+      .from("review_photos")
+      .select("*")
+      .order("position");
+
+    if (photosError) console.error("Error fetching review photos:", photosError);
+
+    const photos = await signReviewPhotos(photosData || []).catch((signError) => {
+      console.error("Error signing review photo URLs:", signError);
+      return [] as ReviewPhoto[];
+    });
+
+    // Look up the reviewed entities' names, one query per type
+    const entityNames = new Map<string, string>();
+    await Promise.all(
+      REVIEW_ENTITY_TYPES.map(async ({ value: type }) => {
+        const ids = [
+          ...new Set((reviewsData || []).filter((review) => review.entity_type === type).map((review) => review.entity_id)),
+        ];
+        if (ids.length === 0) return;
+
+        const { data } = await supabase.from(REVIEW_ENTITY_TABLES[type]).select("id, name").in("id", ids);
+        (data || []).forEach((entity) => entityNames.set(`${type}:${entity.id}`, entity.name));
+      })
+    );
+
+    // Fetch user names
     const enrichedReviews: ReviewWithDetails[] = [];
     
     for (const review of reviewsData || []) {
-      const { data: spot } = await supabase
-        .from("tourist_spots")
-        .select("name")
-        .eq("id", review.spot_id)
-        .single();
-
       const { data: profile } = await supabase
         .from("profiles")
         .select("full_name")
@@ -76,8 +107,9 @@ const ReviewManagement = () => {
 
       enrichedReviews.push({
         ...review,
-        spot_name: spot?.name || "Unknown Spot",
+        entity_name: entityNames.get(`${review.entity_type}:${review.entity_id}`) || "Unknown",
         user_name: profile?.full_name || "Anonymous",
+        photos: photos.filter((photo) => photo.review_id === review.id),
       });
     }
 
@@ -85,11 +117,11 @@ const ReviewManagement = () => {
     setIsLoading(false);
   };
 
-  const handleDeleteReview = async (reviewId: string) => {
+  const handleDeleteReview = async (review: ReviewWithDetails) => {
     const { error } = await supabase
       .from("reviews")
       .delete()
-      .eq("id", reviewId);
+      .eq("id", review.id);
 
     if (error) {
       toast({
@@ -102,10 +134,50 @@ const ReviewManagement = () => {
         title: "Success",
         description: "Review has been deleted",
       });
+      removeReviewPhotoFiles(review.photos.map((photo) => photo.storage_path));
       fetchReviews();
     }
   };
 
+  const handleModeratePhoto = async (photo: ReviewPhoto, status: "approved" | "rejected") => {
+    setModeratingId(photo.id);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      await moderateReviewPhoto(photo, user.id, status, rejectionReasons[photo.id]);
+
+      setReviews((prev) =>
+        prev.map((review) => ({
+          ...review,
+          photos: review.photos.map((item) =>
+            item.id === photo.id ? { ...item, status, url: status === "rejected" ? null : item.url } : item
+          ),
+        }))
+      );
+      toast({
+        title: "Success",
+        description: status === "approved" ? "Photo approved" : "Photo rejected",
+      });
+    } catch (error) {
+      console.error("Error moderating photo:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update photo",
+        variant: "destructive",
+      });
+    } finally {
+      setModeratingId(null);
+    }
+  };
+
+  const visibleReviews =
+    entityFilter === "all" ? reviews : reviews.filter((review) => review.entity_type === entityFilter);
+
+  const pendingPhotos = visibleReviews.flatMap((review) =>
+    review.photos
+      .filter((photo) => photo.status === "pending")
+      .map((photo) => ({ photo, review }))
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -118,82 +190,171 @@ const ReviewManagement = () => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">Review Management</h2>
-        <Badge variant="outline" className="text-lg px-4 py-2">
-          Total Reviews: {reviews.length}
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Select value={entityFilter} onValueChange={(value) => setEntityFilter(value as ReviewEntityType | "all")}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {REVIEW_ENTITY_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant="outline" className="text-lg px-4 py-2">
+            Total Reviews: {visibleReviews.length}
+          </Badge>
+        </div>
       </div>
 
-      <div className="grid gap-4">
-        {reviews.length > 0 ? (
-          reviews.map((review) => (
-            <Card key={review.id}>
-              <CardHeader>
-                <CardTitle className="flex items-start justify-between">
-                  <div className="space-y-1">
-                    <div className="font-semibold text-lg">{review.spot_name}</div>
-                    <div className="flex items-center gap-2">
-                      <div className="flex items-center gap-1">
-                        {[...Array(5)].map((_, i) => (
-                          <Star
-                            key={i}
-                            className={`w-4 h-4 ${
-                              i < review.rating
-                                ? "fill-yellow-400 text-yellow-400"
-                                : "text-muted-foreground"
-                            }`}
-                          />
-                        ))}
+      <Tabs defaultValue="reviews">
+        <TabsList>
+          <TabsTrigger value="reviews">Reviews</TabsTrigger>
+          <TabsTrigger value="photos">
+            Photo Queue
+            {pendingPhotos.length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {pendingPhotos.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="reviews" className="mt-4">
+          <div className="grid gap-4">
+            {visibleReviews.length > 0 ? (
+              visibleReviews.map((review) => (
+                <Card key={review.id}>
+                  <CardHeader>
+                    <CardTitle className="flex items-start justify-between">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-lg">{review.entity_name}</span>
+                          <Badge variant="secondary" className="capitalize font-normal">
+                            {review.entity_type}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <div className="flex items-center gap-1">
+                            {[...Array(5)].map((_, i) => (
+                              <Star
+                                key={i}
+                                className={`w-4 h-4 ${
+                                  i < review.rating
+                                    ? "fill-yellow-400 text-yellow-400"
+                                    : "text-muted-foreground"
+                                }`}
+                              />
+                            ))}
+                          </div>
+                          <span className="text-sm text-muted-foreground">
+                            by {review.user_name}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground font-normal">
+                          {new Date(review.created_at).toLocaleDateString()} at{" "}
+                          {new Date(review.created_at).toLocaleTimeString()}
+                        </div>
+                      </div>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="destructive" size="sm">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Review?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This action cannot be undone. This will permanently delete the review.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDeleteReview(review)}
+                              className="bg-destructive text-destructive-foreground"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </CardTitle>
+                  </CardHeader>
+                  {(review.comment || review.photos.length > 0) && (
+                    <CardContent className="space-y-3">
+                      {review.comment && <p className="text-sm text-muted-foreground">{review.comment}</p>}
+                      <ReviewPhotoGrid photos={review.photos} showStatus />
+                    </CardContent>
+                  )}
+                </Card>
+              ))
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <p className="text-muted-foreground">No reviews yet</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="photos" className="mt-4">
+          {pendingPhotos.length > 0 ? (
+            <div className="grid gap-4 md:grid-cols-2">
+              {pendingPhotos.map(({ photo, review }) => (
+                <Card key={photo.id}>
+                  <CardContent className="p-4 space-y-3">
+                    <img src={photo.url} alt={`Photo for ${review.entity_name}`} className="w-full h-56 object-cover rounded" />
+                    <div>
+                      <div className="font-semibold">{review.entity_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        by {review.user_name} · {new Date(photo.created_at).toLocaleString()}
                       </div>
-                      <span className="text-sm text-muted-foreground">
-                        by {review.user_name}
-                      </span>
-                    </div>
-                    <div className="text-xs text-muted-foreground font-normal">
-                      {new Date(review.created_at).toLocaleDateString()} at{" "}
-                      {new Date(review.created_at).toLocaleTimeString()}
                     </div>
-                  </div>
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="destructive" size="sm">
-                        <Trash2 className="w-4 h-4" />
+                    <Input
+                      placeholder="Reason for rejection (optional)"
+                      value={rejectionReasons[photo.id] || ""}
+                      onChange={(e) => setRejectionReasons({ ...rejectionReasons, [photo.id]: e.target.value })}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        disabled={moderatingId === photo.id}
+                        onClick={() => handleModeratePhoto(photo, "approved")}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Approve
                       </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Delete Review?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This action cannot be undone. This will permanently delete the review.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => handleDeleteReview(review.id)}
-                          className="bg-destructive text-destructive-foreground"
-                        >
-                          Delete
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </CardTitle>
-              </CardHeader>
-              {review.comment && (
-                <CardContent>
-                  <p className="text-sm text-muted-foreground">{review.comment}</p>
-                </CardContent>
-              )}
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        className="flex-1"
+                        disabled={moderatingId === photo.id}
+                        onClick={() => handleModeratePhoto(photo, "rejected")}
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <p className="text-muted-foreground">No photos waiting for review</p>
+              </CardContent>
             </Card>
-          ))
-        ) : (
-          <Card>
-            <CardContent className="py-12 text-center">
-              <p className="text-muted-foreground">No reviews yet</p>
-            </CardContent>
-          </Card>
-        )}
-      </div>
+          )}
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
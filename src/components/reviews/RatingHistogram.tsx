@@ -0,0 +1,54 @@
+import { Progress } from "@/components/ui/progress";
+import { Star } from "lucide-react";
+import { ReviewStats } from "@/lib/reviews";
+
+interface RatingHistogramProps {
+  stats: ReviewStats | null;
+}
+
+export const RatingHistogram = ({ stats }: RatingHistogramProps) => {
+  if (!stats || stats.review_count === 0) return null;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-6 mb-6">
+      <div className="text-center sm:w-32 shrink-0">
+        <div className="text-4xl font-bold">{Number(stats.average_rating).toFixed(1)}</div>
+        <div className="flex justify-center gap-0.5 my-1">
+          {[1, 2, 3, 4, 5].map((star) => (
+            <Star
+              key={star}
+              className={`w-4 h-4 ${
+                star <= Math.round(Number(stats.average_rating))
+                  ? "fill-yellow-400 text-yellow-400"
+                  : "text-muted-foreground"
+              }`}
+            />
+          ))}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {stats.review_count} {stats.review_count === 1 ? "review" : "reviews"}
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-1">
+        {[5, 4, 3, 2, 1].map((star) => {
+          const count = stats.rating_counts[star - 1] || 0;
+
+          return (
+            <div key={star} className="flex items-center gap-2 text-sm">
+              <span className="w-3 text-right">{star}</span>
+              <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+              <Progress value={(count / stats.review_count) * 100} className="h-2 flex-1" />
+              <span className="w-8 text-right text-xs text-muted-foreground">{count}</span>
+            </div>
+          );
+        })}
+        {stats.score !== null && (
+          <p className="text-xs text-muted-foreground pt-1">
+            Overall score {Number(stats.score).toFixed(1)}, weighted so places with few reviews aren't over-ranked
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,63 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Star } from "lucide-react";
+import { Star, X } from "lucide-react";
+import { validateMediaFile } from "@/lib/media";
+import { MAX_REVIEW_PHOTOS, uploadReviewPhotos } from "@/lib/reviewPhotos";
+import { ReviewEntityType } from "@/lib/reviews";
 
 interface ReviewFormProps {
-  spotId: string;
+  entityType: ReviewEntityType;
+  entityId: string;
   userId: string;
   onReviewSubmitted: () => void;
   hasUserReviewed: boolean;
 }
 
-export const ReviewForm = ({ spotId, userId, onReviewSubmitted, hasUserReviewed }: ReviewFormProps) => {
+export const ReviewForm = ({ entityType, entityId, userId, onReviewSubmitted, hasUserReviewed }: ReviewFormProps) => {
   const [rating, setRating] = useState(0);
   const [hoveredRating, setHoveredRating] = useState(0);
   const [comment, setComment] = useState("");
+  const [photos, setPhotos] = useState<{ file: File; preview: string }[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
 
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const accepted: File[] = [];
+    for (const file of files) {
+      const problem = validateMediaFile(file);
+      if (problem) {
+        toast({ title: "Error", description: problem, variant: "destructive" });
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    const room = MAX_REVIEW_PHOTOS - photos.length;
+    if (accepted.length > room) {
+      toast({
+        title: "Too many photos",
+        description: `You can attach up to ${MAX_REVIEW_PHOTOS} photos`,
+        variant: "destructive",
+      });
+    }
+    setPhotos([
+      ...photos,
+      ...accepted.slice(0, Math.max(room, 0)).map((file) => ({ file, preview: URL.createObjectURL(file) })),
+    ]);
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].preview);
+    setPhotos(photos.filter((_, i) => i !== index));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -33,12 +72,27 @@ export const ReviewForm = ({ spotId, userId, onReviewSubmitted, hasUserReviewed
 
     setIsSubmitting(true);
 
-    const { error } = await supabase.from("reviews").insert({
-      spot_id: spotId,
-      user_id: userId,
-      rating,
-      comment: comment.trim() || null,
-    });
+    const { data, error } = await supabase
+      .from("reviews")
+      .insert({
+        entity_type: entityType,
+        entity_id: entityId,
+        user_id: userId,
+        rating,
+        comment: comment.trim() || null,
+      })
+      .select("id")
+      .single();
+
+    let photoError = null;
+    if (!error && photos.length > 0) {
+      photoError = await uploadReviewPhotos(
+        userId,
+        data.id,
+        photos.map((photo) => photo.file)
+      ).catch((e) => e);
+      if (photoError) console.error("Error uploading review photos:", photoError);
+    }
 
     if (error) {
       toast({
@@ -48,11 +102,18 @@ export const ReviewForm = ({ spotId, userId, onReviewSubmitted, hasUserReviewed
       });
     } else {
       toast({
-        title: "Success",
-        description: "Review submitted successfully",
+        title: photoError ? "Review submitted" : "Success",
+        description: photoError
+          ? "Your review was saved, but the photos could not be uploaded"
+          : photos.length > 0
+          ? "Review submitted. Your photos will appear once a moderator approves them"
+          : "Review submitted successfully",
+        variant: photoError ? "destructive" : "default",
       });
       setRating(0);
       setComment("");
+      photos.forEach((photo) => URL.revokeObjectURL(photo.preview));
+      setPhotos([]);
       onReviewSubmitted();
     }
 
@@ -101,6 +162,41 @@ export const ReviewForm = ({ spotId, userId, onReviewSubmitted, hasUserReviewed
         </p>
       </div>
 
+      <div>
+        <label htmlFor="review-photos" className="text-sm font-medium mb-2 block">
+          Photos (Optional)
+        </label>
+        <Input
+          id="review-photos"
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handlePhotoChange}
+          disabled={photos.length >= MAX_REVIEW_PHOTOS}
+          className="cursor-pointer"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Up to {MAX_REVIEW_PHOTOS} photos, max 5MB each. Photos are shown after moderation.
+        </p>
+        {photos.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {photos.map((photo, index) => (
+              <div key={photo.preview} className="relative">
+                <img src={photo.preview} alt={`Photo ${index + 1}`} className="w-20 h-20 object-cover rounded" />
+                <button
+                  type="button"
+                  onClick={() => removePhoto(index)}
+                  className="absolute -top-2 -right-2 rounded-full bg-destructive p-0.5 text-destructive-foreground"
+                  aria-label="Remove photo"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <Button
   type="submit"
   disabled={isSubmitting || rating === 0 || hasUserReviewed}
@@ -4,15 +4,9 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Star, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-
-interface Review {
-  id: string;
-  rating: number;
-  comment: string | null;
-  created_at: string;
-  user_id: string;
-  user_name: string;
-}
+import { ReviewPhotoGrid } from "@/components/reviews/ReviewPhotoGrid";
+import { fetchReviewPhotoPaths, removeReviewPhotoFiles } from "@/lib/reviewPhotos";
+import { Review } from "@/lib/reviews";
 
 interface ReviewListProps {
   currentUserId: string | null;
@@ -29,8 +23,13 @@ export const ReviewList = ({
 }: ReviewListProps) => {
   const { toast } = useToast();
 
-  const handleDeleteReview = async (reviewId: string) => {
-    const { error } = await supabase.from("reviews").delete().eq("id", reviewId);
+  const handleDeleteReview = async (review: Review) => {
+    // The list hides rejected photos, so look the files up from the rows
+    const photoPaths = await fetchReviewPhotoPaths(review.id).catch((photoError) => {
+      console.error("Error fetching review photos:", photoError);
+      return [] as string[];
+    });
+    const { error } = await supabase.from("reviews").delete().eq("id", review.id);
 
     if (error) {
       toast({
@@ -43,6 +42,7 @@ export const ReviewList = ({
         title: "Success",
         description: "Review deleted successfully",
       });
+      removeReviewPhotoFiles(photoPaths);
       fetchReviews(); // Refresh reviews after deletion
     }
   };
@@ -63,22 +63,8 @@ export const ReviewList = ({
     );
   }
 
-  const averageRating =
-    reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length;
-
   return (
     <div className="space-y-4">
-      {/* Average Rating */}
-      <div className="flex items-center gap-2 mb-4">
-        <div className="flex items-center gap-1">
-          <Star className="w-5 h-5 fill-yellow-400 text-yellow-400" />
-          <span className="font-semibold text-lg">{averageRating.toFixed(1)}</span>
-        </div>
-        <span className="text-sm text-muted-foreground">
-          ({reviews.length} {reviews.length === 1 ? "review" : "reviews"})
-        </span>
-      </div>
-
       {/* Review Cards */}
       {reviews.map((review) => (
         <Card key={review.id}>
@@ -109,7 +95,7 @@ export const ReviewList = ({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => handleDeleteReview(review.id)}
+                  onClick={() => handleDeleteReview(review)}
                   className="text-destructive hover:text-destructive"
                 >
                   Delete
@@ -117,9 +103,10 @@ export const ReviewList = ({
               )}
             </div>
           </CardHeader>
-          {review.comment && (
-            <CardContent>
-              <p className="text-sm">{review.comment}</p>
+          {(review.comment || review.photos.length > 0) && (
+            <CardContent className="space-y-3">
+              {review.comment && <p className="text-sm">{review.comment}</p>}
+              <ReviewPhotoGrid photos={review.photos} showStatus={currentUserId === review.user_id} />
             </CardContent>
           )}
         </Card>
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { REVIEW_PHOTO_STATUS_STYLES, ReviewPhoto, ReviewPhotoStatus } from "@/lib/reviewPhotos";
+
+interface ReviewPhotoGridProps {
+  photos: ReviewPhoto[];
+  // Thumbnail size classes
+  thumbClassName?: string;
+  // Labels anything not yet approved, e.g. for the uploader's own photos
+  showStatus?: boolean;
+}
+
+export const ReviewPhotoGrid = ({ photos, thumbClassName = "w-20 h-20", showStatus = false }: ReviewPhotoGridProps) => {
+  const [selected, setSelected] = useState<ReviewPhoto | null>(null);
+  // Rejected files are deleted, and signing can fail for single files
+  const shown = photos.filter((photo) => photo.url);
+
+  if (shown.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {shown.map((photo, index) => (
+          <button
+            key={photo.id}
+            type="button"
+            onClick={() => setSelected(photo)}
+            className="relative rounded overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+          >
+            <img src={photo.url} alt={`Traveller photo ${index + 1}`} loading="lazy" className={`${thumbClassName} object-cover`} />
+            {showStatus && photo.status !== "approved" && (
+              <Badge
+                variant="outline"
+                className={`absolute bottom-1 left-1 px-1 py-0 text-[10px] capitalize ${
+                  REVIEW_PHOTO_STATUS_STYLES[photo.status as ReviewPhotoStatus]
+                }`}
+              >
+                {photo.status}
+              </Badge>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl p-2">
+          <DialogTitle className="sr-only">Traveller photo</DialogTitle>
+          {selected && <img src={selected.url} alt="Traveller photo" className="w-full max-h-[80vh] object-contain rounded" />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,60 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ReviewForm } from "@/components/reviews/ReviewForm";
+import { ReviewList } from "@/components/reviews/ReviewList";
+import { RatingHistogram } from "@/components/reviews/RatingHistogram";
+import { Review, ReviewEntityType, ReviewStats } from "@/lib/reviews";
+
+interface ReviewsSectionProps {
+  entityType: ReviewEntityType;
+  entityId: string;
+  currentUserId: string | null;
+  // From useReviews, so the page can reuse the loaded reviews
+  reviews: Review[];
+  stats: ReviewStats | null;
+  loading: boolean;
+  hasUserReviewed: boolean;
+  onChange: () => void;
+}
+
+export const ReviewsSection = ({
+  entityType,
+  entityId,
+  currentUserId,
+  reviews,
+  stats,
+  loading,
+  hasUserReviewed,
+  onChange,
+}: ReviewsSectionProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Reviews & Ratings</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <RatingHistogram stats={stats} />
+      <Tabs defaultValue="reviews">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="reviews">All Reviews</TabsTrigger>
+          <TabsTrigger value="write" disabled={!currentUserId}>
+            {currentUserId ? "Write Review" : "Login to Review"}
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="reviews" className="mt-6">
+          <ReviewList currentUserId={currentUserId} reviews={reviews} isLoading={loading} fetchReviews={onChange} />
+        </TabsContent>
+        <TabsContent value="write" className="mt-6">
+          {currentUserId && (
+            <ReviewForm
+              entityType={entityType}
+              entityId={entityId}
+              userId={currentUserId}
+              onReviewSubmitted={onChange}
+              hasUserReviewed={hasUserReviewed}
+            />
+          )}
+        </TabsContent>
+      </Tabs>
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { Advisory, fetchActiveAdvisories } from "@/lib/advisories";
+
+// Active advisories covering a municipality (or all of them when omitted)
+export const useAdvisories = (municipality?: string | null, enabled = true) => {
+  const [advisories, setAdvisories] = useState<Advisory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    setLoading(true);
+    fetchActiveAdvisories(municipality)
+      .then((data) => {
+        if (!cancelled) setAdvisories(data);
+      })
+      .catch((error) => console.error("Error fetching advisories:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [municipality, enabled]);
+
+  return { advisories, loading };
+};
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { BadgeDefinition, fetchBadgeProgress, fetchBadges, fetchEarnedBadges } from "@/lib/badges";
+
+export const useBadges = (userId: string | undefined) => {
+  const [badges, setBadges] = useState<BadgeDefinition[]>([]);
+  const [earned, setEarned] = useState<Map<string, string>>(new Map());
+  const [progress, setProgress] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+
+    setLoading(true);
+    Promise.all([fetchBadges(true), fetchEarnedBadges(userId), fetchBadgeProgress()])
+      .then(([badgeRows, earnedById, progressById]) => {
+        if (cancelled) return;
+        // Retired badges stay on the shelf of whoever already earned them
+        setBadges(badgeRows.filter((badge) => badge.is_active || earnedById.has(badge.id)));
+        setEarned(earnedById);
+        setProgress(progressById);
+      })
+      .catch((error) => console.error("Error fetching badges:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, version]);
+
+  const refresh = useCallback(() => setVersion((prev) => prev + 1), []);
+
+  const earnedBadges = badges
+    .filter((badge) => earned.has(badge.id))
+    .sort((a, b) => earned.get(b.id)!.localeCompare(earned.get(a.id)!));
+
+  return { badges, earned, earnedBadges, progress, loading, refresh };
+};
+
+export type BadgesState = ReturnType<typeof useBadges>;
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from "react";
+import { CheckIn, fetchCheckIns } from "@/lib/passport";
+
+export const useCheckIns = (userId: string | undefined) => {
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!userId) {
+      setCheckIns([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    setLoading(true);
+    fetchCheckIns(userId)
+      .then((data) => {
+        if (!cancelled) setCheckIns(data);
+      })
+      .catch((error) => console.error("Error fetching check-ins:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, version]);
+
+  const refresh = useCallback(() => setVersion((prev) => prev + 1), []);
+
+  const checkInsAt = (spotId: string) => checkIns.filter((checkIn) => checkIn.spot_id === spotId);
+
+  return { checkIns, loading, refresh, checkInsAt };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { CostRate, DEFAULT_COST_RATES, fetchCostRates } from "@/lib/budget";
+
+// Budget estimator rates, starting from the built-in defaults until the
+// admin-maintained table loads
+export const useCostRates = (enabled = true) => {
+  const [rates, setRates] = useState<CostRate[]>(DEFAULT_COST_RATES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    setLoading(true);
+    fetchCostRates()
+      .then((data) => {
+        if (!cancelled && data.length > 0) setRates(data);
+      })
+      .catch((error) => console.error("Error fetching cost rates:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return { rates, loading };
+};
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { LatLng } from "@/lib/geo";
+import {
+  ExploreSpot,
+  ExploreState,
+  FacetCounts,
+  emptyFacetCounts,
+  fetchExploreFacets,
+  fetchExplorePage,
+} from "@/lib/explore";
+
+// Pages of spots for the current Explore state plus facet counts. Changing
+// the state starts over from the first page; responses for an older state
+// are dropped. Idle while `enabled` is false.
+export const useExploreSpots = (state: ExploreState, origin: LatLng | null, enabled = true) => {
+  const [spots, setSpots] = useState<ExploreSpot[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<FacetCounts>(emptyFacetCounts);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const stateKey = JSON.stringify([state, origin]);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const request = ++requestRef.current;
+
+    setLoading(true);
+    Promise.all([fetchExplorePage(state, origin, 0), fetchExploreFacets(state, origin)])
+      .then(([page, counts]) => {
+        if (request !== requestRef.current) return;
+        setSpots(page.spots);
+        setTotal(page.total);
+        setFacets(counts);
+      })
+      .catch((error) => console.error("Error fetching spots:", error))
+      .finally(() => {
+        if (request === requestRef.current) setLoading(false);
+      });
+  }, [stateKey, enabled]);
+
+  const hasMore = spots.length < total;
+
+  const loadMore = useCallback(() => {
+    if (loading || loadingMore || !hasMore) return;
+
+    const request = requestRef.current;
+
+    setLoadingMore(true);
+    fetchExplorePage(state, origin, spots.length)
+      .then((page) => {
+        if (request !== requestRef.current) return;
+        setSpots((current) => [...current, ...page.spots]);
+        setTotal(page.total);
+      })
+      .catch((error) => console.error("Error fetching more spots:", error))
+      .finally(() => setLoadingMore(false));
+  }, [stateKey, loading, loadingMore, hasMore, spots.length]);
+
+  return { spots, total, facets, loading, loadingMore, hasMore, loadMore };
+};
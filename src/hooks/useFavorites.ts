@@ -1,141 +1,189 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-
-interface FavoritesData {
-  favorite_spots: string[];
-  visited_spots: string[];
-}
-
+import {
+  Favorite,
+  FavoriteCollection,
+  FavoriteItemType,
+  fetchFavoriteCollections,
+  fetchFavorites,
+  fetchVisitedSpotIds,
+} from "@/lib/favorites";
+
+// Each change writes its own row, so concurrent saves from two tabs can't
+// overwrite each other the way the old user_preferences arrays could.
 export const useFavorites = (userId: string | undefined) => {
-  const [favorites, setFavorites] = useState<string[]>([]);
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [collections, setCollections] = useState<FavoriteCollection[]>([]);
   const [visited, setVisited] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (userId) {
-      fetchFavorites();
+    if (!userId) {
+      setFavorites([]);
+      setCollections([]);
+      setVisited([]);
+      setLoading(false);
+      return;
     }
-  }, [userId]);
-
-  const fetchFavorites = async () => {
-    if (!userId) return;
-
-    try {
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("user_preferences")
-        .eq("id", userId)
-        .single();
 
-      if (error) throw error;
+    let cancelled = false;
+
+    setLoading(true);
+    Promise.all([fetchFavorites(userId), fetchFavoriteCollections(userId), fetchVisitedSpotIds(userId)])
+      .then(([favoriteRows, collectionRows, visitedIds]) => {
+        if (cancelled) return;
+        setFavorites(favoriteRows);
+        setCollections(collectionRows);
+        setVisited(visitedIds);
+      })
+      .catch((error) => console.error("Error fetching favorites:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
 
-      if (data?.user_preferences) {
-        const prefs = data.user_preferences as any;
-        setFavorites(prefs.favorite_spots || []);
-        setVisited(prefs.visited_spots || []);
-      }
-    } catch (error) {
-      console.error("Error fetching favorites:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const getFavorite = (itemId: string, itemType: FavoriteItemType = "spot") =>
+    favorites.find((favorite) => favorite.item_id === itemId && favorite.item_type === itemType);
 
-  const toggleFavorite = async (spotId: string) => {
+  const toggleFavorite = async (itemId: string, itemType: FavoriteItemType = "spot") => {
     if (!userId) {
       toast.error("Please log in to save favorites");
       return;
     }
 
-    const isFavorite = favorites.includes(spotId);
-    const newFavorites = isFavorite
-      ? favorites.filter(id => id !== spotId)
-      : [...favorites, spotId];
+    const existing = getFavorite(itemId, itemType);
 
-    setFavorites(newFavorites);
+    if (existing) {
+      setFavorites((prev) => prev.filter((favorite) => favorite.id !== existing.id));
+      const { error } = await supabase.from("favorites").delete().eq("id", existing.id);
 
-    try {
-      // Get current preferences
-      const { data: currentData } = await supabase
-        .from("profiles")
-        .select("user_preferences")
-        .eq("id", userId)
+      if (error) {
+        console.error("Error removing favorite:", error);
+        toast.error("Failed to update favorites");
+        setFavorites((prev) => [existing, ...prev]);
+        return;
+      }
+      toast.success("Removed from favorites");
+    } else {
+      const { data, error } = await supabase
+        .from("favorites")
+        .insert({ user_id: userId, item_id: itemId, item_type: itemType })
+        .select()
         .single();
 
-      const currentPrefs = (currentData?.user_preferences as Record<string, any>) || {};
-
-      // Update with new favorites
-      const { error } = await supabase
-        .from("profiles")
-        .update({
-          user_preferences: {
-            ...(currentPrefs as object),
-            favorite_spots: newFavorites,
-            visited_spots: visited
-          }
-        })
-        .eq("id", userId);
-
-      if (error) throw error;
-
-      toast.success(isFavorite ? "Removed from favorites" : "Added to favorites");
-    } catch (error) {
-      console.error("Error updating favorites:", error);
-      toast.error("Failed to update favorites");
-      // Revert on error
-      setFavorites(favorites);
+      if (error) {
+        console.error("Error adding favorite:", error);
+        toast.error("Failed to update favorites");
+        return;
+      }
+      setFavorites((prev) => [{ ...data, collection_ids: [] }, ...prev]);
+      toast.success("Added to favorites");
     }
   };
 
-  const markAsVisited = async (spotId: string) => {
-    if (!userId) {
-      toast.error("Please log in to track visited spots");
+  const updateNote = async (favoriteId: string, note: string) => {
+    const { error } = await supabase
+      .from("favorites")
+      .update({ note: note.trim() || null })
+      .eq("id", favoriteId);
+
+    if (error) {
+      console.error("Error saving note:", error);
+      toast.error("Failed to save note");
       return;
     }
+    setFavorites((prev) =>
+      prev.map((favorite) => (favorite.id === favoriteId ? { ...favorite, note: note.trim() || null } : favorite))
+    );
+    toast.success("Note saved");
+  };
 
-    if (visited.includes(spotId)) return;
+  const createCollection = async (name: string) => {
+    if (!userId || !name.trim()) return null;
 
-    const newVisited = [...visited, spotId];
-    setVisited(newVisited);
+    const { data, error } = await supabase
+      .from("favorite_collections")
+      .insert({ user_id: userId, name: name.trim() })
+      .select()
+      .single();
 
-    try {
-      const { data: currentData } = await supabase
-        .from("profiles")
-        .select("user_preferences")
-        .eq("id", userId)
-        .single();
+    if (error) {
+      console.error("Error creating collection:", error);
+      toast.error(error.code === "23505" ? "You already have a collection with that name" : "Failed to create collection");
+      return null;
+    }
+    setCollections((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data;
+  };
 
-      const currentPrefs = (currentData?.user_preferences as Record<string, any>) || {};
-
-      const { error } = await supabase
-        .from("profiles")
-        .update({
-          user_preferences: {
-            ...(currentPrefs as object),
-            favorite_spots: favorites,
-            visited_spots: newVisited
-          }
-        })
-        .eq("id", userId);
-
-      if (error) throw error;
-
-      toast.success("Marked as visited");
-    } catch (error) {
-      console.error("Error marking as visited:", error);
-      toast.error("Failed to update visited status");
-      setVisited(visited);
+  const deleteCollection = async (collectionId: string) => {
+    const { error } = await supabase.from("favorite_collections").delete().eq("id", collectionId);
+
+    if (error) {
+      console.error("Error deleting collection:", error);
+      toast.error("Failed to delete collection");
+      return;
     }
+    setCollections((prev) => prev.filter((collection) => collection.id !== collectionId));
+    setFavorites((prev) =>
+      prev.map((favorite) => ({
+        ...favorite,
+        collection_ids: favorite.collection_ids.filter((id) => id !== collectionId),
+      }))
+    );
+  };
+
+  const toggleInCollection = async (favoriteId: string, collectionId: string) => {
+    const favorite = favorites.find((item) => item.id === favoriteId);
+    if (!favorite) return;
+
+    const inCollection = favorite.collection_ids.includes(collectionId);
+    const { error } = inCollection
+      ? await supabase
+          .from("favorite_collection_items")
+          .delete()
+          .eq("collection_id", collectionId)
+          .eq("favorite_id", favoriteId)
+      : await supabase.from("favorite_collection_items").insert({ collection_id: collectionId, favorite_id: favoriteId });
+
+    if (error) {
+      console.error("Error updating collection:", error);
+      toast.error("Failed to update collection");
+      return;
+    }
+    setFavorites((prev) =>
+      prev.map((item) =>
+        item.id === favoriteId
+          ? {
+              ...item,
+              collection_ids: inCollection
+                ? item.collection_ids.filter((id) => id !== collectionId)
+                : [...item.collection_ids, collectionId],
+            }
+          : item
+      )
+    );
   };
 
   return {
     favorites,
+    collections,
     visited,
     loading,
     toggleFavorite,
-    markAsVisited,
-    isFavorite: (spotId: string) => favorites.includes(spotId),
+    updateNote,
+    createCollection,
+    deleteCollection,
+    toggleInCollection,
+    getFavorite,
+    isFavorite: (itemId: string, itemType: FavoriteItemType = "spot") => !!getFavorite(itemId, itemType),
     isVisited: (spotId: string) => visited.includes(spotId)
   };
 };
+
+export type FavoritesState = ReturnType<typeof useFavorites>;
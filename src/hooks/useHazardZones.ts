@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { HazardZone, fetchHazardZones } from "@/lib/hazards";
+
+// Active hazard zones, loaded once per mount while `enabled`
+export const useHazardZones = (enabled = true) => {
+  const [zones, setZones] = useState<HazardZone[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    setLoading(true);
+    fetchHazardZones()
+      .then((data) => {
+        if (!cancelled) setZones(data);
+      })
+      .catch((error) => console.error("Error fetching hazard zones:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return { zones, loading };
+};
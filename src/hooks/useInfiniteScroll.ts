@@ -0,0 +1,25 @@
+import { useEffect, useRef } from "react";
+
+// Calls onReachEnd whenever the returned ref's element scrolls into view
+export const useInfiniteScroll = <T extends HTMLElement>(onReachEnd: () => void, enabled = true) => {
+  const ref = useRef<T>(null);
+  const callbackRef = useRef(onReachEnd);
+  callbackRef.current = onReachEnd;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !enabled) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) callbackRef.current();
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return ref;
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { LatLng } from "@/lib/geo";
+import { NearbyPlace, PlaceKind, fetchNearbyPlaces } from "@/lib/nearby";
+
+// Places within `radiusKm` of `point`, nearest first; idle while point is null
+export const useNearbyPlaces = (point: LatLng | null, radiusKm: number, kinds?: PlaceKind[]) => {
+  const [places, setPlaces] = useState<NearbyPlace[]>([]);
+  const [loading, setLoading] = useState(false);
+  const pointKey = point?.join(",") ?? "";
+  const kindKey = kinds?.join(",") ?? "";
+
+  useEffect(() => {
+    if (!point) {
+      setPlaces([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    setLoading(true);
+    fetchNearbyPlaces({ point, radiusKm, kinds })
+      .then((data) => {
+        if (!cancelled) setPlaces(data);
+      })
+      .catch((error) => console.error("Error fetching nearby places:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pointKey, radiusKm, kindKey]);
+
+  return { places, loading };
+};
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { PlaceKind } from "@/lib/nearby";
+import { MIN_QUERY_LENGTH, SearchResult, searchPlaces } from "@/lib/search";
+
+const DEBOUNCE_MS = 250;
+
+// Debounced; results for a stale query are dropped
+export const usePlaceSearch = (query: string, kinds?: PlaceKind[]) => {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const text = query.trim();
+  const kindKey = kinds?.join(",") ?? "";
+
+  useEffect(() => {
+    if (text.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    setLoading(true);
+    const timer = setTimeout(() => {
+      searchPlaces(text, kinds)
+        .then((data) => {
+          if (!cancelled) setResults(data);
+        })
+        .catch((error) => console.error("Error searching places:", error))
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, kindKey]);
+
+  return { results, loading };
+};
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import { Review, ReviewEntityType, ReviewStats, fetchReviewStats, fetchReviews } from "@/lib/reviews";
+
+export const useReviews = (entityType: ReviewEntityType, entityId: string | undefined, currentUserId: string | null) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!entityId) return;
+
+    let cancelled = false;
+
+    setLoading(true);
+    Promise.all([fetchReviews(entityType, entityId, currentUserId), fetchReviewStats(entityType, [entityId])])
+      .then(([data, statsById]) => {
+        if (cancelled) return;
+        setReviews(data);
+        setStats(statsById.get(entityId) || null);
+      })
+      .catch((error) => console.error("Error fetching reviews:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, entityId, currentUserId, version]);
+
+  const refresh = useCallback(() => setVersion((prev) => prev + 1), []);
+
+  const hasUserReviewed = !!currentUserId && reviews.some((review) => review.user_id === currentUserId);
+
+  return { reviews, stats, loading, refresh, hasUserReviewed };
+};
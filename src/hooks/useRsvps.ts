@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  EventRsvp,
+  RsvpStatus,
+  fetchRsvps,
+  removeRsvp,
+  setRsvpStatus,
+  updateRsvpReminders,
+} from "@/lib/rsvps";
+
+export const useRsvps = (userId: string | undefined) => {
+  const [rsvps, setRsvps] = useState<EventRsvp[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setRsvps([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    setLoading(true);
+    fetchRsvps(userId)
+      .then((rows) => {
+        if (!cancelled) setRsvps(rows);
+      })
+      .catch((error) => console.error("Error fetching RSVPs:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const getRsvp = (eventId: string) => rsvps.find((rsvp) => rsvp.event_id === eventId);
+
+  // Picking the current status again withdraws the RSVP
+  const toggleStatus = async (eventId: string, status: RsvpStatus) => {
+    if (!userId) {
+      toast.error("Please log in to RSVP");
+      return;
+    }
+
+    const existing = getRsvp(eventId);
+
+    try {
+      if (existing?.status === status) {
+        await removeRsvp(userId, eventId);
+        setRsvps((prev) => prev.filter((rsvp) => rsvp.event_id !== eventId));
+        toast.success("RSVP removed");
+      } else {
+        const saved = await setRsvpStatus(userId, eventId, status);
+        setRsvps((prev) => [...prev.filter((rsvp) => rsvp.event_id !== eventId), saved]);
+        toast.success(status === "going" ? "See you there!" : "Marked as interested");
+      }
+    } catch (error) {
+      console.error("Error updating RSVP:", error);
+      toast.error("Failed to update RSVP");
+    }
+  };
+
+  const updateReminders = async (eventId: string, changes: Partial<Pick<EventRsvp, "reminders" | "email_reminders">>) => {
+    if (!userId) return;
+
+    const previous = rsvps;
+    setRsvps((prev) => prev.map((rsvp) => (rsvp.event_id === eventId ? { ...rsvp, ...changes } : rsvp)));
+
+    try {
+      await updateRsvpReminders(userId, eventId, changes);
+    } catch (error) {
+      console.error("Error updating reminders:", error);
+      toast.error("Failed to update reminders");
+      setRsvps(previous);
+    }
+  };
+
+  return { rsvps, loading, getRsvp, toggleStatus, updateReminders };
+};
+
+export type RsvpsState = ReturnType<typeof useRsvps>;
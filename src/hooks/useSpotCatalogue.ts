@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { CatalogueSpot } from "@/lib/hazards";
+
+// Tourist spots with coordinates, shared by every itinerary on the page
+export const useSpotCatalogue = (enabled: boolean) => {
+  const [catalogue, setCatalogue] = useState<CatalogueSpot[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    supabase
+      .from("tourist_spots")
+      .select("id, name, category, location, municipality, description, image_url, latitude, longitude")
+      .not("latitude", "is", null)
+      .not("longitude", "is", null)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching spots:", error);
+          return;
+        }
+        setCatalogue((data || []) as CatalogueSpot[]);
+      });
+  }, [enabled]);
+
+  return catalogue;
+};
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { LatLng } from "@/lib/geo";
+
+interface WatchPositionState {
+  position: LatLng | null;
+  accuracy: number | null;
+  error: GeolocationPositionError | null;
+}
+
+// Follows the device location while `enabled` is true
+export const useWatchPosition = (enabled: boolean) => {
+  const [state, setState] = useState<WatchPositionState>({
+    position: null,
+    accuracy: null,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!enabled || !("geolocation" in navigator)) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) =>
+        setState({
+          position: [position.coords.latitude, position.coords.longitude],
+          accuracy: position.coords.accuracy,
+          error: null,
+        }),
+      // A stationary device may go a while without a new fix; that is not a
+      // failure, so only denied or unavailable positions are reported
+      (error) => {
+        if (error.code !== error.TIMEOUT) setState((current) => ({ ...current, error }));
+      },
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled]);
+
+  return state;
+};
@@ -22,7 +22,9 @@ export type Database = {
           contact_number: string | null
           created_at: string
           description: string | null
+          editorial_rating: number | null
           email: string | null
+          geog: unknown | null
           id: string
           image_url: string | null
           latitude: number | null
@@ -30,8 +32,10 @@ export type Database = {
           longitude: number | null
           municipality: string | null
           name: string
+          opening_hours: Json | null
           price_range: string | null
           rating: number | null
+          search_vector: unknown | null
           subcategories: string[] | null
           subcategory_id: string | null
           updated_at: string
@@ -43,7 +47,9 @@ export type Database = {
           contact_number?: string | null
           created_at?: string
           description?: string | null
+          editorial_rating?: number | null
           email?: string | null
+          geog?: never
           id?: string
           image_url?: string | null
           latitude?: number | null
@@ -51,8 +57,10 @@ export type Database = {
           longitude?: number | null
           municipality?: string | null
           name: string
+          opening_hours?: Json | null
           price_range?: string | null
           rating?: number | null
+          search_vector?: never
           subcategories?: string[] | null
           subcategory_id?: string | null
           updated_at?: string
@@ -64,7 +72,9 @@ export type Database = {
           contact_number?: string | null
           created_at?: string
           description?: string | null
+          editorial_rating?: number | null
           email?: string | null
+          geog?: never
           id?: string
           image_url?: string | null
           latitude?: number | null
@@ -72,8 +82,10 @@ export type Database = {
           longitude?: number | null
           municipality?: string | null
           name?: string
+          opening_hours?: Json | null
           price_range?: string | null
           rating?: number | null
+          search_vector?: never
           subcategories?: string[] | null
           subcategory_id?: string | null
           updated_at?: string
@@ -95,6 +107,111 @@ export type Database = {
           },
         ]
       }
+      advisories: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          hazard_type: string
+          id: string
+          message: string
+          municipalities: string[]
+          severity: string
+          source: string | null
+          starts_at: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          hazard_type: string
+          id?: string
+          message: string
+          municipalities?: string[]
+          severity?: string
+          source?: string | null
+          starts_at?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          hazard_type?: string
+          id?: string
+          message?: string
+          municipalities?: string[]
+          severity?: string
+          source?: string | null
+          starts_at?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      badges: {
+        Row: {
+          created_at: string
+          description: string | null
+          icon: string
+          id: string
+          is_active: boolean
+          name: string
+          points: number
+          rule_params: Json
+          rule_type: string
+          threshold: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          icon?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          points?: number
+          rule_params?: Json
+          rule_type: string
+          threshold?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          icon?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          points?: number
+          rule_params?: Json
+          rule_type?: string
+          threshold?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           created_at: string | null
@@ -116,42 +233,273 @@ export type Database = {
         }
         Relationships: []
       }
+      check_ins: {
+        Row: {
+          checked_in_at: string
+          created_at: string
+          distance_m: number
+          id: string
+          latitude: number
+          longitude: number
+          photo_storage_path: string | null
+          spot_id: string
+          user_id: string
+        }
+        Insert: {
+          checked_in_at?: string
+          created_at?: string
+          distance_m: number
+          id?: string
+          latitude: number
+          longitude: number
+          photo_storage_path?: string | null
+          spot_id: string
+          user_id: string
+        }
+        Update: {
+          checked_in_at?: string
+          created_at?: string
+          distance_m?: number
+          id?: string
+          latitude?: number
+          longitude?: number
+          photo_storage_path?: string | null
+          spot_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_ins_spot_id_fkey"
+            columns: ["spot_id"]
+            isOneToOne: false
+            referencedRelation: "tourist_spots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cost_rates: {
+        Row: {
+          amount: number
+          base_amount: number
+          category: string
+          created_at: string
+          description: string | null
+          id: string
+          tier: string
+          updated_at: string
+        }
+        Insert: {
+          amount?: number
+          base_amount?: number
+          category: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          tier: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          base_amount?: number
+          category?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          tier?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      event_reminder_log: {
+        Row: {
+          event_id: string
+          occurrence_start: string
+          reminder: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          event_id: string
+          occurrence_start: string
+          reminder: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          event_id?: string
+          occurrence_start?: string
+          reminder?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_reminder_log_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_rsvps: {
+        Row: {
+          created_at: string
+          email_reminders: boolean
+          event_id: string
+          reminders: string[]
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email_reminders?: boolean
+          event_id: string
+          reminders?: string[]
+          status: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email_reminders?: boolean
+          event_id?: string
+          reminders?: string[]
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_rsvps_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
+          all_day: boolean
           created_at: string
           description: string | null
           district: string | null
-          event_date: string | null
-          event_type: string | null
+          ends_at: string | null
+          event_types: string[]
+          geog: unknown | null
           id: string
           image_url: string | null
+          latitude: number | null
           location: string
+          longitude: number | null
           municipality: string | null
           name: string
+          recurrence: string
+          recurrence_until: string | null
+          search_vector: unknown | null
+          starts_at: string | null
         }
         Insert: {
+          all_day?: boolean
           created_at?: string
           description?: string | null
           district?: string | null
-          event_date?: string | null
-          event_type?: string | null
+          ends_at?: string | null
+          event_types?: string[]
+          geog?: never
           id?: string
           image_url?: string | null
+          latitude?: number | null
           location: string
+          longitude?: number | null
           municipality?: string | null
           name: string
+          recurrence?: string
+          recurrence_until?: string | null
+          search_vector?: never
+          starts_at?: string | null
         }
         Update: {
+          all_day?: boolean
           created_at?: string
           description?: string | null
           district?: string | null
-          event_date?: string | null
-          event_type?: string | null
+          ends_at?: string | null
+          event_types?: string[]
+          geog?: never
           id?: string
           image_url?: string | null
+          latitude?: number | null
           location?: string
+          longitude?: number | null
           municipality?: string | null
           name?: string
+          recurrence?: string
+          recurrence_until?: string | null
+          search_vector?: never
+          starts_at?: string | null
+        }
+        Relationships: []
+      }
+      favorite_collection_items: {
+        Row: {
+          collection_id: string
+          created_at: string
+          favorite_id: string
+        }
+        Insert: {
+          collection_id: string
+          created_at?: string
+          favorite_id: string
+        }
+        Update: {
+          collection_id?: string
+          created_at?: string
+          favorite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "favorite_collection_items_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "favorite_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "favorite_collection_items_favorite_id_fkey"
+            columns: ["favorite_id"]
+            isOneToOne: false
+            referencedRelation: "favorites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      favorite_collections: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -161,6 +509,8 @@ export type Database = {
           id: string
           item_id: string
           item_type: string
+          note: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
@@ -168,6 +518,8 @@ export type Database = {
           id?: string
           item_id: string
           item_type: string
+          note?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
@@ -175,43 +527,237 @@ export type Database = {
           id?: string
           item_id?: string
           item_type?: string
+          note?: string | null
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      hazard_zones: {
+        Row: {
+          center_lat: number | null
+          center_lng: number | null
+          created_at: string
+          description: string | null
+          hazard_type: string
+          id: string
+          is_active: boolean
+          name: string
+          polygon: Json | null
+          radius_km: number | null
+          shape: string
+          updated_at: string
+        }
+        Insert: {
+          center_lat?: number | null
+          center_lng?: number | null
+          created_at?: string
+          description?: string | null
+          hazard_type: string
+          id?: string
+          is_active?: boolean
+          name: string
+          polygon?: Json | null
+          radius_km?: number | null
+          shape?: string
+          updated_at?: string
+        }
+        Update: {
+          center_lat?: number | null
+          center_lng?: number | null
+          created_at?: string
+          description?: string | null
+          hazard_type?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          polygon?: Json | null
+          radius_km?: number | null
+          shape?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       itineraries: {
         Row: {
+          budget_limit: number | null
           created_at: string
+          days: Json | null
           id: string
           name: string
+          published_at: string | null
           route: Json | null
           selected_categories: string[] | null
+          share_id: string | null
           spots: Json | null
+          travelers: number
           updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
+          budget_limit?: number | null
           created_at?: string
+          days?: Json | null
           id?: string
           name?: string
+          published_at?: string | null
           route?: Json | null
           selected_categories?: string[] | null
+          share_id?: string | null
           spots?: Json | null
+          travelers?: number
           updated_at?: string
           user_id: string
+          version?: number
         }
         Update: {
+          budget_limit?: number | null
           created_at?: string
+          days?: Json | null
           id?: string
           name?: string
+          published_at?: string | null
           route?: Json | null
           selected_categories?: string[] | null
+          share_id?: string | null
           spots?: Json | null
+          travelers?: number
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      itinerary_activity: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          itinerary_id: string
+          stop_id: string | null
+          stop_name: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          itinerary_id: string
+          stop_id?: string | null
+          stop_name?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          itinerary_id?: string
+          stop_id?: string | null
+          stop_name?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      itinerary_invites: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          itinerary_id: string
+          role: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          itinerary_id: string
+          role?: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          itinerary_id?: string
+          role?: string
+          token?: string
+        }
+        Relationships: []
+      }
+      itinerary_members: {
+        Row: {
+          created_at: string
+          id: string
+          itinerary_id: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          itinerary_id: string
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          itinerary_id?: string
+          role?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      media: {
+        Row: {
+          caption: string | null
+          created_at: string
+          credit: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          is_cover: boolean
+          position: number
+          storage_path: string | null
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string
+          credit?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          is_cover?: boolean
+          position?: number
+          storage_path?: string | null
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string
+          credit?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          is_cover?: boolean
+          position?: number
+          storage_path?: string | null
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           created_at: string | null
@@ -256,6 +802,7 @@ export type Database = {
           full_name: string | null
           id: string
           last_name: string | null
+          leaderboard_opt_in: boolean
           middle_initial: string | null
           onboarding_answers: Json | null
           onboarding_complete: boolean | null
@@ -271,6 +818,7 @@ export type Database = {
           full_name?: string | null
           id: string
           last_name?: string | null
+          leaderboard_opt_in?: boolean
           middle_initial?: string | null
           onboarding_answers?: Json | null
           onboarding_complete?: boolean | null
@@ -286,6 +834,7 @@ export type Database = {
           full_name?: string | null
           id?: string
           last_name?: string | null
+          leaderboard_opt_in?: boolean
           middle_initial?: string | null
           onboarding_answers?: Json | null
           onboarding_complete?: boolean | null
@@ -297,34 +846,147 @@ export type Database = {
       }
       restaurants: {
         Row: {
+          contact_number: string | null
           created_at: string
+          cuisine_tags: string[]
           description: string | null
+          email: string | null
           food_type: string | null
+          geog: unknown | null
           id: string
           image_url: string | null
+          latitude: number | null
           location: string
+          longitude: number | null
           municipality: string | null
           name: string
+          opening_hours: Json | null
+          price_level: string | null
+          search_vector: unknown | null
+          updated_at: string
+          website: string | null
         }
         Insert: {
+          contact_number?: string | null
           created_at?: string
+          cuisine_tags?: string[]
           description?: string | null
+          email?: string | null
           food_type?: string | null
+          geog?: never
           id?: string
           image_url?: string | null
+          latitude?: number | null
           location: string
+          longitude?: number | null
           municipality?: string | null
           name: string
+          opening_hours?: Json | null
+          price_level?: string | null
+          search_vector?: never
+          updated_at?: string
+          website?: string | null
         }
         Update: {
+          contact_number?: string | null
           created_at?: string
+          cuisine_tags?: string[]
           description?: string | null
+          email?: string | null
           food_type?: string | null
+          geog?: never
           id?: string
           image_url?: string | null
+          latitude?: number | null
           location?: string
+          longitude?: number | null
           municipality?: string | null
           name?: string
+          opening_hours?: Json | null
+          price_level?: string | null
+          search_vector?: never
+          updated_at?: string
+          website?: string | null
+        }
+        Relationships: []
+      }
+      review_photos: {
+        Row: {
+          created_at: string
+          id: string
+          moderated_at: string | null
+          moderated_by: string | null
+          position: number
+          rejection_reason: string | null
+          review_id: string
+          status: string
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          position?: number
+          rejection_reason?: string | null
+          review_id: string
+          status?: string
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          moderated_at?: string | null
+          moderated_by?: string | null
+          position?: number
+          rejection_reason?: string | null
+          review_id?: string
+          status?: string
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_photos_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_stats: {
+        Row: {
+          average_rating: number | null
+          editorial_rating: number | null
+          entity_id: string
+          entity_type: string
+          rating_counts: number[]
+          review_count: number
+          score: number | null
+          updated_at: string
+        }
+        Insert: {
+          average_rating?: number | null
+          editorial_rating?: number | null
+          entity_id: string
+          entity_type: string
+          rating_counts?: number[]
+          review_count?: number
+          score?: number | null
+          updated_at?: string
+        }
+        Update: {
+          average_rating?: number | null
+          editorial_rating?: number | null
+          entity_id?: string
+          entity_type?: string
+          rating_counts?: number[]
+          review_count?: number
+          score?: number | null
+          updated_at?: string
         }
         Relationships: []
       }
@@ -332,36 +994,55 @@ export type Database = {
         Row: {
           comment: string | null
           created_at: string
+          entity_id: string
+          entity_type: string
           id: string
           rating: number
-          spot_id: string
           user_id: string
         }
         Insert: {
           comment?: string | null
           created_at?: string
+          entity_id: string
+          entity_type: string
           id?: string
           rating: number
-          spot_id: string
           user_id: string
         }
         Update: {
           comment?: string | null
           created_at?: string
+          entity_id?: string
+          entity_type?: string
           id?: string
           rating?: number
-          spot_id?: string
           user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "reviews_spot_id_fkey"
-            columns: ["spot_id"]
-            isOneToOne: false
-            referencedRelation: "tourist_spots"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
+      }
+      search_synonyms: {
+        Row: {
+          created_at: string
+          id: string
+          note: string | null
+          terms: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          terms: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          terms?: string[]
+          updated_at?: string
+        }
+        Relationships: []
       }
       subcategories: {
         Row: {
@@ -425,9 +1106,12 @@ export type Database = {
           budget_level: string | null
           category: string[] | null
           category_id: string | null
+          check_in_radius_m: number
           contact_number: string | null
           created_at: string
           description: string | null
+          editorial_rating: number | null
+          geog: unknown | null
           id: string
           image_url: string | null
           is_hidden_gem: boolean | null
@@ -436,8 +1120,10 @@ export type Database = {
           longitude: number | null
           municipality: string | null
           name: string
+          opening_hours: Json | null
           rating: number | null
           scenery_type: string[] | null
+          search_vector: unknown | null
           spot_type: string[] | null
           subcategories: string[] | null
           subcategory_id: string | null
@@ -448,9 +1134,12 @@ export type Database = {
           budget_level?: string | null
           category?: string[] | null
           category_id?: string | null
+          check_in_radius_m?: number
           contact_number?: string | null
           created_at?: string
           description?: string | null
+          editorial_rating?: number | null
+          geog?: never
           id?: string
           image_url?: string | null
           is_hidden_gem?: boolean | null
@@ -459,8 +1148,10 @@ export type Database = {
           longitude?: number | null
           municipality?: string | null
           name: string
+          opening_hours?: Json | null
           rating?: number | null
           scenery_type?: string[] | null
+          search_vector?: never
           spot_type?: string[] | null
           subcategories?: string[] | null
           subcategory_id?: string | null
@@ -471,9 +1162,12 @@ export type Database = {
           budget_level?: string | null
           category?: string[] | null
           category_id?: string | null
+          check_in_radius_m?: number
           contact_number?: string | null
           created_at?: string
           description?: string | null
+          editorial_rating?: number | null
+          geog?: never
           id?: string
           image_url?: string | null
           is_hidden_gem?: boolean | null
@@ -482,8 +1176,10 @@ export type Database = {
           longitude?: number | null
           municipality?: string | null
           name?: string
+          opening_hours?: Json | null
           rating?: number | null
           scenery_type?: string[] | null
+          search_vector?: never
           spot_type?: string[] | null
           subcategories?: string[] | null
           subcategory_id?: string | null
@@ -506,6 +1202,32 @@ export type Database = {
           },
         ]
       }
+      user_badges: {
+        Row: {
+          awarded_at: string
+          badge_id: string
+          user_id: string
+        }
+        Insert: {
+          awarded_at?: string
+          badge_id: string
+          user_id: string
+        }
+        Update: {
+          awarded_at?: string
+          badge_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_badges_badge_id_fkey"
+            columns: ["badge_id"]
+            isOneToOne: false
+            referencedRelation: "badges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -527,11 +1249,142 @@ export type Database = {
         }
         Relationships: []
       }
+      visited_spots: {
+        Row: {
+          spot_id: string
+          user_id: string
+          visited_at: string
+        }
+        Insert: {
+          spot_id: string
+          user_id: string
+          visited_at?: string
+        }
+        Update: {
+          spot_id?: string
+          user_id?: string
+          visited_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visited_spots_spot_id_fkey"
+            columns: ["spot_id"]
+            isOneToOne: false
+            referencedRelation: "tourist_spots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_itinerary_invite: {
+        Args: {
+          _token: string
+        }
+        Returns: string
+      }
+      check_in_at_spot: {
+        Args: {
+          _lat: number
+          _lng: number
+          _photo_storage_path?: string
+          _spot_id: string
+        }
+        Returns: Database["public"]["Tables"]["check_ins"]["Row"]
+      }
+      event_occurrences: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          ends_at: string
+          event_id: string
+          starts_at: string
+        }[]
+      }
+      explore_spot_facets: {
+        Args: {
+          _filters?: Json
+        }
+        Returns: {
+          facet: string
+          spot_count: number
+          value: string
+        }[]
+      }
+      explore_spots: {
+        Args: {
+          _filters?: Json
+          _limit?: number
+          _offset?: number
+          _sort?: string
+        }
+        Returns: {
+          category: string[]
+          created_at: string
+          description: string
+          distance_km: number
+          id: string
+          image_url: string
+          is_hidden_gem: boolean
+          location: string
+          municipality: string
+          name: string
+          rating: number
+          subcategories: string[]
+          total_count: number
+        }[]
+      }
+      filter_origin: {
+        Args: {
+          _filters: Json
+        }
+        Returns: unknown
+      }
+      filter_spots: {
+        Args: {
+          _filters: Json
+          _ignore?: string
+        }
+        Returns: Database["public"]["Tables"]["tourist_spots"]["Row"][]
+      }
+      filter_values: {
+        Args: {
+          _filters: Json
+          _ignore?: string
+          _key: string
+        }
+        Returns: string[]
+      }
+      get_itinerary_invite: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          expires_at: string
+          itinerary_id: string
+          itinerary_name: string
+          owner_name: string
+          role: string
+        }[]
+      }
+      get_published_itinerary: {
+        Args: {
+          _share_id: string
+        }
+        Returns: {
+          days: Json
+          name: string
+          owner_name: string
+          published_at: string
+          spots: Json
+          updated_at: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -539,6 +1392,96 @@ export type Database = {
         }
         Returns: boolean
       }
+      itinerary_owner: {
+        Args: {
+          _itinerary_id: string
+        }
+        Returns: string
+      }
+      itinerary_role: {
+        Args: {
+          _itinerary_id: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      monthly_leaderboard: {
+        Args: {
+          _limit?: number
+          _month?: string
+        }
+        Returns: {
+          avatar_url: string
+          badge_count: number
+          full_name: string
+          points: number
+          rank: number
+          spot_count: number
+          user_id: string
+        }[]
+      }
+      my_badge_progress: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          badge_id: string
+          progress: number
+        }[]
+      }
+      nearby_places: {
+        Args: {
+          _kinds?: string[]
+          _lat: number
+          _limit?: number
+          _lng: number
+          _radius_km?: number
+        }
+        Returns: {
+          distance_km: number
+          id: string
+          image_url: string
+          kind: string
+          latitude: number
+          location: string
+          longitude: number
+          municipality: string
+          name: string
+        }[]
+      }
+      save_itinerary_plan: {
+        Args: {
+          _base_version: number
+          _days?: Json
+          _itinerary_id: string
+          _name?: string
+          _spots?: Json
+        }
+        Returns: number
+      }
+      search_places: {
+        Args: {
+          _kinds?: string[]
+          _limit_per_kind?: number
+          _query: string
+        }
+        Returns: {
+          id: string
+          image_url: string
+          kind: string
+          latitude: number
+          longitude: number
+          municipality: string
+          name: string
+          name_highlight: string
+          rank: number
+          snippet: string
+        }[]
+      }
+      search_tsquery: {
+        Args: {
+          _query: string
+        }
+        Returns: unknown
+      }
     }
     Enums: {
       app_role: "user" | "admin"
@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeMunicipality } from "@/lib/albay";
+
+export type HazardType = "volcano" | "typhoon" | "flood";
+export type AdvisorySeverity = "advisory" | "watch" | "warning" | "emergency";
+
+export interface Advisory {
+  id: string;
+  title: string;
+  message: string;
+  hazard_type: HazardType;
+  severity: AdvisorySeverity;
+  source: string | null;
+  municipalities: string[];
+  starts_at: string;
+  expires_at: string | null;
+}
+
+export const HAZARD_TYPES: { value: HazardType; label: string }[] = [
+  { value: "volcano", label: "Volcano" },
+  { value: "typhoon", label: "Typhoon" },
+  { value: "flood", label: "Flood" },
+];
+
+// Lowest to highest
+export const ADVISORY_SEVERITIES: AdvisorySeverity[] = ["advisory", "watch", "warning", "emergency"];
+
+export const SEVERITY_STYLES: Record<AdvisorySeverity, string> = {
+  advisory: "border-blue-500 bg-blue-500/10",
+  watch: "border-yellow-500 bg-yellow-500/10",
+  warning: "border-orange-500 bg-orange-500/10",
+  emergency: "border-destructive bg-destructive/10",
+};
+
+export const isAdvisoryActive = (advisory: Advisory, now = new Date()) =>
+  new Date(advisory.starts_at) <= now && (!advisory.expires_at || new Date(advisory.expires_at) > now);
+
+// Advisories without municipalities cover the whole province
+export const advisoryCovers = (advisory: Advisory, municipality: string | null | undefined) => {
+  if (advisory.municipalities.length === 0) return true;
+  if (!municipality) return false;
+  const key = normalizeMunicipality(municipality);
+  return advisory.municipalities.some((name) => normalizeMunicipality(name) === key);
+};
+
+export const sortBySeverity = (advisories: Advisory[]) =>
+  [...advisories].sort(
+    (a, b) => ADVISORY_SEVERITIES.indexOf(b.severity) - ADVISORY_SEVERITIES.indexOf(a.severity)
+  );
+
+// Active advisories, most severe first. Pass a municipality to keep only
+// the ones covering it, or omit it to get every active advisory.
+export const fetchActiveAdvisories = async (municipality?: string | null) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("advisories")
+    .select("*")
+    .lte("starts_at", now)
+    .or(`expires_at.is.null,expires_at.gt.${now}`);
+
+  if (error) throw error;
+
+  const advisories = (data || []) as Advisory[];
+  return sortBySeverity(
+    municipality === undefined ? advisories : advisories.filter((advisory) => advisoryCovers(advisory, municipality))
+  );
+};
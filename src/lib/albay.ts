@@ -0,0 +1,57 @@
+import { LatLng } from "@/lib/geo";
+
+export type AlbayDistrict = "District 1" | "District 2" | "District 3";
+
+export interface Municipality {
+  name: string;
+  district: AlbayDistrict;
+  // Town proper, used for weather lookups and map centring
+  coords: LatLng;
+}
+
+export const ALBAY_MUNICIPALITIES: Municipality[] = [
+  { name: "Bacacay", district: "District 1", coords: [13.2925, 123.7917] },
+  { name: "Malilipot", district: "District 1", coords: [13.3186, 123.7383] },
+  { name: "Malinao", district: "District 1", coords: [13.4008, 123.7025] },
+  { name: "Santo Domingo", district: "District 1", coords: [13.2356, 123.7767] },
+  { name: "Tabaco City", district: "District 1", coords: [13.3586, 123.7336] },
+  { name: "Tiwi", district: "District 1", coords: [13.4583, 123.6806] },
+  { name: "Camalig", district: "District 2", coords: [13.1817, 123.6553] },
+  { name: "Daraga", district: "District 2", coords: [13.1483, 123.7122] },
+  { name: "Legazpi City", district: "District 2", coords: [13.1391, 123.7438] },
+  { name: "Manito", district: "District 2", coords: [13.1231, 123.8694] },
+  { name: "Rapu-Rapu", district: "District 2", coords: [13.1861, 124.1256] },
+  { name: "Guinobatan", district: "District 3", coords: [13.1906, 123.5989] },
+  { name: "Jovellar", district: "District 3", coords: [13.07, 123.6] },
+  { name: "Libon", district: "District 3", coords: [13.2994, 123.4381] },
+  { name: "Ligao City", district: "District 3", coords: [13.2402, 123.5373] },
+  { name: "Oas", district: "District 3", coords: [13.2586, 123.4981] },
+  { name: "Pio Duran", district: "District 3", coords: [13.0292, 123.4456] },
+  { name: "Polangui", district: "District 3", coords: [13.2922, 123.4856] },
+];
+
+export const DEFAULT_MUNICIPALITY = "Legazpi City";
+
+// Main city of each district, used when only a district preference is known
+export const DISTRICT_HUBS: Record<AlbayDistrict, string> = {
+  "District 1": "Tabaco City",
+  "District 2": "Legazpi City",
+  "District 3": "Ligao City",
+};
+
+// "Tabaco", "City of Tabaco", "Sto. Domingo" and "Pioduran" all refer to one LGU
+export const normalizeMunicipality = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/\bcity of\b|\bcity\b/g, "")
+    .replace(/\bsto\.?\s/g, "santo ")
+    .replace(/[^a-z]/g, "");
+
+export const findMunicipality = (name: string | null | undefined) => {
+  if (!name) return undefined;
+  const key = normalizeMunicipality(name);
+  return ALBAY_MUNICIPALITIES.find((municipality) => normalizeMunicipality(municipality.name) === key);
+};
+
+export const getDistrictMunicipalities = (district: string) =>
+  ALBAY_MUNICIPALITIES.filter((municipality) => municipality.district === district);
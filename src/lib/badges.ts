@@ -0,0 +1,106 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  Award,
+  Camera,
+  Compass,
+  Flame,
+  Gem,
+  LucideIcon,
+  Map as MapIcon,
+  MessageSquare,
+  Mountain,
+  Route,
+  Stamp,
+  Star,
+  Trophy,
+  Waves,
+} from "lucide-react";
+
+export type BadgeRuleType = "check_ins" | "towns" | "hidden_gems" | "spots" | "category" | "reviews" | "itineraries";
+
+export interface BadgeRuleParams {
+  towns?: string[];
+  spot_ids?: string[];
+  category?: string;
+}
+
+export type BadgeDefinition = Omit<Tables<"badges">, "rule_type" | "rule_params"> & {
+  rule_type: BadgeRuleType;
+  rule_params: BadgeRuleParams;
+};
+
+export interface LeaderboardEntry {
+  rank: number;
+  user_id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  points: number;
+  badge_count: number;
+  spot_count: number;
+}
+
+// Keep in sync with badge_progress()
+export const BADGE_RULE_TYPES: { value: BadgeRuleType; label: string; unit: string }[] = [
+  { value: "check_ins", label: "Spots checked into", unit: "spots" },
+  { value: "towns", label: "Towns checked into", unit: "towns" },
+  { value: "hidden_gems", label: "Hidden gems checked into", unit: "hidden gems" },
+  { value: "spots", label: "Specific spots checked into", unit: "spots" },
+  { value: "category", label: "Spots of a category checked into", unit: "spots" },
+  { value: "reviews", label: "Places reviewed", unit: "places" },
+  { value: "itineraries", label: "Itineraries built", unit: "itineraries" },
+];
+
+// Stored by name in badges.icon so admins can pick one without a deploy
+export const BADGE_ICONS: Record<string, LucideIcon> = {
+  award: Award,
+  trophy: Trophy,
+  stamp: Stamp,
+  map: MapIcon,
+  compass: Compass,
+  mountain: Mountain,
+  waves: Waves,
+  gem: Gem,
+  camera: Camera,
+  star: Star,
+  flame: Flame,
+  "message-square": MessageSquare,
+  route: Route,
+};
+
+export const badgeIcon = (name: string) => BADGE_ICONS[name] || Award;
+
+export const fetchBadges = async (includeInactive = false) => {
+  let query = supabase.from("badges").select("*").order("points").order("name");
+  if (!includeInactive) query = query.eq("is_active", true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as BadgeDefinition[];
+};
+
+// badge id -> when it was awarded
+export const fetchEarnedBadges = async (userId: string) => {
+  const { data, error } = await supabase.from("user_badges").select("badge_id, awarded_at").eq("user_id", userId);
+  if (error) throw error;
+  return new Map((data || []).map((row) => [row.badge_id, row.awarded_at]));
+};
+
+// badge id -> the signed-in user's current count towards it
+export const fetchBadgeProgress = async () => {
+  const { data, error } = await supabase.rpc("my_badge_progress");
+  if (error) throw error;
+  return new Map((data || []).map((row) => [row.badge_id, row.progress]));
+};
+
+// month is any date inside the month, "YYYY-MM-DD"
+export const fetchLeaderboard = async (month: string, limit = 20) => {
+  const { data, error } = await supabase.rpc("monthly_leaderboard", { _month: month, _limit: limit });
+  if (error) throw error;
+  return (data || []) as LeaderboardEntry[];
+};
+
+export const setLeaderboardOptIn = async (userId: string, optIn: boolean) => {
+  const { error } = await supabase.from("profiles").update({ leaderboard_opt_in: optIn }).eq("id", userId);
+  if (error) throw error;
+};
@@ -0,0 +1,260 @@
+import { supabase } from "@/integrations/supabase/client";
+import { LatLng, haversineKm } from "@/lib/geo";
+import { ItineraryDay, ItineraryStop, hasCoordinates, stopType } from "@/lib/itinerary";
+import { TravelMode } from "@/lib/routing";
+import { getCachedRows, isNetworkError } from "@/lib/offline";
+
+export type BudgetTier = "budget" | "moderate" | "premium";
+export type CostCategory = "entrance" | "lodging" | "meal" | "transport" | "daily_budget";
+
+export interface CostRate {
+  id?: string;
+  category: CostCategory;
+  // A BudgetTier, or a TravelMode for transport
+  tier: string;
+  amount: number;
+  base_amount: number;
+  description?: string | null;
+}
+
+export const BUDGET_TIERS: { value: BudgetTier; label: string }[] = [
+  { value: "budget", label: "Budget-friendly" },
+  { value: "moderate", label: "Moderate" },
+  { value: "premium", label: "Premium" },
+];
+
+export const COST_CATEGORIES: { value: CostCategory; label: string; unit: string }[] = [
+  { value: "entrance", label: "Entrance fees", unit: "per person per spot" },
+  { value: "lodging", label: "Lodging", unit: "per room per night" },
+  { value: "meal", label: "Meals", unit: "per person per meal" },
+  { value: "transport", label: "Transport", unit: "per person per km, plus a daily base fare" },
+  { value: "daily_budget", label: "Daily budget", unit: "per person per day" },
+];
+
+// Used until the admin-maintained rates load, and when they can't be fetched
+export const DEFAULT_COST_RATES: CostRate[] = [
+  { category: "entrance", tier: "budget", amount: 50, base_amount: 0 },
+  { category: "entrance", tier: "moderate", amount: 150, base_amount: 0 },
+  { category: "entrance", tier: "premium", amount: 500, base_amount: 0 },
+  { category: "lodging", tier: "budget", amount: 1200, base_amount: 0 },
+  { category: "lodging", tier: "moderate", amount: 2800, base_amount: 0 },
+  { category: "lodging", tier: "premium", amount: 6000, base_amount: 0 },
+  { category: "meal", tier: "budget", amount: 150, base_amount: 0 },
+  { category: "meal", tier: "moderate", amount: 350, base_amount: 0 },
+  { category: "meal", tier: "premium", amount: 800, base_amount: 0 },
+  { category: "transport", tier: "driving", amount: 8, base_amount: 50 },
+  { category: "transport", tier: "walking", amount: 0, base_amount: 0 },
+  { category: "transport", tier: "cycling", amount: 0, base_amount: 300 },
+  { category: "daily_budget", tier: "budget", amount: 2000, base_amount: 0 },
+  { category: "daily_budget", tier: "moderate", amount: 4500, base_amount: 0 },
+  { category: "daily_budget", tier: "premium", amount: 10000, base_amount: 0 },
+];
+
+export const MEALS_PER_DAY = 3;
+export const TRAVELERS_PER_ROOM = 2;
+// Roads wind around Mayon and the coast, so straight-line distance undercounts
+export const ROAD_DISTANCE_FACTOR = 1.3;
+
+// Onboarding stores the label shown to the user ("Budget-friendly", ...)
+export const tierFromPreference = (budgetRange: string | null | undefined): BudgetTier => {
+  const match = BUDGET_TIERS.find((tier) => tier.label.toLowerCase() === budgetRange?.toLowerCase());
+  return match ? match.value : "moderate";
+};
+
+const TIER_WORDS: Record<BudgetTier, string[]> = {
+  budget: ["budget", "cheap", "economy"],
+  moderate: ["mid-range", "midrange", "moderate", "standard"],
+  premium: ["luxury", "premium", "upscale"],
+};
+
+// price_range is free text: "₱1,500 - ₱3,000", "₱₱", "Mid-range", ...
+// Numbers win; otherwise peso signs or words pick a tier.
+export const parsePriceRange = (priceRange: string | null | undefined): { amount?: number; tier?: BudgetTier } => {
+  if (!priceRange) return {};
+
+  const amounts = (priceRange.match(/\d[\d,]*(\.\d+)?/g) || [])
+    .map((value) => parseFloat(value.replace(/,/g, "")))
+    .filter((value) => value > 0);
+  if (amounts.length > 0) {
+    return { amount: amounts.reduce((sum, value) => sum + value, 0) / amounts.length };
+  }
+
+  const pesos = (priceRange.match(/₱/g) || []).length;
+  if (pesos > 0) return { tier: pesos === 1 ? "budget" : pesos === 2 ? "moderate" : "premium" };
+
+  const text = priceRange.toLowerCase();
+  const tier = (Object.keys(TIER_WORDS) as BudgetTier[]).find((key) => TIER_WORDS[key].some((word) => text.includes(word)));
+  return tier ? { tier } : {};
+};
+
+export const findRate = (rates: CostRate[], category: CostCategory, tier: string) =>
+  rates.find((rate) => rate.category === category && rate.tier === tier) ||
+  DEFAULT_COST_RATES.find((rate) => rate.category === category && rate.tier === tier) || {
+    category,
+    tier,
+    amount: 0,
+    base_amount: 0,
+  };
+
+// Pricing details that itinerary stops don't carry themselves
+export interface CostDetails {
+  spotLevels: Map<string, BudgetTier | null>;
+  accommodationPrices: Map<string, string | null>;
+  restaurantLevels: Map<string, BudgetTier | null>;
+}
+
+export const emptyCostDetails = (): CostDetails => ({
+  spotLevels: new Map(),
+  accommodationPrices: new Map(),
+  restaurantLevels: new Map(),
+});
+
+export interface BudgetOptions {
+  travelers: number;
+  tier: BudgetTier;
+  mode: TravelMode;
+  // Replaces the limit derived from the daily budget rate
+  limit?: number | null;
+}
+
+export interface DayCost {
+  day: number;
+  entrance: number;
+  lodging: number;
+  meals: number;
+  transport: number;
+  distanceKm: number;
+  total: number;
+}
+
+export interface BudgetEstimate {
+  days: DayCost[];
+  total: number;
+  perPerson: number;
+  limit: number;
+  overBy: number;
+}
+
+const isAccommodation = (stop: ItineraryStop) => stopType(stop) === "accommodation";
+const isRestaurant = (stop: ItineraryStop) => stopType(stop) === "restaurant";
+const isSpot = (stop: ItineraryStop) => stopType(stop) === "spot";
+
+const nightlyRate = (stop: ItineraryStop | undefined, details: CostDetails, rates: CostRate[], tier: BudgetTier) => {
+  const price = stop ? parsePriceRange(details.accommodationPrices.get(stop.id)) : {};
+  return price.amount ?? findRate(rates, "lodging", price.tier || tier).amount;
+};
+
+const dayDistanceKm = (stops: ItineraryStop[]) => {
+  const points = stops.filter(hasCoordinates).map((stop) => [Number(stop.latitude), Number(stop.longitude)] as LatLng);
+  let km = 0;
+  for (let index = 1; index < points.length; index++) {
+    km += haversineKm(points[index - 1], points[index]);
+  }
+  return km * ROAD_DISTANCE_FACTOR;
+};
+
+// Every day but the last ends with a night of lodging, at the latest
+// accommodation planned so far (or the first one in the trip, or the tier rate).
+// Restaurant stops replace one of the day's meals at their own price level.
+export const estimateItineraryCost = (
+  days: ItineraryDay[],
+  details: CostDetails,
+  rates: CostRate[],
+  options: BudgetOptions
+): BudgetEstimate => {
+  const travelers = Math.max(1, Math.round(options.travelers));
+  const rooms = Math.ceil(travelers / TRAVELERS_PER_ROOM);
+  const allAccommodations = days.flatMap((day) => day.stops.filter(isAccommodation));
+  const mealRate = findRate(rates, "meal", options.tier).amount;
+  const transportRate = findRate(rates, "transport", options.mode);
+  let lodgingStop = allAccommodations[0];
+
+  const dayCosts = days.map((day, dayIndex) => {
+    const entrance = day.stops
+      .filter(isSpot)
+      .reduce((sum, stop) => sum + findRate(rates, "entrance", details.spotLevels.get(stop.id) || "budget").amount, 0);
+
+    const stayedAt = day.stops.filter(isAccommodation).pop();
+    if (stayedAt) lodgingStop = stayedAt;
+    const lodging = dayIndex < days.length - 1 ? nightlyRate(lodgingStop, details, rates, options.tier) * rooms : 0;
+
+    const distanceKm = dayDistanceKm(day.stops);
+    const transport =
+      day.stops.length > 0 ? (transportRate.base_amount + transportRate.amount * distanceKm) * travelers : 0;
+
+    const restaurants = day.stops.filter(isRestaurant);
+    const plannedMeals = restaurants.reduce(
+      (sum, stop) => sum + findRate(rates, "meal", details.restaurantLevels.get(stop.id) || options.tier).amount,
+      0
+    );
+    const meals = (plannedMeals + mealRate * Math.max(0, MEALS_PER_DAY - restaurants.length)) * travelers;
+    const costs = { entrance: entrance * travelers, lodging, meals, transport };
+
+    return {
+      day: day.day,
+      ...costs,
+      distanceKm,
+      total: costs.entrance + costs.lodging + costs.meals + costs.transport,
+    };
+  });
+
+  const total = dayCosts.reduce((sum, day) => sum + day.total, 0);
+  const limit = options.limit || findRate(rates, "daily_budget", options.tier).amount * travelers * days.length;
+
+  return {
+    days: dayCosts,
+    total,
+    perPerson: total / travelers,
+    limit,
+    overBy: Math.max(0, total - limit),
+  };
+};
+
+export const fetchCostRates = async () => {
+  const { data, error } = await supabase.from("cost_rates").select("*").order("category").order("tier");
+  if (error) throw error;
+  return (data || []) as CostRate[];
+};
+
+// Falls back to the offline copy of the catalogue when there's no connection
+export const fetchCostDetails = async (days: ItineraryDay[]): Promise<CostDetails> => {
+  const stops = days.flatMap((day) => day.stops);
+  const spotIds = stops.filter(isSpot).map((stop) => stop.id);
+  const accommodationIds = stops.filter(isAccommodation).map((stop) => stop.id);
+  const restaurantIds = stops.filter(isRestaurant).map((stop) => stop.id);
+
+  const [spots, accommodations, restaurants] = await Promise.all([
+    spotIds.length > 0
+      ? supabase.from("tourist_spots").select("id, budget_level").in("id", spotIds)
+      : { data: [], error: null },
+    accommodationIds.length > 0
+      ? supabase.from("accommodations").select("id, price_range").in("id", accommodationIds)
+      : { data: [], error: null },
+    restaurantIds.length > 0
+      ? supabase.from("restaurants").select("id, price_level").in("id", restaurantIds)
+      : { data: [], error: null },
+  ]);
+
+  let spotRows: { id: string; budget_level: string | null }[] = spots.data || [];
+  let accommodationRows: { id: string; price_range: string | null }[] = accommodations.data || [];
+  let restaurantRows: { id: string; price_level: string | null }[] = restaurants.data || [];
+
+  if (spots.error || accommodations.error || restaurants.error) {
+    const error = spots.error || accommodations.error || restaurants.error;
+    if (!isNetworkError(error)) throw error;
+    [spotRows, accommodationRows, restaurantRows] = await Promise.all([
+      getCachedRows<{ id: string; budget_level: string | null }>("tourist_spots"),
+      getCachedRows<{ id: string; price_range: string | null }>("accommodations"),
+      getCachedRows<{ id: string; price_level: string | null }>("restaurants"),
+    ]);
+  }
+
+  return {
+    spotLevels: new Map(spotRows.map((row) => [row.id, row.budget_level as BudgetTier | null])),
+    accommodationPrices: new Map(accommodationRows.map((row) => [row.id, row.price_range])),
+    restaurantLevels: new Map(restaurantRows.map((row) => [row.id, row.price_level as BudgetTier | null])),
+  };
+};
+
+export const formatPeso = (amount: number) =>
+  `₱${Math.round(amount).toLocaleString("en-PH", { maximumFractionDigits: 0 })}`;
@@ -0,0 +1,247 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type MemberRole = "viewer" | "editor";
+export type ItineraryRole = "owner" | MemberRole;
+export type ActivityAction = "added_stop" | "removed_stop" | "renamed" | "joined" | "left";
+
+export interface ItineraryMember {
+  id: string;
+  itinerary_id: string;
+  user_id: string;
+  role: MemberRole;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+export interface ItineraryInvite {
+  id: string;
+  itinerary_id: string;
+  token: string;
+  role: MemberRole;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface InvitePreview {
+  itinerary_id: string;
+  itinerary_name: string;
+  owner_name: string | null;
+  role: MemberRole;
+  expires_at: string;
+}
+
+export interface ItineraryActivity {
+  id: string;
+  itinerary_id: string;
+  user_id: string | null;
+  action: ActivityAction;
+  stop_id: string | null;
+  stop_name: string | null;
+  created_at: string;
+}
+
+export const MEMBER_ROLES: { value: MemberRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Viewer", description: "Can see the plan and get directions" },
+  { value: "editor", label: "Editor", description: "Can add, remove and reorder stops" },
+];
+
+export const canEdit = (role: ItineraryRole | null | undefined) => role === "owner" || role === "editor";
+
+export const inviteUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+// Plan columns as written by toItineraryColumns, plus an optional rename
+export interface ItineraryPlan {
+  days?: Json;
+  spots?: Json;
+  name?: string;
+}
+
+// save_itinerary_plan() raises PT409 when someone saved after the copy being edited was loaded
+export const isOutdatedError = (error: unknown) => (error as { code?: string } | null)?.code === "PT409";
+
+// Owners and editors save the plan through the server so a save based on an
+// old copy fails instead of overwriting other members' changes. Returns the
+// itinerary's new version.
+export const saveItineraryPlan = async (itineraryId: string, baseVersion: number, plan: ItineraryPlan) => {
+  const { data, error } = await supabase.rpc("save_itinerary_plan", {
+    _itinerary_id: itineraryId,
+    _base_version: baseVersion,
+    _days: plan.days,
+    _spots: plan.spots,
+    _name: plan.name,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Names are looked up separately because profiles has no foreign key to join on
+const fetchProfiles = async (userIds: string[]) => {
+  if (userIds.length === 0) return new Map<string, { full_name: string | null; avatar_url: string | null }>();
+
+  const { data, error } = await supabase.from("profiles").select("id, full_name, avatar_url").in("id", userIds);
+  if (error) throw error;
+
+  return new Map((data || []).map((profile) => [profile.id, profile]));
+};
+
+export const fetchProfileNames = async (userIds: string[]) => {
+  const profiles = await fetchProfiles([...new Set(userIds)]);
+  return new Map([...profiles].map(([id, profile]) => [id, profile.full_name || "A traveler"]));
+};
+
+// Every membership row the user can see: their own, members of itineraries
+// they own, and fellow members of itineraries shared with them
+export const fetchMemberships = async () => {
+  const { data, error } = await supabase.from("itinerary_members").select("itinerary_id, user_id, role");
+  if (error) throw error;
+  return (data || []) as { itinerary_id: string; user_id: string; role: MemberRole }[];
+};
+
+export const fetchMembers = async (itineraryId: string): Promise<ItineraryMember[]> => {
+  const { data, error } = await supabase
+    .from("itinerary_members")
+    .select("id, itinerary_id, user_id, role")
+    .eq("itinerary_id", itineraryId)
+    .order("created_at");
+
+  if (error) throw error;
+
+  const profiles = await fetchProfiles((data || []).map((member) => member.user_id));
+  return (data || []).map((member) => ({
+    ...member,
+    role: member.role as MemberRole,
+    full_name: profiles.get(member.user_id)?.full_name ?? null,
+    avatar_url: profiles.get(member.user_id)?.avatar_url ?? null,
+  }));
+};
+
+export const updateMemberRole = async (memberId: string, role: MemberRole) => {
+  const { error } = await supabase.from("itinerary_members").update({ role }).eq("id", memberId);
+  if (error) throw error;
+};
+
+export const removeMember = async (memberId: string) => {
+  const { error } = await supabase.from("itinerary_members").delete().eq("id", memberId);
+  if (error) throw error;
+};
+
+export const leaveItinerary = async (itineraryId: string, userId: string) => {
+  const { error } = await supabase
+    .from("itinerary_members")
+    .delete()
+    .eq("itinerary_id", itineraryId)
+    .eq("user_id", userId);
+  if (error) throw error;
+};
+
+// Invites that can still be used, newest first
+export const fetchInvites = async (itineraryId: string) => {
+  const { data, error } = await supabase
+    .from("itinerary_invites")
+    .select("id, itinerary_id, token, role, expires_at, created_at")
+    .eq("itinerary_id", itineraryId)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ItineraryInvite[];
+};
+
+export const createInvite = async (itineraryId: string, role: MemberRole, userId: string) => {
+  const { data, error } = await supabase
+    .from("itinerary_invites")
+    .insert({ itinerary_id: itineraryId, role, created_by: userId })
+    .select("id, itinerary_id, token, role, expires_at, created_at")
+    .single();
+
+  if (error) throw error;
+  return data as ItineraryInvite;
+};
+
+export const revokeInvite = async (inviteId: string) => {
+  const { error } = await supabase.from("itinerary_invites").delete().eq("id", inviteId);
+  if (error) throw error;
+};
+
+// Null when the token is unknown or expired
+export const fetchInvitePreview = async (token: string) => {
+  const { data, error } = await supabase.rpc("get_itinerary_invite", { _token: token });
+  if (error) throw error;
+  return ((data || [])[0] as InvitePreview | undefined) ?? null;
+};
+
+// Returns the itinerary the user joined
+export const acceptInvite = async (token: string) => {
+  const { data, error } = await supabase.rpc("accept_itinerary_invite", { _token: token });
+  if (error) throw error;
+  return data;
+};
+
+export const fetchActivity = async (itineraryId: string, limit = 20) => {
+  const { data, error } = await supabase
+    .from("itinerary_activity")
+    .select("*")
+    .eq("itinerary_id", itineraryId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as ItineraryActivity[];
+};
+
+export interface PublishedItinerary {
+  name: string;
+  days: Json;
+  spots: Json;
+  owner_name: string | null;
+  published_at: string | null;
+  updated_at: string;
+}
+
+export const shareUrl = (shareId: string) => `${window.location.origin}/trip/${shareId}`;
+
+// Publishing gives the itinerary a public read-only page at /trip/:shareId
+export const publishItinerary = async (itineraryId: string) => {
+  const shareId = crypto.randomUUID().replace(/-/g, "");
+  const { error } = await supabase
+    .from("itineraries")
+    .update({ share_id: shareId, published_at: new Date().toISOString() })
+    .eq("id", itineraryId);
+
+  if (error) throw error;
+  return shareId;
+};
+
+// The old link stops working; publishing again creates a new one
+export const unpublishItinerary = async (itineraryId: string) => {
+  const { error } = await supabase
+    .from("itineraries")
+    .update({ share_id: null, published_at: null })
+    .eq("id", itineraryId);
+
+  if (error) throw error;
+};
+
+// Null when the link is unknown or the itinerary was unpublished
+export const fetchPublishedItinerary = async (shareId: string) => {
+  const { data, error } = await supabase.rpc("get_published_itinerary", { _share_id: shareId });
+  if (error) throw error;
+  return ((data || [])[0] as PublishedItinerary | undefined) ?? null;
+};
+
+export const describeActivity = (entry: ItineraryActivity) => {
+  switch (entry.action) {
+    case "added_stop":
+      return `added ${entry.stop_name || "a stop"}`;
+    case "removed_stop":
+      return `removed ${entry.stop_name || "a stop"}`;
+    case "renamed":
+      return `renamed the trip to ${entry.stop_name}`;
+    case "joined":
+      return "joined the trip";
+    case "left":
+      return "left the trip";
+  }
+};
@@ -0,0 +1,138 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { AlbayDistrict, findMunicipality } from "@/lib/albay";
+import { PLACE_TIME_ZONE, placeNow, shiftDate } from "@/lib/openingHours";
+import type { ItineraryStop } from "@/lib/itinerary";
+
+export type EventRecurrence = "none" | "weekly" | "monthly" | "yearly";
+
+export type EventRecord = Omit<Tables<"events">, "recurrence"> & {
+  recurrence: EventRecurrence;
+};
+
+// One run of an event; repeating events have one per week, month or year
+export interface EventOccurrence {
+  event: EventRecord;
+  starts_at: string;
+  ends_at: string;
+}
+
+export const EVENT_TYPES = [
+  "Festival",
+  "Fiesta",
+  "Market",
+  "Exhibition",
+  "Parade",
+  "Local Event",
+  "Regional Event",
+  "Public",
+  "Private",
+];
+
+export const EVENT_RECURRENCES: { value: EventRecurrence; label: string }[] = [
+  { value: "none", label: "Does not repeat" },
+  { value: "weekly", label: "Every week" },
+  { value: "monthly", label: "Every month" },
+  { value: "yearly", label: "Every year" },
+];
+
+// Events are scheduled and shown in Albay time wherever the visitor is.
+// Manila has no daylight saving, so the offset is fixed.
+const PLACE_OFFSET = "+08:00";
+
+export const startOfPlaceDay = (date: string) => new Date(`${date}T00:00:00${PLACE_OFFSET}`);
+
+// <input type="datetime-local"> values, read as Albay wall-clock time
+export const toPlaceInput = (value: string | null) => {
+  if (!value) return "";
+  const { date, time } = placeNow(new Date(value));
+  return `${date}T${time}`;
+};
+
+export const fromPlaceInput = (value: string) => new Date(`${value}:00${PLACE_OFFSET}`).toISOString();
+
+export const firstDay = (occurrence: Pick<EventOccurrence, "starts_at">) =>
+  placeNow(new Date(occurrence.starts_at)).date;
+
+// ends_at is exclusive, so an all-day event ending at midnight ends the day before
+export const lastDay = (occurrence: Pick<EventOccurrence, "ends_at">) =>
+  placeNow(new Date(new Date(occurrence.ends_at).getTime() - 1)).date;
+
+// Every "YYYY-MM-DD" the occurrence touches
+export const occurrenceDays = (occurrence: EventOccurrence) => {
+  const days = [firstDay(occurrence)];
+  const last = lastDay(occurrence);
+  while (days[days.length - 1] < last) days.push(shiftDate(days[days.length - 1], 1));
+  return days;
+};
+
+export const formatEventDay = (date: string, options: Intl.DateTimeFormatOptions = {}) =>
+  startOfPlaceDay(date).toLocaleDateString(undefined, {
+    timeZone: PLACE_TIME_ZONE,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    ...options,
+  });
+
+export const formatEventTime = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, { timeZone: PLACE_TIME_ZONE, hour: "numeric", minute: "2-digit" });
+
+export const formatOccurrence = (occurrence: EventOccurrence) => {
+  const first = firstDay(occurrence);
+  const last = lastDay(occurrence);
+
+  if (occurrence.event.all_day) {
+    return first === last ? formatEventDay(first) : `${formatEventDay(first)} – ${formatEventDay(last)}`;
+  }
+
+  const start = `${formatEventDay(first)}, ${formatEventTime(occurrence.starts_at)}`;
+  return first === last
+    ? `${start} – ${formatEventTime(occurrence.ends_at)}`
+    : `${start} – ${formatEventDay(last)}, ${formatEventTime(occurrence.ends_at)}`;
+};
+
+export const describeRecurrence = (event: EventRecord) => {
+  if (event.recurrence === "none") return null;
+  const label = EVENT_RECURRENCES.find((option) => option.value === event.recurrence)?.label;
+  return event.recurrence_until
+    ? `${label} until ${formatEventDay(event.recurrence_until, { weekday: undefined, year: "numeric" })}`
+    : label;
+};
+
+// Admins pick a municipality, so the district follows from it
+export const eventDistrict = (event: Pick<EventRecord, "municipality" | "district">) =>
+  findMunicipality(event.municipality)?.district || (event.district as AlbayDistrict | null);
+
+// Where an event occurrence sits in a day plan; all-day events stay untimed
+export const occurrenceTiming = (
+  occurrence: EventOccurrence
+): Pick<ItineraryStop, "start_time" | "duration_minutes"> => {
+  if (occurrence.event.all_day) return { start_time: null, duration_minutes: null };
+
+  const minutes = (new Date(occurrence.ends_at).getTime() - new Date(occurrence.starts_at).getTime()) / 60000;
+  return {
+    start_time: placeNow(new Date(occurrence.starts_at)).time,
+    duration_minutes: Math.min(Math.round(minutes), 24 * 60),
+  };
+};
+
+// Occurrences overlapping the Albay days [from, to), earliest first
+export const fetchEventOccurrences = async (from: string, to: string): Promise<EventOccurrence[]> => {
+  const { data, error } = await supabase.rpc("event_occurrences", {
+    _from: startOfPlaceDay(from).toISOString(),
+    _to: startOfPlaceDay(to).toISOString(),
+  });
+  if (error) throw error;
+
+  const ids = Array.from(new Set((data || []).map((row) => row.event_id)));
+  if (ids.length === 0) return [];
+
+  const { data: events, error: eventsError } = await supabase.from("events").select("*").in("id", ids);
+  if (eventsError) throw eventsError;
+
+  const byId = new Map((events || []).map((event) => [event.id, event as EventRecord]));
+  return (data || [])
+    .filter((row) => byId.has(row.event_id))
+    .map((row) => ({ event: byId.get(row.event_id)!, starts_at: row.starts_at, ends_at: row.ends_at }));
+};
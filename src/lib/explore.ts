@@ -0,0 +1,162 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { BUDGET_TIERS } from "@/lib/budget";
+import { LatLng } from "@/lib/geo";
+import { DEFAULT_RADIUS_KM, MAX_RADIUS_KM } from "@/lib/nearby";
+
+export type ExploreSort = "name" | "rating" | "newest" | "distance";
+
+export const EXPLORE_SORTS: { value: ExploreSort; label: string }[] = [
+  { value: "name", label: "Name (A–Z)" },
+  { value: "rating", label: "Top rated" },
+  { value: "newest", label: "Newest" },
+  { value: "distance", label: "Near me" },
+];
+
+export type ListFacet = "categories" | "subcategories" | "municipalities" | "budget_levels" | "scenery_types";
+export type ToggleFacet = "accessible" | "hidden_gem";
+export type FacetKey = ListFacet | ToggleFacet;
+
+// Mirrors the _filters object explore_spots and explore_spot_facets take
+export interface ExploreFilters {
+  q: string;
+  categories: string[];
+  subcategories: string[];
+  municipalities: string[];
+  budget_levels: string[];
+  scenery_types: string[];
+  accessible: boolean;
+  hidden_gem: boolean;
+}
+
+export interface ExploreState {
+  filters: ExploreFilters;
+  sort: ExploreSort;
+  radiusKm: number;
+}
+
+export type ExploreSpot = Database["public"]["Functions"]["explore_spots"]["Returns"][number];
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export type FacetCounts = Record<FacetKey, FacetValue[]>;
+
+export const PAGE_SIZE = 24;
+
+export const LIST_FACETS: { key: ListFacet; param: string; label: string }[] = [
+  { key: "categories", param: "category", label: "Category" },
+  { key: "subcategories", param: "subcategory", label: "Subcategory" },
+  { key: "municipalities", param: "municipality", label: "Municipality" },
+  { key: "budget_levels", param: "budget", label: "Budget" },
+  { key: "scenery_types", param: "scenery", label: "Scenery" },
+];
+
+export const TOGGLE_FACETS: { key: ToggleFacet; param: string; label: string }[] = [
+  { key: "accessible", param: "accessible", label: "Accessibility-friendly" },
+  { key: "hidden_gem", param: "gem", label: "Hidden gems" },
+];
+
+export const facetValueLabel = (facet: FacetKey, value: string) => {
+  if (facet === "budget_levels") return BUDGET_TIERS.find((tier) => tier.value === value)?.label || value;
+  if (facet === "scenery_types") return value.charAt(0).toUpperCase() + value.slice(1);
+  return value;
+};
+
+export const emptyFilters = (): ExploreFilters => ({
+  q: "",
+  categories: [],
+  subcategories: [],
+  municipalities: [],
+  budget_levels: [],
+  scenery_types: [],
+  accessible: false,
+  hidden_gem: false,
+});
+
+export const emptyFacetCounts = (): FacetCounts => ({
+  categories: [],
+  subcategories: [],
+  municipalities: [],
+  budget_levels: [],
+  scenery_types: [],
+  accessible: [],
+  hidden_gem: [],
+});
+
+export const countActiveFilters = (filters: ExploreFilters) =>
+  LIST_FACETS.reduce((total, facet) => total + filters[facet.key].length, 0) +
+  TOGGLE_FACETS.filter((facet) => filters[facet.key]).length;
+
+// Explore's state lives in the query string so a filtered list can be shared.
+// List facets repeat their parameter: ?category=Nature&category=Heritage
+export const parseExploreParams = (params: URLSearchParams): ExploreState => {
+  const filters = emptyFilters();
+  filters.q = params.get("q") || "";
+  LIST_FACETS.forEach((facet) => {
+    filters[facet.key] = params.getAll(facet.param).filter(Boolean);
+  });
+  TOGGLE_FACETS.forEach((facet) => {
+    filters[facet.key] = params.get(facet.param) === "1";
+  });
+
+  const sort = EXPLORE_SORTS.some((option) => option.value === params.get("sort"))
+    ? (params.get("sort") as ExploreSort)
+    : "name";
+  const radius = parseFloat(params.get("radius") || "");
+  const radiusKm = isNaN(radius) ? DEFAULT_RADIUS_KM : Math.min(Math.max(radius, 1), MAX_RADIUS_KM);
+
+  return { filters, sort, radiusKm };
+};
+
+// Defaults are left out to keep shared links short
+export const toExploreParams = ({ filters, sort, radiusKm }: ExploreState) => {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  LIST_FACETS.forEach((facet) => filters[facet.key].forEach((value) => params.append(facet.param, value)));
+  TOGGLE_FACETS.forEach((facet) => {
+    if (filters[facet.key]) params.set(facet.param, "1");
+  });
+  if (sort !== "name") params.set("sort", sort);
+  if (sort === "distance" && radiusKm !== DEFAULT_RADIUS_KM) params.set("radius", String(radiusKm));
+  return params;
+};
+
+// The device location is never put in the URL; "near me" only applies once it's known
+const toFilterJson = ({ filters, sort, radiusKm }: ExploreState, origin: LatLng | null) => ({
+  ...filters,
+  q: filters.q.trim(),
+  ...(sort === "distance" && origin && { lat: origin[0], lng: origin[1], radius_km: radiusKm }),
+});
+
+export const fetchExplorePage = async (state: ExploreState, origin: LatLng | null, offset: number) => {
+  const { data, error } = await supabase.rpc("explore_spots", {
+    _filters: toFilterJson(state, origin),
+    _sort: state.sort === "distance" && !origin ? "name" : state.sort,
+    _offset: offset,
+    _limit: PAGE_SIZE,
+  });
+  if (error) throw error;
+
+  const spots = (data || []) as ExploreSpot[];
+  return { spots, total: spots.length > 0 ? Number(spots[0].total_count) : 0 };
+};
+
+export const fetchExploreFacets = async (state: ExploreState, origin: LatLng | null): Promise<FacetCounts> => {
+  const { data, error } = await supabase.rpc("explore_spot_facets", {
+    _filters: toFilterJson(state, origin),
+  });
+  if (error) throw error;
+
+  const counts = emptyFacetCounts();
+  (data || []).forEach((row) => {
+    const facet = row.facet as FacetKey;
+    if (counts[facet]) counts[facet].push({ value: row.value, count: Number(row.spot_count) });
+  });
+  Object.values(counts).forEach((values) =>
+    values.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+  );
+  return counts;
+};
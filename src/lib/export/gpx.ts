@@ -0,0 +1,57 @@
+import { LatLng } from "@/lib/geo";
+
+export interface GpxWaypoint {
+  point: LatLng;
+  name: string;
+  description?: string | null;
+  type?: string | null;
+}
+
+export interface GpxRoute {
+  name: string;
+  // Stops in visiting order, written as <rte>
+  waypoints: GpxWaypoint[];
+  // Road geometry between the stops, written as <trk> when available
+  track?: LatLng[];
+}
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const coords = ([lat, lng]: LatLng) => `lat="${lat.toFixed(6)}" lon="${lng.toFixed(6)}"`;
+
+const pointBody = (waypoint: GpxWaypoint) =>
+  [
+    `<name>${escapeXml(waypoint.name)}</name>`,
+    waypoint.description ? `<desc>${escapeXml(waypoint.description)}</desc>` : "",
+    waypoint.type ? `<type>${escapeXml(waypoint.type)}</type>` : "",
+  ].join("");
+
+export const buildGpx = (name: string, waypoints: GpxWaypoint[], routes: GpxRoute[], now = new Date()) => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Wanderer" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name><time>${now.toISOString()}</time></metadata>`,
+    ...waypoints.map((waypoint) => `  <wpt ${coords(waypoint.point)}>${pointBody(waypoint)}</wpt>`),
+  ];
+
+  routes.forEach((route) => {
+    lines.push(`  <rte><name>${escapeXml(route.name)}</name>`);
+    route.waypoints.forEach((waypoint) => lines.push(`    <rtept ${coords(waypoint.point)}>${pointBody(waypoint)}</rtept>`));
+    lines.push("  </rte>");
+
+    if (route.track && route.track.length > 1) {
+      lines.push(`  <trk><name>${escapeXml(route.name)}</name><trkseg>`);
+      route.track.forEach((point) => lines.push(`    <trkpt ${coords(point)} />`));
+      lines.push("  </trkseg></trk>");
+    }
+  });
+
+  lines.push("</gpx>");
+  return lines.join("\n") + "\n";
+};
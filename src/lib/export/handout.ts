@@ -0,0 +1,76 @@
+import { ItineraryDay, formatDuration, getDayColor, hasCoordinates } from "@/lib/itinerary";
+import { escapeXml } from "./gpx";
+
+interface HandoutOptions {
+  subtitle?: string;
+  shareUrl?: string | null;
+}
+
+const HANDOUT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; margin: 2rem; }
+  h1 { margin: 0 0 0.25rem; }
+  .subtitle { color: #6b7280; margin: 0 0 1.5rem; }
+  h2 { border-bottom: 3px solid; padding-bottom: 0.25rem; margin-top: 2rem; page-break-after: avoid; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 0.5rem; vertical-align: top; border-bottom: 1px solid #e5e7eb; }
+  tr { page-break-inside: avoid; }
+  .num { width: 2rem; font-weight: bold; }
+  .time { width: 6rem; white-space: nowrap; }
+  .muted { color: #6b7280; font-size: 0.875rem; }
+  .footer { margin-top: 2rem; color: #6b7280; font-size: 0.75rem; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+`;
+
+// A self-contained page for printing or saving as PDF from the browser
+export const buildHandoutHtml = (name: string, days: ItineraryDay[], options: HandoutOptions = {}) => {
+  const dayHtml = days
+    .map((day, dayIndex) => {
+      const rows = day.stops
+        .map((stop, stopIndex) => {
+          const details = [
+            stop.municipality || stop.location,
+            stop.duration_minutes ? formatDuration(stop.duration_minutes) : null,
+            hasCoordinates(stop) ? `${Number(stop.latitude).toFixed(5)}, ${Number(stop.longitude).toFixed(5)}` : null,
+          ]
+            .filter(Boolean)
+            .map((detail) => escapeXml(String(detail)))
+            .join(" · ");
+
+          return `<tr>
+            <td class="num">${stopIndex + 1}</td>
+            <td class="time">${escapeXml(stop.start_time || "")}</td>
+            <td><strong>${escapeXml(stop.name)}</strong>
+              ${details ? `<div class="muted">${details}</div>` : ""}
+              ${stop.description ? `<div>${escapeXml(stop.description)}</div>` : ""}
+            </td>
+          </tr>`;
+        })
+        .join("");
+
+      const date = day.date
+        ? ` · ${new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" })}`
+        : "";
+
+      return `<h2 style="border-color: ${getDayColor(dayIndex)}">Day ${day.day}${escapeXml(date)}</h2>
+        ${rows ? `<table>${rows}</table>` : `<p class="muted">No stops planned.</p>`}`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeXml(name)}</title>
+<style>${HANDOUT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeXml(name)}</h1>
+${options.subtitle ? `<p class="subtitle">${escapeXml(options.subtitle)}</p>` : ""}
+${dayHtml}
+<p class="footer">
+  ${options.shareUrl ? `View the live map at <a href="${escapeXml(options.shareUrl)}">${escapeXml(options.shareUrl)}</a>. ` : ""}
+  Check PHIVOLCS and PAGASA advisories before travelling. Emergency hotline: 911.
+</p>
+</body>
+</html>`;
+};
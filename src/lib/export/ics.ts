@@ -0,0 +1,2 @@
+// The builder lives with the edge functions so calendar-feed can bundle it
+export * from "../../../supabase/functions/_shared/ics";
@@ -0,0 +1,119 @@
+import { LatLng } from "@/lib/geo";
+import { ItineraryDay, ItineraryStop, hasCoordinates, parseTime } from "@/lib/itinerary";
+import { TravelMode, getRoute } from "@/lib/routing";
+import { CalendarEvent, buildCalendar } from "./ics";
+import { GpxRoute, GpxWaypoint, buildGpx } from "./gpx";
+import { buildHandoutHtml } from "./handout";
+
+export { buildCalendar, escapeIcsText, formatIcsDate, formatIcsDay } from "./ics";
+export type { CalendarEvent } from "./ics";
+export { buildGpx, escapeXml } from "./gpx";
+export type { GpxRoute, GpxWaypoint } from "./gpx";
+export { buildHandoutHtml } from "./handout";
+
+// Albay is on Philippine Standard Time all year (no daylight saving)
+export const PHILIPPINE_UTC_OFFSET = "+08:00";
+
+// Timed stops without a duration become one-hour events
+const DEFAULT_EVENT_MINUTES = 60;
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const toFilename = (name: string, extension: string) =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "itinerary"}.${extension}`;
+
+const toWaypoint = (stop: ItineraryStop, label: string): GpxWaypoint => ({
+  point: [Number(stop.latitude), Number(stop.longitude)],
+  name: label,
+  description: [stop.municipality, stop.description].filter(Boolean).join(" - ") || null,
+  type: stop.type || null,
+});
+
+// Waypoints for every located stop plus one route per day. Road geometry
+// comes from the routing provider, which falls back to straight lines offline.
+export const itineraryToGpx = async (name: string, days: ItineraryDay[], mode: TravelMode = "driving") => {
+  const routes: GpxRoute[] = await Promise.all(
+    days.map(async (day) => {
+      const waypoints = day.stops
+        .map((stop, stopIndex) => ({ stop, stopIndex }))
+        .filter(({ stop }) => hasCoordinates(stop))
+        .map(({ stop, stopIndex }) => toWaypoint(stop, `Day ${day.day} #${stopIndex + 1}: ${stop.name}`));
+
+      let track: LatLng[] | undefined;
+      if (waypoints.length > 1) {
+        track = (await getRoute(waypoints.map((waypoint) => waypoint.point), mode)).coordinates;
+      }
+
+      return { name: `${name} - Day ${day.day}`, waypoints, track };
+    })
+  );
+
+  return buildGpx(
+    name,
+    routes.flatMap((route) => route.waypoints),
+    routes.filter((route) => route.waypoints.length > 0)
+  );
+};
+
+// One event per stop that has a start time on a dated day. Stops with a time
+// but no date can't be placed on a calendar and are counted as skipped.
+export const itineraryToIcs = (name: string, days: ItineraryDay[], itineraryId: string, url?: string | null) => {
+  const events: CalendarEvent[] = [];
+  let skipped = 0;
+
+  days.forEach((day) =>
+    day.stops.forEach((stop, stopIndex) => {
+      if (parseTime(stop.start_time) === null) return;
+      if (!day.date) {
+        skipped++;
+        return;
+      }
+
+      const start = new Date(`${day.date}T${stop.start_time}:00${PHILIPPINE_UTC_OFFSET}`);
+      const minutes = stop.duration_minutes || DEFAULT_EVENT_MINUTES;
+      events.push({
+        uid: `${itineraryId}-${day.day}-${stopIndex}-${stop.id}@wanderer`,
+        start,
+        end: new Date(start.getTime() + minutes * 60 * 1000),
+        summary: stop.name,
+        description: stop.description,
+        location: stop.location || [stop.municipality, "Albay"].filter(Boolean).join(", "),
+        geo: hasCoordinates(stop) ? [Number(stop.latitude), Number(stop.longitude)] : null,
+        url,
+      });
+    })
+  );
+
+  return { ics: buildCalendar(name, events), count: events.length, skipped };
+};
+
+// Opens the handout in a new tab with the print dialog, where it can also be
+// saved as PDF. Downloads the HTML instead when pop-ups are blocked.
+export const printHandout = (name: string, days: ItineraryDay[], shareUrl?: string | null) => {
+  const html = buildHandoutHtml(name, days, {
+    subtitle: `${days.length} ${days.length === 1 ? "day" : "days"} in Albay`,
+    shareUrl,
+  });
+
+  const handout = window.open("", "_blank");
+  if (!handout) {
+    downloadFile(toFilename(name, "html"), html, "text/html");
+    return false;
+  }
+
+  handout.document.open();
+  handout.document.write(html);
+  handout.document.close();
+  handout.focus();
+  handout.print();
+  return true;
+};
@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { PlaceKind } from "@/lib/nearby";
+
+export type FavoriteItemType = PlaceKind;
+
+export type Favorite = Tables<"favorites"> & { collection_ids: string[] };
+export type FavoriteCollection = Tables<"favorite_collections">;
+
+export const FAVORITE_ITEM_TABLES = {
+  spot: "tourist_spots",
+  accommodation: "accommodations",
+  restaurant: "restaurants",
+  event: "events",
+} as const;
+
+// What a saved-places card needs from whichever table the item lives in
+export interface FavoriteItemDetails {
+  id: string;
+  name: string;
+  municipality: string | null;
+  image_url: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export const fetchFavorites = async (userId: string): Promise<Favorite[]> => {
+  const { data, error } = await supabase
+    .from("favorites")
+    .select("*, favorite_collection_items(collection_id)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  return (data || []).map(({ favorite_collection_items, ...favorite }) => ({
+    ...favorite,
+    collection_ids: (favorite_collection_items || []).map((item) => item.collection_id),
+  }));
+};
+
+export const fetchFavoriteCollections = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("favorite_collections")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name");
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchVisitedSpotIds = async (userId: string) => {
+  const { data, error } = await supabase.from("visited_spots").select("spot_id").eq("user_id", userId);
+  if (error) throw error;
+  return (data || []).map((row) => row.spot_id);
+};
+
+// One query per item type, keyed "<type>:<id>"
+export const fetchFavoriteItemDetails = async (favorites: Pick<Favorite, "item_type" | "item_id">[]) => {
+  const details = new Map<string, FavoriteItemDetails>();
+
+  await Promise.all(
+    (Object.keys(FAVORITE_ITEM_TABLES) as FavoriteItemType[]).map(async (type) => {
+      const ids = favorites.filter((favorite) => favorite.item_type === type).map((favorite) => favorite.item_id);
+      if (ids.length === 0) return;
+
+      const { data, error } = await supabase
+        .from(FAVORITE_ITEM_TABLES[type])
+        .select("id, name, municipality, image_url, latitude, longitude")
+        .in("id", ids);
+      if (error) throw error;
+
+      (data || []).forEach((item) => details.set(`${type}:${item.id}`, item as FavoriteItemDetails));
+    })
+  );
+
+  return details;
+};
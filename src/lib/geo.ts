@@ -0,0 +1,51 @@
+export type LatLng = [number, number];
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in kilometres
+export const haversineKm = (from: LatLng, to: LatLng) => {
+  const dLat = toRadians(to[0] - from[0]);
+  const dLng = toRadians(to[1] - from[1]);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[0])) * Math.cos(toRadians(to[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const haversineMatrix = (points: LatLng[]) =>
+  points.map((from) => points.map((to) => haversineKm(from, to)));
+
+export const formatKm = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+// Closest point on a polyline: how far the point is from the line, and how
+// far along the line that closest point lies, both in kilometres. Uses a local
+// flat projection, which is accurate enough at street scale.
+export const projectOntoPolyline = (point: LatLng, line: LatLng[]) => {
+  if (line.length === 0) return { distanceKm: Infinity, alongKm: 0 };
+  if (line.length === 1) return { distanceKm: haversineKm(point, line[0]), alongKm: 0 };
+
+  const kmPerDegLat = 111.32;
+  const kmPerDegLng = 111.32 * Math.cos(toRadians(point[0]));
+  const project = ([lat, lng]: LatLng) => [(lng - point[1]) * kmPerDegLng, (lat - point[0]) * kmPerDegLat];
+
+  let best = { distanceKm: Infinity, alongKm: 0 };
+  let travelled = 0;
+  for (let i = 1; i < line.length; i++) {
+    const [ax, ay] = project(line[i - 1]);
+    const [bx, by] = project(line[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    const distanceKm = Math.hypot(ax + t * dx, ay + t * dy);
+    const segmentKm = haversineKm(line[i - 1], line[i]);
+    if (distanceKm < best.distanceKm) best = { distanceKm, alongKm: travelled + t * segmentKm };
+    travelled += segmentKm;
+  }
+  return best;
+};
+
+// Shortest distance in kilometres from a point to a polyline
+export const distanceToPolylineKm = (point: LatLng, line: LatLng[]) => projectOntoPolyline(point, line).distanceKm;
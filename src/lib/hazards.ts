@@ -0,0 +1,185 @@
+import { supabase } from "@/integrations/supabase/client";
+import { LatLng, haversineKm } from "@/lib/geo";
+import { HazardType } from "@/lib/advisories";
+import { ItineraryDay, ItineraryStop, stopType } from "@/lib/itinerary";
+
+export type HazardShape = "circle" | "polygon";
+
+export interface HazardZone {
+  id: string;
+  name: string;
+  description: string | null;
+  hazard_type: HazardType;
+  shape: HazardShape;
+  center_lat: number | null;
+  center_lng: number | null;
+  radius_km: number | null;
+  polygon: LatLng[] | null;
+  is_active: boolean;
+}
+
+// Catalogue entry used to place stops and look for alternatives
+export interface CatalogueSpot {
+  id: string;
+  name: string;
+  category: string[];
+  location: string;
+  municipality: string | null;
+  description: string | null;
+  image_url: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface HazardAlternative {
+  spot: CatalogueSpot;
+  distanceKm: number;
+}
+
+export interface StopHazard {
+  dayIndex: number;
+  stopIndex: number;
+  stop: ItineraryStop;
+  zones: HazardZone[];
+  alternative: HazardAlternative | null;
+}
+
+// How far to look for a same-category replacement
+export const ALTERNATIVE_RADIUS_KM = 25;
+
+export const HAZARD_COLORS: Record<HazardType, string> = {
+  volcano: "#dc2626",
+  typhoon: "#7c3aed",
+  flood: "#2563eb",
+};
+
+// Ray casting on raw lat/lng, fine for zones a few kilometres across
+export const pointInPolygon = ([lat, lng]: LatLng, polygon: LatLng[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInsideZone = (point: LatLng, zone: HazardZone) => {
+  if (zone.shape === "polygon") {
+    return !!zone.polygon && zone.polygon.length >= 3 && pointInPolygon(point, zone.polygon);
+  }
+  if (zone.center_lat === null || zone.center_lng === null || zone.radius_km === null) return false;
+  return haversineKm(point, [Number(zone.center_lat), Number(zone.center_lng)]) <= Number(zone.radius_km);
+};
+
+export const zonesAt = (point: LatLng | null, zones: HazardZone[]) =>
+  point ? zones.filter((zone) => zone.is_active && isInsideZone(point, zone)) : [];
+
+export const toLatLng = (item: { latitude?: number | null; longitude?: number | null }): LatLng | null =>
+  item.latitude !== null && item.latitude !== undefined && item.longitude !== null && item.longitude !== undefined
+    ? [Number(item.latitude), Number(item.longitude)]
+    : null;
+
+const parsePolygon = (value: unknown): LatLng[] | null => {
+  if (!Array.isArray(value)) return null;
+  const points = value.filter(
+    (point): point is LatLng =>
+      Array.isArray(point) && point.length === 2 && point.every((n) => typeof n === "number")
+  );
+  return points.length >= 3 ? points : null;
+};
+
+export const parseHazardZone = (row: Record<string, unknown>): HazardZone => ({
+  ...(row as unknown as HazardZone),
+  polygon: parsePolygon(row.polygon),
+});
+
+export const fetchHazardZones = async (activeOnly = true) => {
+  let query = supabase.from("hazard_zones").select("*").order("name");
+  if (activeOnly) query = query.eq("is_active", true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(parseHazardZone);
+};
+
+// Closest spot sharing a category with the hazardous one that is itself outside every active zone
+export const suggestAlternative = (
+  origin: LatLng,
+  categories: string[],
+  excludeIds: Set<string>,
+  catalogue: CatalogueSpot[],
+  zones: HazardZone[]
+): HazardAlternative | null => {
+  let best: HazardAlternative | null = null;
+
+  for (const spot of catalogue) {
+    const coords = toLatLng(spot);
+    if (!coords || excludeIds.has(spot.id)) continue;
+    if (!spot.category?.some((category) => categories.includes(category))) continue;
+    if (zonesAt(coords, zones).length > 0) continue;
+
+    const distanceKm = haversineKm(origin, coords);
+    if (distanceKm <= ALTERNATIVE_RADIUS_KM && (!best || distanceKm < best.distanceKm)) {
+      best = { spot, distanceKm };
+    }
+  }
+
+  return best;
+};
+
+// Stops inside an active zone. Coordinates and categories missing from the
+// stored stop are taken from the catalogue.
+export const findItineraryHazards = (
+  days: ItineraryDay[],
+  catalogue: CatalogueSpot[],
+  zones: HazardZone[]
+): StopHazard[] => {
+  if (zones.length === 0) return [];
+
+  const byId = new Map(catalogue.map((spot) => [spot.id, spot]));
+  const inItinerary = new Set(days.flatMap((day) => day.stops.map((stop) => stop.id)));
+  const hazards: StopHazard[] = [];
+
+  days.forEach((day, dayIndex) => {
+    day.stops.forEach((stop, stopIndex) => {
+      const known = byId.get(stop.id);
+      const coords = toLatLng(stop) || (known ? toLatLng(known) : null);
+      const stopZones = zonesAt(coords, zones);
+      if (!coords || stopZones.length === 0) return;
+
+      const categories = stop.category?.length ? stop.category : known?.category || [];
+      hazards.push({
+        dayIndex,
+        stopIndex,
+        stop,
+        zones: stopZones,
+        alternative:
+          stopType(stop) === "spot"
+            ? suggestAlternative(coords, categories, inItinerary, catalogue, zones)
+            : null,
+      });
+    });
+  });
+
+  return hazards;
+};
+
+// Swaps a spot for its alternative, keeping the planned time slot
+export const replaceStop = (stop: ItineraryStop, spot: CatalogueSpot): ItineraryStop => ({
+  id: spot.id,
+  name: spot.name,
+  type: "spot",
+  description: spot.description,
+  location: spot.location,
+  municipality: spot.municipality,
+  category: spot.category,
+  image_url: spot.image_url,
+  latitude: spot.latitude,
+  longitude: spot.longitude,
+  start_time: stop.start_time,
+  duration_minutes: stop.duration_minutes,
+  added_at: new Date().toISOString(),
+});
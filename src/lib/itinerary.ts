@@ -0,0 +1,213 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Restaurants are meal stops; events are one occurrence of an event
+export type ItineraryStopType = "spot" | "accommodation" | "restaurant" | "event";
+
+export const STOP_TABLES = {
+  spot: "tourist_spots",
+  accommodation: "accommodations",
+  restaurant: "restaurants",
+  event: "events",
+} as const;
+
+export interface ItineraryStop {
+  id: string;
+  name: string;
+  type?: ItineraryStopType;
+  description?: string | null;
+  location?: string;
+  municipality?: string | null;
+  category?: string[];
+  image_url?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  // "HH:mm" in local time, null when the stop is untimed
+  start_time?: string | null;
+  duration_minutes?: number | null;
+  added_at?: string;
+}
+
+export interface ItineraryDay {
+  day: number;
+  date?: string | null;
+  stops: ItineraryStop[];
+}
+
+export interface StopPosition {
+  dayIndex: number;
+  stopIndex: number;
+}
+
+// One colour per day on the map and in the planner, cycled for long trips
+export const DAY_COLORS = [
+  "#0ea5e9",
+  "#f97316",
+  "#22c55e",
+  "#a855f7",
+  "#ef4444",
+  "#eab308",
+  "#14b8a6",
+  "#ec4899",
+];
+
+export const getDayColor = (dayIndex: number) => DAY_COLORS[dayIndex % DAY_COLORS.length];
+
+export const parseStops = (value: Json | null | undefined): ItineraryStop[] => {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown as ItineraryStop[]).filter(
+    (stop) => stop && typeof stop === "object" && typeof stop.id === "string"
+  );
+};
+
+// Itineraries saved before days existed only have the flat `spots` list,
+// so treat that list as a single day.
+export const parseDays = (days: Json | null | undefined, spots?: Json | null): ItineraryDay[] => {
+  if (Array.isArray(days) && days.length > 0) {
+    return renumberDays(
+      (days as unknown as ItineraryDay[])
+        .filter((day) => day && typeof day === "object")
+        .map((day) => ({
+          day: day.day,
+          date: day.date ?? null,
+          stops: parseStops(day.stops as unknown as Json),
+        }))
+    );
+  }
+
+  return [{ day: 1, date: null, stops: parseStops(spots) }];
+};
+
+export const renumberDays = (days: ItineraryDay[]): ItineraryDay[] =>
+  days.map((day, index) => ({ ...day, day: index + 1 }));
+
+export const flattenDays = (days: ItineraryDay[]): ItineraryStop[] =>
+  days.flatMap((day) => day.stops);
+
+export const countStops = (days: ItineraryDay[]) =>
+  days.reduce((total, day) => total + day.stops.length, 0);
+
+// Spreads stops over consecutive days, keeping their order
+export const splitIntoDays = (stops: ItineraryStop[], dayCount: number): ItineraryDay[] => {
+  const count = Math.max(1, Math.floor(dayCount));
+  const perDay = Math.ceil(stops.length / count) || 1;
+
+  return Array.from({ length: count }, (_, index) => ({
+    day: index + 1,
+    date: null,
+    stops: stops.slice(index * perDay, (index + 1) * perDay),
+  }));
+};
+
+export const addDay = (days: ItineraryDay[]): ItineraryDay[] =>
+  renumberDays([...days, { day: days.length + 1, date: null, stops: [] }]);
+
+// Removing a day moves its stops to the previous day so nothing is lost
+export const removeDay = (days: ItineraryDay[], dayIndex: number): ItineraryDay[] => {
+  if (days.length <= 1) return days;
+
+  const target = dayIndex === 0 ? 1 : dayIndex - 1;
+  const next = days.map((day, index) =>
+    index === target ? { ...day, stops: [...day.stops, ...days[dayIndex].stops] } : day
+  );
+  return renumberDays(next.filter((_, index) => index !== dayIndex));
+};
+
+export const moveStop = (
+  days: ItineraryDay[],
+  from: StopPosition,
+  to: StopPosition
+): ItineraryDay[] => {
+  const stop = days[from.dayIndex]?.stops[from.stopIndex];
+  if (!stop) return days;
+
+  const next = days.map((day) => ({ ...day, stops: [...day.stops] }));
+  next[from.dayIndex].stops.splice(from.stopIndex, 1);
+
+  let insertAt = to.stopIndex;
+  if (from.dayIndex === to.dayIndex && from.stopIndex < to.stopIndex) {
+    insertAt -= 1;
+  }
+  const targetStops = next[to.dayIndex].stops;
+  targetStops.splice(Math.max(0, Math.min(insertAt, targetStops.length)), 0, stop);
+
+  return next;
+};
+
+export const updateStop = (
+  days: ItineraryDay[],
+  position: StopPosition,
+  changes: Partial<ItineraryStop>
+): ItineraryDay[] =>
+  days.map((day, dayIndex) =>
+    dayIndex !== position.dayIndex
+      ? day
+      : {
+          ...day,
+          stops: day.stops.map((stop, stopIndex) =>
+            stopIndex === position.stopIndex ? { ...stop, ...changes } : stop
+          ),
+        }
+  );
+
+// One place earlier or later; past either end of a day the stop moves onto
+// the end of the previous day or the start of the next one
+export const stepStop = (days: ItineraryDay[], position: StopPosition, direction: -1 | 1): ItineraryDay[] => {
+  const { dayIndex, stopIndex } = position;
+  const count = days[dayIndex]?.stops.length ?? 0;
+
+  if (direction === -1) {
+    if (stopIndex > 0) return moveStop(days, position, { dayIndex, stopIndex: stopIndex - 1 });
+    if (dayIndex > 0) return moveStop(days, position, { dayIndex: dayIndex - 1, stopIndex: days[dayIndex - 1].stops.length });
+  } else {
+    // moveStop inserts before the target, after removing the stop itself
+    if (stopIndex < count - 1) return moveStop(days, position, { dayIndex, stopIndex: stopIndex + 2 });
+    if (dayIndex < days.length - 1) return moveStop(days, position, { dayIndex: dayIndex + 1, stopIndex: 0 });
+  }
+  return days;
+};
+
+export const removeStop = (days: ItineraryDay[], position: StopPosition): ItineraryDay[] =>
+  days.map((day, dayIndex) =>
+    dayIndex !== position.dayIndex
+      ? day
+      : { ...day, stops: day.stops.filter((_, stopIndex) => stopIndex !== position.stopIndex) }
+  );
+
+// Stops saved before types existed are spots
+export const stopType = (stop: ItineraryStop): ItineraryStopType => stop.type || "spot";
+
+export const hasCoordinates = (stop: ItineraryStop) =>
+  stop.latitude !== null &&
+  stop.latitude !== undefined &&
+  stop.longitude !== null &&
+  stop.longitude !== undefined;
+
+// `spots` is kept as the flattened list for older readers of the table
+export const toItineraryColumns = (days: ItineraryDay[]) => ({
+  days: renumberDays(days) as unknown as Json,
+  spots: flattenDays(days) as unknown as Json,
+});
+
+export const formatDuration = (minutes: number | null | undefined) => {
+  if (!minutes) return "";
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+};
+
+// "HH:mm" <-> minutes after midnight
+export const parseTime = (time: string | null | undefined) => {
+  if (!time) return null;
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10));
+  if (isNaN(hours) || isNaN(minutes)) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatTime = (totalMinutes: number) => {
+  const minutes = Math.round(totalMinutes);
+  const dayOffset = Math.floor(minutes / (24 * 60));
+  const withinDay = minutes - dayOffset * 24 * 60;
+  const time = `${String(Math.floor(withinDay / 60)).padStart(2, "0")}:${String(withinDay % 60).padStart(2, "0")}`;
+  return dayOffset > 0 ? `${time} (+${dayOffset}d)` : time;
+};
@@ -0,0 +1,21 @@
+import L from "leaflet";
+
+// Round, numbered pin used for ordered itinerary stops
+export const numberedIcon = (label: number, color: string) =>
+  L.divIcon({
+    className: "",
+    html: `<div style="background:${color};color:#fff;width:28px;height:28px;border-radius:9999px;border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,0.4);display:flex;align-items:center;justify-content:center;font-size:12px;font-weight:700;">${label}</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+    popupAnchor: [0, -14],
+  });
+
+// Small coloured dot for search results, one colour per kind of place
+export const dotIcon = (color: string) =>
+  L.divIcon({
+    className: "",
+    html: `<div style="background:${color};width:16px;height:16px;border-radius:9999px;border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,0.4);"></div>`,
+    iconSize: [16, 16],
+    iconAnchor: [8, 8],
+    popupAnchor: [0, -8],
+  });
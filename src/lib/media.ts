@@ -0,0 +1,154 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type MediaEntityType = "spot" | "accommodation" | "restaurant";
+
+export type Media = Tables<"media">;
+
+// A gallery entry being edited; new uploads keep the File and an object URL preview
+export interface MediaDraft {
+  key: string;
+  id?: string;
+  url: string;
+  storage_path?: string | null;
+  file?: File;
+  caption: string;
+  credit: string;
+  is_cover: boolean;
+}
+
+export const MEDIA_BUCKET = "spot-images";
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+
+// Folders the single-image uploads already used
+const MEDIA_FOLDERS: Record<MediaEntityType, string> = {
+  spot: "spots",
+  accommodation: "accommodations",
+  restaurant: "restaurants",
+};
+
+export const validateMediaFile = (file: File) => {
+  if (!file.type.startsWith("image/")) return `${file.name} is not an image`;
+  if (file.size > MAX_MEDIA_BYTES) return `${file.name} is larger than 5MB`;
+  return null;
+};
+
+export const fetchMedia = async (entityType: MediaEntityType, entityId: string) => {
+  const { data, error } = await supabase
+    .from("media")
+    .select("*")
+    .eq("entity_type", entityType)
+    .eq("entity_id", entityId)
+    .order("position");
+  if (error) throw error;
+  return data || [];
+};
+
+// Rows saved before galleries existed only have the entity's image_url
+export const toMediaDrafts = (media: Media[], imageUrl?: string | null): MediaDraft[] => {
+  if (media.length === 0 && imageUrl) {
+    return [{ key: imageUrl, url: imageUrl, caption: "", credit: "", is_cover: true }];
+  }
+  return media.map((item) => ({
+    key: item.id,
+    id: item.id,
+    url: item.url,
+    storage_path: item.storage_path,
+    caption: item.caption || "",
+    credit: item.credit || "",
+    is_cover: item.is_cover,
+  }));
+};
+
+export const fileToMediaDraft = (file: File): MediaDraft => ({
+  key: `${file.name}-${file.lastModified}-${Math.random().toString(36).substring(7)}`,
+  url: URL.createObjectURL(file),
+  file,
+  caption: "",
+  credit: "",
+  is_cover: false,
+});
+
+// The flagged cover, or the first photo when none is flagged
+export const coverOf = <T extends { is_cover: boolean }>(items: T[]) =>
+  items.find((item) => item.is_cover) || items[0];
+
+// Uploads any new files; the returned drafts all point at storage URLs
+export const uploadMediaFiles = async (entityType: MediaEntityType, drafts: MediaDraft[]) =>
+  Promise.all(
+    drafts.map(async (draft) => {
+      if (!draft.file) return draft;
+
+      const fileExt = draft.file.name.split(".").pop();
+      const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+      const filePath = `${MEDIA_FOLDERS[entityType]}/${fileName}`;
+
+      const { error } = await supabase.storage.from(MEDIA_BUCKET).upload(filePath, draft.file);
+      if (error) throw error;
+
+      const {
+        data: { publicUrl },
+      } = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(filePath);
+
+      URL.revokeObjectURL(draft.url);
+      return { ...draft, url: publicUrl, storage_path: filePath, file: undefined };
+    })
+  );
+
+// Makes the saved gallery match `drafts`, in order. Removed photos are
+// deleted from storage too when this app uploaded them.
+export const saveMedia = async (entityType: MediaEntityType, entityId: string, drafts: MediaDraft[]) => {
+  const existing = await fetchMedia(entityType, entityId);
+  const kept = new Set(drafts.map((draft) => draft.id).filter(Boolean));
+  const removed = existing.filter((item) => !kept.has(item.id));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from("media")
+      .delete()
+      .in("id", removed.map((item) => item.id));
+    if (error) throw error;
+
+    const paths = removed.map((item) => item.storage_path).filter(Boolean) as string[];
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage.from(MEDIA_BUCKET).remove(paths);
+      if (storageError) console.error("Error removing media files:", storageError);
+    }
+  }
+
+  // Only one cover is allowed at a time, so clear it before moving it
+  const { error: coverError } = await supabase
+    .from("media")
+    .update({ is_cover: false })
+    .eq("entity_type", entityType)
+    .eq("entity_id", entityId);
+  if (coverError) throw coverError;
+
+  if (drafts.length === 0) return;
+
+  const cover = coverOf(drafts);
+  const rows = drafts.map((draft, index) => ({
+    id: draft.id,
+    entity_type: entityType,
+    entity_id: entityId,
+    url: draft.url,
+    storage_path: draft.storage_path || null,
+    caption: draft.caption.trim() || null,
+    credit: draft.credit.trim() || null,
+    is_cover: draft === cover,
+    position: index,
+  }));
+
+  // Bulk writes need the same columns on every row, so new photos go separately
+  const updated = rows.filter((row) => row.id);
+  const added = rows.filter((row) => !row.id).map(({ id: _id, ...row }) => row);
+
+  if (updated.length > 0) {
+    const { error } = await supabase.from("media").upsert(updated);
+    if (error) throw error;
+  }
+  if (added.length > 0) {
+    const { error } = await supabase.from("media").insert(added);
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/client";
+import { LatLng } from "@/lib/geo";
+
+export type PlaceKind = "spot" | "accommodation" | "restaurant" | "event";
+
+export interface NearbyPlace {
+  kind: PlaceKind;
+  id: string;
+  name: string;
+  municipality: string | null;
+  location: string | null;
+  image_url: string | null;
+  latitude: number;
+  longitude: number;
+  distance_km: number;
+}
+
+export const PLACE_KINDS: { value: PlaceKind; label: string; color: string }[] = [
+  { value: "spot", label: "Spots", color: "#0ea5e9" },
+  { value: "accommodation", label: "Stays", color: "#a855f7" },
+  { value: "restaurant", label: "Food", color: "#f97316" },
+  { value: "event", label: "Events", color: "#ec4899" },
+];
+
+export const DEFAULT_RADIUS_KM = 10;
+export const MAX_RADIUS_KM = 50;
+
+export interface NearbyQuery {
+  point: LatLng;
+  radiusKm: number;
+  // All kinds when omitted
+  kinds?: PlaceKind[];
+  limit?: number;
+}
+
+// Distance search runs in Postgres (PostGIS), nearest first
+export const fetchNearbyPlaces = async ({ point, radiusKm, kinds, limit }: NearbyQuery) => {
+  const { data, error } = await supabase.rpc("nearby_places", {
+    _lat: point[0],
+    _lng: point[1],
+    _radius_km: radiusKm,
+    _kinds: kinds,
+    _limit: limit,
+  });
+  if (error) throw error;
+  return (data || []) as NearbyPlace[];
+};
+
+type PlaceLink = Pick<NearbyPlace, "kind" | "id" | "name"> & {
+  latitude: number | null;
+  longitude: number | null;
+};
+
+// Kinds with their own detail page
+export const DETAIL_PAGE_KINDS: PlaceKind[] = ["spot", "accommodation", "restaurant"];
+
+// Opens the map centred on the place, or Explore when it hasn't been pinned yet
+export const mapUrl = (place: PlaceLink) => {
+  if (place.latitude === null || place.longitude === null) return "/explore";
+  return `/map?lat=${place.latitude}&lng=${place.longitude}&name=${encodeURIComponent(place.name)}`;
+};
+
+export const placeUrl = (place: PlaceLink) =>
+  DETAIL_PAGE_KINDS.includes(place.kind) ? `/${place.kind}/${place.id}` : mapUrl(place);
+
+export const getCurrentPosition = () =>
+  new Promise<LatLng>((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Location is not supported on this device"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve([position.coords.latitude, position.coords.longitude]),
+      reject,
+      { enableHighAccuracy: false, maximumAge: 60000, timeout: 15000 }
+    );
+  });
@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ItineraryStop, STOP_TABLES, stopType } from "@/lib/itinerary";
+import { CachedTable, META_STORE, deleteOne, getAll, getOne, isIndexedDbAvailable, putOne, replaceAll } from "./db";
+
+// Public tables mirrored in full so browsing works without a connection
+export const CATALOGUE_TABLES: CachedTable[] = ["tourist_spots", "accommodations", "restaurants", "events"];
+
+type Row = { id: string } & Record<string, unknown>;
+type ItineraryRow = Row & { user_id: string; cached_for?: string };
+
+// Rows cached before sharing existed have no cached_for
+const cachedFor = (row: ItineraryRow) => row.cached_for ?? row.user_id;
+
+export const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
+
+// supabase-js reports a dropped connection as a failed fetch rather than throwing
+export const isNetworkError = (error: { message?: string } | null | undefined) =>
+  isOffline() || /failed to fetch|network|load failed/i.test(error?.message || "");
+
+export const syncCatalogue = async () => {
+  if (!isIndexedDbAvailable() || isOffline()) return false;
+
+  const results = await Promise.all(
+    CATALOGUE_TABLES.map(async (table) => {
+      const { data, error } = await supabase.from(table).select("*");
+      if (error) {
+        console.error(`Error caching ${table}:`, error);
+        return false;
+      }
+      await replaceAll(table, data || []);
+      return true;
+    })
+  );
+
+  await putOne(META_STORE, new Date().toISOString(), "catalogueSyncedAt");
+  return results.every(Boolean);
+};
+
+// Refreshes just the places an itinerary visits, so its stops open offline
+// even if the full catalogue has never been synced on this device
+export const cacheStops = async (stops: ItineraryStop[]) => {
+  if (!isIndexedDbAvailable() || isOffline()) return false;
+
+  const byTable = new Map<CachedTable, string[]>();
+  stops.forEach((stop) => {
+    const table = STOP_TABLES[stopType(stop)];
+    byTable.set(table, [...(byTable.get(table) || []), stop.id]);
+  });
+
+  const results = await Promise.all(
+    [...byTable].map(async ([table, ids]) => {
+      const { data, error } = await supabase.from(table).select("*").in("id", ids);
+      if (error) {
+        console.error(`Error caching ${table}:`, error);
+        return false;
+      }
+      await Promise.all((data || []).map((row) => cacheRow(table, row)));
+      return true;
+    })
+  );
+
+  return results.every(Boolean);
+};
+
+export const getCatalogueSyncedAt = () =>
+  isIndexedDbAvailable() ? getOne<string>(META_STORE, "catalogueSyncedAt") : Promise.resolve(undefined);
+
+export const getCachedRows = async <T = Row>(table: CachedTable) =>
+  isIndexedDbAvailable() ? getAll<T>(table) : [];
+
+export const getCachedRow = async <T = Row>(table: CachedTable, id: string) =>
+  isIndexedDbAvailable() ? getOne<T>(table, id) : undefined;
+
+export const cacheRow = async (table: CachedTable, row: Row) => {
+  if (isIndexedDbAvailable()) await putOne(table, row);
+};
+
+export const updateCachedRow = async (table: CachedTable, id: string, values: Record<string, unknown>) => {
+  const row = await getCachedRow(table, id);
+  if (row) await putOne(table, { ...row, ...values });
+};
+
+export const deleteCachedRow = async (table: CachedTable, id: string) => {
+  if (isIndexedDbAvailable()) await deleteOne(table, id);
+};
+
+// Rows are tagged with the account that cached them, since itineraries shared
+// with the user belong to someone else. Other accounts that used this device
+// keep their own cached itineraries.
+export const cacheItineraries = async (userId: string, rows: ItineraryRow[]) => {
+  if (!isIndexedDbAvailable()) return;
+  const others = (await getAll<ItineraryRow>("itineraries")).filter((row) => cachedFor(row) !== userId);
+  await replaceAll("itineraries", [...others, ...rows.map((row) => ({ ...row, cached_for: userId }))]);
+};
+
+export const getCachedItineraries = async (userId: string) =>
+  (await getCachedRows<ItineraryRow>("itineraries"))
+    .filter((row) => cachedFor(row) === userId)
+    .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
@@ -0,0 +1,82 @@
+// Minimal promise wrapper around IndexedDB for the offline cache
+
+const DB_NAME = "wanderer-offline";
+const DB_VERSION = 1;
+
+export const CACHED_TABLES = ["tourist_spots", "accommodations", "restaurants", "events", "itineraries"] as const;
+export type CachedTable = (typeof CACHED_TABLES)[number];
+
+export const OUTBOX_STORE = "outbox";
+export const META_STORE = "meta";
+
+type StoreName = CachedTable | typeof OUTBOX_STORE | typeof META_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== "undefined";
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        CACHED_TABLES.forEach((table) => {
+          if (!db.objectStoreNames.contains(table)) db.createObjectStore(table, { keyPath: "id" });
+        });
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "seq", autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T> | void
+) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = run(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getAll = async <T>(store: StoreName) =>
+  ((await withStore<T[]>(store, "readonly", (objectStore) => objectStore.getAll())) || []) as T[];
+
+export const getOne = <T>(store: StoreName, key: IDBValidKey) =>
+  withStore<T>(store, "readonly", (objectStore) => objectStore.get(key));
+
+export const putOne = (store: StoreName, value: unknown, key?: IDBValidKey) =>
+  withStore(store, "readwrite", (objectStore) => objectStore.put(value, key));
+
+export const deleteOne = (store: StoreName, key: IDBValidKey) =>
+  withStore(store, "readwrite", (objectStore) => objectStore.delete(key));
+
+// Replaces the whole store in one transaction so removed rows disappear too
+export const replaceAll = async (store: StoreName, values: unknown[]) => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(store, "readwrite");
+    const objectStore = transaction.objectStore(store);
+    objectStore.clear();
+    values.forEach((value) => objectStore.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
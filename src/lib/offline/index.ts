@@ -0,0 +1,36 @@
+import type { ItineraryDay } from "@/lib/itinerary";
+import { cacheStops } from "./cache";
+import { countMappedStops } from "./tiles";
+
+export {
+  cacheItineraries,
+  cacheRow,
+  cacheStops,
+  getCachedItineraries,
+  getCachedRow,
+  getCachedRows,
+  getCatalogueSyncedAt,
+  isNetworkError,
+  isOffline,
+  syncCatalogue,
+} from "./cache";
+export { applyPendingChanges, flushOutbox, getPendingChanges, onOutboxChange, queueChange } from "./outbox";
+export type { FlushResult, QueuedChange } from "./outbox";
+
+export const registerServiceWorker = () => {
+  if (!("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Error registering service worker:", error);
+    });
+  });
+};
+
+// Caches the itinerary's stops and reports how many of them already have map
+// tiles saved from browsing. Tiles are never pre-downloaded (see ./tiles).
+export const saveItineraryForOffline = async (days: ItineraryDay[]) => {
+  const stops = days.flatMap((day) => day.stops);
+  const [saved, tiles] = await Promise.all([cacheStops(stops), countMappedStops(stops)]);
+  return { saved, ...tiles };
+};
@@ -0,0 +1,147 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ItineraryPlan, isOutdatedError, saveItineraryPlan } from "@/lib/collaboration";
+import { OUTBOX_STORE, deleteOne, getAll, getOne, isIndexedDbAvailable, putOne } from "./db";
+import { deleteCachedRow, isNetworkError, isOffline, updateCachedRow } from "./cache";
+
+// Only itinerary edits can be made offline. Plan edits ("save_plan") carry
+// the version they were based on, so replaying them can't overwrite changes
+// other members saved in the meantime; "update" is for the owner's settings.
+export interface QueuedChange {
+  seq?: number;
+  table: "itineraries";
+  op: "update" | "save_plan" | "delete";
+  id: string;
+  values?: Record<string, unknown>;
+  baseVersion?: number;
+  queuedAt: string;
+}
+
+export interface FlushResult {
+  synced: number;
+  // Plan edits dropped because the itinerary changed on the server
+  conflicts: number;
+}
+
+type Listener = (pending: number) => void;
+const listeners = new Set<Listener>();
+
+const notify = async () => {
+  const pending = (await getPendingChanges()).length;
+  listeners.forEach((listener) => listener(pending));
+};
+
+export const onOutboxChange = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getPendingChanges = async () =>
+  isIndexedDbAvailable() ? getAll<QueuedChange>(OUTBOX_STORE) : [];
+
+// Applies the change to the cached copy and queues it for the server.
+// Repeated changes of one kind to a row collapse into a single change, keeping
+// the first base version, and a delete supersedes anything queued before it.
+export const queueChange = async (change: Omit<QueuedChange, "seq" | "queuedAt">) => {
+  if (change.op !== "delete") {
+    await updateCachedRow(change.table, change.id, change.values || {});
+  } else {
+    await deleteCachedRow(change.table, change.id);
+  }
+
+  const pending = await getPendingChanges();
+  const sameRow = pending.filter((queued) => queued.table === change.table && queued.id === change.id);
+  const queuedAt = new Date().toISOString();
+
+  if (change.op !== "delete") {
+    const existing = sameRow.find((queued) => queued.op === change.op);
+    if (existing) {
+      await putOne(OUTBOX_STORE, { ...existing, values: { ...existing.values, ...change.values }, queuedAt });
+      await notify();
+      return;
+    }
+  } else {
+    await Promise.all(sameRow.map((queued) => deleteOne(OUTBOX_STORE, queued.seq!)));
+  }
+
+  await putOne(OUTBOX_STORE, { ...change, queuedAt });
+  await notify();
+};
+
+// Overlays changes that have not reached the server yet on freshly fetched rows
+export const applyPendingChanges = async <T extends { id: string }>(table: QueuedChange["table"], rows: T[]) => {
+  const pending = (await getPendingChanges()).filter((change) => change.table === table);
+  if (pending.length === 0) return rows;
+
+  return rows
+    .filter((row) => !pending.some((change) => change.op === "delete" && change.id === row.id))
+    .map((row) => {
+      // A queued plan keeps its base version, so saving it again online is still checked
+      const updates = pending.filter((change) => change.op !== "delete" && change.id === row.id);
+      return updates.reduce(
+        (current, update) => ({
+          ...current,
+          ...update.values,
+          ...(update.baseVersion != null && { version: update.baseVersion }),
+        }),
+        row
+      );
+    });
+};
+
+const applyChange = async (change: QueuedChange) => {
+  if (change.op === "save_plan") {
+    try {
+      await saveItineraryPlan(change.id, change.baseVersion ?? 0, (change.values || {}) as ItineraryPlan);
+      return null;
+    } catch (error) {
+      return error as { message?: string; code?: string };
+    }
+  }
+
+  const query =
+    change.op === "delete"
+      ? supabase.from(change.table).delete().eq("id", change.id)
+      : supabase.from(change.table).update(change.values || {}).eq("id", change.id);
+  const { error } = await query;
+  return error;
+};
+
+let flushing: Promise<FlushResult> | null = null;
+
+// Replays queued changes in order. Stops at the first network failure and
+// keeps the rest queued; changes the server rejects are dropped, including
+// plan edits made on a copy that other members have changed since.
+export const flushOutbox = () => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    if (isOffline()) return { synced: 0, conflicts: 0 };
+
+    let synced = 0;
+    let conflicts = 0;
+    for (const change of await getPendingChanges()) {
+      const error = await applyChange(change);
+      if (error && isNetworkError(error)) break;
+      if (isOutdatedError(error)) {
+        conflicts++;
+      } else if (error) {
+        console.error("Dropping queued change the server rejected:", change, error);
+      }
+      // Skip removal if the change was re-queued while it was being sent
+      const current = await getOne<QueuedChange>(OUTBOX_STORE, change.seq!);
+      if (current && current.queuedAt === change.queuedAt) {
+        await deleteOne(OUTBOX_STORE, change.seq!);
+      }
+      if (!error) synced++;
+    }
+
+    await notify();
+    return { synced, conflicts };
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+};
@@ -0,0 +1,37 @@
+import { ItineraryStop, hasCoordinates } from "@/lib/itinerary";
+
+// Must match BROWSED_TILE_CACHE in public/sw.js
+const BROWSED_TILE_CACHE = "wanderer-browsed-tiles-v1";
+
+// Street-level zooms; a stop only seen zoomed out to the whole province is not
+// much use for finding your way once there
+const STREET_ZOOMS = [14, 15, 16, 17];
+
+const tileKey = (latitude: number, longitude: number, zoom: number) => {
+  const scale = 2 ** zoom;
+  const latRad = (latitude * Math.PI) / 180;
+  const x = Math.floor(((longitude + 180) / 360) * scale);
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale);
+  return `${zoom}/${x}/${y}`;
+};
+
+// Stops whose surroundings are in the service worker's viewed-tile cache.
+// Nothing is downloaded here: the OpenStreetMap tile policy forbids bulk
+// downloads, so the user has to look at each stop on the map themselves.
+export const countMappedStops = async (stops: ItineraryStop[]) => {
+  const located = stops.filter(hasCoordinates);
+  if (typeof caches === "undefined" || !(await caches.has(BROWSED_TILE_CACHE))) {
+    return { mapped: 0, total: located.length };
+  }
+
+  const cache = await caches.open(BROWSED_TILE_CACHE);
+  const cached = new Set(
+    (await cache.keys()).map((request) => new URL(request.url).pathname.replace(/^\//, "").replace(/\.png$/, ""))
+  );
+
+  const mapped = located.filter((stop) =>
+    STREET_ZOOMS.some((zoom) => cached.has(tileKey(Number(stop.latitude), Number(stop.longitude), zoom)))
+  ).length;
+
+  return { mapped, total: located.length };
+};
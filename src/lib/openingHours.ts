@@ -0,0 +1,252 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { ItineraryDay, ItineraryStop, STOP_TABLES, formatTime, parseTime, stopType } from "@/lib/itinerary";
+import { getCachedRows, isNetworkError } from "@/lib/offline";
+
+// Albay keeps Philippine time whatever the visitor's device is set to
+export const PLACE_TIME_ZONE = "Asia/Manila";
+
+// "HH:mm"; a close at or before the open time runs past midnight,
+// and 00:00–00:00 means open all day
+export interface TimeRange {
+  open: string;
+  close: string;
+}
+
+export type HoursExceptionKind = "holiday" | "seasonal";
+
+// Overrides the weekly schedule from start_date through end_date (inclusive).
+// Seasonal closures may leave end_date empty until they're lifted.
+export interface HoursException {
+  kind: HoursExceptionKind;
+  start_date: string;
+  end_date?: string | null;
+  closed: boolean;
+  hours?: TimeRange[];
+  reason?: string | null;
+}
+
+export interface OpeningHours {
+  // Keyed by Date#getDay(), "0" for Sunday; a missing or empty day is closed
+  weekly: Record<string, TimeRange[]>;
+  exceptions: HoursException[];
+}
+
+export const WEEKDAYS = [
+  { value: 0, label: "Sunday", short: "Sun" },
+  { value: 1, label: "Monday", short: "Mon" },
+  { value: 2, label: "Tuesday", short: "Tue" },
+  { value: 3, label: "Wednesday", short: "Wed" },
+  { value: 4, label: "Thursday", short: "Thu" },
+  { value: 5, label: "Friday", short: "Fri" },
+  { value: 6, label: "Saturday", short: "Sat" },
+];
+
+export const EXCEPTION_KINDS: { value: HoursExceptionKind; label: string }[] = [
+  { value: "holiday", label: "Holiday" },
+  { value: "seasonal", label: "Seasonal closure" },
+];
+
+export const emptyOpeningHours = (): OpeningHours => ({ weekly: {}, exceptions: [] });
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const isTimeRange = (value: unknown): value is TimeRange =>
+  !!value &&
+  typeof value === "object" &&
+  typeof (value as TimeRange).open === "string" &&
+  typeof (value as TimeRange).close === "string";
+
+// null means the place hasn't published its hours, not that it's closed
+export const parseOpeningHours = (value: Json | null | undefined): OpeningHours | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const raw = value as { weekly?: unknown; exceptions?: unknown };
+  const weekly: Record<string, TimeRange[]> = {};
+  if (raw.weekly && typeof raw.weekly === "object") {
+    Object.entries(raw.weekly as Record<string, unknown>).forEach(([day, ranges]) => {
+      if (Array.isArray(ranges)) weekly[day] = ranges.filter(isTimeRange);
+    });
+  }
+
+  const exceptions = Array.isArray(raw.exceptions)
+    ? (raw.exceptions as HoursException[])
+        .filter((item) => item && typeof item === "object" && typeof item.start_date === "string")
+        .map((item) => ({ ...item, hours: (item.hours || []).filter(isTimeRange) }))
+    : [];
+
+  return { weekly, exceptions };
+};
+
+export const toOpeningHoursJson = (hours: OpeningHours | null) => hours as unknown as Json;
+
+// Date#getDay() for a "YYYY-MM-DD" string, independent of the device time zone
+export const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export const shiftDate = (date: string, days: number) => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+};
+
+// The current date and time at the place, as "YYYY-MM-DD" and "HH:mm"
+export const placeNow = (now = new Date()) => {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: PLACE_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((item) => item.type === type)?.value || "00";
+  return { date: `${part("year")}-${part("month")}-${part("day")}`, time: `${part("hour")}:${part("minute")}` };
+};
+
+export const findException = (hours: OpeningHours, date: string) =>
+  hours.exceptions.find((item) => item.start_date <= date && (!item.end_date || item.end_date >= date));
+
+export const hoursForDate = (hours: OpeningHours, date: string) => {
+  const exception = findException(hours, date);
+  if (exception) return { ranges: exception.closed ? [] : exception.hours || [], exception };
+  return { ranges: hours.weekly[String(weekdayOf(date))] || [], exception: undefined };
+};
+
+// Ranges as minutes from the start of `date`, including the previous day's
+// late-night hours that spill over midnight
+const openWindows = (hours: OpeningHours, date: string) => {
+  const toWindow = (range: TimeRange, offset: number) => {
+    const open = parseTime(range.open) ?? 0;
+    let close = parseTime(range.close) ?? 0;
+    if (close <= open) close += MINUTES_PER_DAY;
+    return { start: open + offset, end: close + offset };
+  };
+
+  return [
+    ...hoursForDate(hours, shiftDate(date, -1)).ranges.map((range) => toWindow(range, -MINUTES_PER_DAY)),
+    ...hoursForDate(hours, date).ranges.map((range) => toWindow(range, 0)),
+  ].filter((window) => window.end > 0);
+};
+
+export const isOpenAt = (hours: OpeningHours, date: string, time: string, durationMinutes = 0) => {
+  const start = parseTime(time);
+  if (start === null) return openWindows(hours, date).length > 0;
+  const end = start + Math.max(0, durationMinutes);
+  return openWindows(hours, date).some((window) => window.start <= start && end <= window.end);
+};
+
+export const formatRanges = (ranges: TimeRange[]) => {
+  if (ranges.length === 0) return "Closed";
+  if (ranges.some((range) => range.open === "00:00" && range.close === "00:00")) return "Open 24 hours";
+  return ranges.map((range) => `${range.open}–${range.close}`).join(", ");
+};
+
+export const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-PH", { month: "short", day: "numeric", timeZone: "UTC" });
+
+const describeException = (exception: HoursException) =>
+  exception.reason || EXCEPTION_KINDS.find((kind) => kind.value === exception.kind)?.label || "";
+
+export interface OpenStatus {
+  open: boolean;
+  label: string;
+  detail?: string;
+}
+
+export const getOpenStatus = (hours: OpeningHours, now = new Date()): OpenStatus => {
+  const { date, time } = placeNow(now);
+  const minutes = parseTime(time) ?? 0;
+  const { exception } = hoursForDate(hours, date);
+  const current = openWindows(hours, date).find((window) => window.start <= minutes && minutes < window.end);
+
+  if (current) {
+    const closesAt = current.end - current.start >= MINUTES_PER_DAY ? null : current.end % MINUTES_PER_DAY;
+    return {
+      open: true,
+      label: "Open now",
+      detail: closesAt === null ? "Open 24 hours" : `Closes ${formatTime(closesAt)}`,
+    };
+  }
+
+  if (exception?.closed) {
+    return {
+      open: false,
+      label: "Closed",
+      detail: exception.end_date
+        ? `${describeException(exception)} until ${formatShortDate(exception.end_date)}`
+        : `${describeException(exception)} until further notice`,
+    };
+  }
+
+  // Look ahead a week for the next opening
+  for (let offset = 0; offset < 7; offset++) {
+    const day = shiftDate(date, offset);
+    const next = hoursForDate(hours, day)
+      .ranges.map((range) => parseTime(range.open) ?? 0)
+      .filter((open) => offset > 0 || open > minutes)
+      .sort((a, b) => a - b)[0];
+    if (next !== undefined) {
+      const when = offset === 0 ? "" : offset === 1 ? " tomorrow" : ` ${WEEKDAYS[weekdayOf(day)].short}`;
+      return { open: false, label: "Closed", detail: `Opens${when} ${formatTime(next)}` };
+    }
+  }
+
+  return { open: false, label: "Closed" };
+};
+
+const SAMPLE_SUNDAY = "2024-01-07";
+
+// Why a planned visit doesn't fit the place's hours, or null when it does
+// (or when there isn't enough information to tell)
+export const checkVisit = (
+  hours: OpeningHours | null | undefined,
+  date: string | null | undefined,
+  startTime: string | null | undefined,
+  durationMinutes?: number | null
+): string | null => {
+  if (!hours) return null;
+
+  if (!date) {
+    // Without a date, only flag times the place is never open
+    if (!startTime) return null;
+    const weekly = { ...hours, exceptions: [] };
+    const openSomeDay = WEEKDAYS.some((day) =>
+      isOpenAt(weekly, shiftDate(SAMPLE_SUNDAY, day.value), startTime, durationMinutes || 0)
+    );
+    return openSomeDay ? null : `Not open at ${startTime} on any day`;
+  }
+
+  const { ranges, exception } = hoursForDate(hours, date);
+  if (exception?.closed) return `Closed: ${describeException(exception)}`;
+  if (startTime ? isOpenAt(hours, date, startTime, durationMinutes || 0) : ranges.length > 0) return null;
+
+  return ranges.length === 0
+    ? `Closed on ${WEEKDAYS[weekdayOf(date)].label}s`
+    : `Outside opening hours (${formatRanges(ranges)})`;
+};
+
+// Events run on their own schedule rather than opening hours
+const hoursTable = (stop: ItineraryStop) => {
+  const type = stopType(stop);
+  return type === "event" ? null : STOP_TABLES[type];
+};
+
+// Falls back to the offline copy of the catalogue when there's no connection
+export const fetchOpeningHours = async (days: ItineraryDay[]): Promise<Map<string, OpeningHours | null>> => {
+  const stops = days.flatMap((day) => day.stops).filter((stop) => hoursTable(stop));
+  const tables = Array.from(new Set(stops.map(hoursTable)));
+
+  const results = await Promise.all(
+    tables.map(async (table) => {
+      const ids = stops.filter((stop) => hoursTable(stop) === table).map((stop) => stop.id);
+      const { data, error } = await supabase.from(table).select("id, opening_hours").in("id", ids);
+      if (!error) return (data || []) as { id: string; opening_hours: Json | null }[];
+      if (!isNetworkError(error)) throw error;
+      const cached = await getCachedRows<{ id: string; opening_hours?: Json | null }>(table);
+      return cached.filter((row) => ids.includes(row.id));
+    })
+  );
+
+  return new Map(results.flat().map((row) => [row.id, parseOpeningHours(row.opening_hours)]));
+};
@@ -0,0 +1,146 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ALBAY_MUNICIPALITIES, AlbayDistrict, Municipality, findMunicipality } from "@/lib/albay";
+import { LatLng } from "@/lib/geo";
+
+// photo_url is a signed URL for the check-in photo, null when there is none
+export type CheckIn = Tables<"check_ins"> & {
+  tourist_spots: { name: string; municipality: string | null; image_url: string | null } | null;
+  photo_url: string | null;
+};
+
+export const CHECK_IN_PHOTO_BUCKET = "check-in-photos";
+// Long enough for a page visit; check-ins are re-signed on every fetch
+const SIGNED_URL_SECONDS = 60 * 60;
+// Keep in sync with the tourist_spots.check_in_radius_m default
+export const DEFAULT_CHECK_IN_RADIUS_M = 250;
+
+export interface PassportSpot {
+  id: string;
+  municipality: string | null;
+}
+
+export interface MunicipalityStamp {
+  municipality: Municipality;
+  totalSpots: number;
+  visitedSpots: number;
+  // First verified check-in in the town, null until the stamp is earned
+  stampedAt: string | null;
+  percent: number;
+}
+
+export interface DistrictStamp {
+  district: AlbayDistrict;
+  towns: MunicipalityStamp[];
+  stampedTowns: number;
+  // A district stamp needs every town in it
+  complete: boolean;
+  percent: number;
+}
+
+export interface Passport {
+  towns: MunicipalityStamp[];
+  districts: DistrictStamp[];
+  stampedTowns: number;
+  percent: number;
+}
+
+export const fetchCheckIns = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("check_ins")
+    .select("*, tourist_spots(name, municipality, image_url)")
+    .eq("user_id", userId)
+    .order("checked_in_at", { ascending: false });
+  if (error) throw error;
+  return signCheckInPhotos(data || []);
+};
+
+// The bucket is private and only the owner may read their photos
+const signCheckInPhotos = async (checkIns: Omit<CheckIn, "photo_url">[]): Promise<CheckIn[]> => {
+  const paths = checkIns.flatMap((checkIn) => (checkIn.photo_storage_path ? [checkIn.photo_storage_path] : []));
+  if (paths.length === 0) return checkIns.map((checkIn) => ({ ...checkIn, photo_url: null }));
+
+  const { data, error } = await supabase.storage.from(CHECK_IN_PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) {
+    console.error("Error signing check-in photos:", error);
+  }
+
+  const urls = new Map((data || []).filter((item) => item.signedUrl).map((item) => [item.path, item.signedUrl]));
+  return checkIns.map((checkIn) => ({
+    ...checkIn,
+    photo_url: checkIn.photo_storage_path ? urls.get(checkIn.photo_storage_path) || null : null,
+  }));
+};
+
+export const fetchPassportSpots = async () => {
+  const { data, error } = await supabase.from("tourist_spots").select("id, municipality");
+  if (error) throw error;
+  return (data || []) as PassportSpot[];
+};
+
+// The photo goes up first so the check-in row can point at it; if the server
+// rejects the check-in (too far away, too soon) the file is removed again.
+export const checkInAtSpot = async (userId: string, spotId: string, point: LatLng, photo?: File | null) => {
+  let photoPath: string | null = null;
+
+  if (photo) {
+    const fileExt = photo.name.split(".").pop();
+    photoPath = `${userId}/${spotId}-${Date.now()}.${fileExt}`;
+
+    const { error } = await supabase.storage.from(CHECK_IN_PHOTO_BUCKET).upload(photoPath, photo);
+    if (error) throw error;
+  }
+
+  const { data, error } = await supabase.rpc("check_in_at_spot", {
+    _spot_id: spotId,
+    _lat: point[0],
+    _lng: point[1],
+    _photo_storage_path: photoPath,
+  });
+
+  if (error) {
+    if (photoPath) await supabase.storage.from(CHECK_IN_PHOTO_BUCKET).remove([photoPath]);
+    throw error;
+  }
+  return data;
+};
+
+const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+// A town is stamped by any verified check-in there; its percentage is how many
+// of its listed spots have been checked into.
+export const buildPassport = (spots: PassportSpot[], checkIns: CheckIn[]): Passport => {
+  const spotTown = new Map<string, string>();
+  spots.forEach((spot) => {
+    const town = findMunicipality(spot.municipality);
+    if (town) spotTown.set(spot.id, town.name);
+  });
+
+  const towns = ALBAY_MUNICIPALITIES.map((municipality) => {
+    const townCheckIns = checkIns.filter((checkIn) => spotTown.get(checkIn.spot_id) === municipality.name);
+    const totalSpots = spots.filter((spot) => spotTown.get(spot.id) === municipality.name).length;
+    const visitedSpots = new Set(townCheckIns.map((checkIn) => checkIn.spot_id)).size;
+    const stampedAt = townCheckIns.reduce<string | null>(
+      (first, checkIn) => (!first || checkIn.checked_in_at < first ? checkIn.checked_in_at : first),
+      null
+    );
+
+    return { municipality, totalSpots, visitedSpots, stampedAt, percent: percentOf(visitedSpots, totalSpots) };
+  });
+
+  const districts = (["District 1", "District 2", "District 3"] as AlbayDistrict[]).map((district) => {
+    const districtTowns = towns.filter((town) => town.municipality.district === district);
+    const stampedTowns = districtTowns.filter((town) => town.stampedAt).length;
+    return {
+      district,
+      towns: districtTowns,
+      stampedTowns,
+      complete: stampedTowns === districtTowns.length,
+      percent: percentOf(stampedTowns, districtTowns.length),
+    };
+  });
+
+  const stampedTowns = towns.filter((town) => town.stampedAt).length;
+
+  return { towns, districts, stampedTowns, percent: percentOf(stampedTowns, towns.length) };
+};
@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { BudgetTier } from "@/lib/budget";
+import { LatLng } from "@/lib/geo";
+import { fetchNearbyPlaces } from "@/lib/nearby";
+
+export type Restaurant = Tables<"restaurants">;
+
+export const CUISINE_TAGS = [
+  "Bicolano",
+  "Filipino",
+  "Seafood",
+  "Grilled",
+  "Noodles",
+  "Vegetarian-friendly",
+  "Halal",
+  "Chinese",
+  "Korean",
+  "Japanese",
+  "Western",
+  "Desserts",
+  "Coffee",
+  "Street food",
+];
+
+export const PRICE_LEVEL_SYMBOLS: Record<BudgetTier, string> = {
+  budget: "₱",
+  moderate: "₱₱",
+  premium: "₱₱₱",
+};
+
+export const DEFAULT_MEAL_MINUTES = 60;
+export const RESTAURANT_RADIUS_KM = 5;
+
+export type RestaurantWithDistance = Restaurant & { distance_km: number };
+
+// Nearest first. The distance search runs server-side; details are joined here.
+export const fetchRestaurantsNear = async (point: LatLng, radiusKm: number): Promise<RestaurantWithDistance[]> => {
+  const places = await fetchNearbyPlaces({ point, radiusKm, kinds: ["restaurant"], limit: 50 });
+  if (places.length === 0) return [];
+
+  const ids = places.map((place) => place.id);
+  const { data, error } = await supabase.from("restaurants").select("*").in("id", ids);
+  if (error) throw error;
+
+  const byId = new Map((data || []).map((restaurant) => [restaurant.id, restaurant]));
+  return places
+    .filter((place) => byId.has(place.id))
+    .map((place) => ({ ...byId.get(place.id)!, distance_km: place.distance_km }));
+};
@@ -0,0 +1,102 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ReviewPhotoStatus = "pending" | "approved" | "rejected";
+
+// url is a signed URL, null once the file is gone (rejected photos)
+export type ReviewPhoto = Tables<"review_photos"> & { url: string | null };
+
+export const REVIEW_PHOTO_BUCKET = "review-photos";
+// Keep in sync with check_review_photo_limit()
+export const MAX_REVIEW_PHOTOS = 4;
+// Long enough for a page visit; lists are re-signed on every fetch
+const SIGNED_URL_SECONDS = 60 * 60;
+
+export const REVIEW_PHOTO_STATUS_STYLES: Record<ReviewPhotoStatus, string> = {
+  pending: "bg-amber-100 text-amber-900 border-amber-300",
+  approved: "bg-green-100 text-green-900 border-green-300",
+  rejected: "bg-red-100 text-red-900 border-red-300",
+};
+
+// Uploads into the user's own folder, which is what the storage policy allows
+export const uploadReviewPhotos = async (userId: string, reviewId: string, files: File[]) => {
+  const rows = await Promise.all(
+    files.slice(0, MAX_REVIEW_PHOTOS).map(async (file, index) => {
+      const fileExt = file.name.split(".").pop();
+      const filePath = `${userId}/${reviewId}-${Date.now()}-${index}.${fileExt}`;
+
+      const { error } = await supabase.storage.from(REVIEW_PHOTO_BUCKET).upload(filePath, file);
+      if (error) throw error;
+
+      return { review_id: reviewId, user_id: userId, storage_path: filePath, position: index };
+    })
+  );
+
+  const { error } = await supabase.from("review_photos").insert(rows);
+  if (error) throw error;
+};
+
+// The bucket is private; storage policies only sign files the viewer may see
+export const signReviewPhotos = async (photos: Tables<"review_photos">[]): Promise<ReviewPhoto[]> => {
+  const paths = photos.filter((photo) => photo.status !== "rejected").map((photo) => photo.storage_path);
+  if (paths.length === 0) return photos.map((photo) => ({ ...photo, url: null }));
+
+  const { data, error } = await supabase.storage.from(REVIEW_PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) throw error;
+
+  const urls = new Map((data || []).filter((item) => item.signedUrl).map((item) => [item.path, item.signedUrl]));
+  return photos.map((photo) => ({ ...photo, url: urls.get(photo.storage_path) || null }));
+};
+
+// Admins can read every photo, so public lists filter again here
+export const fetchReviewPhotos = async (reviewIds: string[], currentUserId: string | null) => {
+  if (reviewIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("review_photos")
+    .select("*")
+    .in("review_id", reviewIds)
+    .neq("status", "rejected")
+    .order("position");
+  if (error) throw error;
+
+  return signReviewPhotos(
+    (data || []).filter((photo) => photo.status === "approved" || photo.user_id === currentUserId)
+  );
+};
+
+// Rejected files are deleted; the row stays with its reason for the record
+export const moderateReviewPhoto = async (
+  photo: Pick<ReviewPhoto, "id" | "storage_path">,
+  moderatorId: string,
+  status: ReviewPhotoStatus,
+  rejectionReason?: string
+) => {
+  const { error } = await supabase
+    .from("review_photos")
+    .update({
+      status,
+      rejection_reason: status === "rejected" ? rejectionReason?.trim() || null : null,
+      moderated_by: moderatorId,
+      moderated_at: new Date().toISOString(),
+    })
+    .eq("id", photo.id);
+  if (error) throw error;
+
+  if (status === "rejected") await removeReviewPhotoFiles([photo.storage_path]);
+};
+
+// Every file of a review, whatever its status; read before deleting the
+// review since the rows go with it
+export const fetchReviewPhotoPaths = async (reviewId: string) => {
+  const { data, error } = await supabase.from("review_photos").select("storage_path").eq("review_id", reviewId);
+  if (error) throw error;
+  return (data || []).map((photo) => photo.storage_path);
+};
+
+// Rows go with their review; the files have to be removed separately
+export const removeReviewPhotoFiles = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(REVIEW_PHOTO_BUCKET).remove(paths);
+  if (error) console.error("Error removing review photos:", error);
+};
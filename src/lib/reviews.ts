@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ReviewPhoto, fetchReviewPhotos } from "@/lib/reviewPhotos";
+
+export type ReviewEntityType = "spot" | "accommodation" | "restaurant" | "event";
+
+export const REVIEW_ENTITY_TYPES: { value: ReviewEntityType; label: string }[] = [
+  { value: "spot", label: "Spots" },
+  { value: "accommodation", label: "Accommodations" },
+  { value: "restaurant", label: "Restaurants" },
+  { value: "event", label: "Events" },
+];
+
+// Where each entity type's names live, for admin lists
+export const REVIEW_ENTITY_TABLES = {
+  spot: "tourist_spots",
+  accommodation: "accommodations",
+  restaurant: "restaurants",
+  event: "events",
+} as const;
+
+export type ReviewStats = Tables<"review_stats">;
+
+export interface Review {
+  id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  user_id: string;
+  user_name: string;
+  photos: ReviewPhoto[];
+}
+
+// Newest first, with reviewer names and the photos the current user may see
+export const fetchReviews = async (
+  entityType: ReviewEntityType,
+  entityId: string,
+  currentUserId: string | null
+): Promise<Review[]> => {
+  const { data, error } = await supabase
+    .from("reviews")
+    .select("*")
+    .eq("entity_type", entityType)
+    .eq("entity_id", entityId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const reviews = data || [];
+  const userIds = [...new Set(reviews.map((review) => review.user_id))];
+
+  const [{ data: profiles }, photos] = await Promise.all([
+    userIds.length > 0
+      ? supabase.from("profiles").select("id, full_name").in("id", userIds)
+      : Promise.resolve({ data: [] as { id: string; full_name: string | null }[] }),
+    fetchReviewPhotos(
+      reviews.map((review) => review.id),
+      currentUserId
+    ).catch((photoError) => {
+      console.error("Error fetching review photos:", photoError);
+      return [] as ReviewPhoto[];
+    }),
+  ]);
+
+  const names = new Map((profiles || []).map((profile) => [profile.id, profile.full_name]));
+
+  return reviews.map((review) => ({
+    id: review.id,
+    rating: review.rating,
+    comment: review.comment,
+    created_at: review.created_at,
+    user_id: review.user_id,
+    user_name: names.get(review.user_id) || "Anonymous",
+    photos: photos.filter((photo) => photo.review_id === review.id),
+  }));
+};
+
+export const fetchReviewStats = async (entityType: ReviewEntityType, entityIds: string[]) => {
+  if (entityIds.length === 0) return new Map<string, ReviewStats>();
+
+  const { data, error } = await supabase
+    .from("review_stats")
+    .select("*")
+    .eq("entity_type", entityType)
+    .in("entity_id", entityIds);
+  if (error) throw error;
+
+  return new Map((data || []).map((stats) => [stats.entity_id, stats]));
+};
@@ -0,0 +1,133 @@
+import { LatLng } from "@/lib/geo";
+import { ItineraryStop, hasCoordinates } from "@/lib/itinerary";
+import { CostMatrices, getTravelMatrix } from "@/lib/routing";
+
+export interface TourTotals {
+  distanceKm: number;
+  durationMin: number | null;
+}
+
+export interface StartPoint {
+  name: string;
+  coords: LatLng;
+}
+
+export interface OptimizedStops {
+  stops: ItineraryStop[];
+  before: TourTotals;
+  after: TourTotals;
+  provider: string;
+  approximate: boolean;
+  // Stops without coordinates stay at the end in their original order
+  unplaced: number;
+}
+
+export const pathCost = (order: number[], matrix: number[][]) => {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += matrix[order[i - 1]][order[i]];
+  }
+  return total;
+};
+
+export const nearestNeighbour = (matrix: number[][], start: number) => {
+  const order = [start];
+  const remaining = new Set(matrix.map((_, index) => index).filter((index) => index !== start));
+
+  while (remaining.size > 0) {
+    const last = order[order.length - 1];
+    let next = -1;
+    remaining.forEach((candidate) => {
+      if (next === -1 || matrix[last][candidate] < matrix[last][next]) {
+        next = candidate;
+      }
+    });
+    order.push(next);
+    remaining.delete(next);
+  }
+
+  return order;
+};
+
+// 2-opt on an open path. Segment reversal is re-costed in full because
+// road durations are not symmetric.
+export const twoOpt = (initial: number[], matrix: number[][], fixedStart: boolean) => {
+  let order = [...initial];
+  let best = pathCost(order, matrix);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = fixedStart ? 1 : 0; i < order.length - 1; i++) {
+      for (let k = i + 1; k < order.length; k++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+        const cost = pathCost(candidate, matrix);
+        if (cost < best - 1e-9) {
+          order = candidate;
+          best = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+};
+
+// With a fixed start the path begins at index 0, otherwise every start is tried
+export const solveOpenTour = (matrix: number[][], fixedStart: boolean) => {
+  if (matrix.length <= 2) return matrix.map((_, index) => index);
+
+  const starts = fixedStart ? [0] : matrix.map((_, index) => index);
+  let bestOrder: number[] = [];
+  let bestCost = Infinity;
+
+  for (const start of starts) {
+    const order = twoOpt(nearestNeighbour(matrix, start), matrix, fixedStart);
+    const cost = pathCost(order, matrix);
+    if (cost < bestCost) {
+      bestOrder = order;
+      bestCost = cost;
+    }
+  }
+
+  return bestOrder;
+};
+
+const totals = (order: number[], matrices: CostMatrices): TourTotals => ({
+  distanceKm: pathCost(order, matrices.distanceKm),
+  durationMin: matrices.durationMin && !matrices.approximate ? pathCost(order, matrices.durationMin) : null,
+});
+
+export const optimizeStops = async (
+  stops: ItineraryStop[],
+  start: StartPoint | null = null
+): Promise<OptimizedStops> => {
+  const placed = stops.filter(hasCoordinates);
+  const unplaced = stops.filter((stop) => !hasCoordinates(stop));
+  const offset = start ? 1 : 0;
+
+  const points: LatLng[] = [
+    ...(start ? [start.coords] : []),
+    ...placed.map((stop) => [Number(stop.latitude), Number(stop.longitude)] as LatLng),
+  ];
+
+  const matrices = await getTravelMatrix(points);
+  // Straight-line durations are just scaled distances, so optimise distance then
+  const metric = matrices.approximate ? matrices.distanceKm : matrices.durationMin ?? matrices.distanceKm;
+
+  const originalOrder = points.map((_, index) => index);
+  const optimizedOrder = solveOpenTour(metric, start !== null);
+
+  return {
+    stops: [
+      ...optimizedOrder.filter((index) => index >= offset).map((index) => placed[index - offset]),
+      ...unplaced,
+    ],
+    before: totals(originalOrder, matrices),
+    after: totals(optimizedOrder, matrices),
+    provider: matrices.provider,
+    approximate: matrices.approximate,
+    unplaced: unplaced.length,
+  };
+};
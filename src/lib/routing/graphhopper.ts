@@ -0,0 +1,107 @@
+import { LatLng } from "@/lib/geo";
+import { RouteLeg, RouteStep, RoutingProvider, TravelMode } from "./types";
+import { flattenSteps } from "./steps";
+
+const PROFILES: Record<TravelMode, string> = {
+  driving: "car",
+  walking: "foot",
+  cycling: "bike",
+};
+
+interface GraphHopperInstruction {
+  sign: number;
+  text: string;
+  street_name: string;
+  distance: number;
+  time: number;
+  interval: [number, number];
+}
+
+// https://docs.graphhopper.com/#operation/getRoute (instruction signs)
+const toManeuver = (sign: number): { maneuver: string; modifier?: string } => {
+  switch (sign) {
+    case -3:
+      return { maneuver: "turn", modifier: "sharp left" };
+    case -2:
+      return { maneuver: "turn", modifier: "left" };
+    case -1:
+      return { maneuver: "turn", modifier: "slight left" };
+    case 1:
+      return { maneuver: "turn", modifier: "slight right" };
+    case 2:
+      return { maneuver: "turn", modifier: "right" };
+    case 3:
+      return { maneuver: "turn", modifier: "sharp right" };
+    case 4:
+      return { maneuver: "arrive" };
+    case 5:
+      return { maneuver: "waypoint" };
+    case 6:
+      return { maneuver: "roundabout" };
+    case -7:
+      return { maneuver: "fork", modifier: "left" };
+    case 7:
+      return { maneuver: "fork", modifier: "right" };
+    default:
+      return { maneuver: "continue" };
+  }
+};
+
+export const createGraphHopperProvider = (baseUrl: string, apiKey?: string): RoutingProvider => ({
+  name: "graphhopper",
+
+  route: async (waypoints, mode) => {
+    const params = new URLSearchParams({
+      profile: PROFILES[mode],
+      points_encoded: "false",
+      instructions: "true",
+    });
+    waypoints.forEach(([lat, lng]) => params.append("point", `${lat},${lng}`));
+    if (apiKey) params.set("key", apiKey);
+
+    const response = await fetch(`${baseUrl}/route?${params.toString()}`);
+    const data = await response.json();
+
+    if (!response.ok || !data.paths || data.paths.length === 0) {
+      throw new Error(data.message || "Unable to calculate route");
+    }
+
+    const path = data.paths[0];
+    const coordinates: LatLng[] = path.points.coordinates.map(
+      (coord: [number, number]) => [coord[1], coord[0]] as LatLng
+    );
+
+    // GraphHopper returns one instruction list; "via reached" splits it into legs
+    const legs: RouteLeg[] = [{ distanceKm: 0, durationMin: 0, steps: [] }];
+    (path.instructions as GraphHopperInstruction[]).forEach((instruction) => {
+      const leg = legs[legs.length - 1];
+      const step: RouteStep = {
+        instruction: instruction.text,
+        ...toManeuver(instruction.sign),
+        name: instruction.street_name || "",
+        distanceKm: instruction.distance / 1000,
+        durationMin: instruction.time / 60000,
+        location: coordinates[instruction.interval[0]],
+      };
+      if (legs.length === 1 && leg.steps.length === 0) step.maneuver = "depart";
+
+      leg.steps.push(step);
+      leg.distanceKm += step.distanceKm;
+      leg.durationMin += step.durationMin;
+
+      if (instruction.sign === 5) {
+        legs.push({ distanceKm: 0, durationMin: 0, steps: [] });
+      }
+    });
+
+    return {
+      distanceKm: path.distance / 1000,
+      durationMin: path.time / 60000,
+      coordinates,
+      legs,
+      steps: flattenSteps(legs),
+      provider: "graphhopper",
+      approximate: false,
+    };
+  },
+});
@@ -0,0 +1,82 @@
+import { LatLng } from "@/lib/geo";
+import { CostMatrices, RouteResult, RoutingProvider, TravelMode } from "./types";
+import { createOsrmProvider } from "./osrm";
+import { createGraphHopperProvider } from "./graphhopper";
+import { createValhallaProvider } from "./valhalla";
+import { straightLineProvider } from "./straightLine";
+
+export type { CostMatrices, RouteLeg, RouteResult, RouteStep, RoutingProvider, TravelMode } from "./types";
+export { straightLineProvider } from "./straightLine";
+
+export const TRAVEL_MODES: TravelMode[] = ["driving", "walking", "cycling"];
+
+const DEFAULT_URLS: Record<string, string> = {
+  osrm: "https://router.project-osrm.org",
+  graphhopper: "https://graphhopper.com/api/1",
+  valhalla: "https://valhalla1.openstreetmap.de",
+};
+
+// Selected with VITE_ROUTING_PROVIDER (osrm | graphhopper | valhalla | straight-line),
+// VITE_ROUTING_URL for a self-hosted router and VITE_ROUTING_API_KEY where needed
+const createConfiguredProvider = (): RoutingProvider => {
+  const name = (import.meta.env.VITE_ROUTING_PROVIDER || "osrm").toLowerCase();
+  const baseUrl = (import.meta.env.VITE_ROUTING_URL || DEFAULT_URLS[name] || "").replace(/\/$/, "");
+
+  switch (name) {
+    case "graphhopper":
+      return createGraphHopperProvider(baseUrl, import.meta.env.VITE_ROUTING_API_KEY);
+    case "valhalla":
+      return createValhallaProvider(baseUrl);
+    case "straight-line":
+      return straightLineProvider;
+    case "osrm":
+      return createOsrmProvider(baseUrl);
+    default:
+      console.warn(`Unknown routing provider "${name}", using OSRM`);
+      return createOsrmProvider(DEFAULT_URLS.osrm);
+  }
+};
+
+let provider: RoutingProvider | null = null;
+
+export const getRoutingProvider = () => {
+  if (!provider) provider = createConfiguredProvider();
+  return provider;
+};
+
+// Lets tests and offline tooling swap the provider without touching env config
+export const setRoutingProvider = (next: RoutingProvider | null) => {
+  provider = next;
+};
+
+const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
+
+// Routes through the waypoints in order. Falls back to straight lines when
+// offline or when the configured router fails, so callers always get a result.
+export const getRoute = async (waypoints: LatLng[], mode: TravelMode): Promise<RouteResult> => {
+  const active = getRoutingProvider();
+  if (active === straightLineProvider || isOffline()) {
+    return straightLineProvider.route(waypoints, mode);
+  }
+
+  try {
+    return await active.route(waypoints, mode);
+  } catch (error) {
+    console.error(`Error fetching route from ${active.name}:`, error);
+    return straightLineProvider.route(waypoints, mode);
+  }
+};
+
+export const getTravelMatrix = async (points: LatLng[], mode: TravelMode = "driving"): Promise<CostMatrices> => {
+  const active = getRoutingProvider();
+  if (!active.matrix || active === straightLineProvider || isOffline() || points.length < 2) {
+    return straightLineProvider.matrix!(points, mode);
+  }
+
+  try {
+    return await active.matrix(points, mode);
+  } catch (error) {
+    console.error(`Error fetching travel matrix from ${active.name}:`, error);
+    return straightLineProvider.matrix!(points, mode);
+  }
+};
@@ -0,0 +1,99 @@
+import { LatLng } from "@/lib/geo";
+import { CostMatrices, RouteLeg, RoutingProvider, TravelMode } from "./types";
+import { describeManeuver, flattenSteps } from "./steps";
+
+const PROFILES: Record<TravelMode, string> = {
+  driving: "driving",
+  walking: "foot",
+  cycling: "cycling",
+};
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name: string;
+  maneuver: { type: string; modifier?: string; location: [number, number] };
+}
+
+interface OsrmLeg {
+  distance: number;
+  duration: number;
+  steps: OsrmStep[];
+}
+
+const toCoordinates = (waypoints: LatLng[]) => waypoints.map(([lat, lng]) => `${lng},${lat}`).join(";");
+
+const toManeuver = (type: string) => {
+  if (type === "new name" || type === "notification") return "continue";
+  if (type === "rotary" || type === "roundabout turn" || type === "exit roundabout" || type === "exit rotary") {
+    return "roundabout";
+  }
+  if (type === "on ramp" || type === "off ramp") return "turn";
+  return type;
+};
+
+export const createOsrmProvider = (baseUrl: string): RoutingProvider => ({
+  name: "osrm",
+
+  route: async (waypoints, mode) => {
+    const url = `${baseUrl}/route/v1/${PROFILES[mode]}/${toCoordinates(waypoints)}?overview=full&geometries=geojson&steps=true`;
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.code !== "Ok" || !data.routes || data.routes.length === 0) {
+      throw new Error(data.message || "Unable to calculate route");
+    }
+
+    const route = data.routes[0];
+    const legs: RouteLeg[] = (route.legs as OsrmLeg[]).map((leg, index, all) => ({
+      distanceKm: leg.distance / 1000,
+      durationMin: leg.duration / 60,
+      steps: leg.steps.map((step) => {
+        // Intermediate arrivals are stops along the way, not the destination
+        const type = step.maneuver.type === "arrive" && index < all.length - 1 ? "waypoint" : toManeuver(step.maneuver.type);
+        return {
+          instruction: describeManeuver(type, step.maneuver.modifier, step.name),
+          maneuver: type,
+          modifier: step.maneuver.modifier,
+          name: step.name,
+          distanceKm: step.distance / 1000,
+          durationMin: step.duration / 60,
+          location: [step.maneuver.location[1], step.maneuver.location[0]] as LatLng,
+        };
+      }),
+    }));
+
+    return {
+      distanceKm: route.distance / 1000,
+      durationMin: route.duration / 60,
+      coordinates: route.geometry.coordinates.map((coord: [number, number]) => [coord[1], coord[0]] as LatLng),
+      legs,
+      steps: flattenSteps(legs),
+      provider: "osrm",
+      approximate: false,
+    };
+  },
+
+  matrix: async (points, mode): Promise<CostMatrices> => {
+    const url = `${baseUrl}/table/v1/${PROFILES[mode]}/${toCoordinates(points)}?annotations=duration,distance`;
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.code !== "Ok" || !data.durations || !data.distances) {
+      throw new Error(data.message || "Unable to calculate travel times");
+    }
+
+    // Unroutable pairs come back as null
+    const complete = (matrix: (number | null)[][]) => matrix.every((row) => row.every((value) => value !== null));
+    if (!complete(data.durations) || !complete(data.distances)) {
+      throw new Error("Some stops cannot be reached by road");
+    }
+
+    return {
+      distanceKm: (data.distances as number[][]).map((row) => row.map((meters) => meters / 1000)),
+      durationMin: (data.durations as number[][]).map((row) => row.map((seconds) => seconds / 60)),
+      provider: "osrm",
+      approximate: false,
+    };
+  },
+});
@@ -0,0 +1,30 @@
+import { RouteLeg, RouteStep } from "./types";
+
+const MANEUVER_TEXT: Record<string, string> = {
+  depart: "Head",
+  arrive: "Arrive at your destination",
+  turn: "Turn",
+  continue: "Continue",
+  merge: "Merge",
+  fork: "Keep",
+  roundabout: "Enter the roundabout",
+  "end of road": "At the end of the road, turn",
+  waypoint: "Arrive at your next stop",
+};
+
+// Builds a readable instruction for providers that only return maneuver codes
+export const describeManeuver = (maneuver: string, modifier: string | undefined, name: string) => {
+  if (maneuver === "arrive" || maneuver === "waypoint") return MANEUVER_TEXT[maneuver];
+
+  const verb = MANEUVER_TEXT[maneuver] ?? "Continue";
+  const direction = modifier && maneuver !== "roundabout" ? ` ${modifier}` : "";
+  const street = name ? ` onto ${name}` : "";
+  return `${verb}${direction}${street}`;
+};
+
+export const sumLegs = (legs: RouteLeg[]) => ({
+  distanceKm: legs.reduce((total, leg) => total + leg.distanceKm, 0),
+  durationMin: legs.reduce((total, leg) => total + leg.durationMin, 0),
+});
+
+export const flattenSteps = (legs: RouteLeg[]): RouteStep[] => legs.flatMap((leg) => leg.steps);
@@ -0,0 +1,67 @@
+import { LatLng, haversineKm, haversineMatrix } from "@/lib/geo";
+import { RouteLeg, RoutingProvider, TravelMode } from "./types";
+import { flattenSteps, sumLegs } from "./steps";
+
+// Rough average speeds on Albay roads, in km/h
+const SPEEDS: Record<TravelMode, number> = {
+  driving: 35,
+  walking: 4.5,
+  cycling: 14,
+};
+
+// Works without a network connection: distances are great-circle and
+// durations assume a constant speed for the travel mode.
+export const straightLineProvider: RoutingProvider = {
+  name: "straight-line",
+
+  route: async (waypoints, mode) => {
+    const legs: RouteLeg[] = waypoints.slice(1).map((to, index) => {
+      const from = waypoints[index];
+      const distanceKm = haversineKm(from, to);
+      const durationMin = (distanceKm / SPEEDS[mode]) * 60;
+      const isLast = index === waypoints.length - 2;
+
+      return {
+        distanceKm,
+        durationMin,
+        steps: [
+          {
+            instruction: "Head towards your next stop",
+            maneuver: "depart",
+            name: "",
+            distanceKm,
+            durationMin,
+            location: from,
+          },
+          {
+            instruction: isLast ? "Arrive at your destination" : "Arrive at your next stop",
+            maneuver: isLast ? "arrive" : "waypoint",
+            name: "",
+            distanceKm: 0,
+            durationMin: 0,
+            location: to,
+          },
+        ],
+      };
+    });
+
+    return {
+      ...sumLegs(legs),
+      coordinates: [...waypoints] as LatLng[],
+      legs,
+      steps: flattenSteps(legs),
+      provider: "straight-line",
+      approximate: true,
+    };
+  },
+
+  matrix: async (points, mode) => {
+    const distanceKm = haversineMatrix(points);
+    return {
+      distanceKm,
+      durationMin: distanceKm.map((row) => row.map((km) => (km / SPEEDS[mode]) * 60)),
+      provider: "straight-line",
+      approximate: true,
+    };
+  },
+};
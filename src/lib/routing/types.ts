@@ -0,0 +1,45 @@
+import { LatLng } from "@/lib/geo";
+
+export type TravelMode = "driving" | "walking" | "cycling";
+
+export interface RouteStep {
+  instruction: string;
+  // Normalised maneuver: depart, turn, continue, roundabout, arrive, ...
+  maneuver: string;
+  modifier?: string;
+  name: string;
+  distanceKm: number;
+  durationMin: number;
+  location: LatLng;
+}
+
+export interface RouteLeg {
+  distanceKm: number;
+  durationMin: number;
+  steps: RouteStep[];
+}
+
+export interface RouteResult {
+  distanceKm: number;
+  durationMin: number;
+  coordinates: LatLng[];
+  legs: RouteLeg[];
+  steps: RouteStep[];
+  provider: string;
+  // Straight-line estimates rather than road routing
+  approximate: boolean;
+}
+
+export interface CostMatrices {
+  distanceKm: number[][];
+  durationMin: number[][] | null;
+  provider: string;
+  approximate: boolean;
+}
+
+export interface RoutingProvider {
+  name: string;
+  route: (waypoints: LatLng[], mode: TravelMode) => Promise<RouteResult>;
+  // Providers without a matrix service fall back to straight-line estimates
+  matrix?: (points: LatLng[], mode: TravelMode) => Promise<CostMatrices>;
+}
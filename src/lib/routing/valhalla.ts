@@ -0,0 +1,125 @@
+import { LatLng } from "@/lib/geo";
+import { RouteLeg, RoutingProvider, TravelMode } from "./types";
+import { flattenSteps, sumLegs } from "./steps";
+
+const COSTING: Record<TravelMode, string> = {
+  driving: "auto",
+  walking: "pedestrian",
+  cycling: "bicycle",
+};
+
+interface ValhallaManeuver {
+  type: number;
+  instruction: string;
+  street_names?: string[];
+  length: number;
+  time: number;
+  begin_shape_index: number;
+}
+
+interface ValhallaLeg {
+  shape: string;
+  summary: { length: number; time: number };
+  maneuvers: ValhallaManeuver[];
+}
+
+// Valhalla encodes shapes as polylines with six decimal places
+const decodePolyline6 = (encoded: string): LatLng[] => {
+  const coordinates: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    coordinates.push([lat / 1e6, lng / 1e6]);
+  }
+
+  return coordinates;
+};
+
+// https://valhalla.github.io/valhalla/api/turn-by-turn/api-reference/#trip-legs-and-maneuvers
+const toManeuver = (type: number): { maneuver: string; modifier?: string } => {
+  if (type >= 1 && type <= 3) return { maneuver: "depart" };
+  if (type >= 4 && type <= 6) return { maneuver: "arrive" };
+  if (type === 9) return { maneuver: "turn", modifier: "slight right" };
+  if (type === 10) return { maneuver: "turn", modifier: "right" };
+  if (type === 11) return { maneuver: "turn", modifier: "sharp right" };
+  if (type === 12 || type === 13) return { maneuver: "turn", modifier: "uturn" };
+  if (type === 14) return { maneuver: "turn", modifier: "sharp left" };
+  if (type === 15) return { maneuver: "turn", modifier: "left" };
+  if (type === 16) return { maneuver: "turn", modifier: "slight left" };
+  if (type === 23 || type === 37) return { maneuver: "fork", modifier: "right" };
+  if (type === 24 || type === 38) return { maneuver: "fork", modifier: "left" };
+  if (type === 26 || type === 27) return { maneuver: "roundabout" };
+  if (type >= 35 && type <= 36) return { maneuver: "merge" };
+  return { maneuver: "continue" };
+};
+
+export const createValhallaProvider = (baseUrl: string): RoutingProvider => ({
+  name: "valhalla",
+
+  route: async (waypoints, mode) => {
+    const response = await fetch(`${baseUrl}/route`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        locations: waypoints.map(([lat, lon]) => ({ lat, lon })),
+        costing: COSTING[mode],
+        directions_options: { units: "kilometers" },
+      }),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.trip) {
+      throw new Error(data.error || "Unable to calculate route");
+    }
+
+    const coordinates: LatLng[] = [];
+    const legs: RouteLeg[] = (data.trip.legs as ValhallaLeg[]).map((leg, legIndex, all) => {
+      const shape = decodePolyline6(leg.shape);
+      coordinates.push(...shape);
+
+      return {
+        distanceKm: leg.summary.length,
+        durationMin: leg.summary.time / 60,
+        steps: leg.maneuvers.map((maneuver) => {
+          const normalised = toManeuver(maneuver.type);
+          if (normalised.maneuver === "arrive" && legIndex < all.length - 1) {
+            normalised.maneuver = "waypoint";
+          }
+          return {
+            instruction: maneuver.instruction,
+            ...normalised,
+            name: maneuver.street_names?.[0] || "",
+            distanceKm: maneuver.length,
+            durationMin: maneuver.time / 60,
+            location: shape[maneuver.begin_shape_index] ?? shape[0],
+          };
+        }),
+      };
+    });
+
+    return {
+      ...sumLegs(legs),
+      coordinates,
+      legs,
+      steps: flattenSteps(legs),
+      provider: "valhalla",
+      approximate: false,
+    };
+  },
+});
@@ -0,0 +1,82 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type RsvpStatus = "interested" | "going";
+export type EventReminder = "1w" | "1d" | "2h";
+
+export type EventRsvp = Omit<Tables<"event_rsvps">, "status" | "reminders"> & {
+  status: RsvpStatus;
+  reminders: EventReminder[];
+};
+
+export const RSVP_STATUSES: { value: RsvpStatus; label: string }[] = [
+  { value: "interested", label: "Interested" },
+  { value: "going", label: "Going" },
+];
+
+// Keep in sync with claim_event_reminders()
+export const EVENT_REMINDERS: { value: EventReminder; label: string }[] = [
+  { value: "1w", label: "1 week before" },
+  { value: "1d", label: "1 day before" },
+  { value: "2h", label: "2 hours before" },
+];
+
+export const fetchRsvps = async (userId: string) => {
+  const { data, error } = await supabase.from("event_rsvps").select("*").eq("user_id", userId);
+  if (error) throw error;
+  return (data || []) as EventRsvp[];
+};
+
+// Upserting only the status keeps the reminders of an existing RSVP
+export const setRsvpStatus = async (userId: string, eventId: string, status: RsvpStatus) => {
+  const { data, error } = await supabase
+    .from("event_rsvps")
+    .upsert({ user_id: userId, event_id: eventId, status }, { onConflict: "user_id,event_id" })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as EventRsvp;
+};
+
+export const updateRsvpReminders = async (
+  userId: string,
+  eventId: string,
+  changes: Partial<Pick<EventRsvp, "reminders" | "email_reminders">>
+) => {
+  const { error } = await supabase.from("event_rsvps").update(changes).eq("user_id", userId).eq("event_id", eventId);
+  if (error) throw error;
+};
+
+export const removeRsvp = async (userId: string, eventId: string) => {
+  const { error } = await supabase.from("event_rsvps").delete().eq("user_id", userId).eq("event_id", eventId);
+  if (error) throw error;
+};
+
+// The feed is served by the calendar-feed edge function, keyed by a secret token
+export const calendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+// Calendar apps subscribe to webcal:// links instead of downloading them once
+export const calendarSubscribeUrl = (token: string) => calendarFeedUrl(token).replace(/^https?:\/\//, "webcal://");
+
+export const googleCalendarUrl = (token: string) =>
+  `https://calendar.google.com/calendar/r?cid=${encodeURIComponent(calendarSubscribeUrl(token))}`;
+
+export const fetchCalendarFeedToken = async (userId: string) => {
+  const { data, error } = await supabase.from("calendar_feeds").select("token").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  return data?.token ?? null;
+};
+
+export const createCalendarFeed = async (userId: string) => {
+  const { data, error } = await supabase.from("calendar_feeds").insert({ user_id: userId }).select("token").single();
+  if (error) throw error;
+  return data.token;
+};
+
+// A new token stops every calendar still subscribed to the old address
+export const resetCalendarFeed = async (userId: string) => {
+  const { error } = await supabase.from("calendar_feeds").delete().eq("user_id", userId);
+  if (error) throw error;
+  return createCalendarFeed(userId);
+};
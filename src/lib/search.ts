@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { PLACE_KINDS, PlaceKind } from "@/lib/nearby";
+
+export interface SearchResult {
+  kind: PlaceKind;
+  id: string;
+  name: string;
+  // Matched words wrapped in <b></b>; see splitHighlight
+  name_highlight: string;
+  snippet: string | null;
+  municipality: string | null;
+  image_url: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  rank: number;
+}
+
+export interface SearchGroup {
+  kind: PlaceKind;
+  label: string;
+  results: SearchResult[];
+}
+
+export const MIN_QUERY_LENGTH = 2;
+
+export const SEARCH_GROUP_LABELS: Record<PlaceKind, string> = {
+  spot: "Tourist Spots",
+  accommodation: "Accommodations",
+  restaurant: "Restaurants",
+  event: "Events",
+};
+
+// Ranking, synonyms and typo tolerance all happen in Postgres (search_places)
+export const searchPlaces = async (query: string, kinds?: PlaceKind[], limitPerKind = 5) => {
+  const { data, error } = await supabase.rpc("search_places", {
+    _query: query,
+    _kinds: kinds,
+    _limit_per_kind: limitPerKind,
+  });
+  if (error) throw error;
+  return (data || []) as SearchResult[];
+};
+
+// Groups keep the server's ranking; the group with the best match comes first
+export const groupResults = (results: SearchResult[]): SearchGroup[] => {
+  const groups = PLACE_KINDS.map((kind) => ({
+    kind: kind.value,
+    label: SEARCH_GROUP_LABELS[kind.value],
+    results: results.filter((result) => result.kind === kind.value),
+  })).filter((group) => group.results.length > 0);
+
+  return groups.sort((a, b) => b.results[0].rank - a.results[0].rank);
+};
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// Splits ts_headline output into plain and matched parts so it can be
+// rendered as text rather than HTML
+export const splitHighlight = (value: string): HighlightPart[] =>
+  value
+    .split(/(<b>.*?<\/b>)/g)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("<b>") && part.endsWith("</b>")
+        ? { text: part.slice(3, -4), match: true }
+        : { text: part, match: false }
+    );
+
+export type SearchSynonym = Tables<"search_synonyms">;
+
+// Comma-separated admin input to the lowercase terms search_tsquery compares against
+export const parseSynonymTerms = (value: string) =>
+  Array.from(new Set(value.split(",").map((term) => term.trim().toLowerCase()).filter(Boolean)));
@@ -0,0 +1,41 @@
+import { WeatherProvider, WeatherReport } from "./types";
+import { parseOpenMeteoResponse } from "./openMeteo";
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// Typical Albay conditions in Open-Meteo format, so the fixture exercises the same parser
+const sampleResponse = (days: number) => {
+  const today = new Date();
+  const dates = Array.from({ length: days }, (_, index) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() + index);
+    return toDateString(date);
+  });
+
+  return {
+    current: {
+      time: `${dates[0]}T09:00`,
+      temperature_2m: 28,
+      relative_humidity_2m: 75,
+      wind_speed_10m: 12,
+      weather_code: 2,
+    },
+    daily: {
+      time: dates,
+      weather_code: dates.map((_, index) => [2, 61, 3][index % 3]),
+      temperature_2m_min: dates.map(() => 24),
+      temperature_2m_max: dates.map((_, index) => 30 + (index % 2)),
+      precipitation_probability_max: dates.map((_, index) => [20, 70, 40][index % 3]),
+    },
+  };
+};
+
+// Returns fixed data without touching the network. Pass a report to pin exact values.
+export const createFixtureProvider = (report?: WeatherReport): WeatherProvider => ({
+  name: "fixture",
+
+  getWeather: async (_coords, days) =>
+    report
+      ? { ...report, daily: report.daily.slice(0, days) }
+      : parseOpenMeteoResponse(sampleResponse(days), "fixture"),
+});
@@ -0,0 +1,79 @@
+import { DEFAULT_MUNICIPALITY, findMunicipality } from "@/lib/albay";
+import { WeatherCondition, WeatherProvider, WeatherReport } from "./types";
+import { createOpenMeteoProvider } from "./openMeteo";
+import { createFixtureProvider } from "./fixture";
+
+export type { CurrentWeather, DailyForecast, WeatherCondition, WeatherProvider, WeatherReport } from "./types";
+export { createFixtureProvider } from "./fixture";
+export { createOpenMeteoProvider, parseOpenMeteoResponse } from "./openMeteo";
+
+export const FORECAST_DAYS = 3;
+
+// Shorter than the widget's 15 minute refresh so each refresh gets fresh conditions,
+// while flicking back and forth between municipalities is served from memory
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Selected with VITE_WEATHER_PROVIDER (open-meteo | fixture) and VITE_WEATHER_URL
+const createConfiguredProvider = (): WeatherProvider => {
+  const name = (import.meta.env.VITE_WEATHER_PROVIDER || "open-meteo").toLowerCase();
+  const baseUrl = (import.meta.env.VITE_WEATHER_URL || "https://api.open-meteo.com").replace(/\/$/, "");
+
+  switch (name) {
+    case "fixture":
+      return createFixtureProvider();
+    case "open-meteo":
+      return createOpenMeteoProvider(baseUrl);
+    default:
+      console.warn(`Unknown weather provider "${name}", using Open-Meteo`);
+      return createOpenMeteoProvider(baseUrl);
+  }
+};
+
+let provider: WeatherProvider | null = null;
+const cache = new Map<string, { report: WeatherReport; fetchedAt: number }>();
+
+export const getWeatherProvider = () => {
+  if (!provider) provider = createConfiguredProvider();
+  return provider;
+};
+
+export const setWeatherProvider = (next: WeatherProvider | null) => {
+  provider = next;
+  cache.clear();
+};
+
+// Current conditions and a short forecast for an Albay municipality. Unknown
+// names fall back to Legazpi so a typo in the data never blanks the widget.
+export const getMunicipalityWeather = async (municipalityName: string | null | undefined) => {
+  const municipality = findMunicipality(municipalityName) || findMunicipality(DEFAULT_MUNICIPALITY)!;
+
+  const cached = cache.get(municipality.name);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return { municipality, report: cached.report };
+  }
+
+  const report = await getWeatherProvider().getWeather(municipality.coords, FORECAST_DAYS);
+  cache.set(municipality.name, { report, fetchedAt: Date.now() });
+  return { municipality, report };
+};
+
+export const describeCondition = (condition: WeatherCondition) => {
+  switch (condition) {
+    case "clear":
+      return "Clear";
+    case "partly-cloudy":
+      return "Partly cloudy";
+    case "cloudy":
+      return "Cloudy";
+    case "fog":
+      return "Fog";
+    case "drizzle":
+      return "Drizzle";
+    case "rain":
+      return "Rain";
+    case "heavy-rain":
+      return "Heavy rain";
+    case "thunderstorm":
+      return "Thunderstorms";
+  }
+};
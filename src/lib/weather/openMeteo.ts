@@ -0,0 +1,82 @@
+import { WeatherCondition, WeatherProvider, WeatherReport } from "./types";
+
+interface OpenMeteoResponse {
+  current?: {
+    time: string;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    wind_speed_10m: number;
+    weather_code: number;
+  };
+  daily?: {
+    time: string[];
+    weather_code: number[];
+    temperature_2m_min: number[];
+    temperature_2m_max: number[];
+    precipitation_probability_max?: (number | null)[];
+  };
+  error?: boolean;
+  reason?: string;
+}
+
+// WMO weather interpretation codes as used by Open-Meteo
+export const fromWmoCode = (code: number): WeatherCondition => {
+  if (code === 0) return "clear";
+  if (code <= 2) return "partly-cloudy";
+  if (code === 3) return "cloudy";
+  if (code === 45 || code === 48) return "fog";
+  if (code >= 51 && code <= 57) return "drizzle";
+  if (code === 65 || code === 67 || code === 82) return "heavy-rain";
+  if ((code >= 61 && code <= 67) || (code >= 80 && code <= 81)) return "rain";
+  if (code >= 95) return "thunderstorm";
+  return "cloudy";
+};
+
+// Accepts any Open-Meteo compatible payload, so self-hosted mirrors work too
+export const parseOpenMeteoResponse = (data: OpenMeteoResponse, provider = "open-meteo"): WeatherReport => {
+  if (data.error || !data.current || !data.daily) {
+    throw new Error(data.reason || "Unexpected weather response");
+  }
+
+  const { current, daily } = data;
+
+  return {
+    current: {
+      temperatureC: current.temperature_2m,
+      humidity: current.relative_humidity_2m,
+      windSpeedKmh: current.wind_speed_10m,
+      condition: fromWmoCode(current.weather_code),
+      observedAt: current.time,
+    },
+    daily: daily.time.map((date, index) => ({
+      date,
+      condition: fromWmoCode(daily.weather_code[index]),
+      minC: daily.temperature_2m_min[index],
+      maxC: daily.temperature_2m_max[index],
+      precipitationChance: daily.precipitation_probability_max?.[index] ?? null,
+    })),
+    provider,
+  };
+};
+
+export const createOpenMeteoProvider = (baseUrl: string): WeatherProvider => ({
+  name: "open-meteo",
+
+  getWeather: async ([lat, lng], days) => {
+    const params = new URLSearchParams({
+      latitude: String(lat),
+      longitude: String(lng),
+      current: "temperature_2m,relative_humidity_2m,wind_speed_10m,weather_code",
+      daily: "weather_code,temperature_2m_min,temperature_2m_max,precipitation_probability_max",
+      timezone: "Asia/Manila",
+      forecast_days: String(days),
+    });
+
+    const response = await fetch(`${baseUrl}/v1/forecast?${params}`);
+    if (!response.ok) {
+      throw new Error(`Weather request failed with status ${response.status}`);
+    }
+
+    return parseOpenMeteoResponse(await response.json());
+  },
+});
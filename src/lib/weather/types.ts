@@ -0,0 +1,40 @@
+import { LatLng } from "@/lib/geo";
+
+export type WeatherCondition =
+  | "clear"
+  | "partly-cloudy"
+  | "cloudy"
+  | "fog"
+  | "drizzle"
+  | "rain"
+  | "heavy-rain"
+  | "thunderstorm";
+
+export interface CurrentWeather {
+  temperatureC: number;
+  humidity: number;
+  windSpeedKmh: number;
+  condition: WeatherCondition;
+  observedAt: string;
+}
+
+export interface DailyForecast {
+  // YYYY-MM-DD in Asia/Manila
+  date: string;
+  condition: WeatherCondition;
+  minC: number;
+  maxC: number;
+  // Percent, null when the provider does not report it
+  precipitationChance: number | null;
+}
+
+export interface WeatherReport {
+  current: CurrentWeather;
+  daily: DailyForecast[];
+  provider: string;
+}
+
+export interface WeatherProvider {
+  name: string;
+  getWeather: (coords: LatLng, days: number) => Promise<WeatherReport>;
+}
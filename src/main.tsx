@@ -1,5 +1,11 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { registerServiceWorker } from "./lib/offline";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// The dev server's module graph does not mix well with a caching worker
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
@@ -14,6 +14,11 @@ import ManageSubcategoriesNew from "@/components/admin/ManageSubcategoriesNew";
 import UserManagement from "@/components/admin/UserManagement";
 import Analytics from "@/components/admin/Analytics";
 import ReviewManagement from "@/components/admin/ReviewManagement";
+import ManageAdvisories from "@/components/admin/ManageAdvisories";
+import ManageHazardZones from "@/components/admin/ManageHazardZones";
+import ManageCostRates from "@/components/admin/ManageCostRates";
+import ManageSearchSynonyms from "@/components/admin/ManageSearchSynonyms";
+import ManageBadges from "@/components/admin/ManageBadges";
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
@@ -97,15 +102,20 @@ const AdminDashboard = () => {
           </div>
 
           <Tabs defaultValue="spots" className="w-full">
-            <TabsList className="grid w-full grid-cols-9 mb-8">
+            <TabsList className="grid w-full grid-cols-[repeat(14,minmax(0,1fr))] mb-8">
               <TabsTrigger value="spots">Spots</TabsTrigger>
               <TabsTrigger value="accommodations">Accommodations</TabsTrigger>
               <TabsTrigger value="restaurants">Restaurants</TabsTrigger>
               <TabsTrigger value="events">Events</TabsTrigger>
+              <TabsTrigger value="advisories">Advisories</TabsTrigger>
+              <TabsTrigger value="hazards">Hazards</TabsTrigger>
+              <TabsTrigger value="budget">Budget</TabsTrigger>
               <TabsTrigger value="categories">Categories</TabsTrigger>
               <TabsTrigger value="subcategories">Subcategories</TabsTrigger>
+              <TabsTrigger value="search">Search</TabsTrigger>
               <TabsTrigger value="users">Users</TabsTrigger>
               <TabsTrigger value="reviews">Reviews</TabsTrigger>
+              <TabsTrigger value="badges">Badges</TabsTrigger>
               <TabsTrigger value="analytics">Analytics</TabsTrigger>
             </TabsList>
 
@@ -125,6 +135,18 @@ const AdminDashboard = () => {
             <ManageEvents />
           </TabsContent>
 
+          <TabsContent value="advisories">
+            <ManageAdvisories />
+          </TabsContent>
+
+          <TabsContent value="hazards">
+            <ManageHazardZones />
+          </TabsContent>
+
+          <TabsContent value="budget">
+            <ManageCostRates />
+          </TabsContent>
+
           <TabsContent value="categories">
             <ManageCategoriesNew />
           </TabsContent>
@@ -133,6 +155,10 @@ const AdminDashboard = () => {
             <ManageSubcategoriesNew />
           </TabsContent>
 
+          <TabsContent value="search">
+            <ManageSearchSynonyms />
+          </TabsContent>
+
           <TabsContent value="users">
             <UserManagement />
           </TabsContent>
@@ -141,6 +167,10 @@ const AdminDashboard = () => {
               <ReviewManagement />
             </TabsContent>
 
+            <TabsContent value="badges">
+              <ManageBadges />
+            </TabsContent>
+
             <TabsContent value="analytics">
               <Analytics />
             </TabsContent>
@@ -18,7 +18,16 @@ import RecommendedSpots from "@/components/RecommendedSpots";
 import EventNotifications from "@/components/EventNotifications";
 import NearbyRestaurants from "@/components/NearbyRestaurants";
 import WeatherWidget from "@/components/WeatherWidget";
+import SavedPlaces from "@/components/SavedPlaces";
+import BadgesSection from "@/components/BadgesSection";
+import Leaderboard from "@/components/Leaderboard";
+import CalendarFeedCard from "@/components/CalendarFeedCard";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useFavorites } from "@/hooks/useFavorites";
+import { useBadges } from "@/hooks/useBadges";
+import { badgeIcon } from "@/lib/badges";
 import { RecommendedAccommodations } from "@/components/RecommendedAccommodations";
+import { DISTRICT_HUBS } from "@/lib/albay";
 
 interface Itinerary {
   id: string;
@@ -33,6 +42,8 @@ const Dashboard = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [itineraries, setItineraries] = useState<Itinerary[]>([]);
   const [profile, setProfile] = useState<any>(null);
+  const favorites = useFavorites(session?.user?.id);
+  const badges = useBadges(session?.user?.id);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [showSpotSelection, setShowSpotSelection] = useState(false);
   const [showAccommodationSelection, setShowAccommodationSelection] = useState(false);
@@ -178,6 +189,23 @@ const Dashboard = () => {
                     <p className="text-lg text-muted-foreground">
                       Manage your travel plans and explore new destinations
                     </p>
+                    {badges.earnedBadges.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {badges.earnedBadges.slice(0, 8).map((badge) => {
+                          const Icon = badgeIcon(badge.icon);
+                          return (
+                            <Tooltip key={badge.id}>
+                              <TooltipTrigger asChild>
+                                <span className="w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center">
+                                  <Icon className="w-4 h-4" />
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent>{badge.name}</TooltipContent>
+                            </Tooltip>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
                   <Dialog>
                     <DialogTrigger asChild>
@@ -212,6 +240,9 @@ const Dashboard = () => {
             <EventNotifications userDistricts={profile.user_preferences.districts} />
           )}
 
+          {/* Weather and Advisories */}
+          <WeatherWidget municipality={DISTRICT_HUBS[profile?.user_preferences?.albayDistrict]} />
+
           {/* Personalized Recommendations */}
           {profile?.user_preferences && (
             <div className="mb-12 animate-fade-in">
@@ -256,6 +287,22 @@ const Dashboard = () => {
             />
           )}
 
+          {/* Saved Places */}
+          {session && <SavedPlaces favorites={favorites} />}
+
+          {/* Badges & Leaderboard */}
+          {session && <BadgesSection badges={badges} />}
+          {session && profile && (
+            <Leaderboard
+              userId={session.user.id}
+              optedIn={!!profile.leaderboard_opt_in}
+              onOptInChange={(optedIn) => setProfile({ ...profile, leaderboard_opt_in: optedIn })}
+            />
+          )}
+
+          {/* Calendar Sync */}
+          {session && <CalendarFeedCard userId={session.user.id} />}
+
           {/* Quick Actions */}
           <div className="mb-12">
             <h2 className="text-2xl font-bold mb-6">Quick Actions</h2>
@@ -0,0 +1,441 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import { AddToItineraryDialog } from "@/components/AddToItineraryDialog";
+import RsvpButton from "@/components/RsvpButton";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Loader2,
+  MapPin,
+  Navigation,
+  Plus,
+  Repeat,
+} from "lucide-react";
+import { ALBAY_MUNICIPALITIES, AlbayDistrict, DISTRICT_HUBS, findMunicipality } from "@/lib/albay";
+import {
+  EventOccurrence,
+  describeRecurrence,
+  eventDistrict,
+  fetchEventOccurrences,
+  firstDay,
+  formatEventDay,
+  formatEventTime,
+  formatOccurrence,
+  occurrenceDays,
+  occurrenceTiming,
+} from "@/lib/events";
+import { mapUrl } from "@/lib/nearby";
+import { useRsvps } from "@/hooks/useRsvps";
+import { placeNow, shiftDate, weekdayOf } from "@/lib/openingHours";
+
+type CalendarView = "month" | "week" | "list";
+
+const DISTRICTS = Object.keys(DISTRICT_HUBS) as AlbayDistrict[];
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Date-only helpers on "YYYY-MM-DD", all in Albay time
+const monthStart = (date: string) => `${date.slice(0, 7)}-01`;
+
+const shiftMonth = (date: string, months: number) => {
+  const [year, month] = date.split("-").map(Number);
+  const index = year * 12 + month - 1 + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}-01`;
+};
+
+const weekStart = (date: string) => shiftDate(date, -weekdayOf(date));
+
+// [from, to) of the days the view shows; the month grid fills whole weeks
+const visibleRange = (view: CalendarView, anchor: string) => {
+  if (view === "week") return { from: weekStart(anchor), to: shiftDate(weekStart(anchor), 7) };
+
+  const from = monthStart(anchor);
+  const to = shiftMonth(anchor, 1);
+  if (view === "list") return { from, to };
+  return { from: weekStart(from), to: shiftDate(weekStart(shiftDate(to, -1)), 7) };
+};
+
+const daysBetween = (from: string, to: string) => {
+  const days: string[] = [];
+  for (let day = from; day < to; day = shiftDate(day, 1)) days.push(day);
+  return days;
+};
+
+const Events = () => {
+  const navigate = useNavigate();
+  const today = placeNow().date;
+  const [session, setSession] = useState<Session | null>(null);
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(today);
+  const [district, setDistrict] = useState("all");
+  const [municipality, setMunicipality] = useState("all");
+  const [mineOnly, setMineOnly] = useState(false);
+  const [occurrences, setOccurrences] = useState<EventOccurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<EventOccurrence | null>(null);
+  const [adding, setAdding] = useState<EventOccurrence | null>(null);
+
+  const range = visibleRange(view, anchor);
+  const rsvps = useRsvps(session?.user?.id);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setSession(session));
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => setSession(session));
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    fetchEventOccurrences(range.from, range.to)
+      .then((data) => {
+        if (!cancelled) setOccurrences(data);
+      })
+      .catch((error) => console.error("Error fetching events:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range.from, range.to]);
+
+  const municipalityOptions = ALBAY_MUNICIPALITIES.filter(
+    (option) => district === "all" || option.district === district
+  );
+
+  const filtered = useMemo(
+    () =>
+      occurrences.filter(
+        ({ event }) =>
+          (district === "all" || eventDistrict(event) === district) &&
+          (municipality === "all" || findMunicipality(event.municipality)?.name === municipality) &&
+          (!mineOnly || rsvps.rsvps.some((rsvp) => rsvp.event_id === event.id))
+      ),
+    [occurrences, district, municipality, mineOnly, rsvps.rsvps]
+  );
+
+  // day -> occurrences on it, multi-day events listed on every day they run
+  const byDay = useMemo(() => {
+    const days = new Map<string, EventOccurrence[]>();
+    filtered.forEach((occurrence) =>
+      occurrenceDays(occurrence).forEach((day) => days.set(day, [...(days.get(day) || []), occurrence]))
+    );
+    return days;
+  }, [filtered]);
+
+  const handleDistrictChange = (value: string) => {
+    setDistrict(value);
+    if (value !== "all" && findMunicipality(municipality)?.district !== value) setMunicipality("all");
+  };
+
+  const step = (direction: 1 | -1) =>
+    setAnchor(view === "week" ? shiftDate(anchor, 7 * direction) : shiftMonth(anchor, direction));
+
+  const showWeek = (day: string) => {
+    setAnchor(day);
+    setView("week");
+  };
+
+  const handleAdd = (occurrence: EventOccurrence) => {
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+    setSelected(null);
+    setAdding(occurrence);
+  };
+
+  const title =
+    view === "week"
+      ? `${formatEventDay(range.from, { weekday: undefined })} – ${formatEventDay(shiftDate(range.to, -1), {
+          weekday: undefined,
+          year: "numeric",
+        })}`
+      : formatEventDay(monthStart(anchor), { weekday: undefined, day: undefined, month: "long", year: "numeric" });
+
+  const chip = (occurrence: EventOccurrence, day: string) => (
+    <button
+      key={`${occurrence.event.id}-${occurrence.starts_at}`}
+      onClick={() => setSelected(occurrence)}
+      className={`w-full text-left text-xs rounded px-1.5 py-0.5 truncate ${
+        rsvps.getRsvp(occurrence.event.id)
+          ? "bg-primary text-primary-foreground hover:bg-primary/90"
+          : "bg-primary/10 text-primary hover:bg-primary/20"
+      }`}
+    >
+      {!occurrence.event.all_day && firstDay(occurrence) === day && (
+        <span className="font-semibold mr-1">{formatEventTime(occurrence.starts_at)}</span>
+      )}
+      {occurrence.event.name}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="flex items-center gap-3 mb-2">
+          <CalendarDays className="w-8 h-8 text-primary" />
+          <h1 className="text-4xl font-bold">Events & Festivals</h1>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          Fiestas, markets and happenings across Albay. Times are in Philippine time.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="list">List</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <Select value={district} onValueChange={handleDistrictChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All districts</SelectItem>
+              {DISTRICTS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={municipality} onValueChange={setMunicipality}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All towns</SelectItem>
+              {municipalityOptions.map((option) => (
+                <SelectItem key={option.name} value={option.name}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {session && (
+            <div className="flex items-center gap-2">
+              <Switch id="events-mine-only" checked={mineOnly} onCheckedChange={setMineOnly} />
+              <Label htmlFor="events-mine-only" className="font-normal">
+                My RSVPs
+              </Label>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Button variant="outline" size="icon" onClick={() => step(-1)} aria-label="Previous">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setAnchor(today)}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => step(1)} aria-label="Next">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <h2 className="text-lg font-semibold min-w-[12rem] text-right">{title}</h2>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : view === "month" ? (
+          <div className="grid grid-cols-7 border rounded-lg overflow-hidden">
+            {WEEKDAY_LABELS.map((label) => (
+              <div key={label} className="bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+                {label}
+              </div>
+            ))}
+            {daysBetween(range.from, range.to).map((day) => {
+              const dayEvents = byDay.get(day) || [];
+              return (
+                <div
+                  key={day}
+                  className={`min-h-[6.5rem] border-t border-l p-1 space-y-1 ${
+                    day.slice(0, 7) === anchor.slice(0, 7) ? "" : "bg-muted/40 text-muted-foreground"
+                  }`}
+                >
+                  <button
+                    onClick={() => showWeek(day)}
+                    className={`text-xs w-6 h-6 rounded-full hover:bg-muted ${
+                      day === today ? "bg-primary text-primary-foreground hover:bg-primary" : ""
+                    }`}
+                  >
+                    {Number(day.slice(8))}
+                  </button>
+                  {dayEvents.slice(0, 3).map((occurrence) => chip(occurrence, day))}
+                  {dayEvents.length > 3 && (
+                    <button onClick={() => showWeek(day)} className="text-xs text-muted-foreground hover:underline">
+                      +{dayEvents.length - 3} more
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : view === "week" ? (
+          <div className="grid md:grid-cols-7 gap-2">
+            {daysBetween(range.from, range.to).map((day) => (
+              <div key={day} className={`rounded-lg border p-2 min-h-[10rem] ${day === today ? "border-primary" : ""}`}>
+                <p className="text-sm font-semibold mb-2">{formatEventDay(day)}</p>
+                <div className="space-y-1">
+                  {(byDay.get(day) || []).map((occurrence) => chip(occurrence, day))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : filtered.length > 0 ? (
+          <div className="space-y-4">
+            {filtered.map((occurrence) => (
+              <Card key={`${occurrence.event.id}-${occurrence.starts_at}`}>
+                <CardContent className="p-4 flex gap-4">
+                  {occurrence.event.image_url && (
+                    <img
+                      src={occurrence.event.image_url}
+                      alt={occurrence.event.name}
+                      className="w-24 h-24 object-cover rounded shrink-0"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <button onClick={() => setSelected(occurrence)} className="font-semibold text-lg hover:text-primary text-left">
+                      {occurrence.event.name}
+                    </button>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Clock className="w-4 h-4" />
+                      {formatOccurrence(occurrence)}
+                    </p>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <MapPin className="w-4 h-4" />
+                      {[occurrence.event.location, occurrence.event.municipality].filter(Boolean).join(", ")}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {occurrence.event.event_types.map((type) => (
+                        <Badge key={type} variant="secondary">
+                          {type}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-end gap-2 shrink-0">
+                    <RsvpButton eventId={occurrence.event.id} rsvps={rsvps} size="sm" />
+                    <Button variant="outline" size="sm" onClick={() => handleAdd(occurrence)}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Itinerary
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-16">No events this month match your filters.</p>
+        )}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-lg">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.event.name}</DialogTitle>
+                <DialogDescription>{formatOccurrence(selected)}</DialogDescription>
+              </DialogHeader>
+              {selected.event.image_url && (
+                <img
+                  src={selected.event.image_url}
+                  alt={selected.event.name}
+                  className="w-full h-48 object-cover rounded"
+                />
+              )}
+              <div className="space-y-2 text-sm">
+                {describeRecurrence(selected.event) && (
+                  <p className="flex items-center gap-2 text-muted-foreground">
+                    <Repeat className="w-4 h-4" />
+                    {describeRecurrence(selected.event)}
+                  </p>
+                )}
+                <p className="flex items-center gap-2 text-muted-foreground">
+                  <MapPin className="w-4 h-4" />
+                  {[selected.event.location, selected.event.municipality].filter(Boolean).join(", ")}
+                </p>
+                {selected.event.event_types.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {selected.event.event_types.map((type) => (
+                      <Badge key={type} variant="secondary">
+                        {type}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {selected.event.description && <p>{selected.event.description}</p>}
+              </div>
+              <RsvpButton eventId={selected.event.id} rsvps={rsvps} />
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Button onClick={() => handleAdd(selected)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add to Itinerary
+                </Button>
+                {selected.event.latitude !== null && selected.event.longitude !== null && (
+                  <Button variant="outline" asChild>
+                    <Link to={mapUrl({ kind: "event", ...selected.event })}>
+                      <Navigation className="w-4 h-4 mr-2" />
+                      Show on Map
+                    </Link>
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {session && adding && (
+        <AddToItineraryDialog
+          open={!!adding}
+          onOpenChange={(open) => !open && setAdding(null)}
+          itemId={adding.event.id}
+          itemName={adding.event.name}
+          itemType="event"
+          userId={session.user.id}
+          suggestedDate={firstDay(adding)}
+          timing={occurrenceTiming(adding)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Events;
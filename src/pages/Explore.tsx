@@ -1,15 +1,35 @@
-import { useCallback, useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import Navbar from "@/components/Navbar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { supabase } from "@/integrations/supabase/client";
-import { MapPin, Search, Star, Building2, Filter } from "lucide-react";
+import { MapPin, Search, Star, Building2, Filter, ArrowUpDown, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Session } from "@supabase/supabase-js";
 import AccommodationsSection from "@/components/AccommodationsSection";
+import ExploreFacets from "@/components/ExploreFacets";
+import RadiusSlider from "@/components/RadiusSlider";
+import { useExploreSpots } from "@/hooks/useExploreSpots";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { LatLng, formatKm } from "@/lib/geo";
+import { getCurrentPosition } from "@/lib/nearby";
+import {
+  EXPLORE_SORTS,
+  ExploreFilters,
+  ExploreSort,
+  ExploreState,
+  LIST_FACETS,
+  TOGGLE_FACETS,
+  countActiveFilters,
+  facetValueLabel,
+  parseExploreParams,
+  toExploreParams,
+} from "@/lib/explore";
+import { toast } from "sonner";
 import {
   Select,
   SelectContent,
@@ -18,54 +38,36 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-interface TouristSpot {
-  id: string;
-  name: string;
-  description: string | null;
-  location: string;
-  municipality: string | null;
-  category: string[];
-  subcategories: string[];
-  image_url: string | null;
-  rating: number;
-}
-
-interface Subcategory {
-  id: string;
-  name: string;
-  category_id: string | null;
-  description: string | null;
-}
-
 interface Category {
   id: string;
   name: string;
   icon: string | null;
 }
 
-interface Subcategory {
-  id: string;
-  name: string;
-  category_id: string | null;
-  description: string | null;
-}
+const SEARCH_DEBOUNCE_MS = 300;
 
 const Explore = () => {
   const navigate = useNavigate();
-  const [spots, setSpots] = useState<TouristSpot[]>([]);
-  const [filteredSpots, setFilteredSpots] = useState<TouristSpot[]>([]);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<string>("all");
-  const [selectedSubcategory, setSelectedSubcategory] = useState<string>("all");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const state = parseExploreParams(searchParams);
+  const { filters, sort, radiusKm } = state;
+  const [searchInput, setSearchInput] = useState(filters.q);
   const [session, setSession] = useState<Session | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
-  const [filteredSubcategories, setFilteredSubcategories] = useState<Subcategory[]>([]);
+  const [origin, setOrigin] = useState<LatLng | null>(null);
+  const [locating, setLocating] = useState(false);
+  // "Near me" waits for the device location before querying
+  const { spots, total, facets, loading, loadingMore, hasMore, loadMore } = useExploreSpots(
+    state,
+    origin,
+    sort !== "distance" || !!origin
+  );
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(loadMore, hasMore && !loading && !loadingMore);
+  const categoryIcons = new Map(categories.map((category) => [category.name, category.icon]));
+  const activeFilterCount = countActiveFilters(filters);
 
   useEffect(() => {
-    fetchSpots();
     fetchCategories();
-    fetchSubcategories();
 
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
@@ -92,33 +94,28 @@ const Explore = () => {
     };
   }, []);
 
+  // Shared "near me" links ask for the location on arrival
   useEffect(() => {
-    filterSpots();
-  }, [searchQuery, selectedCategory, selectedSubcategory, spots]);
+    if (sort === "distance" && !origin && !locating) locate();
+  }, [sort]);
 
+  // Keep the box in step with back/forward navigation
   useEffect(() => {
-    if (selectedCategory === "all") {
-      setFilteredSubcategories([]);
-      setSelectedSubcategory("all");
-    } else {
-      const category = categories.find(c => c.name === selectedCategory);
-      if (category) {
-        const filtered = subcategories.filter(s => s.category_id === category.id);
-        setFilteredSubcategories(filtered);
-        setSelectedSubcategory("all");
-      }
-    }
-  }, [selectedCategory, categories, subcategories]);
+    setSearchInput(filters.q);
+  }, [filters.q]);
 
-  const fetchSpots = async () => {
-    const { data } = await supabase
-      .from("tourist_spots")
-      .select("*")
-      .order("name");
+  useEffect(() => {
+    if (searchInput.trim() === filters.q.trim()) return;
+    const timer = setTimeout(() => updateState({ filters: { ...filters, q: searchInput } }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-    if (data) setSpots(data);
+  const updateState = (changes: Partial<ExploreState>) => {
+    setSearchParams(toExploreParams({ ...state, ...changes }), { replace: true });
   };
 
+  const setFilters = (next: ExploreFilters) => updateState({ filters: next });
+
   const fetchCategories = async () => {
     const { data } = await supabase
       .from("categories")
@@ -128,45 +125,24 @@ const Explore = () => {
     if (data) setCategories(data);
   };
 
-  const fetchSubcategories = async () => {
-    const { data } = await supabase
-      .from("subcategories")
-      .select("*")
-      .order("name");
-
-    if (data) setSubcategories(data);
-  };
-
-  const filterSpots = () => {
-    let filtered = spots;
-
-    // Search
-    if (searchQuery) {
-      filtered = filtered.filter(
-        (spot) =>
-          spot.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          spot.municipality?.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    // Category filter
-    if (selectedCategory !== "all") {
-      filtered = filtered.filter((spot) =>
-        spot.category.some((cat) => cat === selectedCategory)
-      );
-    }
-
-    // Subcategory filter
-    if (selectedSubcategory !== "all") {
-      filtered = filtered.filter((spot) => {
-        const spotSubcategories = spot.subcategories || [];
-        return spotSubcategories.some((subcat: string) => 
-          subcat === selectedSubcategory
-        );
-      });
+  const locate = async () => {
+    setLocating(true);
+    try {
+      setOrigin(await getCurrentPosition());
+      return true;
+    } catch (error) {
+      console.error("Error getting location:", error);
+      toast.error("Couldn't get your location. Please enable location services.");
+      updateState({ sort: "name" });
+      return false;
+    } finally {
+      setLocating(false);
     }
+  };
 
-    setFilteredSpots(filtered);
+  const handleSortChange = async (value: ExploreSort) => {
+    if (value === "distance" && !origin && !(await locate())) return;
+    updateState({ sort: value });
   };
 
   const getCategoryColor = (category: string) => {
@@ -217,157 +193,190 @@ const Explore = () => {
 
           {/* DESTINATIONS TAB */}
           <TabsContent value="destinations" className="space-y-8">
-            {/* Search & Filter */}
+            {/* Search & Sort */}
             <div className="space-y-4">
-              <div className="grid md:grid-cols-[1fr_250px_250px] gap-4">
+              <div className="grid md:grid-cols-[1fr_200px] gap-4">
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                   <Input
                     placeholder="Search destinations or municipalities..."
                     className="pl-10"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
                   />
                 </div>
 
-                {/* CATEGORY DROPDOWN */}
-                <Select value={selectedCategory} onValueChange={setSelectedCategory}>
-                  <SelectTrigger className="w-full">
+                {/* SORT DROPDOWN */}
+                <Select value={sort} onValueChange={(value) => handleSortChange(value as ExploreSort)}>
+                  <SelectTrigger className="w-full" disabled={locating}>
                     <div className="flex items-center gap-2">
-                      <Filter className="w-4 h-4" />
-                      <SelectValue placeholder="All Categories" />
+                      {locating ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowUpDown className="w-4 h-4" />}
+                      <SelectValue />
                     </div>
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">
-                      All Categories ({spots.length})
-                    </SelectItem>
-                    {categories.map((category) => (
-                      <SelectItem key={category.id} value={category.name}>
-                        {category.icon} {category.name}
+                    {EXPLORE_SORTS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
-
-                {/* SUBCATEGORY DROPDOWN */}
-                {selectedCategory !== "all" && filteredSubcategories.length > 0 && (
-                  <Select value={selectedSubcategory} onValueChange={setSelectedSubcategory}>
-                    <SelectTrigger className="w-full">
-                      <div className="flex items-center gap-2">
-                        <Filter className="w-4 h-4" />
-                        <SelectValue placeholder="All Subcategories" />
-                      </div>
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">
-                        All Subcategories
-                      </SelectItem>
-                      {filteredSubcategories.map((subcategory) => (
-                        <SelectItem key={subcategory.id} value={subcategory.name}>
-                          {subcategory.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                )}
               </div>
 
+              {sort === "distance" && (
+                <div className="flex items-center gap-3 max-w-md">
+                  <RadiusSlider
+                    value={radiusKm}
+                    onChange={(value) => updateState({ radiusKm: value })}
+                    className="flex-1"
+                  />
+                </div>
+              )}
+
               {/* Active Filter Badges */}
-              {(selectedCategory !== "all" || selectedSubcategory !== "all") && (
-                <div className="flex items-center gap-2 flex-wrap">
-                  <span className="text-sm text-muted-foreground">Filtered by:</span>
-                  {selectedCategory !== "all" && (
-                    <Badge variant="secondary" className="gap-2">
-                      {categories.find(c => c.name === selectedCategory)?.icon} {selectedCategory}
-                      <button
-                        onClick={() => setSelectedCategory("all")}
-                        className="ml-1 hover:text-destructive"
-                      >
-                        ×
-                      </button>
-                    </Badge>
-                  )}
-                  {selectedSubcategory !== "all" && (
-                    <Badge variant="secondary" className="gap-2">
-                      {selectedSubcategory}
+              <div className="flex items-center gap-2 flex-wrap">
+                <Sheet>
+                  <SheetTrigger asChild>
+                    <Button variant="outline" size="sm" className="lg:hidden gap-2">
+                      <Filter className="w-4 h-4" />
+                      Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+                    </Button>
+                  </SheetTrigger>
+                  <SheetContent side="left" className="overflow-y-auto">
+                    <SheetHeader>
+                      <SheetTitle className="sr-only">Filters</SheetTitle>
+                    </SheetHeader>
+                    <ExploreFacets
+                      filters={filters}
+                      facets={facets}
+                      onChange={setFilters}
+                      categoryIcons={categoryIcons}
+                    />
+                  </SheetContent>
+                </Sheet>
+                {LIST_FACETS.flatMap((facet) =>
+                  filters[facet.key].map((value) => (
+                    <Badge key={`${facet.key}-${value}`} variant="secondary" className="gap-2">
+                      {facet.key === "categories" && categoryIcons.get(value)} {facetValueLabel(facet.key, value)}
                       <button
-                        onClick={() => setSelectedSubcategory("all")}
+                        onClick={() =>
+                          setFilters({ ...filters, [facet.key]: filters[facet.key].filter((item) => item !== value) })
+                        }
                         className="ml-1 hover:text-destructive"
                       >
                         ×
                       </button>
                     </Badge>
-                  )}
-                  <span className="text-sm text-muted-foreground">
-                    ({filteredSpots.length} {filteredSpots.length === 1 ? 'spot' : 'spots'})
-                  </span>
-                </div>
-              )}
+                  ))
+                )}
+                {TOGGLE_FACETS.filter((facet) => filters[facet.key]).map((facet) => (
+                  <Badge key={facet.key} variant="secondary" className="gap-2">
+                    {facet.label}
+                    <button
+                      onClick={() => setFilters({ ...filters, [facet.key]: false })}
+                      className="ml-1 hover:text-destructive"
+                    >
+                      ×
+                    </button>
+                  </Badge>
+                ))}
+                <span className="text-sm text-muted-foreground">
+                  {loading ? "Searching..." : `${total} ${total === 1 ? "spot" : "spots"}`}
+                </span>
+              </div>
             </div>
 
-            {/* SPOTS GRID */}
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredSpots.length > 0 ? (
-                filteredSpots.map((spot) => (
-                  <Card
-                    key={spot.id}
-                    className="overflow-hidden hover:shadow-xl transition-all hover:scale-105 cursor-pointer"
-                    onClick={() => navigate(`/spot/${spot.id}`)}
-                  >
-                    {spot.image_url && (
-                      <div className="h-48 overflow-hidden bg-muted">
-                        <img
-                          src={spot.image_url}
-                          alt={spot.name}
-                          className="w-full h-full object-cover"
-                        />
-                      </div>
-                    )}
-
-                    <CardHeader>
-                      <CardTitle className="flex items-start justify-between gap-2">
-                        <span className="line-clamp-2">{spot.name}</span>
-                        {spot.rating > 0 && (
-                          <div className="flex items-center gap-1 text-yellow-500 text-sm">
-                            <Star className="w-4 h-4 fill-current" />
-                            {spot.rating}
+            <div className="grid lg:grid-cols-[260px_1fr] gap-8">
+              <aside className="hidden lg:block">
+                <ExploreFacets
+                  filters={filters}
+                  facets={facets}
+                  onChange={setFilters}
+                  categoryIcons={categoryIcons}
+                />
+              </aside>
+
+              <div className="space-y-6">
+                {/* SPOTS GRID */}
+                <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-6">
+                  {spots.length > 0 ? (
+                    spots.map((spot) => (
+                      <Card
+                        key={spot.id}
+                        className="overflow-hidden hover:shadow-xl transition-all hover:scale-105 cursor-pointer"
+                        onClick={() => navigate(`/spot/${spot.id}`)}
+                      >
+                        {spot.image_url && (
+                          <div className="h-48 overflow-hidden bg-muted">
+                            <img
+                              src={spot.image_url}
+                              alt={spot.name}
+                              className="w-full h-full object-cover"
+                              loading="lazy"
+                            />
                           </div>
                         )}
-                      </CardTitle>
-                    </CardHeader>
-
-                    <CardContent>
-                      {spot.description && (
-                        <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-                          {spot.description}
-                        </p>
-                      )}
-
-                      <div className="flex items-center gap-1 text-sm text-muted-foreground mb-3">
-                        <MapPin className="w-4 h-4" />
-                        <span className="line-clamp-1">{spot.location}</span>
-                      </div>
 
-                      <div className="flex flex-wrap gap-2">
-                        {spot.category.map((cat) => (
-                          <Badge
-                            key={cat}
-                            className={getCategoryColor(cat)}
-                            variant="secondary"
-                          >
-                            {cat}
-                          </Badge>
-                        ))}
+                        <CardHeader>
+                          <CardTitle className="flex items-start justify-between gap-2">
+                            <span className="line-clamp-2">{spot.name}</span>
+                            {spot.rating > 0 && (
+                              <div className="flex items-center gap-1 text-yellow-500 text-sm">
+                                <Star className="w-4 h-4 fill-current" />
+                                {spot.rating}
+                              </div>
+                            )}
+                          </CardTitle>
+                        </CardHeader>
+
+                        <CardContent>
+                          {spot.description && (
+                            <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
+                              {spot.description}
+                            </p>
+                          )}
+
+                          <div className="flex items-center gap-1 text-sm text-muted-foreground mb-3">
+                            <MapPin className="w-4 h-4" />
+                            <span className="line-clamp-1">{spot.location}</span>
+                            {spot.distance_km !== null && (
+                              <Badge variant="outline" className="ml-auto shrink-0">
+                                {formatKm(spot.distance_km)}
+                              </Badge>
+                            )}
+                          </div>
+
+                          <div className="flex flex-wrap gap-2">
+                            {spot.is_hidden_gem && <Badge variant="outline">💎 Hidden gem</Badge>}
+                            {(spot.category || []).map((cat) => (
+                              <Badge
+                                key={cat}
+                                className={getCategoryColor(cat)}
+                                variant="secondary"
+                              >
+                                {cat}
+                              </Badge>
+                            ))}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))
+                  ) : (
+                    !loading && (
+                      <div className="col-span-full text-center py-12 text-lg text-muted-foreground">
+                        {sort === "distance"
+                          ? `No destinations within ${radiusKm} km of you`
+                          : "No destinations found"}
                       </div>
-                    </CardContent>
-                  </Card>
-                ))
-              ) : (
-                <div className="col-span-full text-center py-12 text-lg text-muted-foreground">
-                  No destinations found
+                    )
+                  )}
                 </div>
-              )}
+
+                <div ref={sentinelRef} className="flex justify-center py-4">
+                  {(loading || loadingMore || locating) && <Loader2 className="w-6 h-6 animate-spin text-primary" />}
+                </div>
+              </div>
             </div>
           </TabsContent>
 
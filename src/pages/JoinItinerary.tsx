@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Session } from "@supabase/supabase-js";
+import { toast } from "sonner";
+import { Loader2, Users } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { InvitePreview, MEMBER_ROLES, acceptInvite, fetchInvitePreview } from "@/lib/collaboration";
+
+const JoinItinerary = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [session, setSession] = useState<Session | null>(null);
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      if (!session) setLoading(false);
+    });
+  }, []);
+
+  // The preview needs a signed-in user, so only load it once there is a session
+  useEffect(() => {
+    if (!session || !token) return;
+
+    setLoading(true);
+    fetchInvitePreview(token)
+      .then(setInvite)
+      .catch((error) => {
+        console.error("Error fetching invite:", error);
+        toast.error("Failed to load invite");
+      })
+      .finally(() => setLoading(false));
+  }, [session, token]);
+
+  const handleJoin = async () => {
+    if (!token) return;
+
+    setJoining(true);
+    try {
+      await acceptInvite(token);
+      toast.success(`You joined ${invite?.itinerary_name || "the trip"}`);
+      navigate("/my-itinerary");
+    } catch (error) {
+      console.error("Error accepting invite:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to join itinerary");
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (!session) {
+      return (
+        <>
+          <p className="text-muted-foreground mb-6">Sign in to join this trip.</p>
+          <Button onClick={() => navigate(`/auth?redirect=${encodeURIComponent(`/invite/${token}`)}`)}>
+            Sign In
+          </Button>
+        </>
+      );
+    }
+
+    if (!invite) {
+      return (
+        <>
+          <p className="text-muted-foreground mb-6">
+            This invite link is invalid or has expired. Ask the trip organizer for a new one.
+          </p>
+          <Button variant="outline" onClick={() => navigate("/my-itinerary")}>
+            Go to My Itineraries
+          </Button>
+        </>
+      );
+    }
+
+    const role = MEMBER_ROLES.find((item) => item.value === invite.role);
+    return (
+      <>
+        <p className="mb-2">
+          {invite.owner_name || "A traveler"} invited you to <span className="font-semibold">{invite.itinerary_name}</span>{" "}
+          as {role?.label.toLowerCase() || invite.role}.
+        </p>
+        <p className="text-sm text-muted-foreground mb-6">{role?.description}</p>
+        <Button onClick={handleJoin} disabled={joining} className="gap-2">
+          {joining && <Loader2 className="w-4 h-4 animate-spin" />}
+          Join Trip
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container py-12">
+        <Card className="max-w-md mx-auto text-center">
+          <CardHeader>
+            <Users className="w-12 h-12 mx-auto mb-2 text-primary" />
+            <CardTitle>Join a Trip</CardTitle>
+            <CardDescription>Plan together with family and friends</CardDescription>
+          </CardHeader>
+          <CardContent>{renderContent()}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default JoinItinerary;
@@ -2,7 +2,15 @@ import { useEffect, useState } from "react";
 import { useSearchParams } from "react-router-dom";
 import Navbar from "@/components/Navbar";
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import Map from "@/components/Map";
+import RadiusSlider from "@/components/RadiusSlider";
+import { useNearbyPlaces } from "@/hooks/useNearbyPlaces";
+import { LatLng } from "@/lib/geo";
+import { DEFAULT_RADIUS_KM, PLACE_KINDS, PlaceKind, getCurrentPosition } from "@/lib/nearby";
+import { Loader2, LocateFixed } from "lucide-react";
+import { toast } from "sonner";
 
 const MapPage = () => {
   const [searchParams] = useSearchParams();
@@ -11,6 +19,11 @@ const MapPage = () => {
     lng: number;
     name?: string;
   } | null>(null);
+  const [origin, setOrigin] = useState<LatLng | null>(null);
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_RADIUS_KM);
+  const [kinds, setKinds] = useState<PlaceKind[]>(PLACE_KINDS.map((kind) => kind.value));
+  const [locating, setLocating] = useState(false);
+  const { places, loading } = useNearbyPlaces(origin, radiusKm, kinds);
 
   useEffect(() => {
     const lat = searchParams.get("lat");
@@ -26,6 +39,23 @@ const MapPage = () => {
     }
   }, [searchParams]);
 
+  const toggleNearMe = async () => {
+    if (origin) {
+      setOrigin(null);
+      return;
+    }
+
+    setLocating(true);
+    try {
+      setOrigin(await getCurrentPosition());
+    } catch (error) {
+      console.error("Error getting location:", error);
+      toast.error("Couldn't get your location. Please enable location services.");
+    } finally {
+      setLocating(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -36,15 +66,46 @@ const MapPage = () => {
             Interactive <span className="text-primary">Map</span>
           </h1>
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-            {autoDestination?.name 
-              ? `Navigate to ${autoDestination.name}` 
+            {autoDestination?.name
+              ? `Navigate to ${autoDestination.name}`
               : "Explore all tourist destinations across Albay on an interactive, free map powered by OpenStreetMap"}
           </p>
         </div>
 
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <Button variant={origin ? "default" : "outline"} onClick={toggleNearMe} disabled={locating} className="gap-2">
+            {locating ? <Loader2 className="w-4 h-4 animate-spin" /> : <LocateFixed className="w-4 h-4" />}
+            Near Me
+          </Button>
+          {origin && (
+            <>
+              <RadiusSlider value={radiusKm} onChange={setRadiusKm} className="w-64" />
+              <ToggleGroup
+                type="multiple"
+                value={kinds}
+                onValueChange={(value) => value.length > 0 && setKinds(value as PlaceKind[])}
+              >
+                {PLACE_KINDS.map((kind) => (
+                  <ToggleGroupItem key={kind.value} value={kind.value} size="sm" className="gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: kind.color }} />
+                    {kind.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <span className="text-sm text-muted-foreground">
+                {loading ? "Searching..." : `${places.length} ${places.length === 1 ? "place" : "places"} found`}
+              </span>
+            </>
+          )}
+        </div>
+
         <div className="h-[600px]">
           <Card className="overflow-hidden h-full">
-            <Map autoDestination={autoDestination} />
+            <Map
+              autoDestination={autoDestination}
+              places={places}
+              searchArea={origin ? { center: origin, radiusKm } : null}
+            />
           </Card>
         </div>
       </div>
@@ -6,28 +6,69 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { MapPin, Navigation, Trash2, Loader2, Calendar, AlertCircle, Plus, Sparkles } from "lucide-react";
+import {
+  MapPin,
+  Trash2,
+  Loader2,
+  Calendar,
+  Plus,
+  Sparkles,
+  Map as MapIcon,
+  Route,
+  Navigation,
+  Download,
+  Users,
+  LogOut,
+} from "lucide-react";
 import { Session } from "@supabase/supabase-js";
 import { CreateItineraryModal } from "@/components/CreateItineraryModal";
-
-interface SavedSpot {
-  id: string;
-  name: string;
-  description: string | null;
-  location: string;
-  municipality: string | null;
-  category: string[];
-  image_url: string | null;
-  latitude: number | null;
-  longitude: number | null;
-}
+import ItineraryDayPlanner from "@/components/ItineraryDayPlanner";
+import ItineraryMap from "@/components/ItineraryMap";
+import { OptimizeRouteDialog } from "@/components/OptimizeRouteDialog";
+import ItineraryHazardWarnings from "@/components/ItineraryHazardWarnings";
+import ItineraryActivityLog from "@/components/ItineraryActivityLog";
+import ShareItineraryDialog from "@/components/ShareItineraryDialog";
+import ExportItineraryMenu from "@/components/ExportItineraryMenu";
+import ItineraryBudget from "@/components/ItineraryBudget";
+import { useHazardZones } from "@/hooks/useHazardZones";
+import { useSpotCatalogue } from "@/hooks/useSpotCatalogue";
+import { useCostRates } from "@/hooks/useCostRates";
+import {
+  applyPendingChanges,
+  cacheItineraries,
+  getCachedItineraries,
+  isNetworkError,
+  isOffline,
+  queueChange,
+  saveItineraryForOffline,
+} from "@/lib/offline";
+import { ItineraryDay, ItineraryStop, countStops, parseDays, toItineraryColumns } from "@/lib/itinerary";
+import { BudgetTier, tierFromPreference } from "@/lib/budget";
+import {
+  ItineraryRole,
+  canEdit,
+  fetchMemberships,
+  isOutdatedError,
+  leaveItinerary,
+  saveItineraryPlan,
+  shareUrl,
+} from "@/lib/collaboration";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
 
 interface SavedItinerary {
   id: string;
   name: string;
   created_at: string;
-  spots: SavedSpot[];
+  days: ItineraryDay[];
   selected_categories: string[];
+  role: ItineraryRole;
+  // Owned and has members, or shared with the user
+  shared: boolean;
+  share_id: string | null;
+  travelers: number;
+  budget_limit: number | null;
+  // Plan version this copy was loaded at, checked when saving
+  version: number;
 }
 
 const MyItinerary = () => {
@@ -37,6 +78,14 @@ const MyItinerary = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [mapOpenId, setMapOpenId] = useState<string | null>(null);
+  const [optimizingId, setOptimizingId] = useState<string | null>(null);
+  const [savingOfflineId, setSavingOfflineId] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [budgetTier, setBudgetTier] = useState<BudgetTier>("moderate");
+  const { zones } = useHazardZones();
+  const { rates } = useCostRates();
+  const catalogue = useSpotCatalogue(zones.length > 0);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -61,33 +110,115 @@ const MyItinerary = () => {
   useEffect(() => {
     if (session?.user) {
       fetchItineraries();
+      fetchBudgetTier(session.user.id);
+    }
+  }, [session]);
+
+  const fetchBudgetTier = async (userId: string) => {
+    const { data, error } = await supabase.from("profiles").select("user_preferences").eq("id", userId).maybeSingle();
+    if (error) {
+      console.error("Error fetching budget preference:", error);
+      return;
     }
+
+    const preferences = data?.user_preferences as { budgetRange?: string } | null;
+    setBudgetTier(tierFromPreference(preferences?.budgetRange));
+  };
+
+  // Edits from other members arrive live; RLS limits events to itineraries the user can see
+  useEffect(() => {
+    if (!session?.user) return;
+
+    const channel = supabase
+      .channel("my-itineraries")
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "itineraries" }, (payload) => {
+        const row = payload.new as Tables<"itineraries">;
+        setItineraries((current) =>
+          current.map((itinerary) =>
+            itinerary.id === row.id
+              ? {
+                  ...itinerary,
+                  name: row.name,
+                  days: parseDays(row.days, row.spots),
+                  share_id: row.share_id,
+                  travelers: row.travelers || 1,
+                  budget_limit: row.budget_limit != null ? Number(row.budget_limit) : null,
+                  version: row.version,
+                }
+              : itinerary
+          )
+        );
+      })
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "itineraries" }, (payload) => {
+        const { id } = payload.old as { id: string };
+        setItineraries((current) => current.filter((itinerary) => itinerary.id !== id));
+      })
+      // Joins, role changes and removals change what the user can see or do
+      .on("postgres_changes", { event: "*", schema: "public", table: "itinerary_members" }, () => {
+        fetchItineraries(false);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [session]);
 
-  const fetchItineraries = async () => {
+  const fetchItineraries = async (showLoading = true) => {
     if (!session?.user) return;
+    const userId = session.user.id;
 
-    setIsLoading(true);
-    const { data, error } = await supabase
-      .from("itineraries")
-      .select("*")
-      .eq("user_id", session.user.id)
-      .order("created_at", { ascending: false });
+    if (showLoading) setIsLoading(true);
+    // RLS returns the user's own itineraries plus the ones shared with them
+    const [{ data, error }, memberships] = await Promise.all([
+      supabase.from("itineraries").select("*").order("created_at", { ascending: false }),
+      fetchMemberships().catch((membershipError) => {
+        console.error("Error fetching itinerary members:", membershipError);
+        return [];
+      }),
+    ]);
 
-    setIsLoading(false);
+    const roleOf = (row: { id: string; user_id: string; role?: ItineraryRole }): ItineraryRole =>
+      row.user_id === userId
+        ? "owner"
+        : memberships.find((member) => member.itinerary_id === row.id && member.user_id === userId)?.role ||
+          row.role ||
+          "viewer";
 
+    let rows: ((typeof data)[number] & { role?: ItineraryRole })[] = data || [];
     if (error) {
-      toast.error("Failed to load itineraries");
-      return;
+      if (!isNetworkError(error)) {
+        setIsLoading(false);
+        toast.error("Failed to load itineraries");
+        return;
+      }
+
+      // Offline: fall back to the copy saved on this device
+      rows = (await getCachedItineraries(userId).catch(() => [])) as typeof rows;
+      toast.info("You're offline. Showing itineraries saved on this device.");
+    } else {
+      // The role is cached too so shared itineraries stay editable offline
+      cacheItineraries(userId, rows.map((row) => ({ ...row, role: roleOf(row) }))).catch((cacheError) =>
+        console.error("Error caching itineraries:", cacheError)
+      );
+      rows = await applyPendingChanges("itineraries", rows).catch(() => rows);
     }
 
+    setIsLoading(false);
+
     // Transform the data to match our interface
-    const transformedData: SavedItinerary[] = (data || []).map((item) => ({
+    const transformedData: SavedItinerary[] = rows.map((item) => ({
       id: item.id,
       name: item.name,
       created_at: item.created_at,
-      spots: Array.isArray(item.spots) ? (item.spots as any[]).filter(spot => spot && typeof spot === 'object') : [],
+      days: parseDays(item.days, item.spots),
       selected_categories: item.selected_categories || [],
+      role: roleOf(item),
+      shared: item.user_id !== userId || memberships.some((member) => member.itinerary_id === item.id),
+      share_id: item.share_id ?? null,
+      travelers: item.travelers || 1,
+      budget_limit: item.budget_limit != null ? Number(item.budget_limit) : null,
+      version: item.version ?? 1,
     }));
 
     setItineraries(transformedData);
@@ -95,11 +226,17 @@ const MyItinerary = () => {
 
   const deleteItinerary = async (id: string) => {
     setDeletingId(id);
-    const { error } = await supabase.from("itineraries").delete().eq("id", id);
+    const { error } = isOffline()
+      ? { error: { message: "offline" } }
+      : await supabase.from("itineraries").delete().eq("id", id);
 
     setDeletingId(null);
 
-    if (error) {
+    if (error && isNetworkError(error)) {
+      await queueChange({ table: "itineraries", op: "delete", id });
+      toast.success("Itinerary deleted. It will be removed from your account once you're back online.");
+      setItineraries((current) => current.filter((itinerary) => itinerary.id !== id));
+    } else if (error) {
       toast.error("Failed to delete itinerary");
     } else {
       toast.success("Itinerary deleted");
@@ -107,7 +244,114 @@ const MyItinerary = () => {
     }
   };
 
-  const navigateToSpot = (spot: SavedSpot) => {
+  const leaveSharedItinerary = async (itinerary: SavedItinerary) => {
+    if (!session?.user || !confirm(`Leave ${itinerary.name}? You'll need a new invite to rejoin.`)) return;
+
+    setDeletingId(itinerary.id);
+    try {
+      await leaveItinerary(itinerary.id, session.user.id);
+      toast.success(`You left ${itinerary.name}`);
+      setItineraries((current) => current.filter((item) => item.id !== itinerary.id));
+    } catch (error) {
+      console.error("Error leaving itinerary:", error);
+      toast.error("Failed to leave itinerary");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  // Saves to the server, or queues the change on this device when offline
+  const updateItinerary = async (id: string, values: TablesUpdate<"itineraries">, changes: Partial<SavedItinerary>) => {
+    const { error } = isOffline()
+      ? { error: { message: "offline" } }
+      : await supabase.from("itineraries").update(values).eq("id", id);
+
+    if (error && isNetworkError(error)) {
+      await queueChange({ table: "itineraries", op: "update", id, values });
+      toast.success("Saved on this device. Changes will sync when you're back online.");
+    } else if (error) {
+      toast.error("Failed to save itinerary");
+      throw error;
+    } else {
+      toast.success("Itinerary saved");
+    }
+
+    setItineraries((current) =>
+      current.map((itinerary) => (itinerary.id === id ? { ...itinerary, ...changes } : itinerary))
+    );
+  };
+
+  // Plan edits are checked against the version they started from, so a
+  // member saving an old copy can't overwrite someone else's changes
+  const saveDays = async (itinerary: SavedItinerary, days: ItineraryDay[]) => {
+    const values = toItineraryColumns(days);
+    let version = itinerary.version;
+    let error: { message?: string } | null = isOffline() ? { message: "offline" } : null;
+
+    if (!error) {
+      try {
+        version = await saveItineraryPlan(itinerary.id, itinerary.version, values);
+      } catch (saveError) {
+        error = saveError as { message?: string };
+      }
+    }
+
+    if (error && isNetworkError(error)) {
+      await queueChange({
+        table: "itineraries",
+        op: "save_plan",
+        id: itinerary.id,
+        values,
+        baseVersion: itinerary.version,
+      });
+      toast.success("Saved on this device. Changes will sync when you're back online.");
+    } else if (isOutdatedError(error)) {
+      toast.error("Someone else saved this itinerary while you were editing. Load their changes and try again.");
+      throw error;
+    } else if (error) {
+      toast.error("Failed to save itinerary");
+      throw error;
+    } else {
+      toast.success("Itinerary saved");
+    }
+
+    setItineraries((current) =>
+      current.map((item) => (item.id === itinerary.id ? { ...item, days, version } : item))
+    );
+  };
+
+  const saveForOffline = async (itinerary: SavedItinerary) => {
+    if (isOffline()) {
+      toast.error("Connect to the internet to download this itinerary for offline use");
+      return;
+    }
+
+    setSavingOfflineId(itinerary.id);
+    const toastId = toast.loading("Saving for offline use...");
+    try {
+      const { saved, mapped, total } = await saveItineraryForOffline(itinerary.days);
+
+      if (!saved) {
+        toast.warning("Saved, but some places could not be downloaded. Try again before you go.", { id: toastId });
+      } else {
+        toast.success(`${itinerary.name} is available offline`, {
+          id: toastId,
+          description:
+            mapped === total
+              ? "Maps around all of its stops are saved too."
+              : `${total - mapped} of ${total} stops have no offline map yet. Zoom in on them on the map now to save them.`,
+        });
+      }
+      setMapOpenId(itinerary.id);
+    } catch (error) {
+      console.error("Error saving itinerary offline:", error);
+      toast.error("Failed to save itinerary for offline use", { id: toastId });
+    } finally {
+      setSavingOfflineId(null);
+    }
+  };
+
+  const navigateToSpot = (spot: ItineraryStop) => {
     if (!spot.latitude || !spot.longitude) {
       toast.error("Location coordinates not available");
       return;
@@ -120,6 +364,8 @@ const MyItinerary = () => {
     );
   };
 
+  const optimizing = itineraries.find((itinerary) => itinerary.id === optimizingId);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -179,6 +425,12 @@ const MyItinerary = () => {
                           Created on {new Date(itinerary.created_at).toLocaleDateString()}
                         </div>
                         <div className="flex flex-wrap gap-2 mt-3">
+                          {itinerary.role !== "owner" && (
+                            <Badge className="gap-1 capitalize">
+                              <Users className="w-3 h-3" />
+                              Shared with you · {itinerary.role}
+                            </Badge>
+                          )}
                           {itinerary.selected_categories.map((category) => (
                             <Badge key={category} variant="secondary">
                               {category}
@@ -186,94 +438,138 @@ const MyItinerary = () => {
                           ))}
                         </div>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => deleteItinerary(itinerary.id)}
-                        disabled={deletingId === itinerary.id}
-                      >
-                        {deletingId === itinerary.id ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="w-4 h-4" />
-                        )}
-                      </Button>
+                      {itinerary.role === "owner" ? (
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Share"
+                            onClick={() => setSharingId(itinerary.id)}
+                          >
+                            <Users className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteItinerary(itinerary.id)}
+                            disabled={deletingId === itinerary.id}
+                          >
+                            {deletingId === itinerary.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4" />
+                            )}
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Leave trip"
+                          onClick={() => leaveSharedItinerary(itinerary)}
+                          disabled={deletingId === itinerary.id}
+                        >
+                          {deletingId === itinerary.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <LogOut className="w-4 h-4" />
+                          )}
+                        </Button>
+                      )}
                     </div>
                   </div>
 
                   <CardContent className="p-6">
-                    <h3 className="font-semibold mb-4 flex items-center gap-2">
-                      <MapPin className="w-5 h-5 text-primary" />
-                      Destinations ({itinerary.spots.length})
-                    </h3>
-                    <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-                      {itinerary.spots.map((spot) => {
-                        const hasCoordinates = spot.latitude && spot.longitude;
-                        return (
-                          <Card
-                            key={spot.id}
-                            className={`overflow-hidden transition-all ${
-                              hasCoordinates ? "cursor-pointer hover:shadow-lg group" : ""
-                            }`}
-                            onClick={() => hasCoordinates && navigateToSpot(spot)}
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="font-semibold flex items-center gap-2">
+                        <MapPin className="w-5 h-5 text-primary" />
+                        {itinerary.days.length} {itinerary.days.length === 1 ? "Day" : "Days"} ·{" "}
+                        {countStops(itinerary.days)} Destinations
+                      </h3>
+                      <div className="flex flex-wrap justify-end gap-2">
+                        {canEdit(itinerary.role) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => setOptimizingId(itinerary.id)}
                           >
-                            {spot.image_url && (
-                              <div className="relative h-40 overflow-hidden">
-                                <img
-                                  src={spot.image_url}
-                                  alt={spot.name}
-                                  className={`w-full h-full object-cover transition-transform duration-300 ${
-                                    hasCoordinates ? "group-hover:scale-110" : ""
-                                  }`}
-                                />
-                                <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
-                                <div className="absolute bottom-2 right-2">
-                                  <Button
-                                    size="sm"
-                                    className="gap-2 bg-primary/90 hover:bg-primary"
-                                    disabled={!hasCoordinates}
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      navigateToSpot(spot);
-                                    }}
-                                  >
-                                    <Navigation className="w-3 h-3" />
-                                    Get Directions
-                                  </Button>
-                                </div>
-                              </div>
-                            )}
-                            <div className="p-4">
-                              <div className="flex items-start justify-between gap-2 mb-1">
-                                <h4 className="font-semibold line-clamp-1">{spot.name}</h4>
-                                {!hasCoordinates && (
-                                  <Badge variant="secondary" className="text-xs gap-1 shrink-0">
-                                    <AlertCircle className="w-3 h-3" />
-                                    No GPS
-                                  </Badge>
-                                )}
-                              </div>
-                              {spot.description && (
-                                <p className="text-sm text-muted-foreground mb-2 line-clamp-2">
-                                  {spot.description}
-                                </p>
-                              )}
-                              <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                                <MapPin className="w-3 h-3" />
-                                <span className="line-clamp-1">{spot.location}</span>
-                              </div>
-                              <div className="flex flex-wrap gap-1 mt-2">
-                                {(spot.category || []).slice(0, 2).map((cat) => (
-                                  <Badge key={cat} variant="outline" className="text-xs">
-                                    {cat}
-                                  </Badge>
-                                ))}
-                              </div>
-                            </div>
-                          </Card>
-                        );
-                      })}
+                            <Route className="w-4 h-4" />
+                            Optimize Order
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => navigate(`/route?itinerary=${itinerary.id}`)}
+                        >
+                          <Navigation className="w-4 h-4" />
+                          Route All Stops
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => saveForOffline(itinerary)}
+                          disabled={savingOfflineId === itinerary.id}
+                        >
+                          {savingOfflineId === itinerary.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Download className="w-4 h-4" />
+                          )}
+                          Save Offline
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => setMapOpenId(mapOpenId === itinerary.id ? null : itinerary.id)}
+                        >
+                          <MapIcon className="w-4 h-4" />
+                          {mapOpenId === itinerary.id ? "Hide Map" : "Show Map"}
+                        </Button>
+                        <ExportItineraryMenu
+                          exportId={itinerary.id}
+                          name={itinerary.name}
+                          days={itinerary.days}
+                          shareUrl={itinerary.share_id ? shareUrl(itinerary.share_id) : null}
+                        />
+                      </div>
                     </div>
+                    {mapOpenId === itinerary.id && (
+                      <div className="mb-6">
+                        <ItineraryMap days={itinerary.days} zones={zones} />
+                      </div>
+                    )}
+                    <ItineraryHazardWarnings
+                      days={itinerary.days}
+                      zones={zones}
+                      catalogue={catalogue}
+                      onSave={canEdit(itinerary.role) ? (days) => saveDays(itinerary, days) : undefined}
+                    />
+                    <ItineraryBudget
+                      days={itinerary.days}
+                      rates={rates}
+                      tier={budgetTier}
+                      travelers={itinerary.travelers}
+                      budgetLimit={itinerary.budget_limit}
+                      onSaveSettings={
+                        itinerary.role === "owner"
+                          ? (settings) => updateItinerary(itinerary.id, settings, settings)
+                          : undefined
+                      }
+                    />
+                    {itinerary.shared && session?.user && (
+                      <ItineraryActivityLog itineraryId={itinerary.id} userId={session.user.id} />
+                    )}
+                    <ItineraryDayPlanner
+                      days={itinerary.days}
+                      onSave={(days) => saveDays(itinerary, days)}
+                      onNavigate={navigateToSpot}
+                      readOnly={!canEdit(itinerary.role)}
+                    />
                   </CardContent>
                 </Card>
               ))}
@@ -282,6 +578,31 @@ const MyItinerary = () => {
         </div>
       </div>
 
+      {optimizing && (
+        <OptimizeRouteDialog
+          open={!!optimizing}
+          onOpenChange={(open) => !open && setOptimizingId(null)}
+          days={optimizing.days}
+          onApply={(days) => saveDays(optimizing, days)}
+        />
+      )}
+
+      {sharingId && session?.user && (
+        <ShareItineraryDialog
+          open={!!sharingId}
+          onOpenChange={(open) => !open && setSharingId(null)}
+          itineraryId={sharingId}
+          itineraryName={itineraries.find((itinerary) => itinerary.id === sharingId)?.name || ""}
+          userId={session.user.id}
+          shareId={itineraries.find((itinerary) => itinerary.id === sharingId)?.share_id || null}
+          onShareIdChange={(shareId) =>
+            setItineraries((current) =>
+              current.map((itinerary) => (itinerary.id === sharingId ? { ...itinerary, share_id: shareId } : itinerary))
+            )
+          }
+        />
+      )}
+
       {session?.user && (
         <CreateItineraryModal
           open={showCreateModal}
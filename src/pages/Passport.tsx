@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import Navbar from "@/components/Navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useCheckIns } from "@/hooks/useCheckIns";
+import { PassportSpot, buildPassport, fetchPassportSpots } from "@/lib/passport";
+import { BookOpen, Loader2, MapPin, Stamp } from "lucide-react";
+
+const Passport = () => {
+  const navigate = useNavigate();
+  const [session, setSession] = useState<Session | null>(null);
+  const [spots, setSpots] = useState<PassportSpot[]>([]);
+  const [loadingSpots, setLoadingSpots] = useState(true);
+  const { checkIns, loading: loadingCheckIns } = useCheckIns(session?.user?.id);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      if (!session) navigate("/auth");
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+      if (!session) navigate("/auth");
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    fetchPassportSpots()
+      .then(setSpots)
+      .catch((error) => console.error("Error fetching spots:", error))
+      .finally(() => setLoadingSpots(false));
+  }, []);
+
+  const passport = useMemo(() => buildPassport(spots, checkIns), [spots, checkIns]);
+
+  if (!session || loadingSpots || loadingCheckIns) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="flex items-center justify-center min-h-[calc(100vh-4rem)]">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="flex items-center gap-3 mb-2">
+          <BookOpen className="w-8 h-8 text-primary" />
+          <h1 className="text-4xl font-bold">My Albay Passport</h1>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          Check in at a tourist spot while you're there to collect that town's stamp.
+        </p>
+
+        <Card className="mb-8">
+          <CardContent className="p-6 space-y-3">
+            <div className="flex items-end justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Towns and cities stamped</p>
+                <p className="text-3xl font-bold">
+                  {passport.stampedTowns} / {passport.towns.length}
+                </p>
+              </div>
+              <p className="text-3xl font-bold text-primary">{passport.percent}%</p>
+            </div>
+            <Progress value={passport.percent} />
+            <div className="flex flex-wrap gap-2 pt-1">
+              {passport.districts.map((district) => (
+                <Badge key={district.district} variant={district.complete ? "default" : "outline"} className="gap-1">
+                  {district.complete && <Stamp className="w-3 h-3" />}
+                  {district.district}: {district.stampedTowns}/{district.towns.length}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-8 mb-12">
+          {passport.districts.map((district) => (
+            <div key={district.district}>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold">{district.district}</h2>
+                <span className="text-sm text-muted-foreground">{district.percent}% complete</span>
+              </div>
+              <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {district.towns.map((town) => (
+                  <Card key={town.municipality.name} className={town.stampedAt ? "border-primary" : "opacity-80"}>
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <h3 className="font-semibold">{town.municipality.name}</h3>
+                          <p className="text-xs text-muted-foreground">
+                            {town.stampedAt
+                              ? `Stamped ${new Date(town.stampedAt).toLocaleDateString()}`
+                              : "Not stamped yet"}
+                          </p>
+                        </div>
+                        <Stamp
+                          className={`w-8 h-8 shrink-0 ${town.stampedAt ? "text-primary" : "text-muted-foreground/30"}`}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Progress value={town.percent} className="h-2" />
+                        <p className="text-xs text-muted-foreground">
+                          {town.totalSpots > 0
+                            ? `${town.visitedSpots} of ${town.totalSpots} spots visited (${town.percent}%)`
+                            : "No listed spots yet"}
+                        </p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Check-ins</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {checkIns.length > 0 ? (
+              <div className="space-y-3">
+                {checkIns.map((checkIn) => (
+                  <div key={checkIn.id} className="flex items-center gap-3">
+                    <img
+                      src={checkIn.photo_url || checkIn.tourist_spots?.image_url || "/placeholder.svg"}
+                      alt={checkIn.tourist_spots?.name || "Check-in"}
+                      className="w-16 h-16 object-cover rounded"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <Link to={`/spot/${checkIn.spot_id}`} className="font-semibold hover:underline line-clamp-1">
+                        {checkIn.tourist_spots?.name || "Removed spot"}
+                      </Link>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {checkIn.tourist_spots?.municipality && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {checkIn.tourist_spots.municipality}
+                          </span>
+                        )}
+                        <span>{new Date(checkIn.checked_in_at).toLocaleString()}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 space-y-3">
+                <p className="text-muted-foreground">No check-ins yet. Open a spot while you're there and tap Check In.</p>
+                <Button variant="outline" onClick={() => navigate("/explore")}>
+                  Explore destinations
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Passport;
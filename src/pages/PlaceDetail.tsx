@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import Navbar from "@/components/Navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import WeatherWidget from "@/components/WeatherWidget";
+import AdvisoryList from "@/components/AdvisoryList";
+import FavoriteButton from "@/components/FavoriteButton";
+import MediaGallery from "@/components/MediaGallery";
+import OpenNowBadge from "@/components/OpenNowBadge";
+import OpeningHoursList from "@/components/OpeningHoursList";
+import { ReviewPhotoGrid } from "@/components/reviews/ReviewPhotoGrid";
+import { ReviewsSection } from "@/components/reviews/ReviewsSection";
+import { useAdvisories } from "@/hooks/useAdvisories";
+import { useFavorites } from "@/hooks/useFavorites";
+import { useReviews } from "@/hooks/useReviews";
+import { BudgetTier } from "@/lib/budget";
+import { mapUrl } from "@/lib/nearby";
+import { parseOpeningHours } from "@/lib/openingHours";
+import { PRICE_LEVEL_SYMBOLS } from "@/lib/restaurants";
+import { ArrowLeft, Globe, Loader2, Mail, Map as MapIcon, MapPin, Phone, Wallet } from "lucide-react";
+
+type PlaceDetailKind = "accommodation" | "restaurant";
+
+const PLACE_TABLES = {
+  accommodation: "accommodations",
+  restaurant: "restaurants",
+} as const;
+
+const NOT_FOUND_LABELS: Record<PlaceDetailKind, string> = {
+  accommodation: "Accommodation not found",
+  restaurant: "Restaurant not found",
+};
+
+type Place = Tables<"accommodations"> | Tables<"restaurants">;
+
+interface PlaceDetailProps {
+  kind: PlaceDetailKind;
+}
+
+// Detail page for stays and restaurants; spots keep their own page
+const PlaceDetail = ({ kind }: PlaceDetailProps) => {
+  const { id } = useParams<{ id: string }>();
+  const [place, setPlace] = useState<Place | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { advisories } = useAdvisories(place?.municipality ?? null, !!place);
+  const openingHours = parseOpeningHours(place?.opening_hours);
+  const currentUserId = session?.user?.id || null;
+  const favorites = useFavorites(session?.user?.id);
+  const {
+    reviews,
+    stats: reviewStats,
+    loading: isReviewsLoading,
+    refresh: refreshReviews,
+    hasUserReviewed,
+  } = useReviews(kind, place?.id, currentUserId);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+
+    setIsLoading(true);
+    supabase
+      .from(PLACE_TABLES[kind])
+      .select("*")
+      .eq("id", id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error(`Error fetching ${kind}:`, error);
+        if (!cancelled) {
+          setPlace(data as Place | null);
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, id]);
+
+  const communityPhotos = reviews.flatMap((review) =>
+    review.photos.filter((photo) => photo.status === "approved")
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container py-12 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!place) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container py-12">
+          <p className="text-center text-muted-foreground">{NOT_FOUND_LABELS[kind]}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const tags = "cuisine_tags" in place ? place.cuisine_tags : place.category || [];
+  const price =
+    "price_level" in place
+      ? place.price_level && PRICE_LEVEL_SYMBOLS[place.price_level as BudgetTier]
+      : place.price_range;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container py-8">
+        <Link to="/explore">
+          <Button variant="ghost" className="mb-6">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Explore
+          </Button>
+        </Link>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <AdvisoryList advisories={advisories} />
+
+            {/* Photos */}
+            <MediaGallery entityType={kind} entityId={place.id} name={place.name} fallbackImageUrl={place.image_url} />
+
+            {/* Details Card */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <CardTitle className="text-3xl">{place.name}</CardTitle>
+                  {session && <FavoriteButton itemId={place.id} itemType={kind} favorites={favorites} />}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  {tags.map((tag) => (
+                    <Badge key={tag} variant="secondary">
+                      {tag}
+                    </Badge>
+                  ))}
+                  <OpenNowBadge hours={openingHours} />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {place.description && <p className="text-muted-foreground">{place.description}</p>}
+
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="w-5 h-5 text-primary" />
+                    <span>{place.location}</span>
+                  </div>
+                  {place.municipality && (
+                    <div className="text-sm text-muted-foreground ml-7">{place.municipality}</div>
+                  )}
+                  {price && (
+                    <div className="flex items-center gap-2">
+                      <Wallet className="w-5 h-5 text-primary" />
+                      <span>{price}</span>
+                    </div>
+                  )}
+                  {place.contact_number && (
+                    <div className="flex items-center gap-2">
+                      <Phone className="w-5 h-5 text-primary" />
+                      <a href={`tel:${place.contact_number}`} className="hover:underline">
+                        {place.contact_number}
+                      </a>
+                    </div>
+                  )}
+                  {place.email && (
+                    <div className="flex items-center gap-2">
+                      <Mail className="w-5 h-5 text-primary" />
+                      <a href={`mailto:${place.email}`} className="hover:underline">
+                        {place.email}
+                      </a>
+                    </div>
+                  )}
+                  {"website" in place && place.website && (
+                    <div className="flex items-center gap-2">
+                      <Globe className="w-5 h-5 text-primary" />
+                      <a href={place.website} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {place.website}
+                      </a>
+                    </div>
+                  )}
+                  <OpeningHoursList hours={openingHours} />
+                </div>
+
+                {"amenities" in place && place.amenities?.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Amenities</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {place.amenities.map((amenity) => (
+                        <Badge key={amenity} variant="outline">
+                          {amenity}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Community Photos */}
+            {communityPhotos.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Traveller Photos</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ReviewPhotoGrid photos={communityPhotos} thumbClassName="w-28 h-28" />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Reviews Section */}
+            <ReviewsSection
+              entityType={kind}
+              entityId={place.id}
+              currentUserId={currentUserId}
+              reviews={reviews}
+              stats={reviewStats}
+              loading={isReviewsLoading}
+              hasUserReviewed={hasUserReviewed}
+              onChange={refreshReviews}
+            />
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            <WeatherWidget municipality={place.municipality} compact />
+
+            {place.latitude !== null && place.longitude !== null && (
+              <Link to={mapUrl({ ...place, kind })}>
+                <Button variant="outline" className="w-full gap-2">
+                  <MapIcon className="w-4 h-4" />
+                  View on Map
+                </Button>
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaceDetail;
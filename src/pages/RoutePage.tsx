@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
 import { MapContainer, TileLayer, Marker, Polyline, useMap } from "react-leaflet";
 import L from "leaflet";
@@ -7,7 +7,19 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { ArrowLeft, Navigation, MapPin, Clock, Gauge, Car, PersonStanding, Bike, Loader2 } from "lucide-react";
+import { ArrowLeft, Navigation, MapPin, Clock, Gauge, Car, PersonStanding, Bike, Loader2, ListOrdered, Square } from "lucide-react";
+import ItineraryRoute from "@/components/ItineraryRoute";
+import DirectionsPanel from "@/components/DirectionsPanel";
+import { useWatchPosition } from "@/hooks/useWatchPosition";
+import { LatLng, haversineKm, projectOntoPolyline } from "@/lib/geo";
+import { RouteStep, TravelMode, getRoute } from "@/lib/routing";
+
+// A maneuver counts as reached this far before it along the route
+const STEP_REACHED_KM = 0.03;
+// Consecutive fixes this far from the route, beyond their accuracy radius,
+// trigger a re-route
+const OFF_ROUTE_KM = 0.06;
+const OFF_ROUTE_FIXES = 2;
 
 const userLocationIcon = new L.Icon({
   iconUrl: "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-blue.png",
@@ -27,12 +39,12 @@ const destinationIcon = new L.Icon({
   shadowSize: [41, 41],
 });
 
-type TravelMode = "driving" | "walking" | "cycling";
-
 interface RouteData {
   distance: number;
   duration: number;
-  coordinates: [number, number][];
+  coordinates: LatLng[];
+  steps: RouteStep[];
+  approximate: boolean;
 }
 
 function MapController({ center, zoom }: { center: [number, number]; zoom: number }) {
@@ -48,7 +60,7 @@ function MapController({ center, zoom }: { center: [number, number]; zoom: numbe
   return null;
 }
 
-const RoutePage = () => {
+const DestinationRoute = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   
@@ -64,6 +76,10 @@ const RoutePage = () => {
   const [travelMode, setTravelMode] = useState<TravelMode>("driving");
   const [mapCenter, setMapCenter] = useState<[number, number]>([destLat, destLng]);
   const [mapZoom, setMapZoom] = useState(13);
+  const [isNavigating, setIsNavigating] = useState(false);
+  const [activeStep, setActiveStep] = useState(0);
+  const offRouteFixes = useRef(0);
+  const { position: livePosition, accuracy, error: watchError } = useWatchPosition(isNavigating);
 
   useEffect(() => {
     getUserLocation();
@@ -75,6 +91,53 @@ const RoutePage = () => {
     }
   }, [userLocation, travelMode]);
 
+  useEffect(() => {
+    setActiveStep(0);
+    offRouteFixes.current = 0;
+  }, [routeData]);
+
+  // How far along the route each maneuver is
+  const stepOffsetsKm = useMemo(
+    () => routeData?.steps.map((step) => projectOntoPolyline(step.location, routeData.coordinates).alongKm) ?? [],
+    [routeData]
+  );
+
+  useEffect(() => {
+    if (watchError) {
+      toast.error("Lost your location. Live directions are paused.");
+      setIsNavigating(false);
+    }
+  }, [watchError]);
+
+  // Advance through the steps as the user moves, and re-route from the
+  // current position once they have clearly left the path. Straight-line
+  // routes don't follow roads, so nobody is ever "on" them.
+  useEffect(() => {
+    if (!isNavigating || !livePosition || !routeData || isLoadingRoute) return;
+
+    setMapCenter(livePosition);
+
+    const { distanceKm, alongKm } = projectOntoPolyline(livePosition, routeData.coordinates);
+
+    if (!routeData.approximate && distanceKm - (accuracy ?? 0) / 1000 > OFF_ROUTE_KM) {
+      offRouteFixes.current += 1;
+      if (offRouteFixes.current >= OFF_ROUTE_FIXES) {
+        offRouteFixes.current = 0;
+        toast.info("Off route. Recalculating...");
+        setUserLocation(livePosition);
+      }
+      return;
+    }
+    offRouteFixes.current = 0;
+
+    // The next maneuver is the first one still ahead of the user's place on
+    // the route, so a missed fix near a turn doesn't leave the step behind.
+    // Steps only move forward, in case the route doubles back on itself.
+    const upcoming = stepOffsetsKm.findIndex((offset, index) => index > 0 && offset > alongKm + STEP_REACHED_KM);
+    const next = Math.max(activeStep, (upcoming === -1 ? routeData.steps.length : upcoming) - 1);
+    if (next !== activeStep) setActiveStep(next);
+  }, [livePosition]);
+
   const getUserLocation = () => {
     setIsLoadingLocation(true);
     
@@ -111,28 +174,21 @@ const RoutePage = () => {
 
     setIsLoadingRoute(true);
 
-    const profile = travelMode === "driving" ? "driving" : travelMode === "cycling" ? "cycling" : "foot";
-    const url = `https://router.project-osrm.org/route/v1/${profile}/${userLocation[1]},${userLocation[0]};${destLng},${destLat}?overview=full&geometries=geojson`;
-
     try {
-      const response = await fetch(url);
-      const data = await response.json();
+      const route = await getRoute([userLocation, [destLat, destLng]], travelMode);
 
-      if (data.code === "Ok" && data.routes && data.routes.length > 0) {
-        const route = data.routes[0];
-        const coordinates = route.geometry.coordinates.map(
-          (coord: [number, number]) => [coord[1], coord[0]] as [number, number]
-        );
+      setRouteData({
+        distance: route.distanceKm,
+        duration: route.durationMin,
+        coordinates: route.coordinates,
+        steps: route.steps,
+        approximate: route.approximate,
+      });
 
-        setRouteData({
-          distance: route.distance / 1000, // Convert to km
-          duration: route.duration / 60, // Convert to minutes
-          coordinates,
-        });
-
-        toast.success("Route calculated successfully!");
+      if (route.approximate) {
+        toast.info("Showing a straight-line estimate while routing is unavailable");
       } else {
-        toast.error("Unable to calculate route");
+        toast.success("Route calculated successfully!");
       }
     } catch (error) {
       console.error("Error fetching route:", error);
@@ -142,6 +198,22 @@ const RoutePage = () => {
     }
   };
 
+  const toggleNavigation = () => {
+    if (isNavigating) {
+      setIsNavigating(false);
+      return;
+    }
+    setIsNavigating(true);
+    setMapZoom(17);
+  };
+
+  const currentPosition = (isNavigating && livePosition) || userLocation;
+
+  const distanceToNextKm =
+    isNavigating && livePosition && routeData?.steps[activeStep + 1]
+      ? haversineKm(livePosition, routeData.steps[activeStep + 1].location)
+      : null;
+
   const travelModes = [
     { mode: "driving" as TravelMode, icon: Car, label: "Driving" },
     { mode: "walking" as TravelMode, icon: PersonStanding, label: "Walking" },
@@ -245,6 +317,11 @@ const RoutePage = () => {
                       {Math.round(routeData.duration)} min
                     </Badge>
                   </div>
+                  {routeData.approximate && (
+                    <p className="text-xs text-muted-foreground">
+                      Straight-line estimate. Road routing is unavailable right now.
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             ) : userLocation ? (
@@ -267,6 +344,32 @@ const RoutePage = () => {
               </Card>
             )}
 
+            {/* Turn-by-turn */}
+            {routeData && routeData.steps.length > 0 && !isLoadingRoute && (
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold flex items-center gap-2">
+                    <ListOrdered className="w-5 h-5 text-primary" />
+                    Directions
+                  </h3>
+                  <Button
+                    size="sm"
+                    variant={isNavigating ? "destructive" : "default"}
+                    onClick={toggleNavigation}
+                    className="gap-2"
+                  >
+                    {isNavigating ? <Square className="w-4 h-4" /> : <Navigation className="w-4 h-4" />}
+                    {isNavigating ? "Stop" : "Start"}
+                  </Button>
+                </div>
+                <DirectionsPanel
+                  steps={routeData.steps}
+                  activeStep={activeStep}
+                  distanceToNextKm={distanceToNextKm}
+                />
+              </div>
+            )}
+
             {/* Directions */}
             {userLocation && (
               <div>
@@ -311,8 +414,8 @@ const RoutePage = () => {
             
             <MapController center={mapCenter} zoom={mapZoom} />
 
-            {userLocation && (
-              <Marker position={userLocation} icon={userLocationIcon} />
+            {currentPosition && (
+              <Marker position={currentPosition} icon={userLocationIcon} />
             )}
 
             <Marker position={[destLat, destLng]} icon={destinationIcon} />
@@ -323,6 +426,7 @@ const RoutePage = () => {
                 color="#3b82f6"
                 weight={5}
                 opacity={0.7}
+                dashArray={routeData.approximate ? "8 8" : undefined}
               />
             )}
           </MapContainer>
@@ -332,4 +436,13 @@ const RoutePage = () => {
   );
 };
 
+// `/route?itinerary=<id>` routes through every stop of a saved itinerary,
+// otherwise `lat`/`lng` route from the user's location to one destination
+const RoutePage = () => {
+  const [searchParams] = useSearchParams();
+  const itineraryId = searchParams.get("itinerary");
+
+  return itineraryId ? <ItineraryRoute itineraryId={itineraryId} /> : <DestinationRoute />;
+};
+
 export default RoutePage;
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { toast } from "sonner";
+import { Calendar, Clock, Loader2, MapPin, User } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import ItineraryMap from "@/components/ItineraryMap";
+import ExportItineraryMenu from "@/components/ExportItineraryMenu";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useHazardZones } from "@/hooks/useHazardZones";
+import { ItineraryDay, countStops, formatDuration, getDayColor, parseDays, stopType } from "@/lib/itinerary";
+import { PublishedItinerary, fetchPublishedItinerary, shareUrl } from "@/lib/collaboration";
+
+// Public, read-only view of a published itinerary. Works without signing in.
+const SharedTrip = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const [trip, setTrip] = useState<PublishedItinerary | null>(null);
+  const [days, setDays] = useState<ItineraryDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { zones } = useHazardZones();
+
+  useEffect(() => {
+    if (!shareId) return;
+
+    setLoading(true);
+    fetchPublishedItinerary(shareId)
+      .then((data) => {
+        setTrip(data);
+        setDays(data ? parseDays(data.days, data.spots) : []);
+      })
+      .catch((error) => {
+        console.error("Error fetching shared itinerary:", error);
+        toast.error("Failed to load itinerary");
+      })
+      .finally(() => setLoading(false));
+  }, [shareId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container py-12 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!trip || !shareId) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container py-12">
+          <Card className="max-w-md mx-auto p-12 text-center">
+            <MapPin className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <h1 className="text-2xl font-semibold mb-2">Itinerary Not Found</h1>
+            <p className="text-muted-foreground mb-6">
+              This link is invalid or the itinerary is no longer shared.
+            </p>
+            <Button asChild>
+              <Link to="/explore">Explore Albay</Link>
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container py-12">
+        <div className="max-w-6xl mx-auto space-y-8">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-bold mb-2">{trip.name}</h1>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                {trip.owner_name && (
+                  <span className="flex items-center gap-1">
+                    <User className="w-4 h-4" />
+                    Planned by {trip.owner_name}
+                  </span>
+                )}
+                <span className="flex items-center gap-1">
+                  <Calendar className="w-4 h-4" />
+                  {days.length} {days.length === 1 ? "Day" : "Days"} · {countStops(days)} Destinations
+                </span>
+              </div>
+            </div>
+            <ExportItineraryMenu exportId={shareId} name={trip.name} days={days} shareUrl={shareUrl(shareId)} />
+          </div>
+
+          <ItineraryMap days={days} zones={zones} />
+
+          {days.map((day, dayIndex) => (
+            <section key={day.day}>
+              <h2
+                className="text-2xl font-semibold mb-4 pb-2 border-b-4"
+                style={{ borderColor: getDayColor(dayIndex) }}
+              >
+                Day {day.day}
+                {day.date && (
+                  <span className="text-base font-normal text-muted-foreground ml-2">
+                    {new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, {
+                      weekday: "long",
+                      month: "long",
+                      day: "numeric",
+                    })}
+                  </span>
+                )}
+              </h2>
+
+              {day.stops.length === 0 ? (
+                <p className="text-muted-foreground">No stops planned.</p>
+              ) : (
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {day.stops.map((stop, stopIndex) => (
+                    <Card key={`${stop.id}-${stopIndex}`} className="overflow-hidden">
+                      {stop.image_url && (
+                        <img src={stop.image_url} alt={stop.name} className="w-full h-40 object-cover" />
+                      )}
+                      <CardContent className="p-4 space-y-2">
+                        <div className="flex items-start gap-2">
+                          <span
+                            className="w-6 h-6 rounded-full text-white text-xs font-bold flex items-center justify-center shrink-0"
+                            style={{ backgroundColor: getDayColor(dayIndex) }}
+                          >
+                            {stopIndex + 1}
+                          </span>
+                          {stopType(stop) === "spot" ? (
+                            <Link to={`/spot/${stop.id}`} className="font-semibold hover:text-primary">
+                              {stop.name}
+                            </Link>
+                          ) : (
+                            <h3 className="font-semibold">{stop.name}</h3>
+                          )}
+                        </div>
+                        {stop.municipality && (
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {stop.municipality}
+                          </p>
+                        )}
+                        {(stop.start_time || stop.duration_minutes) && (
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            {[stop.start_time, formatDuration(stop.duration_minutes)].filter(Boolean).join(" · ")}
+                          </p>
+                        )}
+                        {stop.description && <p className="text-sm line-clamp-3">{stop.description}</p>}
+                        {stop.category && stop.category.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {stop.category.map((category) => (
+                              <Badge key={category} variant="secondary" className="text-xs">
+                                {category}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedTrip;
@@ -5,10 +5,26 @@ import Navbar from "@/components/Navbar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ReviewForm } from "@/components/reviews/ReviewForm";
-import { ReviewList } from "@/components/reviews/ReviewList";
-import { MapPin, Phone, Star, ArrowLeft, Loader2, Plus, Check } from "lucide-react";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ReviewPhotoGrid } from "@/components/reviews/ReviewPhotoGrid";
+import { ReviewsSection } from "@/components/reviews/ReviewsSection";
+import WeatherWidget from "@/components/WeatherWidget";
+import AdvisoryList from "@/components/AdvisoryList";
+import OpenNowBadge from "@/components/OpenNowBadge";
+import OpeningHoursList from "@/components/OpeningHoursList";
+import MediaGallery from "@/components/MediaGallery";
+import RestaurantsWithinRadius from "@/components/RestaurantsWithinRadius";
+import FavoriteButton from "@/components/FavoriteButton";
+import CheckInButton from "@/components/CheckInButton";
+import { useAdvisories } from "@/hooks/useAdvisories";
+import { useHazardZones } from "@/hooks/useHazardZones";
+import { useReviews } from "@/hooks/useReviews";
+import { useFavorites } from "@/hooks/useFavorites";
+import { useCheckIns } from "@/hooks/useCheckIns";
+import { toLatLng, zonesAt } from "@/lib/hazards";
+import { parseOpeningHours } from "@/lib/openingHours";
+import type { Json } from "@/integrations/supabase/types";
+import { cacheRow, getCachedRow, isNetworkError } from "@/lib/offline";
+import { MapPin, Phone, Star, ArrowLeft, Loader2, Plus, Check, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 
 interface TouristSpot {
@@ -23,15 +39,7 @@ interface TouristSpot {
   rating: number;
   latitude: number | null;
   longitude: number | null;
-}
-
-interface Review {
-  id: string;
-  rating: number;
-  comment: string | null;
-  created_at: string;
-  user_id: string;
-  user_name: string;
+  opening_hours: Json | null;
 }
 
 const SpotDetail = () => {
@@ -39,9 +47,22 @@ const SpotDetail = () => {
   const [spot, setSpot] = useState<TouristSpot | null>(null);
   const [session, setSession] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [reviewRefreshTrigger, setReviewRefreshTrigger] = useState(0);
   const [isAddingToItinerary, setIsAddingToItinerary] = useState(false);
   const [isInItinerary, setIsInItinerary] = useState(false);
+  const { advisories } = useAdvisories(spot?.municipality ?? null, !!spot);
+  const { zones } = useHazardZones(!!spot);
+  const hazardZones = spot ? zonesAt(toLatLng(spot), zones) : [];
+  const openingHours = parseOpeningHours(spot?.opening_hours);
+  const currentUserId = session?.user?.id || null;
+  const favorites = useFavorites(session?.user?.id);
+  const { checkInsAt, refresh: refreshCheckIns } = useCheckIns(session?.user?.id);
+  const {
+    reviews,
+    stats: reviewStats,
+    loading: isReviewsLoading,
+    refresh: refreshReviews,
+    hasUserReviewed,
+  } = useReviews("spot", spot?.id, currentUserId);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -79,6 +100,11 @@ const SpotDetail = () => {
 
     if (!error && data) {
       setSpot(data);
+      cacheRow("tourist_spots", data).catch(() => {});
+    } else if (error && isNetworkError(error)) {
+      // Offline: use the copy from the last catalogue sync
+      const cached = await getCachedRow<TouristSpot>("tourist_spots", id).catch(() => undefined);
+      if (cached) setSpot(cached);
     }
     setIsLoading(false);
   };
@@ -181,49 +207,9 @@ const SpotDetail = () => {
     return colors[category] || "bg-muted";
   };
 
-  const [reviews, setReviews] = useState<Review[]>([]);
-const [isReviewsLoading, setIsReviewsLoading] = useState(true);
-const [userHasReviewed, setUserHasReviewed] = useState(false);
-
-useEffect(() => {
-  if (!spot) return;
-  fetchReviews();
-}, [spot, reviewRefreshTrigger]);
-
-const fetchReviews = async () => {
-  setIsReviewsLoading(true);
-
-  const { data: reviewsData, error } = await supabase
-    .from("reviews")
-    .select("*")
-    .eq("spot_id", spot.id)
-    .order("created_at", { ascending: false });
-
-  if (error) {
-    console.error("Error fetching reviews:", error);
-    setIsReviewsLoading(false);
-    return;
-  }
-
-  const enrichedReviews: Review[] = [];
-  for (const review of reviewsData || []) {
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("full_name")
-      .eq("id", review.user_id)
-      .single();
-
-    enrichedReviews.push({
-      ...review,
-      user_name: profile?.full_name || "Anonymous",
-    });
-  }
-
-  setReviews(enrichedReviews);
-  setUserHasReviewed(enrichedReviews.some(r => r.user_id === session?.user?.id));
-  setIsReviewsLoading(false);
-};
-
+  const communityPhotos = reviews.flatMap((review) =>
+    review.photos.filter((photo) => photo.status === "approved")
+  );
 
   if (isLoading) {
     return (
@@ -261,16 +247,24 @@ const fetchReviews = async () => {
 
         <div className="grid lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 space-y-6">
-            {/* Main Image */}
-            {spot.image_url && (
-              <div className="rounded-lg overflow-hidden shadow-lg">
-                <img
-                  src={spot.image_url}
-                  alt={spot.name}
-                  className="w-full h-96 object-cover"
-                />
+            {/* Hazard Zones and Active Advisories */}
+            {hazardZones.map((zone) => (
+              <div
+                key={zone.id}
+                role="alert"
+                className="rounded-lg border border-destructive bg-destructive/10 p-4 flex items-start gap-3"
+              >
+                <AlertTriangle className="w-5 h-5 mt-0.5 text-destructive shrink-0" />
+                <div>
+                  <strong className="font-semibold">Inside {zone.name}</strong>
+                  {zone.description && <p className="text-sm mt-1">{zone.description}</p>}
+                </div>
               </div>
-            )}
+            ))}
+            <AdvisoryList advisories={advisories} />
+
+            {/* Photos */}
+            <MediaGallery entityType="spot" entityId={spot.id} name={spot.name} fallbackImageUrl={spot.image_url} />
 
             {/* Details Card */}
             <Card>
@@ -278,37 +272,52 @@ const fetchReviews = async () => {
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
                     <CardTitle className="text-3xl">{spot.name}</CardTitle>
-                    <div className="flex items-center gap-2 mt-2">
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
                       {spot.category.map((cat) => (
                         <Badge key={cat} className={getCategoryColor(cat)}>
                           {cat}
                         </Badge>
                       ))}
+                      <OpenNowBadge hours={openingHours} />
                     </div>
                   </div>
-                  <Button
-                    onClick={handleAddToItinerary}
-                    disabled={isAddingToItinerary || isInItinerary}
-                    className="gap-2"
-                    variant={isInItinerary ? "secondary" : "default"}
-                  >
-                    {isAddingToItinerary ? (
-                      <>
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        Adding...
-                      </>
-                    ) : isInItinerary ? (
-                      <>
-                        <Check className="w-4 h-4" />
-                        In Itinerary
-                      </>
-                    ) : (
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {session && (
                       <>
-                        <Plus className="w-4 h-4" />
-                        Add to Itinerary
+                        <FavoriteButton itemId={spot.id} itemType="spot" favorites={favorites} />
+                        <CheckInButton
+                          spotId={spot.id}
+                          spotName={spot.name}
+                          userId={session.user.id}
+                          checkIns={checkInsAt(spot.id)}
+                          onCheckedIn={refreshCheckIns}
+                        />
                       </>
                     )}
-                  </Button>
+                    <Button
+                      onClick={handleAddToItinerary}
+                      disabled={isAddingToItinerary || isInItinerary}
+                      className="gap-2"
+                      variant={isInItinerary ? "secondary" : "default"}
+                    >
+                      {isAddingToItinerary ? (
+                        <>
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          Adding...
+                        </>
+                      ) : isInItinerary ? (
+                        <>
+                          <Check className="w-4 h-4" />
+                          In Itinerary
+                        </>
+                      ) : (
+                        <>
+                          <Plus className="w-4 h-4" />
+                          Add to Itinerary
+                        </>
+                      )}
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -332,6 +341,7 @@ const fetchReviews = async () => {
                       <span>{spot.contact_number}</span>
                     </div>
                   )}
+                  <OpeningHoursList hours={openingHours} />
                   {spot.rating > 0 && (
                     <div className="flex items-center gap-2">
                       <Star className="w-5 h-5 fill-yellow-400 text-yellow-400" />
@@ -342,49 +352,35 @@ const fetchReviews = async () => {
               </CardContent>
             </Card>
 
+            {/* Community Photos */}
+            {communityPhotos.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Traveller Photos</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ReviewPhotoGrid photos={communityPhotos} thumbClassName="w-28 h-28" />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Reviews Section */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Reviews & Ratings</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Tabs defaultValue="reviews">
-                  <TabsList className="grid w-full grid-cols-2">
-                    <TabsTrigger value="reviews">All Reviews</TabsTrigger>
-                    <TabsTrigger value="write" disabled={!session}>
-                      {session ? "Write Review" : "Login to Review"}
-                    </TabsTrigger>
-                  </TabsList>
-                  <TabsContent value="reviews" className="mt-6">
-                    <ReviewList
-                      {...({
-                        spotId: spot.id,
-                        currentUserId: session?.user?.id || null,
-                        refreshTrigger: reviewRefreshTrigger,
-                        reviews,
-                        fetchReviews,
-                      } as any)}
-                    />
-                  </TabsContent>
-                  <TabsContent value="write" className="mt-6">
-                    {session && (
-                      <ReviewForm
-                        spotId={spot.id}
-                        userId={session.user.id}
-                        onReviewSubmitted={() => {
-                          setReviewRefreshTrigger((prev) => prev + 1);
-                        }}
-                        hasUserReviewed={userHasReviewed}
-                      />
-                    )}
-                  </TabsContent>
-                </Tabs>
-              </CardContent>
-            </Card>
+            <ReviewsSection
+              entityType="spot"
+              entityId={spot.id}
+              currentUserId={currentUserId}
+              reviews={reviews}
+              stats={reviewStats}
+              loading={isReviewsLoading}
+              hasUserReviewed={hasUserReviewed}
+              onChange={refreshReviews}
+            />
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
+            <WeatherWidget municipality={spot.municipality} compact />
+
             {spot.latitude && spot.longitude && (
               <Card>
                 <CardHeader>
@@ -399,6 +395,13 @@ const fetchReviews = async () => {
                 </CardContent>
               </Card>
             )}
+
+            {spot.latitude && spot.longitude && (
+              <RestaurantsWithinRadius
+                point={[Number(spot.latitude), Number(spot.longitude)]}
+                userId={session?.user?.id}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY: string;
+  // osrm (default) | graphhopper | valhalla | straight-line
+  readonly VITE_ROUTING_PROVIDER?: string;
+  readonly VITE_ROUTING_URL?: string;
+  readonly VITE_ROUTING_API_KEY?: string;
+  // open-meteo (default) | fixture
+  readonly VITE_WEATHER_PROVIDER?: string;
+  readonly VITE_WEATHER_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,70 @@
+// Dependency-free and shared with the app through src/lib/export/ics.ts;
+// edge functions can only bundle code under supabase/functions
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  // Exclusive; for all-day events, midnight after the last day
+  end: Date;
+  allDay?: boolean;
+  // Shown as "maybe" in most calendar apps
+  tentative?: boolean;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  // [lat, lng]
+  geo?: [number, number] | null;
+  url?: string | null;
+}
+
+// RFC 5545 text values escape backslashes, separators and newlines
+export const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// 20251205T010000Z
+export const formatIcsDate = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// 20251205, the day in Philippine time, for all-day events
+const PHILIPPINE_OFFSET_MS = 8 * 60 * 60 * 1000;
+export const formatIcsDay = (date: Date) =>
+  new Date(date.getTime() + PHILIPPINE_OFFSET_MS).toISOString().slice(0, 10).replace(/-/g, "");
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let index = 0; index < line.length; index += index === 0 ? 75 : 74) {
+    parts.push(line.slice(index, index + (index === 0 ? 75 : 74)));
+  }
+  return parts.join("\r\n ");
+};
+
+export const buildCalendar = (name: string, events: CalendarEvent[], now = new Date()) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Wanderer//Albay Trip Planner//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ];
+
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcsDate(now)}`,
+      event.allDay ? `DTSTART;VALUE=DATE:${formatIcsDay(event.start)}` : `DTSTART:${formatIcsDate(event.start)}`,
+      event.allDay ? `DTEND;VALUE=DATE:${formatIcsDay(event.end)}` : `DTEND:${formatIcsDate(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.tentative) lines.push("STATUS:TENTATIVE");
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.geo) lines.push(`GEO:${event.geo[0].toFixed(6)};${event.geo[1].toFixed(6)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,163 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.1';
+import { CalendarEvent, buildCalendar } from '../_shared/ics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Calendar apps refresh on their own schedule; this covers recent history
+// and the year ahead
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface EventOccurrence {
+  event_id: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+interface ItineraryStop {
+  name: string;
+  start_time?: string | null;
+}
+
+interface ItineraryDay {
+  day: number;
+  date?: string | null;
+  stops?: ItineraryStop[];
+}
+
+const textResponse = (body: string, status: number) =>
+  new Response(body, { status, headers: { 'Content-Type': 'text/plain', ...corsHeaders } });
+
+// A user's RSVP'd events and dated itinerary days, as an iCalendar feed.
+// Calendar apps can't sign in, so the secret token in the URL identifies the
+// user; resetting it from the dashboard cuts off old subscriptions.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return textResponse('Missing token', 400);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const siteUrl = Deno.env.get('SITE_URL');
+
+    const { data: feed, error: feedError } = await supabaseClient
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) {
+      return textResponse('Calendar not found', 404);
+    }
+
+    const now = Date.now();
+    const [rsvpResult, ownedResult, memberResult] = await Promise.all([
+      supabaseClient
+        .from('event_rsvps')
+        .select('status, events(id, name, description, location, municipality, latitude, longitude, all_day)')
+        .eq('user_id', feed.user_id),
+      supabaseClient.from('itineraries').select('id, name, days').eq('user_id', feed.user_id),
+      supabaseClient.from('itinerary_members').select('itineraries(id, name, days)').eq('user_id', feed.user_id),
+    ]);
+
+    for (const result of [rsvpResult, ownedResult, memberResult]) {
+      if (result.error) throw result.error;
+    }
+
+    const rsvps = new Map(
+      (rsvpResult.data || [])
+        .filter((rsvp) => rsvp.events)
+        .map((rsvp) => [rsvp.events.id, { status: rsvp.status, event: rsvp.events }])
+    );
+
+    // Filtered in the query: every event's occurrences over the window would
+    // run past the API's row limit and silently drop entries
+    let occurrences: EventOccurrence[] = [];
+    if (rsvps.size > 0) {
+      const { data, error } = await supabaseClient
+        .rpc('event_occurrences', {
+          _from: new Date(now - PAST_DAYS * DAY_MS).toISOString(),
+          _to: new Date(now + FUTURE_DAYS * DAY_MS).toISOString(),
+        })
+        .in('event_id', [...rsvps.keys()]);
+      if (error) throw error;
+      occurrences = data || [];
+    }
+
+    const events: CalendarEvent[] = occurrences.map((occurrence) => {
+      const { status, event } = rsvps.get(occurrence.event_id)!;
+      const start = new Date(occurrence.starts_at);
+      return {
+        uid: `${event.id}-${start.getTime()}@wanderer`,
+        start,
+        end: new Date(occurrence.ends_at),
+        allDay: event.all_day,
+        tentative: status === 'interested',
+        summary: event.name,
+        description: event.description,
+        location: [event.location, event.municipality, 'Albay'].filter(Boolean).join(', '),
+        geo:
+          event.latitude !== null && event.longitude !== null
+            ? [Number(event.latitude), Number(event.longitude)]
+            : null,
+        url: siteUrl ? `${siteUrl}/events` : null,
+      };
+    });
+
+    const itineraries = [
+      ...(ownedResult.data || []),
+      ...(memberResult.data || []).map((member) => member.itineraries).filter(Boolean),
+    ];
+
+    // One all-day entry per dated day, listing its stops in order
+    for (const itinerary of itineraries) {
+      const days = Array.isArray(itinerary.days) ? (itinerary.days as ItineraryDay[]) : [];
+      for (const day of days) {
+        if (!day?.date) continue;
+
+        const start = new Date(`${day.date}T00:00:00+08:00`);
+        events.push({
+          uid: `${itinerary.id}-day-${day.day}@wanderer`,
+          start,
+          end: new Date(start.getTime() + DAY_MS),
+          allDay: true,
+          summary: `${itinerary.name} - Day ${day.day}`,
+          description: (day.stops || [])
+            .map((stop) => (stop.start_time ? `${stop.start_time} ${stop.name}` : stop.name))
+            .join('\n'),
+          url: siteUrl ? `${siteUrl}/my-itinerary` : null,
+        });
+      }
+    }
+
+    console.log(`Serving ${events.length} calendar entries for ${feed.user_id}`);
+
+    return new Response(buildCalendar('Wanderer Albay', events), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=900',
+        ...corsHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('Error in calendar-feed:', error);
+    return textResponse('Failed to build calendar', 500);
+  }
+};
+
+serve(handler);
@@ -1,37 +1,111 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.1';
+import { Resend } from 'https://esm.sh/resend@4.0.0';
+
+const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
+
+interface EventOccurrence {
+  event_id: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+// A row of claim_event_reminders()
+interface EventReminder {
+  user_id: string;
+  event_id: string;
+  occurrence_start: string;
+  reminder: '1w' | '1d' | '2h';
+  email_reminders: boolean;
+}
+
+const REMINDER_LEADS: Record<EventReminder['reminder'], string> = {
+  '1w': 'in a week',
+  '1d': 'tomorrow',
+  '2h': 'in 2 hours',
+};
+
+// event_reminder_log kind for the 3-day notice to users in the event's district
+const ANNOUNCEMENT = 'district';
+
+const formatStart = (startsAt: string, allDay: boolean) =>
+  new Date(startsAt).toLocaleString('en-PH', {
+    timeZone: 'Asia/Manila',
+    dateStyle: 'full',
+    ...(allDay ? {} : { timeStyle: 'short' }),
+  });
+
+// Event names and places are free text, so they must not be read as markup
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
 };
 
+// Called every 15 minutes by the pg_cron job in the
+// 20251222090000 migration, so 2-hour reminders go out at most 15 minutes
+// late. The function sends email and skips JWT checks, so callers must
+// present EVENT_NOTIFICATIONS_SECRET; without it configured nothing runs.
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const secret = Deno.env.get('EVENT_NOTIFICATIONS_SECRET');
+  if (!secret || req.headers.get('x-cron-secret') !== secret) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+  }
+
   try {
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Get events happening in the next 3 days
+    // Get events starting in the next 3 days, repeats included
     const threeDaysFromNow = new Date();
     threeDaysFromNow.setDate(threeDaysFromNow.getDate() + 3);
 
-    const { data: upcomingEvents, error: eventsError } = await supabaseClient
+    const { data: occurrenceRows, error: occurrencesError } = await supabaseClient.rpc('event_occurrences', {
+      _from: new Date().toISOString(),
+      _to: threeDaysFromNow.toISOString(),
+    });
+
+    if (occurrencesError) {
+      console.error('Error fetching event occurrences:', occurrencesError);
+      throw occurrencesError;
+    }
+
+    // Runs already under way were announced before they started
+    const startingSoon = ((occurrenceRows || []) as EventOccurrence[]).filter(
+      (occurrence) => new Date(occurrence.starts_at).getTime() >= Date.now()
+    );
+
+    const { data: events, error: eventsError } = await supabaseClient
       .from('events')
       .select('*')
-      .gte('event_date', new Date().toISOString().split('T')[0])
-      .lte('event_date', threeDaysFromNow.toISOString().split('T')[0]);
+      .in('id', startingSoon.map((occurrence) => occurrence.event_id));
 
     if (eventsError) {
       console.error('Error fetching events:', eventsError);
       throw eventsError;
     }
 
+    const upcomingEvents = startingSoon.flatMap((occurrence) => {
+      const event = events?.find((item) => item.id === occurrence.event_id);
+      return event ? [{ ...event, starts_at: occurrence.starts_at }] : [];
+    });
+
     console.log(`Found ${upcomingEvents?.length || 0} upcoming events`);
 
     // Get all users with their preferences
@@ -53,17 +127,21 @@ const handler = async (req: Request): Promise<Response> => {
         
         // Check if user's districts match the event's district
         if (preferences?.districts?.includes(event.district)) {
-          // Check if notification already exists
-          const { data: existingNotification } = await supabaseClient
-            .from('notifications')
-            .select('id')
-            .eq('user_id', profile.id)
-            .eq('event_id', event.id)
-            .single();
-
-          if (!existingNotification) {
+          // Claimed per occurrence in the reminder log, so each run of a
+          // repeating event is announced once and RSVP reminders don't count
+          const { data: claimed, error: claimError } = await supabaseClient
+            .from('event_reminder_log')
+            .upsert(
+              { user_id: profile.id, event_id: event.id, occurrence_start: event.starts_at, reminder: ANNOUNCEMENT },
+              { onConflict: 'user_id,event_id,occurrence_start,reminder', ignoreDuplicates: true }
+            )
+            .select('user_id');
+
+          if (claimError) {
+            console.error('Error claiming event announcement:', claimError);
+          } else if (claimed && claimed.length > 0) {
             const daysUntil = Math.ceil(
-              (new Date(event.event_date).getTime() - new Date().getTime()) /
+              (new Date(event.starts_at).getTime() - new Date().getTime()) /
                 (1000 * 60 * 60 * 24)
             );
 
@@ -91,10 +169,88 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Sent ${notificationsSent} notifications`);
 
+    // Reminders for RSVPs. Claiming marks them sent, so overlapping runs
+    // can't deliver the same reminder twice.
+    const { data: reminderRows, error: remindersError } = await supabaseClient.rpc('claim_event_reminders');
+
+    if (remindersError) {
+      console.error('Error claiming event reminders:', remindersError);
+      throw remindersError;
+    }
+
+    const reminders = (reminderRows || []) as EventReminder[];
+    let remindersSent = 0;
+    let emailsSent = 0;
+
+    if (reminders.length > 0) {
+      const { data: reminderEvents, error: reminderEventsError } = await supabaseClient
+        .from('events')
+        .select('id, name, location, municipality, all_day')
+        .in('id', Array.from(new Set(reminders.map((reminder) => reminder.event_id))));
+
+      if (reminderEventsError) {
+        console.error('Error fetching events:', reminderEventsError);
+        throw reminderEventsError;
+      }
+
+      for (const reminder of reminders) {
+        const event = reminderEvents?.find((item) => item.id === reminder.event_id);
+        if (!event) continue;
+
+        const place = [event.location, event.municipality].filter(Boolean).join(', ');
+        const message = `⏰ ${event.name} starts ${REMINDER_LEADS[reminder.reminder]} in ${place}.`;
+
+        const { error: notificationError } = await supabaseClient
+          .from('notifications')
+          .insert({ user_id: reminder.user_id, event_id: event.id, message });
+
+        if (notificationError) {
+          console.error('Error creating reminder notification:', notificationError);
+        } else {
+          remindersSent++;
+        }
+
+        if (!reminder.email_reminders) continue;
+
+        const { data: userData, error: userError } = await supabaseClient.auth.admin.getUserById(reminder.user_id);
+        const email = userData?.user?.email;
+        if (userError || !email) {
+          console.error('Error looking up reminder recipient:', userError);
+          continue;
+        }
+
+        const { error: emailError } = await resend.emails.send({
+          from: 'Wanderer Albay <onboarding@resend.dev>',
+          to: [email],
+          subject: `Reminder: ${event.name} starts ${REMINDER_LEADS[reminder.reminder]}`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h1 style="color: #333;">🎉 ${escapeHtml(event.name)}</h1>
+              <p style="color: #666; font-size: 16px;">${formatStart(reminder.occurrence_start, event.all_day)}</p>
+              <p style="color: #666; font-size: 16px;">📍 ${escapeHtml(place)}</p>
+              <p style="font-size: 12px; color: #999;">
+                You're getting this because you RSVP'd to this event. Change your reminders on the event in Wanderer Albay.
+              </p>
+            </div>
+          `,
+        });
+
+        if (emailError) {
+          console.error('Error sending reminder email:', emailError);
+        } else {
+          emailsSent++;
+        }
+      }
+    }
+
+    console.log(`Sent ${remindersSent} reminders and ${emailsSent} reminder emails`);
+
     return new Response(
       JSON.stringify({ 
         success: true, 
         notificationsSent,
+        remindersSent,
+        emailsSent,
         eventsProcessed: upcomingEvents?.length || 0 
       }),
       {
@@ -0,0 +1,13 @@
+-- Split itineraries into days with ordered, optionally timed stops
+ALTER TABLE public.itineraries
+ADD COLUMN IF NOT EXISTS days jsonb DEFAULT '[]'::jsonb;
+
+-- Existing itineraries become a single day holding their current spots
+UPDATE public.itineraries
+SET days = jsonb_build_array(
+  jsonb_build_object('day', 1, 'date', NULL, 'stops', COALESCE(spots, '[]'::jsonb))
+)
+WHERE days IS NULL OR days = '[]'::jsonb;
+
+COMMENT ON COLUMN public.itineraries.days IS 'Ordered days: [{ day, date, stops: [{ id, name, type, start_time, duration_minutes, ... }] }]';
+COMMENT ON COLUMN public.itineraries.spots IS 'Flattened stops across all days, kept in sync with days';
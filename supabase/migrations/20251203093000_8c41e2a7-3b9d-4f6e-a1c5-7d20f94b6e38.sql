@@ -0,0 +1,27 @@
+-- Volcano, typhoon and flood bulletins posted by admins (PHIVOLCS, PAGASA, LGU)
+CREATE TABLE public.advisories (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  title text NOT NULL,
+  message text NOT NULL,
+  hazard_type text NOT NULL CHECK (hazard_type IN ('volcano', 'typhoon', 'flood')),
+  severity text NOT NULL DEFAULT 'advisory' CHECK (severity IN ('advisory', 'watch', 'warning', 'emergency')),
+  source text,
+  -- Empty means the whole province
+  municipalities text[] NOT NULL DEFAULT '{}'::text[],
+  starts_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT advisories_expiry_after_start CHECK (expires_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE INDEX idx_advisories_expires_at ON public.advisories(expires_at);
+
+ALTER TABLE public.advisories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view advisories" ON public.advisories FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage advisories" ON public.advisories USING (public.has_role(auth.uid(), 'admin'::public.app_role)) WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_advisories_updated_at BEFORE UPDATE ON public.advisories FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,45 @@
+-- Admin-managed hazard areas, either a circle (centre + radius) or a polygon
+CREATE TABLE public.hazard_zones (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  hazard_type text NOT NULL CHECK (hazard_type IN ('volcano', 'typhoon', 'flood')),
+  shape text NOT NULL DEFAULT 'circle' CHECK (shape IN ('circle', 'polygon')),
+  center_lat numeric,
+  center_lng numeric,
+  radius_km numeric CHECK (radius_km IS NULL OR radius_km > 0),
+  -- [[lat, lng], ...] for polygons
+  polygon jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT hazard_zones_circle_geometry CHECK (
+    shape <> 'circle' OR (center_lat IS NOT NULL AND center_lng IS NOT NULL AND radius_km IS NOT NULL)
+  ),
+  CONSTRAINT hazard_zones_polygon_geometry CHECK (
+    shape <> 'polygon' OR (jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3)
+  )
+);
+
+CREATE INDEX idx_hazard_zones_is_active ON public.hazard_zones(is_active);
+
+ALTER TABLE public.hazard_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view hazard zones" ON public.hazard_zones FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage hazard zones" ON public.hazard_zones USING (public.has_role(auth.uid(), 'admin'::public.app_role)) WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_hazard_zones_updated_at BEFORE UPDATE ON public.hazard_zones FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Mayon's Permanent Danger Zone is always in force
+INSERT INTO public.hazard_zones (name, description, hazard_type, shape, center_lat, center_lng, radius_km, is_active)
+VALUES (
+  'Mayon Volcano Permanent Danger Zone',
+  'Entry into the 6 km radius Permanent Danger Zone around Mayon Volcano is prohibited by PHIVOLCS.',
+  'volcano',
+  'circle',
+  13.2572,
+  123.6856,
+  6,
+  true
+);
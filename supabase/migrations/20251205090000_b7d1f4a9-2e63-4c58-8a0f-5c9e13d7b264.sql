@@ -0,0 +1,236 @@
+-- People other than the owner who can open an itinerary
+CREATE TABLE public.itinerary_members (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  itinerary_id uuid NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (itinerary_id, user_id)
+);
+
+CREATE INDEX idx_itinerary_members_user_id ON public.itinerary_members(user_id);
+
+-- Invite links; anyone signed in who has the token can join with its role
+CREATE TABLE public.itinerary_invites (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  itinerary_id uuid NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamp with time zone NOT NULL DEFAULT (now() + interval '7 days'),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_itinerary_invites_itinerary_id ON public.itinerary_invites(itinerary_id);
+
+-- Who added or removed which stop, and who joined or left
+CREATE TABLE public.itinerary_activity (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  itinerary_id uuid NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('added_stop', 'removed_stop', 'renamed', 'joined', 'left')),
+  stop_id text,
+  -- For 'renamed', the new itinerary name
+  stop_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_itinerary_activity_itinerary_id ON public.itinerary_activity(itinerary_id, created_at DESC);
+
+-- Lookups used by the policies below. SECURITY DEFINER keeps itineraries and
+-- itinerary_members policies from recursing into each other.
+CREATE FUNCTION public.itinerary_owner(_itinerary_id uuid) RETURNS uuid
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT user_id FROM public.itineraries WHERE id = _itinerary_id
+$$;
+
+CREATE FUNCTION public.itinerary_role(_itinerary_id uuid, _user_id uuid) RETURNS text
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT role FROM public.itinerary_members WHERE itinerary_id = _itinerary_id AND user_id = _user_id
+$$;
+
+CREATE POLICY "Members can view shared itineraries" ON public.itineraries FOR SELECT USING (public.itinerary_role(id, auth.uid()) IS NOT NULL);
+
+-- Editors get no UPDATE policy: they change days, spots and name through
+-- save_itinerary_plan() only, so sharing, publishing and the other settings
+-- stay with the owner.
+
+ALTER TABLE public.itinerary_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view itinerary members" ON public.itinerary_members FOR SELECT USING (public.itinerary_owner(itinerary_id) = auth.uid() OR public.itinerary_role(itinerary_id, auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Owners can manage itinerary members" ON public.itinerary_members USING (public.itinerary_owner(itinerary_id) = auth.uid()) WITH CHECK (public.itinerary_owner(itinerary_id) = auth.uid());
+
+CREATE POLICY "Members can leave itineraries" ON public.itinerary_members FOR DELETE USING (auth.uid() = user_id);
+
+ALTER TABLE public.itinerary_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage itinerary invites" ON public.itinerary_invites USING (public.itinerary_owner(itinerary_id) = auth.uid()) WITH CHECK (public.itinerary_owner(itinerary_id) = auth.uid() AND created_by = auth.uid());
+
+-- Entries are written by save_itinerary_plan() and the membership trigger,
+-- never by clients
+ALTER TABLE public.itinerary_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view itinerary activity" ON public.itinerary_activity FOR SELECT USING (public.itinerary_owner(itinerary_id) = auth.uid() OR public.itinerary_role(itinerary_id, auth.uid()) IS NOT NULL);
+
+CREATE TRIGGER update_itinerary_members_updated_at BEFORE UPDATE ON public.itinerary_members FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Bumped on every change to the plan, however it is written, so saves based
+-- on an older copy can be told apart. Clients can't set it themselves.
+ALTER TABLE public.itineraries ADD COLUMN version integer NOT NULL DEFAULT 1;
+
+CREATE FUNCTION public.bump_itinerary_version() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NEW.days IS DISTINCT FROM OLD.days OR NEW.spots IS DISTINCT FROM OLD.spots OR NEW.name IS DISTINCT FROM OLD.name THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_itinerary_version BEFORE UPDATE ON public.itineraries FOR EACH ROW EXECUTE FUNCTION public.bump_itinerary_version();
+
+-- Saves the plan of an itinerary the caller owns or edits. _base_version is
+-- the version the caller's copy was loaded at; if anyone saved since, the
+-- save fails with PT409 (HTTP 409) instead of overwriting their changes.
+-- Because the copy matches the stored row, comparing the two gives exactly
+-- the stops this caller added and removed, which go to the activity log.
+-- Null arguments leave that column unchanged. Returns the new version.
+CREATE FUNCTION public.save_itinerary_plan(
+  _itinerary_id uuid,
+  _base_version integer,
+  _days jsonb DEFAULT NULL,
+  _spots jsonb DEFAULT NULL,
+  _name text DEFAULT NULL
+) RETURNS integer
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _current public.itineraries%ROWTYPE;
+  _version integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to edit itineraries';
+  END IF;
+
+  SELECT * INTO _current FROM public.itineraries WHERE id = _itinerary_id FOR UPDATE;
+  IF NOT FOUND OR (_current.user_id <> auth.uid() AND public.itinerary_role(_itinerary_id, auth.uid()) IS DISTINCT FROM 'editor') THEN
+    RAISE EXCEPTION 'You cannot edit this itinerary' USING ERRCODE = '42501';
+  END IF;
+
+  IF _current.version <> _base_version THEN
+    RAISE EXCEPTION 'Someone else changed this itinerary since you opened it' USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _spots IS NOT NULL THEN
+    INSERT INTO public.itinerary_activity (itinerary_id, user_id, action, stop_id, stop_name)
+    SELECT _itinerary_id, auth.uid(), 'added_stop', stop->>'id', stop->>'name'
+    FROM jsonb_array_elements(_spots) AS stop
+    WHERE NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(_current.spots, '[]'::jsonb)) AS old_stop
+      WHERE old_stop->>'id' = stop->>'id'
+    );
+
+    INSERT INTO public.itinerary_activity (itinerary_id, user_id, action, stop_id, stop_name)
+    SELECT _itinerary_id, auth.uid(), 'removed_stop', old_stop->>'id', old_stop->>'name'
+    FROM jsonb_array_elements(COALESCE(_current.spots, '[]'::jsonb)) AS old_stop
+    WHERE NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_spots) AS stop
+      WHERE stop->>'id' = old_stop->>'id'
+    );
+  END IF;
+
+  IF _name IS NOT NULL AND _name IS DISTINCT FROM _current.name THEN
+    INSERT INTO public.itinerary_activity (itinerary_id, user_id, action, stop_name)
+    VALUES (_itinerary_id, auth.uid(), 'renamed', _name);
+  END IF;
+
+  UPDATE public.itineraries
+  SET days = COALESCE(_days, days), spots = COALESCE(_spots, spots), name = COALESCE(_name, name)
+  WHERE id = _itinerary_id
+  RETURNING version INTO _version;
+
+  RETURN _version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_itinerary_plan(uuid, integer, jsonb, jsonb, text) TO authenticated;
+
+CREATE FUNCTION public.log_itinerary_membership() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.itinerary_activity (itinerary_id, user_id, action)
+    VALUES (NEW.itinerary_id, NEW.user_id, 'joined');
+    RETURN NEW;
+  END IF;
+
+  -- Skip when the whole itinerary is being deleted
+  IF EXISTS (SELECT 1 FROM public.itineraries WHERE id = OLD.itinerary_id) THEN
+    INSERT INTO public.itinerary_activity (itinerary_id, user_id, action)
+    VALUES (OLD.itinerary_id, OLD.user_id, 'left');
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER log_itinerary_membership AFTER INSERT OR DELETE ON public.itinerary_members FOR EACH ROW EXECUTE FUNCTION public.log_itinerary_membership();
+
+-- Shown on the invite page before joining; invites themselves are owner-only
+CREATE FUNCTION public.get_itinerary_invite(_token text) RETURNS TABLE(itinerary_id uuid, itinerary_name text, owner_name text, role text, expires_at timestamp with time zone)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT i.id, i.name, p.full_name, inv.role, inv.expires_at
+  FROM public.itinerary_invites inv
+  JOIN public.itineraries i ON i.id = inv.itinerary_id
+  LEFT JOIN public.profiles p ON p.id = i.user_id
+  WHERE inv.token = _token AND inv.expires_at > now()
+$$;
+
+-- Joins the caller to the invite's itinerary. Re-using a link never lowers
+-- an existing member's role.
+CREATE FUNCTION public.accept_itinerary_invite(_token text) RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _invite public.itinerary_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invite';
+  END IF;
+
+  SELECT * INTO _invite FROM public.itinerary_invites WHERE token = _token AND expires_at > now();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite link is invalid or has expired';
+  END IF;
+
+  IF public.itinerary_owner(_invite.itinerary_id) = auth.uid() THEN
+    RETURN _invite.itinerary_id;
+  END IF;
+
+  INSERT INTO public.itinerary_members (itinerary_id, user_id, role)
+  VALUES (_invite.itinerary_id, auth.uid(), _invite.role)
+  ON CONFLICT (itinerary_id, user_id) DO UPDATE
+    SET role = CASE WHEN EXCLUDED.role = 'editor' THEN 'editor' ELSE public.itinerary_members.role END;
+
+  RETURN _invite.itinerary_id;
+END;
+$$;
+
+-- Members see each other's edits live in My Itineraries
+ALTER PUBLICATION supabase_realtime ADD TABLE public.itineraries, public.itinerary_members, public.itinerary_activity;
@@ -0,0 +1,19 @@
+-- Published itineraries get an unguessable share id; null means private
+ALTER TABLE public.itineraries
+  ADD COLUMN share_id text UNIQUE,
+  ADD COLUMN published_at timestamp with time zone;
+
+-- Read-only copy for /trip/:shareId. Works without signing in, and only
+-- returns the itinerary whose share id is known, so published trips can't
+-- be listed.
+CREATE FUNCTION public.get_published_itinerary(_share_id text) RETURNS TABLE(name text, days jsonb, spots jsonb, owner_name text, published_at timestamp with time zone, updated_at timestamp with time zone)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT i.name, i.days, i.spots, p.full_name, i.published_at, i.updated_at
+  FROM public.itineraries i
+  LEFT JOIN public.profiles p ON p.id = i.user_id
+  WHERE i.share_id = _share_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_published_itinerary(text) TO anon, authenticated;
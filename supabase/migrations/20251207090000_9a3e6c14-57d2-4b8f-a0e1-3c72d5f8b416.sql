@@ -0,0 +1,52 @@
+-- Admin-maintained rates behind the itinerary budget estimator, in PHP.
+--   entrance:     per person per spot visit, by the spot's budget_level
+--   lodging:      per room per night, when an accommodation has no usable price_range
+--   meal:         per person per meal, by the traveler's budget preference
+--   transport:    per person; base_amount once per day plus amount per km, by travel mode
+--   daily_budget: per person per day, the ceiling for each onboarding budget preference
+CREATE TABLE public.cost_rates (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  category text NOT NULL CHECK (category IN ('entrance', 'lodging', 'meal', 'transport', 'daily_budget')),
+  tier text NOT NULL,
+  amount numeric NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  base_amount numeric NOT NULL DEFAULT 0 CHECK (base_amount >= 0),
+  description text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (category, tier),
+  CONSTRAINT cost_rates_tier CHECK (
+    (category = 'transport' AND tier IN ('driving', 'walking', 'cycling'))
+    OR (category <> 'transport' AND tier IN ('budget', 'moderate', 'premium'))
+  )
+);
+
+ALTER TABLE public.cost_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cost rates" ON public.cost_rates FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage cost rates" ON public.cost_rates USING (public.has_role(auth.uid(), 'admin'::public.app_role)) WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_cost_rates_updated_at BEFORE UPDATE ON public.cost_rates FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.cost_rates (category, tier, amount, base_amount, description) VALUES
+  ('entrance', 'budget', 50, 0, 'Parks, churches and viewpoints with a small environmental or entrance fee'),
+  ('entrance', 'moderate', 150, 0, 'Guided sites and resorts with day-use fees'),
+  ('entrance', 'premium', 500, 0, 'Tours and activities such as ATV rides'),
+  ('lodging', 'budget', 1200, 0, 'Inns and homestays'),
+  ('lodging', 'moderate', 2800, 0, 'Mid-range hotels'),
+  ('lodging', 'premium', 6000, 0, 'Resorts and upscale hotels'),
+  ('meal', 'budget', 150, 0, 'Carinderias and local eateries'),
+  ('meal', 'moderate', 350, 0, 'Casual restaurants'),
+  ('meal', 'premium', 800, 0, 'Fine dining and resort restaurants'),
+  ('transport', 'driving', 8, 50, 'Shared van, jeepney and tricycle fares'),
+  ('transport', 'walking', 0, 0, 'No fare'),
+  ('transport', 'cycling', 0, 300, 'Bike rental for the day'),
+  ('daily_budget', 'budget', 2000, 0, 'Budget-friendly'),
+  ('daily_budget', 'moderate', 4500, 0, 'Moderate'),
+  ('daily_budget', 'premium', 10000, 0, 'Premium');
+
+-- Party size for per-person totals, and an optional total budget that
+-- replaces the one derived from the owner's budget preference
+ALTER TABLE public.itineraries
+  ADD COLUMN travelers integer NOT NULL DEFAULT 1 CHECK (travelers > 0),
+  ADD COLUMN budget_limit numeric CHECK (budget_limit IS NULL OR budget_limit > 0);
@@ -0,0 +1,17 @@
+-- Structured opening hours, shared by spots, restaurants and accommodations:
+--   {
+--     "weekly": { "0": [{ "open": "08:00", "close": "17:00" }], ... },  -- keyed by weekday, 0 = Sunday
+--     "exceptions": [
+--       { "kind": "holiday", "start_date": "2025-12-25", "end_date": "2025-12-25", "closed": true },
+--       { "kind": "seasonal", "start_date": "2025-12-01", "end_date": null, "closed": true, "reason": "Ashfall" }
+--     ]
+--   }
+-- Times are Philippine time. NULL means the hours aren't known yet.
+ALTER TABLE public.tourist_spots
+  ADD COLUMN opening_hours jsonb CHECK (opening_hours IS NULL OR jsonb_typeof(opening_hours) = 'object');
+
+ALTER TABLE public.restaurants
+  ADD COLUMN opening_hours jsonb CHECK (opening_hours IS NULL OR jsonb_typeof(opening_hours) = 'object');
+
+ALTER TABLE public.accommodations
+  ADD COLUMN opening_hours jsonb CHECK (opening_hours IS NULL OR jsonb_typeof(opening_hours) = 'object');
@@ -0,0 +1,92 @@
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- Restaurants and events are placed on the map the same way as spots
+ALTER TABLE public.restaurants
+  ADD COLUMN latitude numeric(10,8),
+  ADD COLUMN longitude numeric(11,8);
+
+ALTER TABLE public.events
+  ADD COLUMN latitude numeric(10,8),
+  ADD COLUMN longitude numeric(11,8);
+
+-- Kept in sync with latitude/longitude so admins never edit it directly
+ALTER TABLE public.tourist_spots
+  ADD COLUMN geog extensions.geography(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+      THEN extensions.st_setsrid(extensions.st_makepoint(longitude::double precision, latitude::double precision), 4326)::extensions.geography
+    END
+  ) STORED;
+
+ALTER TABLE public.accommodations
+  ADD COLUMN geog extensions.geography(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+      THEN extensions.st_setsrid(extensions.st_makepoint(longitude::double precision, latitude::double precision), 4326)::extensions.geography
+    END
+  ) STORED;
+
+ALTER TABLE public.restaurants
+  ADD COLUMN geog extensions.geography(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+      THEN extensions.st_setsrid(extensions.st_makepoint(longitude::double precision, latitude::double precision), 4326)::extensions.geography
+    END
+  ) STORED;
+
+ALTER TABLE public.events
+  ADD COLUMN geog extensions.geography(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+      THEN extensions.st_setsrid(extensions.st_makepoint(longitude::double precision, latitude::double precision), 4326)::extensions.geography
+    END
+  ) STORED;
+
+CREATE INDEX tourist_spots_geog_idx ON public.tourist_spots USING gist (geog);
+CREATE INDEX accommodations_geog_idx ON public.accommodations USING gist (geog);
+CREATE INDEX restaurants_geog_idx ON public.restaurants USING gist (geog);
+CREATE INDEX events_geog_idx ON public.events USING gist (geog);
+
+-- Everything within _radius_km of a point, nearest first. Each branch filters
+-- with ST_DWithin on its own table so the GiST indexes are used. Past events
+-- are left out. Runs as the caller, so the tables' RLS still applies.
+CREATE FUNCTION public.nearby_places(
+  _lat double precision,
+  _lng double precision,
+  _radius_km double precision DEFAULT 10,
+  _kinds text[] DEFAULT NULL,
+  _limit integer DEFAULT 100
+) RETURNS TABLE(kind text, id uuid, name text, municipality text, location text, image_url text, latitude double precision, longitude double precision, distance_km double precision)
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public', 'extensions'
+    AS $$
+DECLARE
+  _origin geography := st_setsrid(st_makepoint(_lng, _lat), 4326)::geography;
+  _meters double precision := LEAST(GREATEST(_radius_km, 0), 200) * 1000;
+BEGIN
+  RETURN QUERY
+  SELECT places.*
+  FROM (
+    SELECT 'spot'::text, s.id, s.name, s.municipality, s.location, s.image_url,
+      s.latitude::double precision, s.longitude::double precision, st_distance(s.geog, _origin) / 1000
+    FROM public.tourist_spots s
+    WHERE (_kinds IS NULL OR 'spot' = ANY(_kinds)) AND st_dwithin(s.geog, _origin, _meters)
+    UNION ALL
+    SELECT 'accommodation'::text, a.id, a.name, a.municipality, a.location, a.image_url,
+      a.latitude::double precision, a.longitude::double precision, st_distance(a.geog, _origin) / 1000
+    FROM public.accommodations a
+    WHERE (_kinds IS NULL OR 'accommodation' = ANY(_kinds)) AND st_dwithin(a.geog, _origin, _meters)
+    UNION ALL
+    SELECT 'restaurant'::text, r.id, r.name, r.municipality, r.location, r.image_url,
+      r.latitude::double precision, r.longitude::double precision, st_distance(r.geog, _origin) / 1000
+    FROM public.restaurants r
+    WHERE (_kinds IS NULL OR 'restaurant' = ANY(_kinds)) AND st_dwithin(r.geog, _origin, _meters)
+    UNION ALL
+    SELECT 'event'::text, e.id, e.name, e.municipality, e.location, e.image_url,
+      e.latitude::double precision, e.longitude::double precision, st_distance(e.geog, _origin) / 1000
+    FROM public.events e
+    WHERE (_kinds IS NULL OR 'event' = ANY(_kinds)) AND st_dwithin(e.geog, _origin, _meters)
+      AND (e.event_date IS NULL OR e.event_date >= current_date)
+  ) AS places(kind, id, name, municipality, location, image_url, latitude, longitude, distance_km)
+  ORDER BY places.distance_km
+  LIMIT LEAST(GREATEST(_limit, 1), 500);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.nearby_places(double precision, double precision, double precision, text[], integer) TO anon, authenticated;
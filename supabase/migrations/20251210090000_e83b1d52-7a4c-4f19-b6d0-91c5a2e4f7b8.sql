@@ -0,0 +1,15 @@
+-- Restaurant details for meal planning. Coordinates were added with the
+-- nearby search; opening_hours with the schedule work.
+--   price_level:  same tiers as tourist_spots.budget_level and the meal cost rates
+--   cuisine_tags: what's served ("Bicolano", "Seafood", ...); food_type stays the kind of place
+ALTER TABLE public.restaurants
+  ADD COLUMN price_level text CHECK (price_level IN ('budget', 'moderate', 'premium')),
+  ADD COLUMN cuisine_tags text[] NOT NULL DEFAULT '{}'::text[],
+  ADD COLUMN contact_number text,
+  ADD COLUMN email text,
+  ADD COLUMN website text,
+  ADD COLUMN updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+CREATE INDEX restaurants_cuisine_tags_idx ON public.restaurants USING gin (cuisine_tags);
+
+CREATE TRIGGER update_restaurants_updated_at BEFORE UPDATE ON public.restaurants FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
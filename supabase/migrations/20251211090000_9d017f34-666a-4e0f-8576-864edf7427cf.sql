@@ -0,0 +1,166 @@
+-- Unified search over spots, accommodations, restaurants and events.
+-- Full-text matching uses the 'simple' configuration (no stemming) because
+-- names and descriptions mix English, Filipino and Bikol; prefix matching
+-- covers most word endings. Trigram similarity on names catches typos.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+--   A: name   B: place and type   C: description
+ALTER TABLE public.tourist_spots ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A')
+  || setweight(to_tsvector('simple', coalesce(municipality, '') || ' ' || coalesce(location, '')), 'B')
+  || setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+ALTER TABLE public.accommodations ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A')
+  || setweight(to_tsvector('simple', coalesce(municipality, '') || ' ' || coalesce(location, '')), 'B')
+  || setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+ALTER TABLE public.restaurants ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A')
+  || setweight(to_tsvector('simple', coalesce(municipality, '') || ' ' || coalesce(location, '') || ' ' || coalesce(food_type, '')), 'B')
+  || setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+ALTER TABLE public.events ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A')
+  || setweight(to_tsvector('simple', coalesce(municipality, '') || ' ' || coalesce(location, '') || ' ' || coalesce(event_type, '')), 'B')
+  || setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX tourist_spots_search_idx ON public.tourist_spots USING gin (search_vector);
+CREATE INDEX accommodations_search_idx ON public.accommodations USING gin (search_vector);
+CREATE INDEX restaurants_search_idx ON public.restaurants USING gin (search_vector);
+CREATE INDEX events_search_idx ON public.events USING gin (search_vector);
+
+CREATE INDEX tourist_spots_name_trgm_idx ON public.tourist_spots USING gin (name extensions.gin_trgm_ops);
+CREATE INDEX accommodations_name_trgm_idx ON public.accommodations USING gin (name extensions.gin_trgm_ops);
+CREATE INDEX restaurants_name_trgm_idx ON public.restaurants USING gin (name extensions.gin_trgm_ops);
+CREATE INDEX events_name_trgm_idx ON public.events USING gin (name extensions.gin_trgm_ops);
+
+-- Groups of interchangeable search terms, e.g. {bulkan, volcano, mayon}.
+-- A query word matching any term in a group also matches the others.
+CREATE TABLE public.search_synonyms (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  terms text[] NOT NULL CHECK (cardinality(terms) >= 2),
+  note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX search_synonyms_terms_idx ON public.search_synonyms USING gin (terms);
+
+ALTER TABLE public.search_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view search synonyms" ON public.search_synonyms FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage search synonyms" ON public.search_synonyms USING (public.has_role(auth.uid(), 'admin'::public.app_role)) WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_search_synonyms_updated_at BEFORE UPDATE ON public.search_synonyms FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.search_synonyms (terms, note) VALUES
+  ('{bulkan,volcano,mayon}', 'Bikol/Filipino for volcano'),
+  ('{busay,talon,waterfall,falls}', 'Bikol and Filipino for waterfall'),
+  ('{baybayon,dalampasigan,beach}', 'Bikol and Filipino for beach'),
+  ('{simbahan,church}', NULL),
+  ('{bukid,bundok,mountain}', 'Bikol and Filipino for mountain'),
+  ('{isla,pulo,island}', NULL),
+  ('{kakanan,kainan,restaurant,eatery}', 'Bikol and Filipino for a place to eat'),
+  ('{pista,festival,fiesta}', NULL),
+  ('{bulod,burol,hill}', 'Bikol and Filipino for hill');
+
+-- Turns free text into a prefix tsquery, ORing each word with its synonyms
+-- and ANDing the words together. Multi-word synonyms must all be present.
+CREATE FUNCTION public.search_tsquery(_query text) RETURNS tsquery
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT to_tsquery('simple', string_agg('(' || alternatives.expr || ')', ' & '))
+  FROM (
+    SELECT string_agg(DISTINCT (
+      SELECT string_agg(quote_literal(part) || ':*', ' <-> ')
+      FROM regexp_split_to_table(alternative, '[^[:alnum:]]+') AS part
+      WHERE part <> ''
+    ), ' | ') AS expr
+    FROM (
+      SELECT DISTINCT word
+      FROM regexp_split_to_table(lower(coalesce(_query, '')), '[^[:alnum:]]+') AS word
+      WHERE word <> ''
+    ) AS words
+    CROSS JOIN LATERAL (
+      SELECT words.word AS alternative
+      UNION
+      SELECT lower(term)
+      FROM public.search_synonyms s, unnest(s.terms) AS term
+      WHERE EXISTS (SELECT 1 FROM unnest(s.terms) AS other WHERE lower(other) = words.word)
+    ) AS expanded
+    GROUP BY words.word
+  ) AS alternatives;
+$$;
+
+-- Ranked matches for the global search, at most _limit_per_kind of each kind.
+-- name_highlight and snippet wrap matched words in <b></b>; the client renders
+-- them as text, never as HTML. Past events are left out. Runs as the caller.
+CREATE FUNCTION public.search_places(
+  _query text,
+  _kinds text[] DEFAULT NULL,
+  _limit_per_kind integer DEFAULT 5
+) RETURNS TABLE(kind text, id uuid, name text, name_highlight text, snippet text, municipality text, image_url text, latitude double precision, longitude double precision, rank real)
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public', 'extensions'
+    AS $$
+DECLARE
+  _text text := btrim(regexp_replace(lower(coalesce(_query, '')), '\s+', ' ', 'g'));
+  _tsquery tsquery;
+  _limit integer := LEAST(GREATEST(_limit_per_kind, 1), 20);
+BEGIN
+  IF length(_text) < 2 THEN
+    RETURN;
+  END IF;
+
+  _tsquery := coalesce(public.search_tsquery(_text), ''::tsquery);
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT 'spot'::text AS kind, s.id, s.name, s.description, s.municipality, s.image_url,
+      s.latitude::double precision AS latitude, s.longitude::double precision AS longitude,
+      ts_rank(s.search_vector, _tsquery) + word_similarity(_text, s.name) AS score
+    FROM public.tourist_spots s
+    WHERE (_kinds IS NULL OR 'spot' = ANY(_kinds)) AND (s.search_vector @@ _tsquery OR _text <% s.name)
+    UNION ALL
+    SELECT 'accommodation'::text, a.id, a.name, a.description, a.municipality, a.image_url,
+      a.latitude::double precision, a.longitude::double precision,
+      ts_rank(a.search_vector, _tsquery) + word_similarity(_text, a.name)
+    FROM public.accommodations a
+    WHERE (_kinds IS NULL OR 'accommodation' = ANY(_kinds)) AND (a.search_vector @@ _tsquery OR _text <% a.name)
+    UNION ALL
+    SELECT 'restaurant'::text, r.id, r.name, r.description, r.municipality, r.image_url,
+      r.latitude::double precision, r.longitude::double precision,
+      ts_rank(r.search_vector, _tsquery) + word_similarity(_text, r.name)
+    FROM public.restaurants r
+    WHERE (_kinds IS NULL OR 'restaurant' = ANY(_kinds)) AND (r.search_vector @@ _tsquery OR _text <% r.name)
+    UNION ALL
+    SELECT 'event'::text, e.id, e.name, e.description, e.municipality, e.image_url,
+      e.latitude::double precision, e.longitude::double precision,
+      ts_rank(e.search_vector, _tsquery) + word_similarity(_text, e.name)
+    FROM public.events e
+    WHERE (_kinds IS NULL OR 'event' = ANY(_kinds)) AND (e.search_vector @@ _tsquery OR _text <% e.name)
+      AND (e.event_date IS NULL OR e.event_date >= current_date)
+  ), ranked AS (
+    SELECT m.*, row_number() OVER (PARTITION BY m.kind ORDER BY m.score DESC, m.name) AS position
+    FROM matches m
+  )
+  SELECT r.kind, r.id, r.name,
+    ts_headline('simple', r.name, _tsquery, 'HighlightAll=true'),
+    CASE WHEN r.description IS NULL THEN NULL
+      ELSE ts_headline('simple', r.description, _tsquery, 'MaxWords=20, MinWords=8, MaxFragments=1') END,
+    r.municipality, r.image_url, r.latitude, r.longitude, r.score::real
+  FROM ranked r
+  WHERE r.position <= _limit
+  ORDER BY r.score DESC, r.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tsquery(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_places(text, text[], integer) TO anon, authenticated;
@@ -0,0 +1,127 @@
+-- Server-side filtering, facet counts and paging for Explore.
+-- Filters travel as one jsonb object so the client can pass its URL state as is:
+--   q               free text, matched like the global search (synonyms, typos)
+--   categories, subcategories, municipalities, budget_levels, scenery_types
+--                   arrays; a spot matches when it has any of the listed values
+--   accessible, hidden_gem
+--                   booleans; true keeps only matching spots
+--   lat, lng, radius_km
+--                   when lat/lng are set, only spots within radius_km (default 10)
+CREATE INDEX IF NOT EXISTS idx_tourist_spots_category ON public.tourist_spots USING gin (category);
+CREATE INDEX IF NOT EXISTS idx_tourist_spots_subcategories ON public.tourist_spots USING gin (subcategories);
+CREATE INDEX IF NOT EXISTS idx_tourist_spots_municipality ON public.tourist_spots (municipality);
+
+-- A list filter's values, or NULL when it's empty or the facet being counted
+CREATE FUNCTION public.filter_values(_filters jsonb, _key text, _ignore text DEFAULT NULL) RETURNS text[]
+    LANGUAGE sql IMMUTABLE
+    AS $$
+  SELECT CASE
+    WHEN _key = _ignore OR coalesce(jsonb_typeof(_filters -> _key), '') <> 'array' OR jsonb_array_length(_filters -> _key) = 0 THEN NULL
+    ELSE ARRAY(SELECT jsonb_array_elements_text(_filters -> _key))
+  END;
+$$;
+
+CREATE FUNCTION public.filter_origin(_filters jsonb) RETURNS extensions.geography
+    LANGUAGE sql IMMUTABLE
+    SET search_path TO 'public', 'extensions'
+    AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(_filters -> 'lat') = 'number' AND jsonb_typeof(_filters -> 'lng') = 'number'
+      THEN st_setsrid(st_makepoint((_filters ->> 'lng')::double precision, (_filters ->> 'lat')::double precision), 4326)::geography
+  END;
+$$;
+
+-- Spots matching every filter except _ignore, which lets each facet count
+-- the values it would add rather than only the ones already selected.
+-- Runs as the caller, so the table's RLS still applies.
+CREATE FUNCTION public.filter_spots(_filters jsonb, _ignore text DEFAULT NULL) RETURNS SETOF public.tourist_spots
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public', 'extensions'
+    AS $$
+DECLARE
+  _query text := nullif(btrim(lower(_filters ->> 'q')), '');
+  _tsquery tsquery;
+  _categories text[] := public.filter_values(_filters, 'categories', _ignore);
+  _subcategories text[] := public.filter_values(_filters, 'subcategories', _ignore);
+  _municipalities text[] := public.filter_values(_filters, 'municipalities', _ignore);
+  _budget_levels text[] := public.filter_values(_filters, 'budget_levels', _ignore);
+  _scenery_types text[] := public.filter_values(_filters, 'scenery_types', _ignore);
+  _accessible boolean := coalesce(_ignore, '') <> 'accessible' AND coalesce((_filters ->> 'accessible')::boolean, false);
+  _hidden_gem boolean := coalesce(_ignore, '') <> 'hidden_gem' AND coalesce((_filters ->> 'hidden_gem')::boolean, false);
+  _origin geography := public.filter_origin(_filters);
+  _meters double precision := LEAST(GREATEST(coalesce((_filters ->> 'radius_km')::double precision, 10), 0), 200) * 1000;
+BEGIN
+  IF _query IS NOT NULL THEN
+    _tsquery := coalesce(public.search_tsquery(_query), ''::tsquery);
+  END IF;
+
+  RETURN QUERY
+  SELECT s.*
+  FROM public.tourist_spots s
+  WHERE (_query IS NULL OR s.search_vector @@ _tsquery OR _query <% s.name)
+    AND (_categories IS NULL OR s.category && _categories)
+    AND (_subcategories IS NULL OR s.subcategories && _subcategories)
+    AND (_municipalities IS NULL OR s.municipality = ANY(_municipalities))
+    AND (_budget_levels IS NULL OR s.budget_level = ANY(_budget_levels))
+    AND (_scenery_types IS NULL OR s.scenery_type && _scenery_types)
+    AND (NOT _accessible OR s.accessibility_friendly)
+    AND (NOT _hidden_gem OR s.is_hidden_gem)
+    AND (_origin IS NULL OR st_dwithin(s.geog, _origin, _meters));
+END;
+$$;
+
+-- One page of matching spots. total_count is the number of matches across all pages.
+--   _sort: name | rating | newest | distance (needs lat/lng in _filters)
+CREATE FUNCTION public.explore_spots(
+  _filters jsonb DEFAULT '{}'::jsonb,
+  _sort text DEFAULT 'name',
+  _offset integer DEFAULT 0,
+  _limit integer DEFAULT 24
+) RETURNS TABLE(id uuid, name text, description text, location text, municipality text, category text[], subcategories text[], image_url text, rating numeric, is_hidden_gem boolean, created_at timestamp with time zone, distance_km double precision, total_count bigint)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public', 'extensions'
+    AS $$
+  SELECT s.id, s.name, s.description, s.location, s.municipality, s.category, s.subcategories, s.image_url,
+    s.rating, s.is_hidden_gem, s.created_at,
+    st_distance(s.geog, origin.point) / 1000,
+    count(*) OVER ()
+  FROM public.filter_spots(_filters) s
+  CROSS JOIN (SELECT public.filter_origin(_filters) AS point) origin
+  ORDER BY
+    CASE WHEN _sort = 'distance' THEN st_distance(s.geog, origin.point) END ASC NULLS LAST,
+    CASE WHEN _sort = 'rating' THEN s.rating END DESC NULLS LAST,
+    CASE WHEN _sort = 'newest' THEN s.created_at END DESC,
+    s.name,
+    s.id
+  OFFSET GREATEST(_offset, 0)
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+-- How many spots each facet value would match, given the other filters
+CREATE FUNCTION public.explore_spot_facets(_filters jsonb DEFAULT '{}'::jsonb)
+RETURNS TABLE(facet text, value text, spot_count bigint)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT 'categories', v, count(*) FROM public.filter_spots(_filters, 'categories') s, unnest(s.category) v GROUP BY v
+  UNION ALL
+  SELECT 'subcategories', v, count(*) FROM public.filter_spots(_filters, 'subcategories') s, unnest(s.subcategories) v GROUP BY v
+  UNION ALL
+  SELECT 'municipalities', s.municipality, count(*) FROM public.filter_spots(_filters, 'municipalities') s
+    WHERE s.municipality IS NOT NULL GROUP BY s.municipality
+  UNION ALL
+  SELECT 'budget_levels', s.budget_level, count(*) FROM public.filter_spots(_filters, 'budget_levels') s
+    WHERE s.budget_level IS NOT NULL GROUP BY s.budget_level
+  UNION ALL
+  SELECT 'scenery_types', v, count(*) FROM public.filter_spots(_filters, 'scenery_types') s, unnest(s.scenery_type) v GROUP BY v
+  UNION ALL
+  SELECT 'accessible', 'true', count(*) FROM public.filter_spots(_filters, 'accessible') s WHERE s.accessibility_friendly
+  UNION ALL
+  SELECT 'hidden_gem', 'true', count(*) FROM public.filter_spots(_filters, 'hidden_gem') s WHERE s.is_hidden_gem;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.filter_values(jsonb, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.filter_origin(jsonb) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.filter_spots(jsonb, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.explore_spots(jsonb, text, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.explore_spot_facets(jsonb) TO anon, authenticated;
@@ -0,0 +1,52 @@
+-- Ordered photo galleries for spots, accommodations and restaurants.
+-- The entity's image_url stays as the cover so lists and cards keep working;
+-- the admin forms write both.
+--   storage_path: object path in the spot-images bucket, NULL for external URLs
+--   is_cover:     at most one per entity
+CREATE TABLE public.media (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type text NOT NULL CHECK (entity_type IN ('spot', 'accommodation', 'restaurant')),
+  entity_id uuid NOT NULL,
+  url text NOT NULL,
+  storage_path text,
+  caption text,
+  credit text,
+  is_cover boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX media_entity_idx ON public.media (entity_type, entity_id, position);
+CREATE UNIQUE INDEX media_one_cover_idx ON public.media (entity_type, entity_id) WHERE is_cover;
+
+ALTER TABLE public.media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view media" ON public.media FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage media" ON public.media USING (public.has_role(auth.uid(), 'admin'::public.app_role)) WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_media_updated_at BEFORE UPDATE ON public.media FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- media.entity_id can't reference three tables, so deletes clean up here
+CREATE FUNCTION public.delete_entity_media() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  DELETE FROM public.media WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_tourist_spot_media AFTER DELETE ON public.tourist_spots FOR EACH ROW EXECUTE FUNCTION public.delete_entity_media('spot');
+CREATE TRIGGER delete_accommodation_media AFTER DELETE ON public.accommodations FOR EACH ROW EXECUTE FUNCTION public.delete_entity_media('accommodation');
+CREATE TRIGGER delete_restaurant_media AFTER DELETE ON public.restaurants FOR EACH ROW EXECUTE FUNCTION public.delete_entity_media('restaurant');
+
+-- Existing single images become each gallery's cover
+INSERT INTO public.media (entity_type, entity_id, url, is_cover, position)
+SELECT 'spot', id, image_url, true, 0 FROM public.tourist_spots WHERE image_url IS NOT NULL AND image_url <> ''
+UNION ALL
+SELECT 'accommodation', id, image_url, true, 0 FROM public.accommodations WHERE image_url IS NOT NULL AND image_url <> ''
+UNION ALL
+SELECT 'restaurant', id, image_url, true, 0 FROM public.restaurants WHERE image_url IS NOT NULL AND image_url <> '';
@@ -0,0 +1,95 @@
+-- Traveller photos attached to reviews. Every upload starts out pending and
+-- only approved photos are listed publicly; the uploader still sees their own.
+--   storage_path: object path in the review-photos bucket, "<user id>/<file>";
+--   the bucket is private, so the app shows photos through signed URLs
+CREATE TABLE public.review_photos (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id uuid NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  rejection_reason text,
+  moderated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  moderated_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX review_photos_review_idx ON public.review_photos (review_id, position);
+CREATE INDEX review_photos_storage_path_idx ON public.review_photos (storage_path);
+CREATE INDEX review_photos_pending_idx ON public.review_photos (created_at) WHERE status = 'pending';
+
+ALTER TABLE public.review_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view approved review photos" ON public.review_photos FOR SELECT USING (status = 'approved' OR auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE POLICY "Users can add pending photos to own reviews" ON public.review_photos FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'pending'
+  AND EXISTS (SELECT 1 FROM public.reviews r WHERE r.id = review_id AND r.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete own review photos" ON public.review_photos FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Only admins can moderate review photos" ON public.review_photos FOR UPDATE USING (public.has_role(auth.uid(), 'admin'::public.app_role)) WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE POLICY "Admins can delete review photos" ON public.review_photos FOR DELETE USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- ReviewManagement already deletes reviews; the photos go with them
+CREATE POLICY "Admins can delete reviews" ON public.reviews FOR DELETE USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Keep in sync with MAX_REVIEW_PHOTOS in src/lib/reviewPhotos.ts
+CREATE FUNCTION public.check_review_photo_limit() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF (SELECT count(*) FROM public.review_photos WHERE review_id = NEW.review_id) >= 4 THEN
+    RAISE EXCEPTION 'A review can have at most 4 photos';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_review_photo_limit BEFORE INSERT ON public.review_photos FOR EACH ROW EXECUTE FUNCTION public.check_review_photo_limit();
+
+-- Private, so moderation holds at the storage layer too: a file can be read
+-- (and signed) only once its photo is approved, except by its uploader and
+-- admins. Rejected files are deleted by the moderator.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', false);
+
+CREATE POLICY "Anyone can view approved review photos"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'review-photos'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR EXISTS (
+      SELECT 1 FROM public.review_photos p
+      WHERE p.storage_path = storage.objects.name AND p.status = 'approved'
+    )
+  )
+);
+
+CREATE POLICY "Users can upload review photos to own folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'review-photos'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete own review photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'review-photos'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Admins can delete review photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'review-photos' AND has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,107 @@
+-- Reviews for any reviewable entity instead of only tourist spots.
+-- spot_id becomes (entity_type, entity_id); the entity is checked on write
+-- and its reviews are removed with it, like media.
+ALTER TABLE public.reviews ADD COLUMN entity_type text NOT NULL DEFAULT 'spot'
+  CHECK (entity_type IN ('spot', 'accommodation', 'restaurant', 'event'));
+ALTER TABLE public.reviews ADD COLUMN entity_id uuid;
+
+UPDATE public.reviews SET entity_id = spot_id;
+
+ALTER TABLE public.reviews ALTER COLUMN entity_id SET NOT NULL;
+ALTER TABLE public.reviews ALTER COLUMN entity_type DROP DEFAULT;
+ALTER TABLE public.reviews DROP CONSTRAINT reviews_spot_id_fkey;
+ALTER TABLE public.reviews DROP COLUMN spot_id;
+
+CREATE INDEX reviews_entity_idx ON public.reviews (entity_type, entity_id, created_at DESC);
+
+CREATE FUNCTION public.check_review_entity() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NOT CASE NEW.entity_type
+    WHEN 'spot' THEN EXISTS (SELECT 1 FROM public.tourist_spots WHERE id = NEW.entity_id)
+    WHEN 'accommodation' THEN EXISTS (SELECT 1 FROM public.accommodations WHERE id = NEW.entity_id)
+    WHEN 'restaurant' THEN EXISTS (SELECT 1 FROM public.restaurants WHERE id = NEW.entity_id)
+    WHEN 'event' THEN EXISTS (SELECT 1 FROM public.events WHERE id = NEW.entity_id)
+    ELSE false
+  END THEN
+    RAISE EXCEPTION 'No % with id %', NEW.entity_type, NEW.entity_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_review_entity BEFORE INSERT OR UPDATE OF entity_type, entity_id ON public.reviews FOR EACH ROW EXECUTE FUNCTION public.check_review_entity();
+
+CREATE FUNCTION public.delete_entity_reviews() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  DELETE FROM public.reviews WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  DELETE FROM public.review_stats WHERE entity_type = TG_ARGV[0] AND entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_tourist_spot_reviews AFTER DELETE ON public.tourist_spots FOR EACH ROW EXECUTE FUNCTION public.delete_entity_reviews('spot');
+CREATE TRIGGER delete_accommodation_reviews AFTER DELETE ON public.accommodations FOR EACH ROW EXECUTE FUNCTION public.delete_entity_reviews('accommodation');
+CREATE TRIGGER delete_restaurant_reviews AFTER DELETE ON public.restaurants FOR EACH ROW EXECUTE FUNCTION public.delete_entity_reviews('restaurant');
+CREATE TRIGGER delete_event_reviews AFTER DELETE ON public.events FOR EACH ROW EXECUTE FUNCTION public.delete_entity_reviews('event');
+
+-- Average rating and review count per entity, kept current by a trigger so
+-- lists can show them without reading every review.
+CREATE TABLE public.review_stats (
+  entity_type text NOT NULL,
+  entity_id uuid NOT NULL,
+  review_count integer NOT NULL DEFAULT 0,
+  average_rating numeric(3,2),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+ALTER TABLE public.review_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view review stats" ON public.review_stats FOR SELECT USING (true);
+
+CREATE FUNCTION public.refresh_review_stats(_entity_type text, _entity_id uuid) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  INSERT INTO public.review_stats (entity_type, entity_id, review_count, average_rating, updated_at)
+  SELECT _entity_type, _entity_id, count(*), round(avg(rating), 2), now()
+  FROM public.reviews
+  WHERE entity_type = _entity_type AND entity_id = _entity_id
+  ON CONFLICT (entity_type, entity_id) DO UPDATE
+    SET review_count = EXCLUDED.review_count,
+        average_rating = EXCLUDED.average_rating,
+        updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+CREATE FUNCTION public.update_review_stats() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_review_stats(OLD.entity_type, OLD.entity_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR (NEW.entity_type, NEW.entity_id) IS DISTINCT FROM (OLD.entity_type, OLD.entity_id)) THEN
+    PERFORM public.refresh_review_stats(NEW.entity_type, NEW.entity_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_review_stats AFTER INSERT OR UPDATE OR DELETE ON public.reviews FOR EACH ROW EXECUTE FUNCTION public.update_review_stats();
+
+-- Only called from triggers
+REVOKE EXECUTE ON FUNCTION public.refresh_review_stats(text, uuid) FROM PUBLIC;
+
+INSERT INTO public.review_stats (entity_type, entity_id, review_count, average_rating)
+SELECT entity_type, entity_id, count(*), round(avg(rating), 2)
+FROM public.reviews
+GROUP BY entity_type, entity_id;
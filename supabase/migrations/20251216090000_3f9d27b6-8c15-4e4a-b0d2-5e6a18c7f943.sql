@@ -0,0 +1,95 @@
+-- Ratings come from reviews instead of being typed in by admins.
+-- What admins enter becomes editorial_rating, a prior that a Bayesian average
+-- blends with the reviews:
+--   score = (C * prior + sum of ratings) / (C + review count)
+-- with C = 5 and a neutral prior of 3 when there's no editorial score, so a
+-- single 5-star review doesn't put a new spot above well-reviewed ones.
+-- tourist_spots.rating and accommodations.rating now hold that score, so
+-- every list and "Top rated" sort picks it up without changes.
+ALTER TABLE public.tourist_spots ADD COLUMN editorial_rating numeric(2,1) CHECK (editorial_rating BETWEEN 0 AND 5);
+ALTER TABLE public.accommodations ADD COLUMN editorial_rating numeric(2,1) CHECK (editorial_rating BETWEEN 0 AND 5);
+
+UPDATE public.tourist_spots SET editorial_rating = round(rating, 1) WHERE rating > 0;
+UPDATE public.accommodations SET editorial_rating = round(rating, 1) WHERE rating > 0;
+
+--   rating_counts: reviews per star, rating_counts[1] is 1 star
+ALTER TABLE public.review_stats ADD COLUMN rating_counts integer[] NOT NULL DEFAULT '{0,0,0,0,0}';
+ALTER TABLE public.review_stats ADD COLUMN editorial_rating numeric(2,1);
+ALTER TABLE public.review_stats ADD COLUMN score numeric(3,2);
+
+CREATE FUNCTION public.bayesian_rating(_prior numeric, _review_count integer, _rating_sum numeric) RETURNS numeric
+    LANGUAGE sql IMMUTABLE
+    AS $$
+  SELECT CASE
+    WHEN _review_count = 0 THEN NULLIF(_prior, 0)
+    ELSE round((5 * COALESCE(NULLIF(_prior, 0), 3) + _rating_sum) / (5 + _review_count), 2)
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_review_stats(_entity_type text, _entity_id uuid) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _editorial numeric;
+  _score numeric;
+BEGIN
+  IF _entity_type = 'spot' THEN
+    SELECT editorial_rating INTO _editorial FROM public.tourist_spots WHERE id = _entity_id;
+  ELSIF _entity_type = 'accommodation' THEN
+    SELECT editorial_rating INTO _editorial FROM public.accommodations WHERE id = _entity_id;
+  END IF;
+
+  INSERT INTO public.review_stats AS s (entity_type, entity_id, review_count, average_rating, rating_counts, editorial_rating, score, updated_at)
+  SELECT
+    _entity_type,
+    _entity_id,
+    count(*),
+    round(avg(rating), 2),
+    ARRAY[
+      count(*) FILTER (WHERE rating = 1),
+      count(*) FILTER (WHERE rating = 2),
+      count(*) FILTER (WHERE rating = 3),
+      count(*) FILTER (WHERE rating = 4),
+      count(*) FILTER (WHERE rating = 5)
+    ]::integer[],
+    _editorial,
+    public.bayesian_rating(_editorial, count(*)::integer, COALESCE(sum(rating), 0)),
+    now()
+  FROM public.reviews
+  WHERE entity_type = _entity_type AND entity_id = _entity_id
+  ON CONFLICT (entity_type, entity_id) DO UPDATE
+    SET review_count = EXCLUDED.review_count,
+        average_rating = EXCLUDED.average_rating,
+        rating_counts = EXCLUDED.rating_counts,
+        editorial_rating = EXCLUDED.editorial_rating,
+        score = EXCLUDED.score,
+        updated_at = EXCLUDED.updated_at
+  RETURNING s.score INTO _score;
+
+  IF _entity_type = 'spot' THEN
+    UPDATE public.tourist_spots SET rating = COALESCE(_score, 0) WHERE id = _entity_id AND rating IS DISTINCT FROM COALESCE(_score, 0);
+  ELSIF _entity_type = 'accommodation' THEN
+    UPDATE public.accommodations SET rating = COALESCE(_score, 0) WHERE id = _entity_id AND rating IS DISTINCT FROM COALESCE(_score, 0);
+  END IF;
+END;
+$$;
+
+-- Editorial changes re-blend the score
+CREATE FUNCTION public.refresh_entity_rating() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  PERFORM public.refresh_review_stats(TG_ARGV[0], NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_tourist_spot_rating AFTER INSERT OR UPDATE OF editorial_rating ON public.tourist_spots FOR EACH ROW EXECUTE FUNCTION public.refresh_entity_rating('spot');
+CREATE TRIGGER refresh_accommodation_rating AFTER INSERT OR UPDATE OF editorial_rating ON public.accommodations FOR EACH ROW EXECUTE FUNCTION public.refresh_entity_rating('accommodation');
+
+-- Backfill every rated entity, reviewed or not
+SELECT public.refresh_review_stats('spot', id) FROM public.tourist_spots;
+SELECT public.refresh_review_stats('accommodation', id) FROM public.accommodations;
+SELECT public.refresh_review_stats(entity_type, entity_id) FROM public.review_stats WHERE entity_type IN ('restaurant', 'event');
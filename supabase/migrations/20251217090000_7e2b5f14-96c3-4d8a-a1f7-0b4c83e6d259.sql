@@ -0,0 +1,100 @@
+-- Favorites and visited spots move out of profiles.user_preferences onto rows,
+-- so saving one item can't overwrite another saved at the same time.
+-- Favorites get a personal note and can be grouped into named collections
+-- ("Beaches for December"); one favorite can sit in several collections.
+ALTER TABLE public.favorites ADD COLUMN note text;
+ALTER TABLE public.favorites ADD COLUMN updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+CREATE INDEX favorites_user_idx ON public.favorites (user_id, created_at DESC);
+
+CREATE POLICY "Users can update own favorites" ON public.favorites FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_favorites_updated_at BEFORE UPDATE ON public.favorites FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.favorite_collections (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  description text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.favorite_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own favorite collections" ON public.favorite_collections USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_favorite_collections_updated_at BEFORE UPDATE ON public.favorite_collections FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.favorite_collection_items (
+  collection_id uuid NOT NULL REFERENCES public.favorite_collections(id) ON DELETE CASCADE,
+  favorite_id uuid NOT NULL REFERENCES public.favorites(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (collection_id, favorite_id)
+);
+
+CREATE INDEX favorite_collection_items_favorite_idx ON public.favorite_collection_items (favorite_id);
+
+ALTER TABLE public.favorite_collection_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own favorite collection items" ON public.favorite_collection_items
+  USING (EXISTS (SELECT 1 FROM public.favorite_collections c WHERE c.id = collection_id AND c.user_id = auth.uid()))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.favorite_collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.favorites f WHERE f.id = favorite_id AND f.user_id = auth.uid())
+  );
+
+CREATE TABLE public.visited_spots (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  spot_id uuid NOT NULL REFERENCES public.tourist_spots(id) ON DELETE CASCADE,
+  visited_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, spot_id)
+);
+
+ALTER TABLE public.visited_spots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own visited spots" ON public.visited_spots FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own visited spots" ON public.visited_spots FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own visited spots" ON public.visited_spots FOR DELETE USING (auth.uid() = user_id);
+
+-- favorites.item_id can point at any of four tables, so deletes clean up here
+CREATE FUNCTION public.delete_entity_favorites() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  DELETE FROM public.favorites WHERE item_type = TG_ARGV[0] AND item_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_tourist_spot_favorites AFTER DELETE ON public.tourist_spots FOR EACH ROW EXECUTE FUNCTION public.delete_entity_favorites('spot');
+CREATE TRIGGER delete_accommodation_favorites AFTER DELETE ON public.accommodations FOR EACH ROW EXECUTE FUNCTION public.delete_entity_favorites('accommodation');
+CREATE TRIGGER delete_restaurant_favorites AFTER DELETE ON public.restaurants FOR EACH ROW EXECUTE FUNCTION public.delete_entity_favorites('restaurant');
+CREATE TRIGGER delete_event_favorites AFTER DELETE ON public.events FOR EACH ROW EXECUTE FUNCTION public.delete_entity_favorites('event');
+
+-- Carry over the JSON lists; ids that no longer match a spot are dropped
+INSERT INTO public.favorites (user_id, item_id, item_type)
+SELECT p.id, s.id, 'spot'
+FROM public.profiles p
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  CASE WHEN jsonb_typeof(p.user_preferences -> 'favorite_spots') = 'array' THEN p.user_preferences -> 'favorite_spots' ELSE '[]'::jsonb END
+) AS f(spot_id)
+JOIN public.tourist_spots s ON s.id::text = f.spot_id
+ON CONFLICT (user_id, item_id, item_type) DO NOTHING;
+
+INSERT INTO public.visited_spots (user_id, spot_id)
+SELECT p.id, s.id
+FROM public.profiles p
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  CASE WHEN jsonb_typeof(p.user_preferences -> 'visited_spots') = 'array' THEN p.user_preferences -> 'visited_spots' ELSE '[]'::jsonb END
+) AS v(spot_id)
+JOIN public.tourist_spots s ON s.id::text = v.spot_id
+ON CONFLICT (user_id, spot_id) DO NOTHING;
+
+UPDATE public.profiles
+SET user_preferences = user_preferences - 'favorite_spots' - 'visited_spots'
+WHERE user_preferences ?| ARRAY['favorite_spots', 'visited_spots'];
@@ -0,0 +1,147 @@
+-- Check-ins: a visit is recorded only when the traveller's device reports a
+-- position within the spot's check-in radius. Rows are written by
+-- check_in_at_spot() alone, which measures that distance server-side, but the
+-- position itself comes from the client and can be faked. The function
+-- therefore also rejects check-ins that would need faster travel than
+-- MAX_TRAVEL_SPEED_KMH from the user's previous one; this stops the cheapest
+-- abuse (sweeping every spot from home) without proving presence. Users
+-- cannot delete check-ins, or deleting the previous one would lift that limit.
+--   check_in_radius_m: per spot, since a volcano viewpoint needs more slack
+--   than a church in a town plaza
+--   photo_storage_path: object path in the private check-in-photos bucket,
+--   "<user id>/<file>"; only the owner can read it, through a signed URL
+ALTER TABLE public.tourist_spots ADD COLUMN check_in_radius_m integer NOT NULL DEFAULT 250
+  CHECK (check_in_radius_m BETWEEN 25 AND 5000);
+
+CREATE TABLE public.check_ins (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  spot_id uuid NOT NULL REFERENCES public.tourist_spots(id) ON DELETE CASCADE,
+  checked_in_at timestamp with time zone NOT NULL DEFAULT now(),
+  latitude double precision NOT NULL,
+  longitude double precision NOT NULL,
+  distance_m double precision NOT NULL,
+  photo_storage_path text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX check_ins_user_idx ON public.check_ins (user_id, checked_in_at DESC);
+CREATE INDEX check_ins_spot_idx ON public.check_ins (spot_id);
+
+ALTER TABLE public.check_ins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own check-ins" ON public.check_ins FOR SELECT USING (auth.uid() = user_id);
+
+-- Visited spots now come from check-ins instead of a free toggle
+DROP POLICY "Users can add own visited spots" ON public.visited_spots;
+
+CREATE FUNCTION public.check_in_at_spot(
+  _spot_id uuid,
+  _lat double precision,
+  _lng double precision,
+  _photo_storage_path text DEFAULT NULL
+) RETURNS public.check_ins
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public', 'extensions'
+    AS $$
+DECLARE
+  _spot public.tourist_spots%ROWTYPE;
+  _distance double precision;
+  _previous public.check_ins%ROWTYPE;
+  _travelled double precision;
+  _check_in public.check_ins%ROWTYPE;
+  -- Faster than a bus on the Maharlika Highway, with room for GPS jitter
+  MAX_TRAVEL_SPEED_KMH CONSTANT double precision := 120;
+  NEARBY_M CONSTANT double precision := 2000;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to check in';
+  END IF;
+
+  SELECT * INTO _spot FROM public.tourist_spots WHERE id = _spot_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No spot with id %', _spot_id;
+  END IF;
+
+  IF _spot.geog IS NULL THEN
+    RAISE EXCEPTION '% has not been pinned on the map yet, so check-ins are not available', _spot.name;
+  END IF;
+
+  _distance := st_distance(_spot.geog, st_setsrid(st_makepoint(_lng, _lat), 4326)::geography);
+  IF _photo_storage_path IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM storage.objects
+    WHERE bucket_id = 'check-in-photos'
+      AND name = _photo_storage_path
+      AND (storage.foldername(name))[1] = auth.uid()::text
+  ) THEN
+    RAISE EXCEPTION 'Upload the check-in photo to your own folder first';
+  END IF;
+
+  IF _distance > _spot.check_in_radius_m THEN
+    RAISE EXCEPTION 'You are % m from %. Get within % m to check in', round(_distance), _spot.name, _spot.check_in_radius_m;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.check_ins
+    WHERE user_id = auth.uid() AND spot_id = _spot_id AND checked_in_at > now() - interval '12 hours'
+  ) THEN
+    RAISE EXCEPTION 'You already checked in at % in the last 12 hours', _spot.name;
+  END IF;
+
+  SELECT * INTO _previous FROM public.check_ins
+  WHERE user_id = auth.uid()
+  ORDER BY checked_in_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    _travelled := st_distance(
+      st_setsrid(st_makepoint(_previous.longitude, _previous.latitude), 4326)::geography,
+      st_setsrid(st_makepoint(_lng, _lat), 4326)::geography
+    );
+    IF _travelled > NEARBY_M
+      AND _travelled / 1000 > MAX_TRAVEL_SPEED_KMH * extract(epoch FROM now() - _previous.checked_in_at) / 3600 THEN
+      RAISE EXCEPTION 'You checked in % km away % minutes ago. Try again once you could have travelled here',
+        round((_travelled / 1000)::numeric, 1), round(extract(epoch FROM now() - _previous.checked_in_at) / 60);
+    END IF;
+  END IF;
+
+  INSERT INTO public.check_ins (user_id, spot_id, latitude, longitude, distance_m, photo_storage_path)
+  VALUES (auth.uid(), _spot_id, _lat, _lng, _distance, _photo_storage_path)
+  RETURNING * INTO _check_in;
+
+  INSERT INTO public.visited_spots (user_id, spot_id, visited_at)
+  VALUES (auth.uid(), _spot_id, _check_in.checked_in_at)
+  ON CONFLICT (user_id, spot_id) DO NOTHING;
+
+  RETURN _check_in;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_in_at_spot(uuid, double precision, double precision, text) TO authenticated;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('check-in-photos', 'check-in-photos', false);
+
+CREATE POLICY "Users can view own check-in photos"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'check-in-photos'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can upload check-in photos to own folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'check-in-photos'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete own check-in photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'check-in-photos'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
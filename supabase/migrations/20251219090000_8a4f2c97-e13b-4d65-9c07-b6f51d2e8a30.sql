@@ -0,0 +1,264 @@
+-- Achievement badges. Each badge is a rule over a traveller's activity, so
+-- admins can add new ones from the admin panel without a deploy:
+--   rule_type:   what is counted, see badge_progress()
+--   rule_params: narrows the count, e.g. {"towns": ["Oas", "Libon"]},
+--                {"spot_ids": ["<uuid>"]} or {"category": "Beach"}
+--   threshold:   the count needed to earn the badge
+--   points:      added to the monthly leaderboard in the month it's earned
+CREATE TABLE public.badges (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  description text,
+  icon text NOT NULL DEFAULT 'award',
+  rule_type text NOT NULL CHECK (rule_type IN ('check_ins', 'towns', 'hidden_gems', 'spots', 'category', 'reviews', 'itineraries')),
+  rule_params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  threshold integer NOT NULL DEFAULT 1 CHECK (threshold > 0),
+  points integer NOT NULL DEFAULT 10 CHECK (points >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.badges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view badges" ON public.badges FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage badges" ON public.badges USING (public.has_role(auth.uid(), 'admin'::public.app_role)) WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_badges_updated_at BEFORE UPDATE ON public.badges FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rows are only written by award_badges() and award_badge_backfill()
+CREATE TABLE public.user_badges (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  badge_id uuid NOT NULL REFERENCES public.badges(id) ON DELETE CASCADE,
+  awarded_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, badge_id)
+);
+
+CREATE INDEX user_badges_awarded_idx ON public.user_badges (awarded_at);
+
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own badges" ON public.user_badges FOR SELECT USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'::public.app_role));
+
+ALTER TABLE public.profiles ADD COLUMN leaderboard_opt_in boolean NOT NULL DEFAULT false;
+
+-- Same folding as normalizeMunicipality() in src/lib/albay.ts, so "City of
+-- Tabaco" and "Tabaco City" count as one town
+CREATE FUNCTION public.normalize_municipality(_name text) RETURNS text
+    LANGUAGE sql IMMUTABLE
+    AS $$
+  SELECT regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(coalesce(_name, '')), '\mcity of\M|\mcity\M', '', 'g'),
+      '\msto\.?\s', 'santo ', 'g'
+    ),
+    '[^a-z]', '', 'g'
+  );
+$$;
+
+-- Where a traveller stands on one rule. Place-based rules only count verified
+-- check-ins, never the old free-toggle visited list, and count each place once
+-- so repeat visits or reviews cannot be farmed. Check-ins cannot be deleted;
+-- reviews can, but deleting one only lowers the count, and a badge once
+-- awarded stays. Runs as the caller, so from the client it can only see the
+-- caller's own check-ins.
+CREATE FUNCTION public.badge_progress(_user_id uuid, _rule_type text, _params jsonb) RETURNS integer
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT (CASE _rule_type
+    WHEN 'check_ins' THEN (
+      SELECT count(DISTINCT c.spot_id) FROM public.check_ins c WHERE c.user_id = _user_id
+    )
+    WHEN 'towns' THEN (
+      SELECT count(DISTINCT public.normalize_municipality(s.municipality))
+      FROM public.check_ins c
+      JOIN public.tourist_spots s ON s.id = c.spot_id
+      WHERE c.user_id = _user_id
+        AND s.municipality IS NOT NULL
+        AND (
+          NOT _params ? 'towns'
+          OR public.normalize_municipality(s.municipality) IN (
+            SELECT public.normalize_municipality(t) FROM jsonb_array_elements_text(_params -> 'towns') AS t
+          )
+        )
+    )
+    WHEN 'hidden_gems' THEN (
+      SELECT count(DISTINCT c.spot_id)
+      FROM public.check_ins c
+      JOIN public.tourist_spots s ON s.id = c.spot_id
+      WHERE c.user_id = _user_id AND s.is_hidden_gem
+    )
+    WHEN 'spots' THEN (
+      SELECT count(DISTINCT c.spot_id)
+      FROM public.check_ins c
+      WHERE c.user_id = _user_id
+        AND c.spot_id::text IN (SELECT jsonb_array_elements_text(coalesce(_params -> 'spot_ids', '[]'::jsonb)))
+    )
+    WHEN 'category' THEN (
+      SELECT count(DISTINCT c.spot_id)
+      FROM public.check_ins c
+      JOIN public.tourist_spots s ON s.id = c.spot_id
+      WHERE c.user_id = _user_id AND _params ->> 'category' = ANY(s.category)
+    )
+    WHEN 'reviews' THEN (
+      SELECT count(DISTINCT (r.entity_type, r.entity_id)) FROM public.reviews r WHERE r.user_id = _user_id
+    )
+    WHEN 'itineraries' THEN (
+      SELECT count(*) FROM public.itineraries i WHERE i.user_id = _user_id
+    )
+    ELSE 0
+  END)::integer;
+$$;
+
+CREATE FUNCTION public.my_badge_progress() RETURNS TABLE(badge_id uuid, progress integer)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT b.id, public.badge_progress(auth.uid(), b.rule_type, b.rule_params)
+  FROM public.badges b
+  WHERE b.is_active AND auth.uid() IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.my_badge_progress() TO authenticated;
+
+-- Awards every active badge the user has newly reached and drops a note in
+-- their notifications. Returns how many were awarded.
+CREATE FUNCTION public.award_badges(_user_id uuid) RETURNS integer
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _badge public.badges%ROWTYPE;
+  _awarded integer := 0;
+BEGIN
+  FOR _badge IN
+    SELECT b.* FROM public.badges b
+    WHERE b.is_active
+      AND NOT EXISTS (SELECT 1 FROM public.user_badges ub WHERE ub.user_id = _user_id AND ub.badge_id = b.id)
+  LOOP
+    IF public.badge_progress(_user_id, _badge.rule_type, _badge.rule_params) >= _badge.threshold THEN
+      INSERT INTO public.user_badges (user_id, badge_id) VALUES (_user_id, _badge.id) ON CONFLICT DO NOTHING;
+      INSERT INTO public.notifications (user_id, message)
+      VALUES (_user_id, format('You earned the "%s" badge!', _badge.name));
+      _awarded := _awarded + 1;
+    END IF;
+  END LOOP;
+
+  RETURN _awarded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.award_badges(uuid) FROM PUBLIC;
+
+CREATE FUNCTION public.award_badges_on_activity() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  PERFORM public.award_badges(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_badges_on_check_in AFTER INSERT ON public.check_ins FOR EACH ROW EXECUTE FUNCTION public.award_badges_on_activity();
+CREATE TRIGGER award_badges_on_review AFTER INSERT ON public.reviews FOR EACH ROW EXECUTE FUNCTION public.award_badges_on_activity();
+CREATE TRIGGER award_badges_on_itinerary AFTER INSERT ON public.itineraries FOR EACH ROW EXECUTE FUNCTION public.award_badges_on_activity();
+
+-- A new or loosened badge goes to everyone who already qualifies
+CREATE FUNCTION public.award_badge_backfill() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NOT NEW.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  WITH awarded AS (
+    INSERT INTO public.user_badges (user_id, badge_id)
+    SELECT p.id, NEW.id
+    FROM public.profiles p
+    WHERE public.badge_progress(p.id, NEW.rule_type, NEW.rule_params) >= NEW.threshold
+    ON CONFLICT DO NOTHING
+    RETURNING user_id
+  )
+  INSERT INTO public.notifications (user_id, message)
+  SELECT awarded.user_id, format('You earned the "%s" badge!', NEW.name) FROM awarded;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER award_badge_backfill AFTER INSERT OR UPDATE OF rule_type, rule_params, threshold, is_active ON public.badges FOR EACH ROW EXECUTE FUNCTION public.award_badge_backfill();
+
+-- Opted-in travellers ranked by points earned in one calendar month (Manila
+-- time): each badge's points plus one per spot checked into that month, so
+-- checking in at the same spot every 12 hours earns nothing extra.
+CREATE FUNCTION public.monthly_leaderboard(
+  _month date DEFAULT (now() AT TIME ZONE 'Asia/Manila')::date,
+  _limit integer DEFAULT 20
+) RETURNS TABLE(rank bigint, user_id uuid, full_name text, avatar_url text, points bigint, badge_count bigint, spot_count bigint)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  WITH bounds AS (
+    SELECT date_trunc('month', _month::timestamp) AT TIME ZONE 'Asia/Manila' AS starts,
+      (date_trunc('month', _month::timestamp) + interval '1 month') AT TIME ZONE 'Asia/Manila' AS ends
+  ),
+  badge_points AS (
+    SELECT ub.user_id, count(*) AS badge_count, sum(b.points) AS points
+    FROM public.user_badges ub
+    JOIN public.badges b ON b.id = ub.badge_id
+    CROSS JOIN bounds
+    WHERE ub.awarded_at >= bounds.starts AND ub.awarded_at < bounds.ends
+    GROUP BY ub.user_id
+  ),
+  check_in_points AS (
+    SELECT c.user_id, count(DISTINCT c.spot_id) AS spot_count
+    FROM public.check_ins c
+    CROSS JOIN bounds
+    WHERE c.checked_in_at >= bounds.starts AND c.checked_in_at < bounds.ends
+    GROUP BY c.user_id
+  ),
+  scores AS (
+    SELECT p.id, p.full_name, p.avatar_url,
+      coalesce(bp.points, 0) + coalesce(cp.spot_count, 0) AS points,
+      coalesce(bp.badge_count, 0) AS badge_count,
+      coalesce(cp.spot_count, 0) AS spot_count
+    FROM public.profiles p
+    LEFT JOIN badge_points bp ON bp.user_id = p.id
+    LEFT JOIN check_in_points cp ON cp.user_id = p.id
+    WHERE p.leaderboard_opt_in AND (bp.user_id IS NOT NULL OR cp.user_id IS NOT NULL)
+  )
+  SELECT rank() OVER (ORDER BY s.points DESC), s.id, s.full_name, s.avatar_url, s.points::bigint, s.badge_count, s.spot_count
+  FROM scores s
+  ORDER BY s.points DESC, s.full_name
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.monthly_leaderboard(date, integer) TO anon, authenticated;
+
+-- Starter set; the backfill trigger awards them to anyone already qualifying
+INSERT INTO public.badges (name, description, icon, rule_type, rule_params, threshold, points) VALUES
+  ('First Stamp', 'Check in at your first tourist spot', 'stamp', 'check_ins', '{}', 1, 5),
+  ('Wanderer', 'Check in at 10 different spots', 'compass', 'check_ins', '{}', 10, 20),
+  ('District 1 Explorer', 'Check in in every District 1 town', 'map', 'towns',
+    '{"towns": ["Bacacay", "Malilipot", "Malinao", "Santo Domingo", "Tabaco City", "Tiwi"]}', 6, 50),
+  ('District 2 Explorer', 'Check in in every District 2 town', 'map', 'towns',
+    '{"towns": ["Camalig", "Daraga", "Legazpi City", "Manito", "Rapu-Rapu"]}', 5, 50),
+  ('District 3 Explorer', 'Check in in every District 3 town', 'map', 'towns',
+    '{"towns": ["Guinobatan", "Jovellar", "Libon", "Ligao City", "Oas", "Pio Duran", "Polangui"]}', 7, 50),
+  ('Albay Completionist', 'Check in in all 18 towns and cities of Albay', 'trophy', 'towns', '{}', 18, 150),
+  ('Gem Hunter', 'Check in at 3 hidden gems', 'gem', 'hidden_gems', '{}', 3, 25),
+  ('Critic', 'Review 10 different places', 'message-square', 'reviews', '{}', 10, 25),
+  ('Trip Planner', 'Build 3 itineraries', 'route', 'itineraries', '{}', 3, 10);
+
+-- Only seeded when the spot is listed; admins can point it at the right one later
+INSERT INTO public.badges (name, description, icon, rule_type, rule_params, threshold, points)
+SELECT 'Skyline Climber', 'Check in at the Mayon Skyline view deck', 'mountain', 'spots',
+  jsonb_build_object('spot_ids', jsonb_agg(s.id)), 1, 30
+FROM public.tourist_spots s
+WHERE s.name ILIKE '%mayon skyline%'
+HAVING count(*) > 0;
@@ -0,0 +1,199 @@
+-- Events get a start and end instead of a single day, an optional repeat
+-- rule and real type tags instead of a comma-joined string.
+--
+-- starts_at/ends_at bound the first occurrence; ends_at is exclusive, so an
+-- all-day event runs from midnight of its first day to midnight after its
+-- last day, Asia/Manila time. Repeats are expanded by event_occurrences().
+ALTER TABLE public.events
+  ADD COLUMN starts_at timestamp with time zone,
+  ADD COLUMN ends_at timestamp with time zone,
+  ADD COLUMN all_day boolean NOT NULL DEFAULT true,
+  ADD COLUMN recurrence text NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'weekly', 'monthly', 'yearly')),
+  ADD COLUMN recurrence_until date,
+  ADD COLUMN event_types text[] NOT NULL DEFAULT '{}',
+  ADD CONSTRAINT events_schedule_check CHECK ((starts_at IS NULL) = (ends_at IS NULL) AND ends_at > starts_at),
+  ADD CONSTRAINT events_recurrence_check CHECK (recurrence = 'none' OR starts_at IS NOT NULL);
+
+UPDATE public.events
+SET starts_at = event_date::timestamp AT TIME ZONE 'Asia/Manila',
+    ends_at = (event_date + 1)::timestamp AT TIME ZONE 'Asia/Manila'
+WHERE event_date IS NOT NULL;
+
+UPDATE public.events
+SET event_types = ARRAY(
+  SELECT btrim(type) FROM unnest(string_to_array(event_type, ',')) AS type WHERE btrim(type) <> ''
+)
+WHERE event_type IS NOT NULL;
+
+CREATE INDEX events_starts_at_idx ON public.events (starts_at);
+
+-- The search vector read event_type, so it is rebuilt from the tags.
+-- array_to_string() is only STABLE, hence the wrapper for the generated column.
+CREATE FUNCTION public.event_types_text(_types text[]) RETURNS text
+    LANGUAGE sql IMMUTABLE
+    AS $$ SELECT array_to_string(_types, ' ') $$;
+
+ALTER TABLE public.events DROP COLUMN search_vector;
+ALTER TABLE public.events DROP COLUMN event_type;
+ALTER TABLE public.events DROP COLUMN event_date;
+
+ALTER TABLE public.events ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A')
+  || setweight(to_tsvector('simple', coalesce(municipality, '') || ' ' || coalesce(location, '') || ' ' || public.event_types_text(event_types)), 'B')
+  || setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+) STORED;
+
+CREATE INDEX events_search_idx ON public.events USING gin (search_vector);
+
+-- Undated events, ones still running and repeats that haven't ended
+CREATE FUNCTION public.event_is_upcoming(_event public.events) RETURNS boolean
+    LANGUAGE sql STABLE
+    AS $$
+  SELECT _event.starts_at IS NULL
+    OR _event.ends_at > now()
+    OR (_event.recurrence <> 'none' AND (_event.recurrence_until IS NULL OR _event.recurrence_until >= (now() AT TIME ZONE 'Asia/Manila')::date));
+$$;
+
+-- Every occurrence overlapping [_from, _to), earliest first. Repeats step
+-- from the first start in Manila local time, so a fiesta on the 31st lands
+-- on the last day of shorter months and comes back to the 31st after.
+-- Runs as the caller, so the events RLS still applies.
+CREATE FUNCTION public.event_occurrences(_from timestamp with time zone, _to timestamp with time zone)
+RETURNS TABLE(event_id uuid, starts_at timestamp with time zone, ends_at timestamp with time zone)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  WITH dated AS (
+    SELECT e.id,
+      e.starts_at AT TIME ZONE 'Asia/Manila' AS first_start,
+      e.ends_at - e.starts_at AS length,
+      CASE e.recurrence WHEN 'weekly' THEN interval '7 days' WHEN 'monthly' THEN interval '1 month' WHEN 'yearly' THEN interval '1 year' END AS step,
+      -- Shortest gap between two starts, to bound the series
+      CASE e.recurrence WHEN 'weekly' THEN 7 WHEN 'monthly' THEN 28 WHEN 'yearly' THEN 365 END AS min_gap_days,
+      LEAST(
+        _to AT TIME ZONE 'Asia/Manila',
+        CASE WHEN e.recurrence <> 'none' THEN (e.recurrence_until + 1)::timestamp END
+      ) AS starts_before
+    FROM public.events e
+    WHERE e.starts_at IS NOT NULL AND e.starts_at < _to AND _from < _to
+  ), occurrences AS (
+    SELECT d.id, d.first_start + n * coalesce(d.step, interval '0') AS local_start, d.length, d.starts_before
+    FROM dated d
+    CROSS JOIN LATERAL generate_series(
+      0,
+      CASE WHEN d.step IS NULL THEN 0
+        ELSE GREATEST(floor(extract(epoch FROM d.starts_before - d.first_start) / 86400 / d.min_gap_days)::integer, 0) END
+    ) AS n
+  )
+  SELECT o.id, o.local_start AT TIME ZONE 'Asia/Manila', (o.local_start AT TIME ZONE 'Asia/Manila') + o.length
+  FROM occurrences o
+  WHERE o.local_start < o.starts_before
+    AND (o.local_start AT TIME ZONE 'Asia/Manila') + o.length > _from
+  ORDER BY 2, 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.event_occurrences(timestamp with time zone, timestamp with time zone) TO anon, authenticated;
+
+-- Same as before, with event_is_upcoming() in place of the event_date check
+CREATE OR REPLACE FUNCTION public.nearby_places(
+  _lat double precision,
+  _lng double precision,
+  _radius_km double precision DEFAULT 10,
+  _kinds text[] DEFAULT NULL,
+  _limit integer DEFAULT 100
+) RETURNS TABLE(kind text, id uuid, name text, municipality text, location text, image_url text, latitude double precision, longitude double precision, distance_km double precision)
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public', 'extensions'
+    AS $$
+DECLARE
+  _origin geography := st_setsrid(st_makepoint(_lng, _lat), 4326)::geography;
+  _meters double precision := LEAST(GREATEST(_radius_km, 0), 200) * 1000;
+BEGIN
+  RETURN QUERY
+  SELECT places.*
+  FROM (
+    SELECT 'spot'::text, s.id, s.name, s.municipality, s.location, s.image_url,
+      s.latitude::double precision, s.longitude::double precision, st_distance(s.geog, _origin) / 1000
+    FROM public.tourist_spots s
+    WHERE (_kinds IS NULL OR 'spot' = ANY(_kinds)) AND st_dwithin(s.geog, _origin, _meters)
+    UNION ALL
+    SELECT 'accommodation'::text, a.id, a.name, a.municipality, a.location, a.image_url,
+      a.latitude::double precision, a.longitude::double precision, st_distance(a.geog, _origin) / 1000
+    FROM public.accommodations a
+    WHERE (_kinds IS NULL OR 'accommodation' = ANY(_kinds)) AND st_dwithin(a.geog, _origin, _meters)
+    UNION ALL
+    SELECT 'restaurant'::text, r.id, r.name, r.municipality, r.location, r.image_url,
+      r.latitude::double precision, r.longitude::double precision, st_distance(r.geog, _origin) / 1000
+    FROM public.restaurants r
+    WHERE (_kinds IS NULL OR 'restaurant' = ANY(_kinds)) AND st_dwithin(r.geog, _origin, _meters)
+    UNION ALL
+    SELECT 'event'::text, e.id, e.name, e.municipality, e.location, e.image_url,
+      e.latitude::double precision, e.longitude::double precision, st_distance(e.geog, _origin) / 1000
+    FROM public.events e
+    WHERE (_kinds IS NULL OR 'event' = ANY(_kinds)) AND st_dwithin(e.geog, _origin, _meters)
+      AND public.event_is_upcoming(e)
+  ) AS places(kind, id, name, municipality, location, image_url, latitude, longitude, distance_km)
+  ORDER BY places.distance_km
+  LIMIT LEAST(GREATEST(_limit, 1), 500);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_places(
+  _query text,
+  _kinds text[] DEFAULT NULL,
+  _limit_per_kind integer DEFAULT 5
+) RETURNS TABLE(kind text, id uuid, name text, name_highlight text, snippet text, municipality text, image_url text, latitude double precision, longitude double precision, rank real)
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public', 'extensions'
+    AS $$
+DECLARE
+  _text text := btrim(regexp_replace(lower(coalesce(_query, '')), '\s+', ' ', 'g'));
+  _tsquery tsquery;
+  _limit integer := LEAST(GREATEST(_limit_per_kind, 1), 20);
+BEGIN
+  IF length(_text) < 2 THEN
+    RETURN;
+  END IF;
+
+  _tsquery := coalesce(public.search_tsquery(_text), ''::tsquery);
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT 'spot'::text AS kind, s.id, s.name, s.description, s.municipality, s.image_url,
+      s.latitude::double precision AS latitude, s.longitude::double precision AS longitude,
+      ts_rank(s.search_vector, _tsquery) + word_similarity(_text, s.name) AS score
+    FROM public.tourist_spots s
+    WHERE (_kinds IS NULL OR 'spot' = ANY(_kinds)) AND (s.search_vector @@ _tsquery OR _text <% s.name)
+    UNION ALL
+    SELECT 'accommodation'::text, a.id, a.name, a.description, a.municipality, a.image_url,
+      a.latitude::double precision, a.longitude::double precision,
+      ts_rank(a.search_vector, _tsquery) + word_similarity(_text, a.name)
+    FROM public.accommodations a
+    WHERE (_kinds IS NULL OR 'accommodation' = ANY(_kinds)) AND (a.search_vector @@ _tsquery OR _text <% a.name)
+    UNION ALL
+    SELECT 'restaurant'::text, r.id, r.name, r.description, r.municipality, r.image_url,
+      r.latitude::double precision, r.longitude::double precision,
+      ts_rank(r.search_vector, _tsquery) + word_similarity(_text, r.name)
+    FROM public.restaurants r
+    WHERE (_kinds IS NULL OR 'restaurant' = ANY(_kinds)) AND (r.search_vector @@ _tsquery OR _text <% r.name)
+    UNION ALL
+    SELECT 'event'::text, e.id, e.name, e.description, e.municipality, e.image_url,
+      e.latitude::double precision, e.longitude::double precision,
+      ts_rank(e.search_vector, _tsquery) + word_similarity(_text, e.name)
+    FROM public.events e
+    WHERE (_kinds IS NULL OR 'event' = ANY(_kinds)) AND (e.search_vector @@ _tsquery OR _text <% e.name)
+      AND public.event_is_upcoming(e)
+  ), ranked AS (
+    SELECT m.*, row_number() OVER (PARTITION BY m.kind ORDER BY m.score DESC, m.name) AS position
+    FROM matches m
+  )
+  SELECT r.kind, r.id, r.name,
+    ts_headline('simple', r.name, _tsquery, 'HighlightAll=true'),
+    CASE WHEN r.description IS NULL THEN NULL
+      ELSE ts_headline('simple', r.description, _tsquery, 'MaxWords=20, MinWords=8, MaxFragments=1') END,
+    r.municipality, r.image_url, r.latitude, r.longitude, r.score::real
+  FROM ranked r
+  WHERE r.position <= _limit
+  ORDER BY r.score DESC, r.name;
+END;
+$$;
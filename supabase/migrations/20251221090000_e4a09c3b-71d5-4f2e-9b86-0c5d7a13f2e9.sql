@@ -0,0 +1,85 @@
+-- "Interested" and "going" on events. An RSVP covers every occurrence of a
+-- repeating event until it is removed. reminders lists how long before each
+-- start the user wants to hear about it: 1w, 1d or 2h.
+CREATE TABLE public.event_rsvps (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('interested', 'going')),
+  reminders text[] NOT NULL DEFAULT '{1d}' CHECK (reminders <@ ARRAY['1w', '1d', '2h']),
+  email_reminders boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, event_id)
+);
+
+CREATE INDEX idx_event_rsvps_event_id ON public.event_rsvps(event_id);
+
+ALTER TABLE public.event_rsvps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own event RSVPs" ON public.event_rsvps FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add own event RSVPs" ON public.event_rsvps FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own event RSVPs" ON public.event_rsvps FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own event RSVPs" ON public.event_rsvps FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_event_rsvps_updated_at BEFORE UPDATE ON public.event_rsvps FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which reminders have gone out, so a rerun of the sender never repeats one.
+-- reminder is an RSVP reminder (1w, 1d, 2h) or 'district', the 3-day notice
+-- sent to everyone in the event's district.
+CREATE TABLE public.event_reminder_log (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  occurrence_start timestamp with time zone NOT NULL,
+  reminder text NOT NULL,
+  sent_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, event_id, occurrence_start, reminder)
+);
+
+-- Only the service role reads or writes it
+ALTER TABLE public.event_reminder_log ENABLE ROW LEVEL SECURITY;
+
+-- Claims the reminders due at _now and returns them for sending. Per
+-- occurrence only the closest due reminder is sent, so someone who RSVPs an
+-- hour before gets the 2-hour reminder instead of all three at once.
+CREATE FUNCTION public.claim_event_reminders(_now timestamp with time zone DEFAULT now())
+RETURNS TABLE(user_id uuid, event_id uuid, occurrence_start timestamp with time zone, reminder text, email_reminders boolean)
+    LANGUAGE sql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  WITH due AS (
+    SELECT r.user_id, r.event_id, o.starts_at AS occurrence_start, offsets.reminder, r.email_reminders,
+      row_number() OVER (PARTITION BY r.user_id, r.event_id, o.starts_at ORDER BY offsets.lead) AS closest
+    FROM public.event_rsvps r
+    JOIN public.event_occurrences(_now, _now + interval '8 days') o ON o.event_id = r.event_id
+    CROSS JOIN LATERAL (VALUES ('1w', interval '7 days'), ('1d', interval '1 day'), ('2h', interval '2 hours')) AS offsets(reminder, lead)
+    WHERE offsets.reminder = ANY(r.reminders)
+      AND o.starts_at > _now
+      AND o.starts_at - offsets.lead <= _now
+  ), claimed AS (
+    INSERT INTO public.event_reminder_log (user_id, event_id, occurrence_start, reminder)
+    SELECT d.user_id, d.event_id, d.occurrence_start, d.reminder
+    FROM due d
+    WHERE d.closest = 1
+    ON CONFLICT DO NOTHING
+    RETURNING event_reminder_log.user_id, event_reminder_log.event_id, event_reminder_log.occurrence_start, event_reminder_log.reminder
+  )
+  SELECT c.user_id, c.event_id, c.occurrence_start, c.reminder, d.email_reminders
+  FROM claimed c
+  JOIN due d USING (user_id, event_id, occurrence_start, reminder);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_event_reminders(timestamp with time zone) FROM PUBLIC, anon, authenticated;
+
+-- Secret per-user address of the iCalendar feed. Anyone holding the token can
+-- read the feed, so resetting it replaces the row.
+CREATE TABLE public.calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed" ON public.calendar_feeds FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own calendar feed" ON public.calendar_feeds FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own calendar feed" ON public.calendar_feeds FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- Run send-event-notifications every 15 minutes so 2-hour RSVP reminders
+-- arrive on time. The project URL and the shared secret come from Vault;
+-- create both before this job first fires:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<random string>', 'event_notifications_secret');
+-- and set the same string as the function's EVENT_NOTIFICATIONS_SECRET.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-event-notifications',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-event-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'event_notifications_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);